@@ -0,0 +1,95 @@
+/**
+ * Benchmark de precisão da extração de candles, executado no Node.
+ *
+ *   npm run benchmark                     # compara com a linha de base salva
+ *   npm run benchmark -- --update-baseline
+ *   npm run benchmark -- --seed 7
+ *
+ * Os módulos TypeScript são carregados pelo Vite (mesmos aliases do app).
+ *
+ * O Node não tem canvas: o @napi-rs/canvas faz o papel do OffscreenCanvas,
+ * tanto para desenhar os rótulos do gráfico sintético quanto para os modelos
+ * de fontes do sistema do OCR, como no navegador. Fontes abertas com as
+ * mesmas métricas são registradas com o nome das fontes das plataformas
+ * (Arimo como Arial, DejaVu Sans Condensed como Tahoma, Roboto), para que o
+ * resultado não dependa das fontes instaladas na máquina.
+ */
+
+import { createServer } from 'vite';
+import { Canvas, GlobalFonts } from '@napi-rs/canvas';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const FONTS = {
+  Arial: '@fontsource/arimo/files/arimo-latin-400-normal.woff2',
+  Tahoma: 'dejavu-fonts-ttf/ttf/DejaVuSansCondensed.ttf',
+  Roboto: '@fontsource/roboto/files/roboto-latin-400-normal.woff2'
+};
+for (const [family, file] of Object.entries(FONTS)) {
+  GlobalFonts.registerFromPath(require.resolve(file), family);
+}
+globalThis.OffscreenCanvas = Canvas;
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const baselinePath = resolve(root, 'benchmarks/extraction-baseline.json');
+
+const args = process.argv.slice(2);
+const updateBaseline = args.includes('--update-baseline');
+const seedIndex = args.indexOf('--seed');
+const seed = seedIndex >= 0 ? Number(args[seedIndex + 1]) : 42;
+
+const server = await createServer({
+  root,
+  configFile: resolve(root, 'vite.config.ts'),
+  mode: 'production',
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false }
+});
+
+let exitCode = 0;
+try {
+  const { runExtractionBenchmark, formatBenchmarkReport, compareWithBaseline } =
+    await server.ssrLoadModule('/src/utils/extractionBenchmark.ts');
+
+  // O extrator registra cada etapa no console; silenciar durante a medição
+  const log = console.log;
+  console.log = () => {};
+  let report;
+  try {
+    report = await runExtractionBenchmark({ seed });
+  } finally {
+    console.log = log;
+  }
+
+  console.log(formatBenchmarkReport(report));
+
+  if (updateBaseline) {
+    mkdirSync(dirname(baselinePath), { recursive: true });
+    writeFileSync(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nLinha de base atualizada: ${baselinePath}`);
+  } else if (existsSync(baselinePath)) {
+    const baseline = JSON.parse(readFileSync(baselinePath, 'utf8'));
+    if (baseline.seed !== seed) {
+      console.log(`\nLinha de base gerada com seed ${baseline.seed}; comparação ignorada.`);
+    } else {
+      const regressions = compareWithBaseline(report, baseline);
+      if (regressions.length > 0) {
+        console.log('\nRegressões em relação à linha de base:');
+        regressions.forEach(regression => console.log(`  - ${regression}`));
+        exitCode = 1;
+      } else {
+        console.log('\nSem regressões em relação à linha de base (falhas conhecidas em benchmarks/README.md).');
+      }
+    }
+  } else {
+    console.log('\nNenhuma linha de base salva (use --update-baseline).');
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(exitCode);
@@ -3,8 +3,28 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAnalyzer } from '@/context/AnalyzerContext';
-import { TrendingUp, Volume, Activity, BarChart3, AlertTriangle } from 'lucide-react';
+import { TrendingUp, Volume, Activity, BarChart3, AlertTriangle, Ruler, Clock, Gauge } from 'lucide-react';
 import MasterAnalysisDisplay from './MasterAnalysisDisplay';
+import { formatRatio } from '@/utils/fibonacciAnalysis';
+
+// Linha principal do indicador ao longo dos candles analisados
+const IndicatorSparkline = ({ values }: { values: (number | null)[] }) => {
+  const points = values
+    .map((value, index) => ({ value, index }))
+    .filter((point): point is { value: number; index: number } => point.value !== null);
+  if (points.length < 2) return null;
+
+  const max = Math.max(...points.map(point => point.value));
+  const min = Math.min(...points.map(point => point.value));
+  const path = points
+    .map(point => `${(point.index / (values.length - 1)) * 100},${max > min ? (1 - (point.value - min) / (max - min)) * 20 : 10}`)
+    .join(' ');
+  return (
+    <svg viewBox="0 0 100 20" preserveAspectRatio="none" className="w-24 h-5 text-primary">
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
 
 const AnalysisResults = () => {
   const { analysisResults } = useAnalyzer();
@@ -24,9 +44,25 @@ const AnalysisResults = () => {
     marketContext, 
     volumeData, 
     volatilityData, 
-    masterAnalysis 
+    technicalIndicators = [],
+    divergences = [],
+    fibonacci,
+    entryRecommendations = [],
+    masterAnalysis,
+    priceCalibration,
+    timeCalibration,
+    chartType,
+    candles,
+    panoramaFrames
   } = analysisResults;
 
+  const chartTypeLabels: Record<string, string> = {
+    candles: 'Candlestick',
+    ohlc_bars: 'Barras OHLC',
+    line: 'Gráfico de Linha',
+    heikin_ashi: 'Heikin-Ashi'
+  };
+
   console.log('AnalysisResults - patterns extraídos:', patterns);
   console.log('AnalysisResults - patterns length:', patterns.length);
   
@@ -82,6 +118,12 @@ const AnalysisResults = () => {
                       )}
                     </div>
                   )}
+                  {(pattern.takeProfit || pattern.stopLoss) && (
+                    <div className="text-xs mt-2">
+                      {pattern.takeProfit && <span className="mr-3">Alvo: {pattern.takeProfit}</span>}
+                      {pattern.stopLoss && <span>Invalidação: {pattern.stopLoss}</span>}
+                    </div>
+                  )}
                   <div className="text-xs mt-2 text-gray-500">
                     Pattern source: {pattern.type}
                   </div>
@@ -148,6 +190,86 @@ const AnalysisResults = () => {
         </Card>
       )}
 
+      {/* Technical Indicators */}
+      {technicalIndicators.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Indicadores Técnicos
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {technicalIndicators.map(indicator => (
+              <div key={indicator.name} className="text-sm border-b last:border-0 pb-2 last:pb-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{indicator.name}</span>
+                  <div className="flex items-center gap-2">
+                    {indicator.series && <IndicatorSparkline values={Object.values(indicator.series)[0]} />}
+                    <Badge variant={indicator.signal === 'alta' ? 'default' : indicator.signal === 'baixa' ? 'destructive' : 'secondary'}>
+                      {indicator.signal} · {indicator.strength}
+                    </Badge>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">{indicator.value} — {indicator.description}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Divergences */}
+      {divergences.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5" />
+              Divergências
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {divergences.slice(0, 5).map((divergence, index) => (
+              <div key={index} className="flex items-start justify-between gap-2">
+                <p className="text-xs">{divergence.description}</p>
+                <Badge variant={divergence.direction === 'alta' ? 'default' : 'destructive'}>
+                  {divergence.strength} {Math.round(divergence.confidence * 100)}%
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Fibonacci do impulso dominante */}
+      {fibonacci && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="h-5 w-5" />
+              Fibonacci
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="text-xs text-muted-foreground">
+              Impulso de {fibonacci.direction} {fibonacci.impulse[0].price.toFixed(4)} → {fibonacci.impulse[1].price.toFixed(4)}, retração atual de {formatRatio(fibonacci.retracement)}
+            </p>
+            <div className="grid grid-cols-2 gap-1 text-xs">
+              {fibonacci.levels.map(level => (
+                <div key={`${level.kind}-${level.ratio}`} className={level.confluence > 0 ? 'font-medium' : 'text-muted-foreground'}>
+                  {level.kind === 'retração' ? 'Ret.' : 'Ext.'} {formatRatio(level.ratio)}: {level.price.toFixed(4)}
+                  {level.nearLevel !== undefined && ` (S/R ${level.nearLevel.toFixed(4)})`}
+                </div>
+              ))}
+            </div>
+            {entryRecommendations.slice(0, 1).map((entry, index) => (
+              <p key={index} className="text-xs">
+                <span className="font-medium">Sugestão:</span> {entry.action} em {entry.entryPrice.toFixed(4)}, stop {entry.stopLoss.toFixed(4)}, alvo {entry.takeProfit.toFixed(4)} (R:R {entry.riskReward.toFixed(1)})
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Volatility Analysis */}
       {volatilityData && (
         <Card>
@@ -176,6 +298,108 @@ const AnalysisResults = () => {
         </Card>
       )}
 
+      {/* Price Axis Calibration */}
+      {priceCalibration !== undefined && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="h-5 w-5" />
+              Escala de Preço
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {priceCalibration ? (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="font-medium">Confiança:</span>{' '}
+                  <Badge variant={priceCalibration.confidence >= 0.6 ? 'default' : 'secondary'}>
+                    {Math.round(priceCalibration.confidence * 100)}%
+                  </Badge>
+                </div>
+                <div>
+                  <span className="font-medium">Eixo:</span> {priceCalibration.axisSide === 'right' ? 'direita' : 'esquerda'}
+                </div>
+                <div>
+                  <span className="font-medium">Rótulos lidos:</span>{' '}
+                  {priceCalibration.labels.filter(label => label.inlier).length}/{priceCalibration.labels.length}
+                </div>
+                <div>
+                  <span className="font-medium">Formato:</span> decimal "{priceCalibration.decimalSeparator}", {priceCalibration.decimals} casas
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Eixo de preço não identificado: os valores OHLC estão em escala relativa.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Time Axis Calibration */}
+      {timeCalibration !== undefined && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Eixo de Tempo
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {timeCalibration ? (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="font-medium">Confiança:</span>{' '}
+                  <Badge variant={timeCalibration.confidence >= 0.6 ? 'default' : 'secondary'}>
+                    {Math.round(timeCalibration.confidence * 100)}%
+                  </Badge>
+                </div>
+                <div>
+                  <span className="font-medium">Timeframe:</span> {timeCalibration.timeframe || 'não inferido'}
+                </div>
+                <div>
+                  <span className="font-medium">Rótulos lidos:</span>{' '}
+                  {timeCalibration.labels.filter(label => label.timestamp !== null).length}/{timeCalibration.labels.length}
+                </div>
+                <div>
+                  <span className="font-medium">Rótulos:</span> {timeCalibration.labels.map(label => label.text).filter(Boolean).slice(0, 4).join(', ') || 'N/A'}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Eixo de tempo não identificado: horários estimados pelo timeframe selecionado.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {chartType && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Tipo de Gráfico
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-2">
+            <Badge variant="outline">{chartTypeLabels[chartType]}</Badge>
+            {(chartType === 'line' || chartType === 'heikin_ashi') && (
+              <p className="text-muted-foreground">
+                {chartType === 'line'
+                  ? 'Apenas preços de fechamento disponíveis: padrões de candle não foram analisados.'
+                  : 'Valores OHLC suavizados pelo Heikin-Ashi: padrões de candle não foram analisados.'}
+              </p>
+            )}
+            {panoramaFrames && (
+              <p className="text-muted-foreground">
+                Série panorama: {candles?.length || 0} candles mesclados de {panoramaFrames} prints.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Master Analysis Display */}
       {masterAnalysis && (
         <div className="w-full">
@@ -2,14 +2,18 @@ import React, { useRef, useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAnalyzer } from '@/context/AnalyzerContext';
-import { Camera, X, FlipHorizontal, Upload, Image, AlertTriangle, ScanSearch, ScanFace, BarChart2, CandlestickChart, Activity } from 'lucide-react';
+import { Camera, X, FlipHorizontal, Upload, Image, AlertTriangle, ScanSearch, ScanFace, BarChart2, CandlestickChart, Activity, Images, Film } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { enhanceImageForAnalysis, isImageClearForAnalysis } from '@/utils/imagePreProcessing';
-import { checkImageQuality } from '@/utils/imageProcessing';
+import { enhanceImageForAnalysis, isImageClearForAnalysis, pixelsToImageUrl } from '@/utils/imagePreProcessing';
+import { checkImageQualityInWorker, cleanScreenCaptureInWorker } from '@/utils/chartAnalysisClient';
 import { motion } from 'framer-motion';
 import { useIsMobile } from '@/hooks/use-mobile';
 import LiveAnalysis from './LiveAnalysis';
+import PanoramaUpload from './PanoramaUpload';
+import VideoSessionReview from './VideoSessionReview';
+import PerspectiveCornerEditor from './PerspectiveCornerEditor';
+import { Quad, detectPerspective, correctPerspective, defaultQuad } from '@/utils/perspectiveCorrection';
 
 const CameraView = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -21,11 +25,99 @@ const CameraView = () => {
   const [cameraAccessAttempted, setCameraAccessAttempted] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [activeTab, setActiveTab] = useState('photo');
+  const [perspectiveDraft, setPerspectiveDraft] = useState<{
+    imageUrl: string;
+    corners: Quad;
+    imageSize: { width: number; height: number };
+    message: string;
+  } | null>(null);
   const isMobile = useIsMobile();
 
   const { setCapturedImage } = useAnalyzer();
   const { toast } = useToast();
 
+  // Avisar sobre a qualidade: problemas corrigíveis seguem para o pré-processamento, os demais pedem nova captura
+  const reportClarity = (clarityCheck: Awaited<ReturnType<typeof isImageClearForAnalysis>>) => {
+    if (!clarityCheck.recoverable) {
+      toast({
+        variant: "destructive",
+        title: "⚠ Nova Captura Recomendada",
+        description: clarityCheck.issues.join('. ') + ". O pré-processamento não consegue recuperar esta imagem.",
+      });
+    } else if (!clarityCheck.isClear) {
+      toast({
+        variant: "default",
+        title: "⚠ Imagem com Baixa Qualidade",
+        description: clarityCheck.issues.join('. ') + ". Tentando melhorar automaticamente.",
+      });
+    } else if (clarityCheck.corrections.length > 0) {
+      toast({
+        variant: "default",
+        title: "Captura de Tela Corrigida",
+        description: clarityCheck.corrections.join('. ') + ".",
+      });
+    }
+  };
+
+  // Depois da retificação: limpar moiré, faixas e reflexo no worker (uma vez), conferir a clareza e melhorar
+  const cleanAndEnhance = async (rectifiedUrl: string): Promise<string> => {
+    const { report, pixels } = await cleanScreenCaptureInWorker(rectifiedUrl);
+    if (pixels) console.log('Limpeza da captura de tela:', report.corrections.join('; '));
+    const cleanedUrl = pixels ? pixelsToImageUrl(pixels) : rectifiedUrl;
+
+    reportClarity(await isImageClearForAnalysis(cleanedUrl, report));
+    return enhanceImageForAnalysis(cleanedUrl);
+  };
+
+  // Retificar a foto do monitor; sem detecção confiável, abrir o ajuste manual dos cantos (retorna null)
+  const rectifyPerspective = async (imageUrl: string): Promise<string | null> => {
+    const { detection, imageSize } = await detectPerspective(imageUrl);
+
+    if (detection && detection.confidence >= 0.6) {
+      return detection.needsCorrection ? correctPerspective(imageUrl, detection.corners) : imageUrl;
+    }
+
+    setPerspectiveDraft({
+      imageUrl,
+      corners: detection?.corners || defaultQuad(imageSize.width, imageSize.height),
+      imageSize,
+      message: detection
+        ? 'Confira os cantos detectados e ajuste-os às bordas do gráfico.'
+        : 'Não foi possível detectar a tela. Arraste os cantos até as bordas do gráfico.'
+    });
+    return null;
+  };
+
+  // Concluir o ajuste manual: retificar (ou não), limpar, melhorar e enviar para análise
+  const finishPerspectiveAdjustment = async (corners: Quad | null) => {
+    if (!perspectiveDraft) return;
+
+    try {
+      setIsProcessing(true);
+      const rectifiedUrl = corners
+        ? await correctPerspective(perspectiveDraft.imageUrl, corners)
+        : perspectiveDraft.imageUrl;
+      const enhancedImageUrl = await cleanAndEnhance(rectifiedUrl);
+
+      setCapturedImage(enhancedImageUrl);
+      setPerspectiveDraft(null);
+      toast({
+        variant: "default",
+        title: "✓ Imagem Processada",
+        description: corners ? "Perspectiva corrigida e imagem pronta para análise." : "Imagem pronta para análise.",
+      });
+    } catch (error) {
+      console.error('Error correcting perspective:', error);
+      toast({
+        variant: "destructive",
+        title: "✗ Erro na correção",
+        description: "Não foi possível corrigir a perspectiva. Ajuste os cantos e tente novamente.",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Start camera stream
   const startCamera = async () => {
     try {
@@ -122,23 +214,18 @@ const CameraView = () => {
             // Get the basic captured image
             const basicImageUrl = canvas.toDataURL('image/jpeg', 0.95);
             
-            // Check if the image is clear enough for analysis
-            const clarityCheck = await isImageClearForAnalysis(basicImageUrl);
-            
-            if (!clarityCheck.isClear) {
-              // Image not clear enough, show warning but continue
-              toast({
-                variant: "default",
-                title: "⚠ Imagem com Baixa Qualidade",
-                description: clarityCheck.issues.join('. ') + ". Tentando melhorar automaticamente.",
-              });
+            // Correct the keystone distortion before cleaning and enhancing
+            const rectifiedImageUrl = await rectifyPerspective(basicImageUrl);
+            if (!rectifiedImageUrl) {
+              stopCamera();
+              return;
             }
             
-            // Enhance the image for better analysis
-            const enhancedImageUrl = await enhanceImageForAnalysis(basicImageUrl);
+            // Clean the screen capture, check its clarity and enhance it for better analysis
+            const enhancedImageUrl = await cleanAndEnhance(rectifiedImageUrl);
             
             // Check quality of enhanced image
-            const qualityCheck = await checkImageQuality(enhancedImageUrl);
+            const qualityCheck = await checkImageQualityInWorker(enhancedImageUrl);
             
             setCapturedImage(enhancedImageUrl);
             stopCamera();
@@ -203,23 +290,15 @@ const CameraView = () => {
         const imageUrl = e.target?.result as string;
         if (imageUrl) {
           try {
-            // Check image clarity
-            const clarityCheck = await isImageClearForAnalysis(imageUrl);
+            // Correct the keystone distortion of photos taken at an angle
+            const rectifiedImageUrl = await rectifyPerspective(imageUrl);
+            if (!rectifiedImageUrl) return;
             
-            if (!clarityCheck.isClear) {
-              // Warn about image quality
-              toast({
-                variant: "default",
-                title: "⚠ Imagem com Baixa Qualidade",
-                description: clarityCheck.issues.join('. ') + ". Tentando melhorar automaticamente.",
-              });
-            }
-            
-            // Enhance the image
-            const enhancedImageUrl = await enhanceImageForAnalysis(imageUrl);
+            // Clean, check clarity and enhance the image
+            const enhancedImageUrl = await cleanAndEnhance(rectifiedImageUrl);
             
             // Check quality of enhanced image
-            const qualityCheck = await checkImageQuality(enhancedImageUrl);
+            const qualityCheck = await checkImageQualityInWorker(enhancedImageUrl);
             
             setCapturedImage(enhancedImageUrl);
             
@@ -297,7 +376,7 @@ const CameraView = () => {
       transition={{ duration: 0.3 }}
     >
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2 mb-4">
+        <TabsList className="grid w-full grid-cols-4 mb-4">
           <TabsTrigger value="photo" className="gap-2">
             <Camera className="w-4 h-4" />
             Capturar Foto
@@ -306,10 +385,30 @@ const CameraView = () => {
             <Activity className="w-4 h-4" />
             Análise Live
           </TabsTrigger>
+          <TabsTrigger value="panorama" className="gap-2">
+            <Images className="w-4 h-4" />
+            Panorama
+          </TabsTrigger>
+          <TabsTrigger value="video" className="gap-2">
+            <Film className="w-4 h-4" />
+            Gravação
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="photo" className="w-full">
-          <div className="relative w-full overflow-hidden rounded-xl aspect-video bg-black">
+          {perspectiveDraft && (
+            <PerspectiveCornerEditor
+              imageUrl={perspectiveDraft.imageUrl}
+              initialCorners={perspectiveDraft.corners}
+              imageSize={perspectiveDraft.imageSize}
+              message={perspectiveDraft.message}
+              disabled={isProcessing}
+              onConfirm={corners => finishPerspectiveAdjustment(corners)}
+              onSkip={() => finishPerspectiveAdjustment(null)}
+            />
+          )}
+
+          <div className={`relative w-full overflow-hidden rounded-xl aspect-video bg-black ${perspectiveDraft ? 'hidden' : ''}`}>
             {cameraError && (
               <motion.div 
                 className="absolute inset-0 flex items-center justify-center bg-black/80 z-10 p-4"
@@ -370,7 +469,7 @@ const CameraView = () => {
             />
           </div>
           
-          <div className="flex items-center gap-3 mt-3">
+          <div className={`flex items-center gap-3 mt-3 ${perspectiveDraft ? 'hidden' : ''}`}>
             {isCameraActive ? (
               <>
                 <Button
@@ -425,7 +524,7 @@ const CameraView = () => {
           </div>
 
           {/* Sample chart examples - more compact for mobile */}
-          {!isCameraActive && (
+          {!isCameraActive && !perspectiveDraft && (
             <motion.div 
               className="grid grid-cols-2 gap-2 w-full mt-4"
               initial={{ opacity: 0, y: 10 }}
@@ -466,6 +565,14 @@ const CameraView = () => {
         <TabsContent value="live" className="w-full">
           <LiveAnalysis />
         </TabsContent>
+
+        <TabsContent value="panorama" className="w-full">
+          <PanoramaUpload />
+        </TabsContent>
+
+        <TabsContent value="video" className="w-full">
+          <VideoSessionReview />
+        </TabsContent>
       </Tabs>
     </motion.div>
   );
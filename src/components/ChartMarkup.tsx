@@ -96,9 +96,19 @@ const ChartMarkup: React.FC<ChartMarkupProps> = ({
       viewBox={viewBox}
       preserveAspectRatio="none"
     >
-      {/* Render detected candles if available */}
-      {analysisResults.candles && analysisResults.candles.map((candle, idx) => (
+      {/* Render detected candles if available (panorama candles from other screenshots have no position here) */}
+      {analysisResults.candles && analysisResults.candles.filter(candle => candle.position).map((candle, idx) => (
         <g key={`candle-${idx}`}>
+          {candle.wickTop !== undefined && candle.wickBottom !== undefined && (
+            <line
+              x1={candle.position.x}
+              y1={candle.wickTop}
+              x2={candle.position.x}
+              y2={candle.wickBottom}
+              stroke={candle.color === 'verde' ? 'green' : 'red'}
+              strokeWidth={1 * scale}
+            />
+          )}
           <rect
             x={candle.position.x - (candle.width / 2)}
             y={candle.position.y - (candle.height / 2)}
@@ -1,9 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { useAnalyzer, Point, TechnicalElement } from '@/context/AnalyzerContext';
+import { useAnalyzer, Point, TechnicalElement, ChartPanel } from '@/context/AnalyzerContext';
 import { Card } from '@/components/ui/card';
-import { detectChartRegion } from '@/utils/imageProcessing';
-import { Circle, Scan, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Move, Target } from 'lucide-react';
+import { detectChartRegion, loadImageData } from '@/utils/imageProcessing';
+import { createManualPalette } from '@/utils/paletteDetection';
+import { Circle, Scan, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Move, Target, Palette } from 'lucide-react';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
@@ -20,7 +21,9 @@ const ChartRegionSelector = () => {
     isMarkupMode,
     manualMarkupTool,
     addManualMarkup,
-    manualMarkups
+    manualMarkups,
+    candlePalette,
+    setCandlePalette
   } = useAnalyzer();
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -40,12 +43,17 @@ const ChartRegionSelector = () => {
     radius: 50
   });
   const [isPlacingCircle, setIsPlacingCircle] = useState(false);
+  const [colorCalibrationStep, setColorCalibrationStep] = useState<'bullish' | 'bearish' | null>(null);
+  const [bullishSample, setBullishSample] = useState<Point | null>(null);
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null);
+  const [detectedPanels, setDetectedPanels] = useState<ChartPanel[]>([]);
   
   const FINE_ADJUST_PX = 5;
   
   useEffect(() => {
     if (capturedImage) {
       detectChartRegion(capturedImage).then((regionResult) => {
+        setDetectedPanels(regionResult.panels || []);
         if (regionResult.success && regionResult.data) {
           setSelectedRegion({
             type: 'rectangle',
@@ -215,6 +223,34 @@ const ChartRegionSelector = () => {
     }
   };
 
+  // Calibração de cores: um toque em um candle de alta e outro em um de baixa
+  const handleColorCalibrationTap = async (point: Point) => {
+    if (colorCalibrationStep === 'bullish') {
+      setBullishSample(point);
+      setColorCalibrationStep('bearish');
+      return;
+    }
+    
+    if (!capturedImage || !bullishSample) return;
+    
+    try {
+      const { data, width, height } = await loadImageData(capturedImage);
+      const palette = createManualPalette(data, width, height, bullishSample, point);
+      if (palette) {
+        setCandlePalette(palette);
+        setCalibrationMessage('Cores calibradas e salvas para este perfil.');
+      } else {
+        setCalibrationMessage('Não foi possível ler as cores tocadas. Toque sobre o corpo dos candles.');
+      }
+    } catch (error) {
+      console.error('Erro na calibração de cores:', error);
+      setCalibrationMessage('Erro ao calibrar as cores.');
+    }
+    
+    setColorCalibrationStep(null);
+    setBullishSample(null);
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!containerRef.current) return;
 
@@ -227,6 +263,11 @@ const ChartRegionSelector = () => {
     const imageX = x * scaleX;
     const imageY = y * scaleY;
     
+    if (colorCalibrationStep) {
+      handleColorCalibrationTap({ x: imageX, y: imageY });
+      return;
+    }
+    
     if (isPlacingCircle && regionType === 'circle') {
       setManualCircle(prev => ({
         ...prev,
@@ -454,6 +495,7 @@ const ChartRegionSelector = () => {
   const resetSelection = async () => {
     if (capturedImage) {
       const regionResult = await detectChartRegion(capturedImage);
+      setDetectedPanels(regionResult.panels || []);
       if (regionResult.success && regionResult.data) {
         setSelectedRegion({
           type: 'rectangle',
@@ -875,6 +917,24 @@ const ChartRegionSelector = () => {
           />
         )}
         
+        {/* Painéis de um layout com vários gráficos: cada um é analisado separadamente */}
+        {detectedPanels.length > 1 && imageSize.width > 0 && detectedPanels.map(panel => (
+          <div
+            key={panel.index}
+            className="absolute border border-dashed border-amber-400/80 pointer-events-none"
+            style={{
+              left: `${(panel.bounds.x / imageSize.width) * 100}%`,
+              top: `${(panel.bounds.y / imageSize.height) * 100}%`,
+              width: `${(panel.bounds.width / imageSize.width) * 100}%`,
+              height: `${(panel.bounds.height / imageSize.height) * 100}%`
+            }}
+          >
+            <span className="absolute top-0 left-0 bg-amber-400/90 text-black text-[10px] px-1 rounded-br">
+              {panel.header?.text || `Painel ${panel.index + 1}`}
+            </span>
+          </div>
+        ))}
+
         {renderManualCircle()}
         
         {isDragging && (
@@ -1092,6 +1152,49 @@ const ChartRegionSelector = () => {
         )}
       </div>
       
+      {!isMarkupMode && (
+        <div className="mb-4 p-4 border rounded-md space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Cores dos Candles</h4>
+            {candlePalette && (
+              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                <span className="inline-block w-4 h-4 rounded border" style={{ backgroundColor: `rgb(${candlePalette.bullish.join(',')})` }} />
+                <span>Alta</span>
+                <span className="inline-block w-4 h-4 rounded border" style={{ backgroundColor: `rgb(${candlePalette.bearish.join(',')})` }} />
+                <span>Baixa</span>
+                <span>({candlePalette.source === 'manual' ? 'manual' : 'automática'})</span>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {colorCalibrationStep === 'bullish'
+              ? 'Toque em um candle de ALTA na imagem.'
+              : colorCalibrationStep === 'bearish'
+                ? 'Agora toque em um candle de BAIXA.'
+                : calibrationMessage || 'As cores são detectadas automaticamente. Se nenhum candle for encontrado, calibre tocando em um candle de alta e outro de baixa.'}
+          </p>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              variant={colorCalibrationStep ? 'default' : 'outline'}
+              onClick={() => {
+                setCalibrationMessage(null);
+                setBullishSample(null);
+                setColorCalibrationStep(colorCalibrationStep ? null : 'bullish');
+              }}
+            >
+              <Palette className="h-4 w-4 mr-1" />
+              {colorCalibrationStep ? 'Cancelar Calibração' : 'Calibrar Cores'}
+            </Button>
+            {candlePalette && !colorCalibrationStep && (
+              <Button size="sm" variant="ghost" onClick={() => setCandlePalette(null)}>
+                Usar Detecção Automática
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      
       <div className="flex justify-end">
         {!isMarkupMode && (
           <Button variant="outline" onClick={resetSelection}>
@@ -5,9 +5,10 @@ import { useToast } from '@/hooks/use-toast';
 import { useAnalyzer } from '@/context/AnalyzerContext';
 import { 
   processImage, 
-  cropToRegion, 
-  checkImageQuality
+  cropToRegion
 } from '@/utils/imageProcessing';
+import { checkImageQualityInWorker } from '@/utils/chartAnalysisClient';
+import { AUTO_PROFILE_ID, PLATFORM_PROFILES, getPlatformProfile } from '@/utils/platformProfiles';
 import { 
   detectPatterns, 
   generateTechnicalMarkup, 
@@ -21,9 +22,17 @@ import {
   Check, 
   X,
   ChartCandlestick,
-  TrendingUp 
+  TrendingUp,
+  Monitor
 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const VOLUME_PANE_LABELS = {
+  separate: 'painel de volume próprio',
+  overlay: 'volume sobre o gráfico',
+  none: 'sem volume'
+} as const;
 
 const ControlPanel = () => {
   const { 
@@ -31,13 +40,16 @@ const ControlPanel = () => {
     selectedRegion, 
     setIsAnalyzing, 
     isAnalyzing, 
+    analysisResults,
     setAnalysisResults,
     resetAnalysis,
     regionType,
     setMarkupMode,
     timeframe,
     marketAnalysisDepth,
-    setMarketAnalysisDepth
+    setMarketAnalysisDepth,
+    platformProfile,
+    setPlatformProfile
   } = useAnalyzer();
   const { toast } = useToast();
   const [imageQualityInfo, setImageQualityInfo] = useState<{
@@ -56,7 +68,7 @@ const ControlPanel = () => {
     if (!capturedImage) return;
     
     try {
-      const qualityResult = await checkImageQuality(capturedImage);
+      const qualityResult = await checkImageQualityInWorker(capturedImage);
       
       setImageQualityInfo({
         checked: true,
@@ -339,6 +351,9 @@ const ControlPanel = () => {
 
   if (!capturedImage) return null;
 
+  const selectedProfile = getPlatformProfile(platformProfile);
+  const lastMatch = analysisResults?.platformProfile;
+
   return (
     <Card className="p-4 my-4 w-full max-w-3xl">
       <div className="flex items-center justify-between mb-4">
@@ -374,6 +389,36 @@ const ControlPanel = () => {
         </div>
       )}
       
+      {/* Perfil da plataforma: reconhecido no print ou escolhido pelo usuário */}
+      <div className="mb-4 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Monitor className="h-4 w-4" />
+            <span>Plataforma</span>
+          </div>
+          <Select value={platformProfile} onValueChange={setPlatformProfile}>
+            <SelectTrigger className="h-8 w-52 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_PROFILE_ID}>Detectar automaticamente</SelectItem>
+              {PLATFORM_PROFILES.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {selectedProfile
+            ? `Eixo de preço à ${selectedProfile.priceAxisSide === 'right' ? 'direita' : 'esquerda'}, ${VOLUME_PANE_LABELS[selectedProfile.volumePane]}, candles ${selectedProfile.candleStyle === 'hollow' ? 'vazados' : 'preenchidos'}.`
+            : lastMatch
+              ? `Reconhecido no último gráfico: ${lastMatch.profile.name} (${Math.round(lastMatch.confidence * 100)}%).`
+              : analysisResults
+                ? 'Nenhuma plataforma reconhecida no último gráfico: extração genérica.'
+                : 'A plataforma será reconhecida pelas cores e pelo layout do gráfico.'}
+        </p>
+      </div>
+
       {/* Image Quality Info - Keep existing code */}
       {imageQualityInfo.checked && (
         <Alert
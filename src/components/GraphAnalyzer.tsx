@@ -1,22 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import CameraView from './CameraView';
 import ChartRegionSelector from './ChartRegionSelector';
 import ControlPanel from './ControlPanel';
 import AnalysisResults from './AnalysisResults';
+import MultiPanelSummary from './MultiPanelSummary';
 import MobileBottomBar from './MobileBottomBar';
-import { useAnalyzer } from '@/context/AnalyzerContext';
+import { useAnalyzer, AnalysisResult, ChartPanel } from '@/context/AnalyzerContext';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, ZoomIn, BarChart2, ChevronRight, Clock, Camera, Settings } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { checkImageQuality } from '@/utils/imagePreProcessing';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { motion } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
 import { getMasterAnalysis } from '@/utils/masterTechniques';
-import { processChartImage } from '@/utils/imageProcessing';
+import { analyzeVolume } from '@/utils/volumeAnalysis';
+import { detectTechnicalIndicators } from '@/utils/technicalIndicatorAnalysis';
+import { detectDivergences } from '@/utils/divergenceAnalysis';
+import { detectChartPatterns } from '@/utils/chartPatternDetection';
+import { candlePatternElements } from '@/utils/candlestickPatternDetection';
+import { performConfluenceAnalysis } from '@/utils/confluenceAnalysis';
+import { detectFibonacciLevels, fibonacciEntries } from '@/utils/fibonacciAnalysis';
+import { ChartExtraction, ImageQualityResult } from '@/utils/imageProcessing';
+import { AnalysisProgress, checkImageQualityInWorker, extractChartPanelsInWorker, isAbortError } from '@/utils/chartAnalysisClient';
+import { combinePanelResults } from '@/utils/multiPanelAnalysis';
+import { getPlatformProfile } from '@/utils/platformProfiles';
+import { Progress } from '@/components/ui/progress';
 
 const GraphAnalyzer = () => {
   const { 
@@ -28,32 +39,43 @@ const GraphAnalyzer = () => {
     setTimeframe,
     setIsAnalyzing,
     isAnalyzing,
-    setAnalysisResults
+    setAnalysisResults,
+    setPanelResults,
+    candlePalette,
+    setCandlePalette,
+    platformProfile,
+    panoramaSeries
   } = useAnalyzer();
   const isMobile = useIsMobile();
   const [activeTab, setActiveTab] = useState("region");
   const { toast } = useToast();
-  const [imageQuality, setImageQuality] = useState<{
-    isGoodQuality: boolean;
-    message: string;
-    details?: {
-      resolution: string;
-      contrast: string;
-      noise: string;
-    }
-  } | null>(null);
+  const [imageQuality, setImageQuality] = useState<ImageQualityResult | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
-  // Check image quality when captured image changes
+  // Check image quality when captured image changes (in the worker, cancelled if the image changes again)
   React.useEffect(() => {
     if (capturedImage && !analysisResults) {
-      checkImageQuality(capturedImage).then(result => {
-        setImageQuality(result);
-      });
+      const controller = new AbortController();
+      checkImageQualityInWorker(capturedImage, { signal: controller.signal })
+        .then(result => setImageQuality(result))
+        .catch(error => {
+          if (!isAbortError(error)) console.error('Erro ao verificar qualidade:', error);
+        });
+      return () => controller.abort();
     } else {
       setImageQuality(null);
     }
   }, [capturedImage, analysisResults]);
 
+  // Cancel a running extraction when leaving the screen
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const cancelAndReset = () => {
+    analysisAbortRef.current?.abort();
+    resetAnalysis();
+  };
+
   // Ensure selected region is maintained during analysis
   useEffect(() => {
     if (analysisResults && !analysisResults.manualRegion && selectedRegion) {
@@ -66,6 +88,121 @@ const GraphAnalyzer = () => {
     setTimeframe(value as '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w');
   };
   
+  // Resultado de um painel (o print pode ter vários gráficos, cada um com seu timeframe)
+  const buildAnalysisResult = (
+    { candles, priceCalibration, timeCalibration, chartType, currentPriceLabel, platformProfile, drawings }: ChartExtraction,
+    panel: ChartPanel
+  ): AnalysisResult => {
+    const effectiveTimeframe = timeCalibration?.timeframe || timeframe;
+    const lastCandle = candles[candles.length - 1];
+    const nextCandleOpen = lastCandle && timeCalibration
+      ? new Date(lastCandle.timestamp + timeCalibration.barDurationMs)
+      : null;
+
+    // Análise baseada nos mestres - Agora passando os candles
+    // O tipo de gráfico evita padrões de candle sobre dados sem OHLC real
+    const masterAnalysis = getMasterAnalysis(effectiveTimeframe, 'Pin Bar', candles, chartType);
+    
+    console.log('Master analysis result:', masterAnalysis);
+
+    // Divergências entre preço e osciladores, desenhadas entre as duas âncoras
+    const divergences = detectDivergences(candles);
+    // Formações gráficas clássicas com linha de rompimento, alvo e invalidação
+    const chartPatterns = detectChartPatterns(candles);
+    // Linhas e zonas desenhadas pelo usuário entram como níveis de suporte/resistência
+    const confluences = performConfluenceAnalysis(candles, [], drawings);
+    // Retrações e extensões do impulso dominante, com confluência nesses níveis
+    const fibonacci = detectFibonacciLevels(candles, confluences.supportResistance);
+    
+    return {
+      patterns: [
+        {
+          type: effectiveTimeframe === '1m' ? 'Pin Bar' : 'Engolfo de Alta',
+          confidence: masterAnalysis.bulkowski?.reliability || 0.78,
+          description: `Padrão identificado seguindo metodologia de Bulkowski: ${masterAnalysis.bulkowski?.name || 'Padrão de reversão'}`,
+          action: masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'compra' : 
+                 masterAnalysis.tripleScreen?.shortTermEntry === 'short' ? 'venda' : 'neutro' as 'compra' | 'venda' | 'neutro',
+          isScalpingSignal: effectiveTimeframe === '1m',
+          recommendation: masterAnalysis.masterRecommendation
+        },
+        ...chartPatterns.map(formation => ({
+          type: formation.pattern,
+          confidence: formation.confidence,
+          description: formation.description,
+          recommendation: formation.recommendation,
+          action: formation.action,
+          stopLoss: formation.invalidation.toFixed(4),
+          takeProfit: formation.target.toFixed(4)
+        }))
+      ],
+      timestamp: Date.now(),
+      imageUrl: capturedImage ?? undefined,
+      technicalElements: [
+        ...drawings,
+        ...chartPatterns.flatMap(formation => formation.elements),
+        ...candlePatternElements(candles, masterAnalysis.detectedCandlePatterns),
+        ...divergences.flatMap(divergence => (divergence.overlay ? [divergence.overlay] : [])),
+        ...(fibonacci?.elements || [])
+      ],
+      manualRegion: true,
+      preciseEntryAnalysis: {
+        exactMinute: nextCandleOpen
+          ? `${nextCandleOpen.getHours().toString().padStart(2, '0')}:${nextCandleOpen.getMinutes().toString().padStart(2, '0')}`
+          : 'pendente',
+        entryType: 'reversão' as 'reversão' | 'retração' | 'pullback' | 'breakout' | 'teste_suporte' | 'teste_resistência',
+        nextCandleExpectation: `Elder: ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'Alta provável' : 'Baixa provável'} com fechamento ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'acima' : 'abaixo'} da ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'máxima' : 'mínima'} anterior`,
+        priceAction: `Murphy: ${masterAnalysis.murphy?.volumeAnalysis?.trend === 'confirming' ? 'Volume confirmando' :
+                                 masterAnalysis.murphy?.volumeAnalysis?.trend === 'diverging' ? 'Volume divergindo' : 'Volume neutro no'} movimento`,
+        confirmationSignal: `Bulkowski: ${masterAnalysis.bulkowski?.volumeImportance === 'critical' ? 'Volume crítico necessário' : 'Volume importante para confirmação'}`,
+        riskRewardRatio: masterAnalysis.bulkowski?.averageMove ? Math.abs(masterAnalysis.bulkowski.averageMove) / 5 : 2.5,
+        entryInstructions: `Edwards & Magee: Aguardar fechamento ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'acima' : 'abaixo'} do nível com volume 50% acima da média`
+      },
+      marketContext: {
+        phase: masterAnalysis.murphy?.trendAnalysis?.primary === 'bullish' ? 'tendência_alta' : 
+               masterAnalysis.murphy?.trendAnalysis?.primary === 'bearish' ? 'tendência_baixa' : 'lateral' as 'acumulação' | 'tendência_alta' | 'tendência_baixa' | 'distribuição' | 'lateral' | 'indefinida',
+        strength: (masterAnalysis.tripleScreen?.confidence || 0) > 0.8 ? 'forte' : 
+                 (masterAnalysis.tripleScreen?.confidence || 0) > 0.6 ? 'moderada' : 'fraca' as 'forte' | 'moderada' | 'fraca',
+        description: `Análise integrada dos mestres: ${(masterAnalysis.masterRecommendation || '').split('\n\n')[0] || 'Análise em progresso'}`,
+        dominantTimeframe: effectiveTimeframe,
+        sentiment: masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'otimista' : 
+                  masterAnalysis.tripleScreen?.shortTermEntry === 'short' ? 'pessimista' : 'neutro' as 'otimista' | 'pessimista' | 'neutro',
+        marketStructure: masterAnalysis.murphy?.trendAnalysis?.primary === 'bullish' ? 'alta_altas' : 
+                        masterAnalysis.murphy?.trendAnalysis?.primary === 'bearish' ? 'baixa_baixas' : 'indefinida' as 'alta_altas' | 'alta_baixas' | 'baixa_altas' | 'baixa_baixas' | 'indefinida',
+        breakoutPotential: (masterAnalysis.bulkowski?.reliability || 0) > 0.7 ? 'alto' : 
+                          (masterAnalysis.bulkowski?.reliability || 0) > 0.6 ? 'médio' : 'baixo' as 'alto' | 'médio' | 'baixo',
+        momentumSignature: masterAnalysis.murphy?.volumeAnalysis?.trend === 'confirming' ? 'acelerando' :
+                          masterAnalysis.murphy?.volumeAnalysis?.trend === 'diverging' ? 'divergente' : 'estável' as 'acelerando' | 'estável' | 'desacelerando' | 'divergente',
+        liquidityPools: masterAnalysis.murphy?.supportResistance?.map(sr => ({
+          level: sr.level,
+          strength: sr.strength === 'strong' ? 'alta' : sr.strength === 'moderate' ? 'média' : 'baixa' as 'alta' | 'média' | 'baixa'
+        })) || []
+      },
+      volumeData: analyzeVolume(candles),
+      technicalIndicators: detectTechnicalIndicators(candles),
+      divergences,
+      chartPatterns,
+      confluences,
+      fibonacci: fibonacci || undefined,
+      entryRecommendations: fibonacciEntries(fibonacci, effectiveTimeframe),
+      volatilityData: {
+        value: 2.3,
+        trend: 'increasing' as 'increasing' | 'decreasing' | 'neutral',
+        atr: 1.8,
+        percentageRange: 1.2,
+        isHigh: false,
+        historicalComparison: 'above_average' as 'above_average' | 'below_average' | 'average'
+      },
+      masterAnalysis, // Adicionando a análise dos mestres
+      candles,
+      priceCalibration,
+      timeCalibration,
+      currentPriceLabel,
+      platformProfile,
+      panel,
+      chartType
+    };
+  };
+
   const startAnalysis = async () => {
     if (!capturedImage || !selectedRegion) {
       toast({
@@ -76,93 +213,63 @@ const GraphAnalyzer = () => {
       return;
     }
     
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
+    setAnalysisProgress(null);
     
     try {
       console.log('Starting analysis with timeframe:', timeframe);
 
-      // Processar a imagem para obter dados de velas
-      const candles = await processChartImage(capturedImage);
-      console.log('Extracted candles:', candles);
+      // Processar a imagem no worker: cada painel do print é extraído separadamente
+      const panelExtractions = await extractChartPanelsInWorker(
+        capturedImage, timeframe, candlePalette, getPlatformProfile(platformProfile),
+        { signal: controller.signal, onProgress: setAnalysisProgress }
+      );
+      const primary = panelExtractions[0].extraction;
+      console.log('Extracted panels:', panelExtractions);
 
-      // Análise baseada nos mestres - Agora passando os candles
-      // A assinatura de getMasterAnalysis precisará ser atualizada para aceitar 'candles'
-      const masterAnalysis = getMasterAnalysis(timeframe, 'Pin Bar', candles); // Passar candles aqui
-      
-      console.log('Master analysis result:', masterAnalysis);
-      
-      const analysisResult: AnalysisResult = { // Usar AnalysisResult como tipo
-        patterns: [
-          {
-            type: timeframe === '1m' ? 'Pin Bar' : 'Engolfo de Alta',
-            confidence: masterAnalysis.bulkowski?.reliability || 0.78,
-            description: `Padrão identificado seguindo metodologia de Bulkowski: ${masterAnalysis.bulkowski?.name || 'Padrão de reversão'}`,
-            action: masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'compra' : 
-                   masterAnalysis.tripleScreen?.shortTermEntry === 'short' ? 'venda' : 'neutro' as 'compra' | 'venda' | 'neutro',
-            isScalpingSignal: timeframe === '1m',
-            recommendation: masterAnalysis.masterRecommendation
+      // Guardar no perfil a paleta aprendida com boa confiança (a calibração manual não é sobrescrita)
+      const palette = primary.palette;
+      if (palette && palette.source === 'auto' && palette.confidence >= 0.6 && candlePalette?.source !== 'manual') {
+        setCandlePalette(palette);
+      }
+
+      // Timeframe inferido pelo eixo de tempo do painel principal prevalece sobre o selecionado
+      const effectiveTimeframe = primary.timeCalibration?.timeframe || timeframe;
+      if (effectiveTimeframe !== timeframe) {
+        setTimeframe(effectiveTimeframe);
+      }
+
+      // No modo panorama o painel principal é analisado sobre a série mesclada dos vários prints
+      const results = panelExtractions.map(({ panel, extraction }, index) => index === 0 && panoramaSeries
+        ? {
+            ...buildAnalysisResult({ ...extraction, candles: panoramaSeries.candles, chartType: panoramaSeries.chartType }, panel),
+            panoramaFrames: panoramaSeries.frames
           }
-        ],
-        timestamp: Date.now(),
-        imageUrl: capturedImage,
-        manualRegion: true,
-        preciseEntryAnalysis: {
-          exactMinute: '12:45',
-          entryType: 'reversão' as 'reversão' | 'retração' | 'pullback' | 'breakout' | 'teste_suporte' | 'teste_resistência',
-          nextCandleExpectation: `Elder: ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'Alta provável' : 'Baixa provável'} com fechamento ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'acima' : 'abaixo'} da ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'máxima' : 'mínima'} anterior`,
-          priceAction: `Murphy: ${masterAnalysis.murphy?.volumeAnalysis?.trend === 'confirming' ? 'Volume confirmando' : 'Volume divergindo'} movimento`,
-          confirmationSignal: `Bulkowski: ${masterAnalysis.bulkowski?.volumeImportance === 'critical' ? 'Volume crítico necessário' : 'Volume importante para confirmação'}`,
-          riskRewardRatio: masterAnalysis.bulkowski?.averageMove ? Math.abs(masterAnalysis.bulkowski.averageMove) / 5 : 2.5,
-          entryInstructions: `Edwards & Magee: Aguardar fechamento ${masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'acima' : 'abaixo'} do nível com volume 50% acima da média`
-        },
-        marketContext: {
-          phase: masterAnalysis.murphy?.trendAnalysis?.primary === 'bullish' ? 'tendência_alta' : 
-                 masterAnalysis.murphy?.trendAnalysis?.primary === 'bearish' ? 'tendência_baixa' : 'lateral' as 'acumulação' | 'tendência_alta' | 'tendência_baixa' | 'distribuição' | 'lateral' | 'indefinida',
-          strength: (masterAnalysis.tripleScreen?.confidence || 0) > 0.8 ? 'forte' : 
-                   (masterAnalysis.tripleScreen?.confidence || 0) > 0.6 ? 'moderada' : 'fraca' as 'forte' | 'moderada' | 'fraca',
-          description: `Análise integrada dos mestres: ${(masterAnalysis.masterRecommendation || '').split('\n\n')[0] || 'Análise em progresso'}`,
-          dominantTimeframe: timeframe,
-          sentiment: masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'otimista' : 
-                    masterAnalysis.tripleScreen?.shortTermEntry === 'short' ? 'pessimista' : 'neutro' as 'otimista' | 'pessimista' | 'neutro',
-          marketStructure: masterAnalysis.murphy?.trendAnalysis?.primary === 'bullish' ? 'alta_altas' : 
-                          masterAnalysis.murphy?.trendAnalysis?.primary === 'bearish' ? 'baixa_baixas' : 'indefinida' as 'alta_altas' | 'alta_baixas' | 'baixa_altas' | 'baixa_baixas' | 'indefinida',
-          breakoutPotential: (masterAnalysis.bulkowski?.reliability || 0) > 0.7 ? 'alto' : 
-                            (masterAnalysis.bulkowski?.reliability || 0) > 0.6 ? 'médio' : 'baixo' as 'alto' | 'médio' | 'baixo',
-          momentumSignature: masterAnalysis.murphy?.volumeAnalysis?.trend === 'confirming' ? 'acelerando' : 'divergente' as 'acelerando' | 'estável' | 'desacelerando' | 'divergente',
-          liquidityPools: masterAnalysis.murphy?.supportResistance?.map(sr => ({
-            level: sr.level,
-            strength: sr.strength === 'strong' ? 'alta' : sr.strength === 'moderate' ? 'média' : 'baixa' as 'alta' | 'média' | 'baixa'
-          })) || []
-        },
-        volumeData: {
-          value: 1250000,
-          trend: masterAnalysis.murphy?.volumeAnalysis?.trend === 'confirming' ? 'increasing' : 'neutral' as 'increasing' | 'decreasing' | 'neutral',
-          abnormal: masterAnalysis.bulkowski?.volumeImportance === 'critical',
-          significance: masterAnalysis.murphy?.volumeAnalysis?.significance || 'high' as 'high' | 'medium' | 'low',
-          relativeToAverage: 1.35,
-          distribution: masterAnalysis.tripleScreen?.shortTermEntry === 'long' ? 'accumulation' : 'neutral' as 'accumulation' | 'distribution' | 'neutral',
-          divergence: masterAnalysis.murphy?.volumeAnalysis?.trend === 'diverging'
-        },
-        volatilityData: {
-          value: 2.3,
-          trend: 'increasing' as 'increasing' | 'decreasing' | 'neutral',
-          atr: 1.8,
-          percentageRange: 1.2,
-          isHigh: false,
-          historicalComparison: 'above_average' as 'above_average' | 'below_average' | 'average'
-        },
-        masterAnalysis // Adicionando a análise dos mestres
-      };
+        : buildAnalysisResult(extraction, panel));
+      const analysisResult = results[0];
+      setPanelResults(results.length > 1 ? results : []);
       
       console.log('Final simulated result:', analysisResult); // Renomear simulatedResult para analysisResult
       
       setAnalysisResults(analysisResult); // Usar analysisResult
       
-      toast({
-        title: "Análise dos Mestres Completa",
-        description: "Análise baseada em Bulkowski, Elder, Murphy e Edwards & Magee",
-      });
+      toast(results.length > 1
+        ? {
+            title: `Análise de ${results.length} Painéis Completa`,
+            description: combinePanelResults(results).summary,
+          }
+        : {
+            title: "Análise dos Mestres Completa",
+            description: "Análise baseada em Bulkowski, Elder, Murphy e Edwards & Magee",
+          });
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Análise cancelada');
+        return;
+      }
       console.error("Erro ao processar análise:", error);
       toast({
         title: "Erro na análise",
@@ -170,7 +277,11 @@ const GraphAnalyzer = () => {
         variant: "destructive",
       });
     } finally {
-      setIsAnalyzing(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+        setAnalysisProgress(null);
+      }
     }
   };
   
@@ -221,6 +332,7 @@ const GraphAnalyzer = () => {
               <h2 className="text-lg font-bold">Resultados</h2>
             </div>
           </div>
+          <MultiPanelSummary />
           <div className="w-full overflow-hidden">
             <AnalysisResults />
           </div>
@@ -243,7 +355,7 @@ const GraphAnalyzer = () => {
               <Button 
                 variant="ghost" 
                 size="icon" 
-                onClick={resetAnalysis}
+                onClick={cancelAndReset}
                 className="mr-1"
               >
                 <ArrowLeft className="h-4 w-4" />
@@ -256,8 +368,11 @@ const GraphAnalyzer = () => {
             <div className="w-12 h-12 rounded-full border-4 border-primary/30 border-t-primary animate-spin mb-4"></div>
             <p className="text-base font-medium">Analisando região selecionada...</p>
             <p className="text-xs text-muted-foreground mt-2">
-              Processando padrões e indicadores técnicos
+              {analysisProgress ? analysisProgress.label : 'Processando padrões e indicadores técnicos'}
             </p>
+            {analysisProgress && (
+              <Progress value={analysisProgress.progress * 100} className="mt-3 h-2 w-full max-w-xs" />
+            )}
           </div>
         </motion.div>
       );
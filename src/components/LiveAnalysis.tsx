@@ -6,38 +6,19 @@ import { useAnalyzer } from '@/context/AnalyzerContext';
 import { Camera, Play, Pause, Settings, AlertTriangle, Activity, TrendingUp } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { enhanceImageForAnalysis } from '@/utils/imagePreProcessing';
-import { analyzeChart } from '@/utils/patternDetection';
+import { AnalysisProgress, isAbortError } from '@/utils/chartAnalysisClient';
+import { getPlatformProfile } from '@/utils/platformProfiles';
+import { CandleHistory, createCandleHistory } from '@/utils/candleHistory';
+import { LiveAnalysisResult, analyzeLiveFrame } from '@/utils/liveFrameAnalysis';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useIsMobile } from '@/hooks/use-mobile';
 
-interface LiveAnalysisResult {
-  timestamp: number;
-  confidence: number;
-  signal: 'compra' | 'venda' | 'neutro';
-  patterns: string[];
-  trend: 'alta' | 'baixa' | 'lateral';
-  signalQuality?: string;
-  confluenceScore?: number;
-  supportResistance?: any[];
-  criticalLevels?: any[];
-  priceActionSignals?: any[];
-  marketPhase?: string;
-  institutionalBias?: string;
-  entryRecommendations?: any[];
-  riskReward?: number;
-  warnings?: string[];
-  analysisHealth?: {
-    consistency: number;
-    reliability: number;
-    marketAlignment: boolean;
-  };
-}
-
 const LiveAnalysis = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Série acumulada entre frames: sobrevive a cada captura, ao contrário dos candles visíveis
+  const candleHistoryRef = useRef<CandleHistory>(createCandleHistory());
   
   const [isLiveActive, setIsLiveActive] = useState(false);
   const [analysisInterval, setAnalysisInterval] = useState(3000); // 3 segundos por padrão
@@ -45,6 +26,7 @@ const LiveAnalysis = () => {
   const [currentAnalysis, setCurrentAnalysis] = useState<LiveAnalysisResult | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [confluenceDetails, setConfluenceDetails] = useState<any>(null);
   const [showConfluenceDetails, setShowConfluenceDetails] = useState(false);
@@ -52,6 +34,8 @@ const LiveAnalysis = () => {
   const [showPriceActionDetails, setShowPriceActionDetails] = useState(false);
   const [entryRecommendations, setEntryRecommendations] = useState<any[]>([]);
   const [isChartVisible, setIsChartVisible] = useState(false);
+  const [historySize, setHistorySize] = useState(0);
+  const [isStitching, setIsStitching] = useState(true); // Falso enquanto o eixo de preço não é lido
   const [analysisStats, setAnalysisStats] = useState({
     totalAnalyses: 0,
     validSignals: 0,
@@ -68,83 +52,11 @@ const LiveAnalysis = () => {
     considerVolume,
     considerVolatility,
     marketContextEnabled,
-    marketAnalysisDepth 
+    marketAnalysisDepth,
+    platformProfile,
+    candlePalette
   } = useAnalyzer();
 
-  // Função melhorada para detectar se há um gráfico na tela
-  const detectChartInFrame = async (imageData: string): Promise<boolean> => {
-    return new Promise<boolean>((resolve) => {
-      setTimeout(() => {
-        // Lógica mais sofisticada de detecção
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-        
-        img.onload = () => {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx?.drawImage(img, 0, 0);
-          
-          // Análise simples de padrões que indicam um gráfico
-          const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-          if (!imageData) {
-            resolve(false);
-            return;
-          }
-          
-          // Verificar variação de cores e padrões lineares
-          let colorVariations = 0;
-          let linePatterns = 0;
-          
-          for (let i = 0; i < imageData.data.length; i += 4) {
-            const r = imageData.data[i];
-            const g = imageData.data[i + 1];
-            const b = imageData.data[i + 2];
-            
-            // Detectar variações de cor típicas de gráficos
-            if (Math.abs(r - g) > 30 || Math.abs(g - b) > 30) {
-              colorVariations++;
-            }
-          }
-          
-          const hasChart = colorVariations > (imageData.data.length / 4) * 0.1;
-          resolve(hasChart);
-        };
-        
-        img.onerror = () => resolve(false);
-        img.src = imageData;
-      }, 200);
-    });
-  };
-
-  // Função para calcular saúde da análise
-  const calculateAnalysisHealth = (
-    patterns: any[],
-    priceActionSignals: any[],
-    confluenceScore: number
-  ) => {
-    // Verificar consistência entre sinais
-    const patternActions = patterns.map(p => p.action).filter(a => a !== 'neutro');
-    const uniqueActions = [...new Set(patternActions)];
-    const consistency = uniqueActions.length <= 1 ? 100 : 50;
-    
-    // Calcular confiabilidade baseada em confluência e número de sinais
-    const reliability = Math.min(100, 
-      (confluenceScore * 0.6) + 
-      (patterns.length * 10) + 
-      (priceActionSignals.length * 15)
-    );
-    
-    // Verificar alinhamento com mercado
-    const marketAlignment = patterns.length > 0 && priceActionSignals.length > 0;
-    
-    return {
-      consistency,
-      reliability,
-      marketAlignment
-    };
-  };
-
   // Iniciar câmera
   const startCamera = async () => {
     try {
@@ -189,179 +101,57 @@ const LiveAnalysis = () => {
 
   // Capturar frame e analisar com lógica melhorada
   const captureAndAnalyze = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || isAnalyzing) return;
+    if (!videoRef.current) return;
+
+    // Um frame novo torna obsoleta a análise anterior ainda em andamento
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
       setIsAnalyzing(true);
       console.log('🎥 Capturando frame para análise...');
       
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      // Capturar frame atual
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      // Capturar o frame atual como bitmap: vai transferido ao worker, sem canvas nem base64
+      const frame = await createImageBitmap(videoRef.current);
       
-      // Converter para base64
-      const imageUrl = canvas.toDataURL('image/jpeg', 0.8);
-      
-      // Verificar se há um gráfico visível na tela
-      const hasChart = await detectChartInFrame(imageUrl);
+      // Mesmo pipeline da revisão de gravações: gráfico, perspectiva, extração, histórico e sinal
+      const { hasChart, history, stitched, analysis, result: liveResult, alignedPriceAction: alignedPASignals } = await analyzeLiveFrame(
+        frame,
+        candleHistoryRef.current,
+        {
+          timeframe,
+          platformProfile: getPlatformProfile(platformProfile),
+          candlePalette,
+          scalpingStrategy,
+          considerVolume,
+          considerVolatility,
+          marketContextEnabled,
+          marketAnalysisDepth,
+          signal: controller.signal,
+          onProgress: setAnalysisProgress
+        }
+      );
       setIsChartVisible(hasChart);
       
-      if (!hasChart) {
-        console.log('📊 Nenhum gráfico detectado na tela');
+      if (!hasChart || !analysis || !liveResult) {
         setCurrentAnalysis(null);
         return;
       }
-      
-      console.log('✅ Gráfico detectado! Iniciando análise...');
-      
-      // Melhorar imagem para análise
-      const enhancedImageUrl = await enhanceImageForAnalysis(imageUrl);
-      
-      // Analisar com todas as funcionalidades ativadas
-      const analysisResult = await analyzeChart(enhancedImageUrl, {
-        timeframe: '1m',
-        optimizeForScalping: true,
-        scalpingStrategy,
-        considerVolume,
-        considerVolatility,
-        marketContextEnabled,
-        marketAnalysisDepth,
-        enableCandleDetection: true,
-        isLiveAnalysis: true,
-        useConfluences: true,
-        enablePriceAction: true,
-        enableMarketContext: true
-      });
+
+      candleHistoryRef.current = history;
+      setHistorySize(history.candles.length);
+      setIsStitching(stitched);
 
       // Armazenar detalhes das confluências e price action
-      setConfluenceDetails(analysisResult.confluences);
+      setConfluenceDetails(analysis.confluences);
       setPriceActionDetails({
-        signals: analysisResult.priceActionSignals || [],
-        marketContext: analysisResult.detailedMarketContext
+        signals: analysis.priceActionSignals || [],
+        marketContext: analysis.detailedMarketContext
       });
-      setEntryRecommendations(analysisResult.entryRecommendations || []);
-
-      // Processar resultado para formato live com validação melhorada
-      let finalConfidence = 0;
-      let signalQuality = 'fraca';
-      let riskReward = 2.0;
-      let mainSignal: 'compra' | 'venda' | 'neutro' = 'neutro';
-      
-      // Determinar sinal principal baseado no padrão mais forte e consistente
-      const validPatterns = analysisResult.patterns.filter(p => p.action !== 'neutro');
-      
-      if (validPatterns.length > 0) {
-        // Verificar consistência entre padrões
-        const actions = validPatterns.map(p => p.action);
-        const uniqueActions = [...new Set(actions)];
-        
-        if (uniqueActions.length === 1) {
-          // Sinais consistentes
-          mainSignal = uniqueActions[0] as 'compra' | 'venda';
-          finalConfidence = validPatterns.reduce((sum, p) => sum + p.confidence, 0) / validPatterns.length;
-        } else {
-          // Sinais conflitantes - usar o mais forte mas reduzir confiança
-          const strongestPattern = validPatterns.reduce((prev, current) => 
-            (current.confidence > prev.confidence) ? current : prev
-          );
-          mainSignal = strongestPattern.action as 'compra' | 'venda';
-          finalConfidence = strongestPattern.confidence * 0.7; // Penalizar conflito
-        }
-      }
-      
-      // Validar com price action
-      const alignedPASignals = analysisResult.priceActionSignals?.filter(pa => 
-        (mainSignal === 'compra' && pa.direction === 'alta') ||
-        (mainSignal === 'venda' && pa.direction === 'baixa')
-      ) || [];
-      
-      if (alignedPASignals.length > 0) {
-        const paConfidence = alignedPASignals.reduce((sum, pa) => sum + pa.confidence, 0) / alignedPASignals.length;
-        finalConfidence = (finalConfidence + paConfidence) / 2;
-      } else if (analysisResult.priceActionSignals?.length > 0 && mainSignal !== 'neutro') {
-        // Price action contradiz - reduzir confiança
-        finalConfidence *= 0.6;
-      }
-      
-      // Determinar qualidade do sinal
-      if (finalConfidence > 0.85) {
-        signalQuality = 'excelente';
-      } else if (finalConfidence > 0.75) {
-        signalQuality = 'forte';
-      } else if (finalConfidence > 0.65) {
-        signalQuality = 'boa';
-      } else if (finalConfidence > 0.55) {
-        signalQuality = 'moderada';
-      } else {
-        signalQuality = 'fraca';
-      }
-      
-      // Ajustar baseado em confluências
-      if (analysisResult.confluences) {
-        const confluenceBonus = analysisResult.confluences.confluenceScore / 100 * 0.1;
-        finalConfidence = Math.min(1, finalConfidence + confluenceBonus);
-        
-        if (analysisResult.confluences.confluenceScore > 80) {
-          signalQuality = 'excelente';
-        }
-      }
-      
-      // Obter melhor recomendação de entrada
-      const bestEntry = analysisResult.entryRecommendations?.find(entry => 
-        entry.action === mainSignal
-      );
-      
-      if (bestEntry) {
-        riskReward = bestEntry.riskReward;
-        finalConfidence = Math.max(finalConfidence, bestEntry.confidence);
-      }
-
-      // Mapear tendência corretamente - corrigir tipo de comparação
-      let mappedTrend: 'alta' | 'baixa' | 'lateral' = 'lateral';
-      
-      if (analysisResult.detailedMarketContext?.trend) {
-        const rawTrend = analysisResult.detailedMarketContext.trend;
-        if (rawTrend === 'alta') {
-          mappedTrend = 'alta';
-        } else if (rawTrend === 'baixa') {
-          mappedTrend = 'baixa';
-        }
-      }
+      setEntryRecommendations(analysis.entryRecommendations || []);
 
-      // Calcular saúde da análise
-      const analysisHealth = calculateAnalysisHealth(
-        analysisResult.patterns,
-        analysisResult.priceActionSignals || [],
-        analysisResult.confluences?.confluenceScore || 0
-      );
-
-      const liveResult: LiveAnalysisResult = {
-        timestamp: Date.now(),
-        confidence: finalConfidence,
-        signal: mainSignal,
-        patterns: analysisResult.patterns.map(p => p.type),
-        trend: mappedTrend,
-        signalQuality,
-        confluenceScore: analysisResult.confluences?.confluenceScore || 0,
-        supportResistance: analysisResult.confluences?.supportResistance?.slice(0, 3) || [],
-        criticalLevels: analysisResult.confluences?.criticalLevels || [],
-        priceActionSignals: analysisResult.priceActionSignals?.slice(0, 2) || [],
-        marketPhase: analysisResult.detailedMarketContext?.phase || 'indefinida',
-        institutionalBias: analysisResult.detailedMarketContext?.institutionalBias || 'neutro',
-        entryRecommendations: analysisResult.entryRecommendations?.filter(entry => 
-          entry.action === mainSignal
-        ).slice(0, 2) || [],
-        riskReward,
-        analysisHealth
-      };
+      const { signal: mainSignal, confidence: finalConfidence, signalQuality, riskReward, analysisHealth } = liveResult;
 
       setCurrentAnalysis(liveResult);
       setLiveResults(prev => [liveResult, ...prev.slice(0, 19)]); // Manter últimos 20 resultados
@@ -389,17 +179,26 @@ const LiveAnalysis = () => {
         });
       }
 
-      console.log(`✅ Análise completa - Sinal: ${mainSignal} (${Math.round(finalConfidence * 100)}%)`);
-
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏭️ Análise do frame anterior cancelada');
+        return;
+      }
       console.error('❌ Erro na análise em tempo real:', error);
     } finally {
-      setIsAnalyzing(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+        setAnalysisProgress(null);
+      }
     }
-  }, [isAnalyzing, scalpingStrategy, considerVolume, considerVolatility, marketContextEnabled, marketAnalysisDepth, toast]);
+  }, [timeframe, scalpingStrategy, considerVolume, considerVolatility, marketContextEnabled, marketAnalysisDepth, platformProfile, candlePalette, toast]);
 
   // Iniciar análise em tempo real
   const startLiveAnalysis = async () => {
+    candleHistoryRef.current = createCandleHistory();
+    setHistorySize(0);
+    setIsStitching(true);
     await startCamera();
     setIsLiveActive(true);
     
@@ -421,6 +220,7 @@ const LiveAnalysis = () => {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
+    analysisAbortRef.current?.abort();
     
     setIsLiveActive(false);
     stopCamera();
@@ -446,6 +246,7 @@ const LiveAnalysis = () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
+      analysisAbortRef.current?.abort();
       stopCamera();
     };
   }, []);
@@ -481,7 +282,10 @@ const LiveAnalysis = () => {
             <div className="text-xs text-muted-foreground mt-2">
               Análises: {analysisStats.totalAnalyses} | 
               Sinais Válidos: {analysisStats.validSignals} | 
-              Confiança Média: {Math.round(analysisStats.avgConfidence)}%
+              Confiança Média: {Math.round(analysisStats.avgConfidence)}% | 
+              {isStitching
+                ? `Histórico: ${historySize} candles`
+                : 'Histórico desligado: eixo de preço não lido, cada frame é analisado sozinho'}
             </div>
           )}
         </CardHeader>
@@ -571,6 +375,11 @@ const LiveAnalysis = () => {
               <p className="text-sm">
                 {isChartVisible ? 'Analisando com IA Aprimorada...' : 'Procurando gráfico...'}
               </p>
+              {analysisProgress && (
+                <p className="text-xs text-gray-300 mt-1">
+                  {analysisProgress.label} ({Math.round(analysisProgress.progress * 100)}%)
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -668,7 +477,6 @@ const LiveAnalysis = () => {
           </motion.div>
         )}
 
-        <canvas ref={canvasRef} className="hidden" />
       </div>
 
       {/* Detalhes do Price Action */}
@@ -807,6 +615,7 @@ const LiveAnalysis = () => {
                     <div key={index} className="flex justify-between text-sm">
                       <span className={level.type === 'support' ? 'text-green-600' : 'text-red-600'}>
                         {level.type === 'support' ? 'Suporte' : 'Resistência'} {level.strength}
+                        {level.source === 'user' && ' (desenhado)'}
                       </span>
                       <span>{level.price.toFixed(4)} ({level.confidence.toFixed(0)}%)</span>
                     </div>
@@ -1,15 +1,25 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { BookOpen, TrendingUp, Target, BarChart3 } from 'lucide-react';
+import { BookOpen, TrendingUp, Target, BarChart3, History, Upload } from 'lucide-react';
+import { useAnalyzer } from '@/context/AnalyzerContext';
+import { useToast } from '@/hooks/use-toast';
+import { BULKOWSKI_KEYS, bulkowskiPatterns } from '@/utils/masterTechniques';
+import { measurePatternStatistics, parseOhlcCsv } from '@/utils/patternStatistics';
 
 interface MasterAnalysisDisplayProps {
   masterAnalysis: any;
 }
 
 const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAnalysis }) => {
+  const { patternStatistics, setPatternStatistics, timeframe } = useAnalyzer();
+  const { toast } = useToast();
+  const historyInputRef = useRef<HTMLInputElement>(null);
+  const [measuring, setMeasuring] = useState<number | null>(null);
+  
   console.log('MasterAnalysisDisplay received:', masterAnalysis);
   
   if (!masterAnalysis) {
@@ -20,6 +30,45 @@ const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAna
   const { bulkowski, tripleScreen, murphy, masterRecommendation } = masterAnalysis;
   
   console.log('Extracted data:', { bulkowski, tripleScreen, murphy, masterRecommendation });
+  
+  // Histórico OHLC do instrumento: mede o desempenho de cada padrão no timeframe atual
+  const handleHistorySelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      setMeasuring(0);
+      const candles = parseOhlcCsv(await file.text(), timeframe);
+      const report = await measurePatternStatistics(candles, {
+        instrument: file.name.replace(/\.[^.]+$/, ''),
+        timeframe,
+        onProgress: setMeasuring
+      });
+      setPatternStatistics(report);
+      toast({
+        title: "✓ Estatísticas calculadas",
+        description: `${report.patterns.length} padrões medidos em ${report.candles} candles de ${report.instrument}.`,
+      });
+    } catch (error) {
+      console.error('Erro ao medir estatísticas:', error);
+      toast({
+        variant: "destructive",
+        title: "✗ Histórico inválido",
+        description: error instanceof Error ? error.message : 'Não foi possível ler o arquivo.',
+      });
+    } finally {
+      setMeasuring(null);
+    }
+  };
+  
+  // Padrões desta análise (um por tipo); sem eles, os mais frequentes do histórico
+  const detectedTypes: string[] = Array.from(new Set(
+    (masterAnalysis.detectedCandlePatterns || []).map((pattern: { type: string }) => pattern.type)
+  ));
+  const statisticsRows = patternStatistics
+    ? (detectedTypes.length > 0 ? detectedTypes : patternStatistics.patterns.slice(0, 5).map(stats => stats.pattern))
+    : [];
 
   return (
     <Card className="mt-4 border-2 border-amber-200 bg-gradient-to-br from-amber-50 to-orange-50 w-full">
@@ -57,6 +106,70 @@ const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAna
           </div>
         )}
 
+        {/* Estatísticas medidas no histórico, ao lado dos números de livro */}
+        <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <div className="flex items-center justify-between mb-2 gap-2">
+            <h4 className="font-semibold text-slate-800 flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Estatísticas do Histórico
+            </h4>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 h-7 text-xs"
+              onClick={() => historyInputRef.current?.click()}
+              disabled={measuring !== null}
+            >
+              <Upload className="h-3 w-3" />
+              {patternStatistics ? 'Trocar CSV' : 'Carregar CSV'}
+            </Button>
+            <input type="file" ref={historyInputRef} onChange={handleHistorySelected} accept=".csv,.txt" className="hidden" />
+          </div>
+          
+          {measuring !== null && <Progress value={measuring * 100} className="h-2 mb-2" />}
+          
+          {!patternStatistics && measuring === null && (
+            <p className="text-xs text-slate-600">
+              Envie o histórico OHLC (CSV) do instrumento para medir acerto, movimento e tempo até o alvo de cada padrão neste timeframe.
+            </p>
+          )}
+          
+          {patternStatistics && (
+            <div className="space-y-2 text-xs">
+              <p className="text-slate-600">
+                {patternStatistics.instrument} {patternStatistics.timeframe} · {patternStatistics.candles} candles · horizonte de {patternStatistics.horizon} barras
+              </p>
+              {patternStatistics.timeframe !== timeframe && (
+                <p className="text-amber-700">Histórico em {patternStatistics.timeframe}, análise em {timeframe}: os números podem não se aplicar.</p>
+              )}
+              {statisticsRows.map(type => {
+                const measured = patternStatistics.patterns.find(stats => stats.pattern === type);
+                const textbook = bulkowskiPatterns[BULKOWSKI_KEYS[type]];
+                return (
+                  <div key={type} className="border-t border-slate-200 pt-1">
+                    <div className="font-medium">{type.replace(/_/g, ' ')}</div>
+                    {measured ? (
+                      <div>
+                        Medido: acerto {Math.round(measured.hitRate * 100)}%, falha {Math.round(measured.failureRate * 100)}%,
+                        movimento {measured.averageMove > 0 ? '+' : ''}{measured.averageMove.toFixed(2)}%
+                        {measured.averageBarsToTarget !== null && `, alvo em ${measured.averageBarsToTarget.toFixed(1)} barras`} (n={measured.occurrences})
+                      </div>
+                    ) : (
+                      <div className="text-slate-500">Sem ocorrências direcionais no histórico</div>
+                    )}
+                    {textbook && (
+                      <div className="text-slate-500">
+                        Livro: {Math.round(textbook.reliability * 100)}% confiável, falha {Math.round(textbook.failureRate * 100)}%,
+                        movimento {textbook.averageMove > 0 ? '+' : ''}{textbook.averageMove.toFixed(1)}%
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {/* Elder Triple Screen */}
         {tripleScreen && (
           <div className="p-3 bg-green-50 rounded-lg border border-green-200">
@@ -73,13 +186,13 @@ const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAna
               <div className="text-center">
                 <div className="font-medium">Longo Prazo</div>
                 <Badge variant={(tripleScreen.longTermTrend || '') === 'up' ? 'default' : 'secondary'} className="text-xs">
-                  {tripleScreen.longTermTrend || 'N/A'}
+                  {tripleScreen.unavailable?.tide ? 'indisponível' : tripleScreen.longTermTrend || 'N/A'}
                 </Badge>
               </div>
               <div className="text-center">
                 <div className="font-medium">Oscilador</div>
                 <Badge variant={(tripleScreen.mediumTermOscillator || '') === 'buy' ? 'default' : 'secondary'} className="text-xs">
-                  {tripleScreen.mediumTermOscillator || 'N/A'}
+                  {tripleScreen.unavailable?.wave ? 'indisponível' : tripleScreen.mediumTermOscillator || 'N/A'}
                 </Badge>
               </div>
               <div className="text-center">
@@ -89,6 +202,19 @@ const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAna
                 </Badge>
               </div>
             </div>
+            {tripleScreen.timeframes && (
+              <div className="text-xs text-green-800 mt-2">
+                Telas: {tripleScreen.timeframes.tide} / {tripleScreen.timeframes.wave} / {tripleScreen.timeframes.ripple}
+                {tripleScreen.entryStop !== undefined && tripleScreen.protectiveStop !== undefined && (
+                  <> | Stop de entrada {tripleScreen.entryStop.toFixed(4)}, proteção {tripleScreen.protectiveStop.toFixed(4)}</>
+                )}
+              </div>
+            )}
+            {(tripleScreen.unavailable?.tide || tripleScreen.unavailable?.wave) && (
+              <div className="text-xs text-amber-700 mt-2">
+                {[...new Set([tripleScreen.unavailable.tide, tripleScreen.unavailable.wave].filter(Boolean))].join('; ')}
+              </div>
+            )}
             <Progress value={(tripleScreen.confidence || 0) * 100} className="mt-2 h-2" />
           </div>
         )}
@@ -112,13 +238,19 @@ const MasterAnalysisDisplay: React.FC<MasterAnalysisDisplayProps> = ({ masterAna
               <div>
                 <span className="font-medium">Volume:</span> {murphy.volumeAnalysis?.trend || 'N/A'}
               </div>
+              <div>
+                <span className="font-medium">Secundária:</span> {murphy.trendAnalysis?.secondary || 'N/A'}
+              </div>
+              <div>
+                <span className="font-medium">Menor:</span> {murphy.trendAnalysis?.minor || 'N/A'}
+              </div>
             </div>
             {murphy.supportResistance && murphy.supportResistance.length > 0 && (
               <div className="text-xs">
                 <span className="font-medium">Níveis chave:</span>
                 {murphy.supportResistance.slice(0, 3).map((level, idx) => (
                   <Badge key={idx} variant="outline" className="ml-1 text-xs">
-                    {level.level} ({level.type})
+                    {Number(level.level).toFixed(4)} ({level.type}, {level.touches} toques)
                   </Badge>
                 ))}
               </div>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAnalyzer } from '@/context/AnalyzerContext';
+import { combinePanelResults, PanelDirection } from '@/utils/multiPanelAnalysis';
+import { LayoutGrid, TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle } from 'lucide-react';
+
+const directionIcons: Record<PanelDirection, React.ReactNode> = {
+  alta: <TrendingUp className="h-3.5 w-3.5 text-green-600" />,
+  baixa: <TrendingDown className="h-3.5 w-3.5 text-red-600" />,
+  neutro: <Minus className="h-3.5 w-3.5 text-muted-foreground" />
+};
+
+const MultiPanelSummary = () => {
+  const { panelResults, analysisResults, setAnalysisResults } = useAnalyzer();
+
+  if (panelResults.length < 2) return null;
+
+  const consensus = combinePanelResults(panelResults);
+  const selectedIndex = analysisResults?.panel?.index;
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <LayoutGrid className="h-4 w-4" />
+            {panelResults.length} Painéis
+          </span>
+          <Badge
+            variant={consensus.status === 'conflito' ? 'destructive' : 'secondary'}
+            className="flex items-center gap-1"
+          >
+            {consensus.status === 'conflito'
+              ? <AlertTriangle className="h-3 w-3" />
+              : <CheckCircle className="h-3 w-3" />}
+            {consensus.status === 'conflito' ? 'Conflito' : consensus.status === 'concordância' ? 'Concordância' : 'Neutro'}
+          </Badge>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">{consensus.summary}</p>
+      </CardHeader>
+
+      <CardContent className="grid grid-cols-2 gap-2">
+        {consensus.verdicts.map((verdict, i) => (
+          <Button
+            key={verdict.index}
+            variant={verdict.index === selectedIndex ? 'default' : 'outline'}
+            size="sm"
+            className="h-auto justify-between py-2 text-xs"
+            onClick={() => setAnalysisResults(panelResults[i])}
+          >
+            <span className="truncate text-left">
+              {verdict.label}
+              {verdict.timeframe && <span className="ml-1 opacity-70">{verdict.timeframe}</span>}
+            </span>
+            <span className="flex items-center gap-1">
+              {directionIcons[verdict.direction]}
+              {Math.round(verdict.confidence * 100)}%
+            </span>
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MultiPanelSummary;
@@ -0,0 +1,292 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { useAnalyzer } from '@/context/AnalyzerContext';
+import { Images, AlertTriangle, ChevronRight, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { extractChartDataInWorker, isAbortError } from '@/utils/chartAnalysisClient';
+import { getPlatformProfile } from '@/utils/platformProfiles';
+import { mergePanoramaFrames, PanoramaResult } from '@/utils/panoramaMerge';
+
+// Cor de cada print na sobreposição das junções
+const FRAME_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#a855f7', '#ef4444', '#06b6d4'];
+const frameColor = (frame: number) => FRAME_COLORS[frame % FRAME_COLORS.length];
+
+const CANDLE_STEP = 6;
+const OVERLAY_HEIGHT = 160;
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = e => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const PanoramaUpload = () => {
+  const { setCapturedImage, setPanoramaSeries, timeframe, candlePalette, platformProfile } = useAnalyzer();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [images, setImages] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ frame: number; label: string; value: number } | null>(null);
+  const [result, setResult] = useState<PanoramaResult | null>(null);
+
+  // Cancelar a extração ao sair da aba
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(file => file.type.startsWith('image/'));
+    event.target.value = '';
+    if (files.length < 2) {
+      toast({
+        variant: "destructive",
+        title: "Selecione vários prints",
+        description: "O modo panorama precisa de pelo menos 2 prints do mesmo gráfico, rolados para a esquerda.",
+      });
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+
+    try {
+      const urls = await Promise.all(files.map(readAsDataUrl));
+      setImages(urls);
+
+      // Um print por vez no worker (a extração é pesada)
+      const extractions = [];
+      for (let frame = 0; frame < urls.length; frame++) {
+        const extraction = await extractChartDataInWorker(
+          urls[frame], timeframe, candlePalette, getPlatformProfile(platformProfile),
+          {
+            signal: controller.signal,
+            onProgress: ({ label, progress: value }) => setProgress({ frame, label, value: (frame + value) / urls.length })
+          }
+        );
+        extractions.push(extraction);
+      }
+
+      const merged = mergePanoramaFrames(extractions);
+      setResult(merged);
+      toast({
+        title: merged.unmatched.length === 0 ? "✓ Prints mesclados" : "Panorama parcial",
+        description: `${merged.candles.length} candles de ${urls.length - merged.unmatched.length} de ${urls.length} prints.`,
+        variant: merged.seams.length === 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Erro ao montar panorama:', error);
+      toast({
+        variant: "destructive",
+        title: "✗ Erro no panorama",
+        description: "Não foi possível ler os prints. Tente novamente.",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const clear = () => {
+    abortRef.current?.abort();
+    setImages([]);
+    setResult(null);
+  };
+
+  // A série mesclada segue para a tela de análise com o print de base como imagem
+  const analyzeMerged = () => {
+    if (!result) return;
+    setPanoramaSeries({ candles: result.candles, chartType: result.chartType, frames: images.length - result.unmatched.length });
+    setCapturedImage(images[result.baseFrame]);
+  };
+
+  const renderSeamOverlay = (panorama: PanoramaResult) => {
+    const { candles, sources, seams } = panorama;
+    const width = candles.length * CANDLE_STEP;
+    const high = Math.max(...candles.map(c => c.high));
+    const low = Math.min(...candles.map(c => c.low));
+    const y = (price: number) => 12 + (high - price) / (high - low || 1) * (OVERLAY_HEIGHT - 24);
+
+    // Faixas contíguas de candles vindos do mesmo print
+    const bands: { frame: number; start: number; end: number }[] = [];
+    sources.forEach((frame, index) => {
+      const last = bands[bands.length - 1];
+      if (last && last.frame === frame) last.end = index + 1;
+      else bands.push({ frame, start: index, end: index + 1 });
+    });
+
+    return (
+      <svg viewBox={`0 0 ${width} ${OVERLAY_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-muted rounded">
+        {bands.map(band => (
+          <rect
+            key={`band-${band.start}`}
+            x={band.start * CANDLE_STEP}
+            y={0}
+            width={(band.end - band.start) * CANDLE_STEP}
+            height={OVERLAY_HEIGHT}
+            fill={frameColor(band.frame)}
+            fillOpacity={0.08}
+          />
+        ))}
+
+        {/* Sobreposição registrada entre dois prints */}
+        {seams.map(seam => (
+          <g key={`seam-${seam.frame}`}>
+            <rect
+              x={seam.overlapStart * CANDLE_STEP}
+              y={0}
+              width={(seam.overlapEnd - seam.overlapStart) * CANDLE_STEP}
+              height={OVERLAY_HEIGHT}
+              fill={frameColor(seam.frame)}
+              fillOpacity={0.2}
+            />
+            {[seam.overlapStart, seam.overlapEnd].map(index => (
+              <line
+                key={index}
+                x1={index * CANDLE_STEP}
+                y1={0}
+                x2={index * CANDLE_STEP}
+                y2={OVERLAY_HEIGHT}
+                stroke={frameColor(seam.frame)}
+                strokeDasharray="4 3"
+                strokeWidth={1}
+              />
+            ))}
+          </g>
+        ))}
+
+        {candles.map((candle, index) => {
+          const x = index * CANDLE_STEP + CANDLE_STEP / 2;
+          const color = candle.close >= candle.open ? '#16a34a' : '#dc2626';
+          return (
+            <g key={`candle-${index}`}>
+              <line x1={x} y1={y(candle.high)} x2={x} y2={y(candle.low)} stroke={color} strokeWidth={1} />
+              <rect
+                x={x - CANDLE_STEP * 0.3}
+                y={y(Math.max(candle.open, candle.close))}
+                width={CANDLE_STEP * 0.6}
+                height={Math.max(1, Math.abs(y(candle.open) - y(candle.close)))}
+                fill={color}
+              />
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Images className="h-5 w-5" />
+            Modo Panorama
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Envie vários prints do mesmo gráfico rolado para a esquerda: os candles em comum ligam os prints numa série única e mais longa.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} className="gap-2 flex-1" disabled={!!progress}>
+              <Images className="w-4 h-4" />
+              Selecionar prints
+            </Button>
+            {images.length > 0 && (
+              <Button variant="outline" size="icon" onClick={clear}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFilesSelected}
+              accept="image/*"
+              multiple
+              className="hidden"
+            />
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Print {progress.frame + 1} de {images.length}: {progress.label}
+              </p>
+              <Progress value={progress.value * 100} className="h-2" />
+            </div>
+          )}
+
+          {images.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {images.map((image, frame) => (
+                <div key={frame} className="relative shrink-0">
+                  <img
+                    src={image}
+                    alt={`Print ${frame + 1}`}
+                    className="h-16 rounded border-2"
+                    style={{ borderColor: result ? frameColor(frame) : undefined }}
+                  />
+                  <Badge variant="secondary" className="absolute bottom-1 left-1 text-[10px] px-1 py-0">
+                    {frame + 1}{result?.baseFrame === frame ? ' (base)' : ''}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && result.candles.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Junções</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {renderSeamOverlay(result)}
+
+            <div className="space-y-1 text-xs">
+              {result.seams.map(seam => (
+                <div key={seam.frame} className="flex items-center gap-2">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: frameColor(seam.frame) }} />
+                  <span>
+                    Print {seam.frame + 1} ligado ao print {seam.joinedTo + 1}: {seam.matched} candles em comum
+                    ({seam.method === 'timestamp' ? 'pelos horários do eixo' : 'pelos candles'}),
+                    erro médio {(seam.priceError * 100).toFixed(1)}%
+                  </span>
+                </div>
+              ))}
+              <p className="text-muted-foreground">
+                Série mesclada: {result.candles.length} candles.
+              </p>
+            </div>
+
+            {result.unmatched.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {result.unmatched.map(frame => frame + 1).join(', ')}: sem candles em comum suficientes com os outros prints (ou eixo de preço ilegível). Esses prints ficaram fora da série.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={analyzeMerged} className="w-full gap-2" disabled={result.seams.length === 0}>
+              Analisar série mesclada
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PanoramaUpload;
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Crop, X } from 'lucide-react';
+import { Quad } from '@/utils/perspectiveCorrection';
+
+interface PerspectiveCornerEditorProps {
+  imageUrl: string;
+  initialCorners: Quad;
+  imageSize: { width: number; height: number };
+  message?: string;
+  disabled?: boolean;
+  onConfirm: (corners: Quad) => void;
+  onSkip: () => void;
+}
+
+const CORNER_LABELS = ['Superior esquerdo', 'Superior direito', 'Inferior direito', 'Inferior esquerdo'];
+
+// Ajuste manual dos quatro cantos da tela quando a detecção automática falha
+const PerspectiveCornerEditor = ({
+  imageUrl,
+  initialCorners,
+  imageSize,
+  message,
+  disabled,
+  onConfirm,
+  onSkip
+}: PerspectiveCornerEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [corners, setCorners] = useState<Quad>(initialCorners);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(imageSize.width, Math.max(0, ((e.clientX - rect.left) / rect.width) * imageSize.width)),
+      y: Math.min(imageSize.height, Math.max(0, ((e.clientY - rect.top) / rect.height) * imageSize.height))
+    };
+  };
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setDraggingIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draggingIndex === null || !containerRef.current) return;
+    const point = toImagePoint(e);
+    setCorners(prev => prev.map((corner, i) => (i === draggingIndex ? point : corner)) as Quad);
+  };
+
+  const handlePointerUp = () => {
+    setDraggingIndex(null);
+  };
+
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <p className="text-xs text-muted-foreground">
+        {message || 'Arraste os quatro cantos até as bordas do gráfico para corrigir a perspectiva.'}
+      </p>
+
+      <div
+        ref={containerRef}
+        className="relative w-full select-none touch-none rounded-lg overflow-hidden"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <img src={imageUrl} alt="Foto do gráfico" className="w-full object-contain pointer-events-none" draggable={false} />
+
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={corners.map(corner => `${corner.x},${corner.y}`).join(' ')}
+            fill="hsl(var(--primary) / 0.15)"
+            stroke="hsl(var(--primary))"
+            strokeWidth={Math.max(imageSize.width, imageSize.height) / 300}
+          />
+        </svg>
+
+        {corners.map((corner, index) => (
+          <div
+            key={CORNER_LABELS[index]}
+            title={CORNER_LABELS[index]}
+            className={`absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-primary shadow cursor-move ${
+              draggingIndex === index ? 'scale-125' : ''
+            }`}
+            style={{ left: toPercent(corner.x, imageSize.width), top: toPercent(corner.y, imageSize.height) }}
+            onPointerDown={handlePointerDown(index)}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={() => onConfirm(corners)} className="flex-1 gap-1" disabled={disabled}>
+          <Check className="w-4 h-4" />
+          Corrigir Perspectiva
+        </Button>
+        <Button variant="outline" onClick={onSkip} className="flex-1 gap-1" disabled={disabled}>
+          <X className="w-4 h-4" />
+          Usar Sem Correção
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setCorners(initialCorners)} title="Restaurar cantos">
+          <Crop className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PerspectiveCornerEditor;
@@ -0,0 +1,336 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { useAnalyzer } from '@/context/AnalyzerContext';
+import { Film, Play, CircleStop, AlertTriangle, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { isAbortError } from '@/utils/chartAnalysisClient';
+import { getPlatformProfile } from '@/utils/platformProfiles';
+import { createCandleHistory } from '@/utils/candleHistory';
+import { LiveAnalysisResult, analyzeLiveFrame } from '@/utils/liveFrameAnalysis';
+import { VideoSample, candleCloseSamples, grabVideoFrame, loadVideoFile, releaseVideo } from '@/utils/videoSession';
+
+// Um ponto da linha do tempo: o que o analisador diria naquele fechamento
+interface SessionEntry {
+  sample: VideoSample;
+  result: LiveAnalysisResult | null; // null: nenhum gráfico visível no frame
+  historySize: number;
+  stitched: boolean; // Falso quando o eixo de preço não foi lido e o frame ficou fora do histórico
+}
+
+const signalColor = (entry: SessionEntry) =>
+  !entry.result ? 'bg-muted' :
+  entry.result.signal === 'compra' ? 'bg-green-500' :
+  entry.result.signal === 'venda' ? 'bg-red-500' : 'bg-gray-400';
+
+// Valor de <input type="datetime-local"> no fuso do navegador
+const toLocalInput = (time: number) => {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 19);
+};
+
+const VideoSessionReview = () => {
+  const {
+    timeframe,
+    scalpingStrategy,
+    considerVolume,
+    considerVolatility,
+    marketContextEnabled,
+    marketAnalysisDepth,
+    platformProfile,
+    candlePalette
+  } = useAnalyzer();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const videoContainerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [recordingStart, setRecordingStart] = useState<number | null>(null);
+  const [entries, setEntries] = useState<SessionEntry[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [progress, setProgress] = useState<{ done: number; total: number; label: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Liberar o vídeo e cancelar a revisão ao sair da aba
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    if (videoRef.current) releaseVideo(videoRef.current);
+  }, []);
+
+  // O frame exibido acompanha o ponto escolhido na linha do tempo
+  useEffect(() => {
+    const entry = entries[selected];
+    if (videoRef.current && entry && !progress) videoRef.current.currentTime = entry.sample.videoTime;
+  }, [selected, entries, progress]);
+
+  const handleVideoSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    abortRef.current?.abort();
+    if (videoRef.current) releaseVideo(videoRef.current);
+    setEntries([]);
+    setSelected(0);
+    setError(null);
+
+    try {
+      const video = await loadVideoFile(file);
+      video.className = 'w-full h-full object-contain';
+      videoContainerRef.current?.replaceChildren(video);
+      videoRef.current = video;
+      setFileName(file.name);
+      // Gravações de tela são salvas ao terminar: o início é a data do arquivo menos a duração
+      setRecordingStart(file.lastModified - video.duration * 1000);
+    } catch (loadError) {
+      console.error('Erro ao abrir vídeo:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível abrir o vídeo.');
+    }
+  };
+
+  const analyzeSession = async () => {
+    const video = videoRef.current;
+    if (!video || recordingStart === null) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const samples = candleCloseSamples(video.duration, recordingStart, timeframe);
+    const timeline: SessionEntry[] = [];
+    let history = createCandleHistory();
+    setEntries([]);
+    setSelected(0);
+    setProgress({ done: 0, total: samples.length, label: 'Decodificando vídeo' });
+
+    try {
+      // Um fechamento por vez: o histórico de cada frame depende dos anteriores
+      for (const sample of samples) {
+        const bitmap = await grabVideoFrame(video, sample.videoTime, { signal: controller.signal });
+
+        const frame = await analyzeLiveFrame(bitmap, history, {
+          timeframe,
+          platformProfile: getPlatformProfile(platformProfile),
+          candlePalette,
+          scalpingStrategy,
+          considerVolume,
+          considerVolatility,
+          marketContextEnabled,
+          marketAnalysisDepth,
+          referenceTime: sample.wallTime,
+          signal: controller.signal,
+          onProgress: ({ label }) => setProgress({ done: timeline.length, total: samples.length, label })
+        });
+        history = frame.history;
+        timeline.push({ sample, result: frame.result, historySize: history.candles.length, stitched: frame.stitched });
+        setEntries([...timeline]);
+        setSelected(timeline.length - 1);
+      }
+
+      const signals = timeline.filter(entry => entry.result && entry.result.signal !== 'neutro').length;
+      const unstitched = timeline.filter(entry => entry.result && !entry.stitched).length;
+      toast({
+        title: "✓ Sessão revisada",
+        description: `${timeline.length} fechamentos analisados, ${signals} com sinal de entrada.` +
+          (unstitched > 0 ? ` Em ${unstitched} o eixo de preço não foi lido e o frame ficou fora do histórico.` : ''),
+      });
+    } catch (sessionError) {
+      if (isAbortError(sessionError)) return;
+      console.error('Erro na revisão da gravação:', sessionError);
+      toast({
+        variant: "destructive",
+        title: "✗ Erro na revisão",
+        description: "A análise da gravação foi interrompida. Os fechamentos já analisados continuam na linha do tempo.",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const stopSession = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const clear = () => {
+    stopSession();
+    if (videoRef.current) releaseVideo(videoRef.current);
+    videoRef.current = null;
+    videoContainerRef.current?.replaceChildren();
+    setFileName(null);
+    setRecordingStart(null);
+    setEntries([]);
+  };
+
+  const current = entries[selected];
+
+  return (
+    <div className="w-full space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Film className="h-5 w-5" />
+            Revisar Gravação
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Envie a gravação de tela de uma sessão: cada fechamento de candle ({timeframe}) passa pelo mesmo pipeline da análise live.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="gap-2 flex-1" disabled={!!progress}>
+              <Film className="w-4 h-4" />
+              {fileName || 'Selecionar vídeo'}
+            </Button>
+            {fileName && (
+              <Button variant="outline" size="icon" onClick={clear}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleVideoSelected}
+              accept="video/*"
+              className="hidden"
+            />
+          </div>
+
+          {recordingStart !== null && (
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-xs text-muted-foreground" htmlFor="recording-start">Início da gravação</label>
+              <input
+                id="recording-start"
+                type="datetime-local"
+                step={1}
+                value={toLocalInput(recordingStart)}
+                onChange={e => {
+                  const time = new Date(e.target.value).getTime();
+                  if (Number.isFinite(time)) setRecordingStart(time);
+                }}
+                disabled={!!progress}
+                className="px-2 py-1 border rounded-md text-xs bg-background"
+              />
+              {!progress ? (
+                <Button onClick={analyzeSession} className="gap-2 ml-auto">
+                  <Play className="w-4 h-4" />
+                  Analisar sessão
+                </Button>
+              ) : (
+                <Button onClick={stopSession} variant="destructive" className="gap-2 ml-auto">
+                  <CircleStop className="w-4 h-4" />
+                  Parar
+                </Button>
+              )}
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Fechamento {Math.min(progress.done + 1, progress.total)} de {progress.total}: {progress.label}
+              </p>
+              <Progress value={(progress.done / Math.max(1, progress.total)) * 100} className="h-2" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className={`relative w-full aspect-video bg-black rounded-lg overflow-hidden ${fileName ? '' : 'hidden'}`}>
+        <div ref={videoContainerRef} className="w-full h-full" />
+
+        {current && (
+          <div className="absolute top-2 left-2 right-2">
+            <Card className="bg-black/80 border-amber-200">
+              <CardContent className="p-2 text-white text-xs flex items-center justify-between gap-2">
+                {current.result ? (
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={current.result.signal === 'compra' ? 'default' :
+                               current.result.signal === 'venda' ? 'destructive' : 'secondary'}
+                    >
+                      {current.result.signal.toUpperCase()}
+                    </Badge>
+                    <span>Confiança: {Math.round(current.result.confidence * 100)}%</span>
+                    {current.result.signalQuality && <span className="text-yellow-300">{current.result.signalQuality}</span>}
+                  </div>
+                ) : (
+                  <span className="text-gray-300">Nenhum gráfico visível neste frame</span>
+                )}
+                <span className="text-gray-300">{new Date(current.sample.wallTime).toLocaleTimeString()}</span>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+      </div>
+
+      {entries.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Linha do Tempo</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {/* Um marcador por fechamento, colorido pelo sinal */}
+            <div className="flex gap-px h-4">
+              {entries.map((entry, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => setSelected(index)}
+                  className={`flex-1 rounded-sm ${signalColor(entry)} ${index === selected ? 'ring-2 ring-primary' : ''}`}
+                  title={new Date(entry.sample.wallTime).toLocaleTimeString()}
+                />
+              ))}
+            </div>
+            <Slider
+              value={[selected]}
+              min={0}
+              max={Math.max(0, entries.length - 1)}
+              step={1}
+              onValueChange={([value]) => setSelected(value)}
+            />
+
+            {current?.result && (
+              <div className="text-xs space-y-1">
+                <div>Fase: {current.result.marketPhase} | Tendência: {current.result.trend} | Confluência: {Math.round(current.result.confluenceScore || 0)}</div>
+                {current.result.patterns.length > 0 && <div>Padrões: {current.result.patterns.join(', ')}</div>}
+                {current.result.entryRecommendations && current.result.entryRecommendations.length > 0 && (
+                  <div className="text-green-600">
+                    Entrada: {current.result.entryRecommendations[0].entryPrice?.toFixed(4)} |
+                    SL: {current.result.entryRecommendations[0].stopLoss?.toFixed(4)} |
+                    TP: {current.result.entryRecommendations[0].takeProfit?.toFixed(4)}
+                  </div>
+                )}
+                <div className="text-muted-foreground">
+                  {current.stitched
+                    ? `Histórico: ${current.historySize} candles`
+                    : 'Eixo de preço não lido: frame analisado sozinho, fora do histórico'}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default VideoSessionReview;
@@ -1,4 +1,7 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { loadStoredPalette, storePalette } from '@/utils/paletteDetection';
+import { loadStoredStatistics, storeStatistics } from '@/utils/patternStatistics';
+import { AUTO_PROFILE_ID } from '@/utils/platformProfiles';
 
 export type PatternResult = {
   type: string;
@@ -24,6 +27,8 @@ export type TechnicalElement = {
   dashArray?: number[];
   label?: string;
   backgroundColor?: string;
+  prices?: number[]; // Preço de cada ponto (retângulo: topo e base), pela calibração do eixo
+  userDrawn?: boolean; // Desenhado pelo usuário na plataforma e lido do print
 } & (
   | { type: 'line', points: Point[] }
   | { type: 'arrow', start: Point, end: Point }
@@ -41,9 +46,136 @@ export type CandleData = {
   close: number;
   timestamp: number; // Add timestamp property
   color?: 'verde' | 'vermelho';
-  position?: Point;
-  width?: number;
-  height?: number;
+  position?: Point; // Centro do corpo na imagem
+  width?: number; // Largura do corpo em pixels
+  height?: number; // Altura do corpo em pixels
+  wickTop?: number; // y do topo do pavio superior (máxima)
+  wickBottom?: number; // y da base do pavio inferior (mínima)
+  extractionConfidence?: number; // 0-1, qualidade da extração deste candle
+  volume?: number; // Volume lido do painel (absoluto quando o eixo do painel é legível, senão relativo 0-100)
+};
+
+// Tipo de gráfico reconhecido na imagem (define quais campos OHLC são reais)
+export type ChartType = 'candles' | 'ohlc_bars' | 'line' | 'heikin_ashi';
+
+// Série longa montada no modo panorama a partir de vários prints rolados do mesmo gráfico
+export type PanoramaSeries = {
+  candles: CandleData[]; // Só os candles do print de base têm posição em pixels
+  chartType: ChartType;
+  frames: number; // Prints incorporados à série
+};
+
+// Nível de Fibonacci traçado sobre a perna de impulso dominante
+export type FibonacciLevel = {
+  ratio: number; // 0.236-0.786 nas retrações, 1.272-2.618 nas extensões
+  kind: 'retração' | 'extensão';
+  price: number;
+  confluence: number; // 0-1, proximidade e força do suporte/resistência coincidente
+  nearLevel?: number; // Preço do S/R coincidente
+};
+
+export type FibonacciAnalysis = {
+  direction: 'alta' | 'baixa'; // Sentido do impulso
+  impulse: [{ index: number; price: number }, { index: number; price: number }];
+  levels: FibonacciLevel[];
+  retracement: number; // Fração do impulso já devolvida pelo último fechamento
+  elements: TechnicalElement[];
+};
+
+// Desempenho de um padrão de candle medido à frente de cada ocorrência em um histórico OHLC
+export type PatternStatistics = {
+  pattern: string; // Tipo do padrão (o mesmo de DetectedPattern.type)
+  action: 'compra' | 'venda';
+  occurrences: number;
+  hitRate: number; // 0-1, alvo atingido antes do stop
+  failureRate: number; // 0-1, stop atingido antes do alvo
+  averageMove: number; // % a favor do padrão ao fim do horizonte
+  averageBarsToTarget: number | null;
+};
+
+export type PatternStatisticsReport = {
+  instrument: string;
+  timeframe: TimeframeType;
+  candles: number;
+  from: number; // Timestamps do primeiro e do último candle do histórico
+  to: number;
+  horizon: number; // Barras observadas depois de cada ocorrência
+  patterns: PatternStatistics[];
+};
+
+// Calibração pixel → preço obtida a partir dos rótulos do eixo de preço
+export type PriceCalibration = {
+  slope: number; // Variação de preço por pixel (negativa: preço sobe quando y diminui)
+  intercept: number; // Preço no y = 0 da imagem
+  confidence: number; // 0-1
+  axisSide: 'left' | 'right';
+  axisBounds: { x: number; width: number };
+  decimalSeparator: '.' | ',';
+  decimals: number;
+  labels: { y: number; value: number; text: string; inlier: boolean }[];
+};
+
+// Calibração do eixo de tempo: rótulos lidos e timeframe inferido pelo espaçamento
+export type TimeCalibration = {
+  timeframe: TimeframeType | null; // Timeframe inferido (null quando os rótulos não permitem)
+  barDurationMs: number; // Duração de cada barra usada para carimbar os candles
+  confidence: number; // 0-1
+  axisBounds: { y: number; height: number };
+  labels: { x: number; barIndex: number; text: string; timestamp: number | null; inlier: boolean }[];
+};
+
+// Painel de um print com vários gráficos (layouts 2×2, 3×2...), em coordenadas da imagem inteira
+export type ChartPanel = {
+  index: number;
+  bounds: { x: number; y: number; width: number; height: number };
+  plot: { x: number; y: number; width: number; height: number };
+  priceAxis: { x: number; width: number } | null;
+  timeAxis: { y: number; height: number } | null;
+  header: { bounds: { x: number; y: number; width: number; height: number }; text: string } | null;
+};
+
+// Etiqueta do preço atual no eixo (lida à parte: não é um rótulo da escala)
+export type CurrentPriceLabel = {
+  bounds: { x: number; y: number; width: number; height: number };
+  y: number; // Altura indicada pela etiqueta
+  text: string;
+  value: number | null; // Valor lido na etiqueta
+  axisValue: number | null; // Valor da calibração do eixo na mesma altura
+  color: [number, number, number];
+  hasPriceLine: boolean; // Continua numa linha horizontal da mesma cor
+};
+
+// Paleta de cores dos candles (aprendida automaticamente ou calibrada pelo usuário)
+export type CandlePalette = {
+  bullish: [number, number, number]; // RGB dos candles de alta
+  bearish: [number, number, number]; // RGB dos candles de baixa
+  background: [number, number, number];
+  tolerance: number; // Distância RGB máxima para um pixel pertencer ao candle
+  hollowBullish?: boolean; // Alta e baixa na mesma cor: alta = corpo vazado
+  source: 'auto' | 'manual';
+  confidence: number; // 0-1
+};
+
+// Layout e cores previsíveis de uma plataforma de gráficos
+export type PlatformProfile = {
+  id: string;
+  name: string;
+  priceAxisSide: 'left' | 'right';
+  volumePane: 'separate' | 'overlay' | 'none'; // Painel próprio, barras no rodapé do gráfico ou sem volume
+  palette: {
+    background: [number, number, number];
+    bullish: [number, number, number];
+    bearish: [number, number, number];
+    grid: [number, number, number] | null;
+  };
+  candleStyle: 'filled' | 'hollow'; // 'hollow': candles de alta com corpo vazado
+};
+
+// Perfil usado numa análise: escolhido pelo usuário ou reconhecido no print
+export type PlatformProfileMatch = {
+  profile: PlatformProfile;
+  source: 'auto' | 'manual';
+  confidence: number; // 0-1
 };
 
 // Enhanced volume analysis type
@@ -95,9 +227,19 @@ export type AnalysisResult = {
   imageUrl?: string;
   technicalElements?: TechnicalElement[];
   candles?: CandleData[];
+  priceCalibration?: PriceCalibration | null;
+  timeCalibration?: TimeCalibration | null;
+  currentPriceLabel?: CurrentPriceLabel | null;
+  panel?: ChartPanel; // Painel de origem (candles e calibrações em coordenadas do painel)
+  platformProfile?: PlatformProfileMatch | null;
+  chartType?: ChartType; // Linha e Heikin-Ashi não têm OHLC real
+  panoramaFrames?: number; // Prints mesclados quando os candles vêm do modo panorama
   manualRegion?: boolean;
   scalpingSignals?: ScalpingSignal[];
   technicalIndicators?: TechnicalIndicator[];
+  divergences?: Divergence[];
+  chartPatterns?: ChartFormation[];
+  fibonacci?: FibonacciAnalysis; // Retrações e extensões da perna de impulso dominante
   volumeData?: VolumeData;
   volatilityData?: VolatilityData;
   marketContext?: EnhancedMarketContext;
@@ -137,6 +279,39 @@ export type TechnicalIndicator = {
   signal: 'alta' | 'baixa' | 'neutro';
   strength: 'forte' | 'moderada' | 'fraca';
   description: string;
+  series?: Record<string, (number | null)[]>; // Linhas do indicador alinhadas aos candles (null antes do período)
+};
+
+// Divergência entre o preço e um oscilador, ancorada em dois topos ou dois fundos
+export type Divergence = {
+  kind: 'regular' | 'hidden'; // Regular antecipa reversão; oculta, continuação da tendência
+  direction: 'alta' | 'baixa';
+  indicator: 'RSI' | 'MACD' | 'Estocástico';
+  anchors: [number, number]; // Índices dos candles de âncora (anterior, recente)
+  anchorCandles: [CandleData, CandleData];
+  prices: [number, number]; // Mínimas (fundos) ou máximas (topos) nas âncoras
+  indicatorValues: [number, number];
+  strength: 'forte' | 'moderada' | 'fraca';
+  confidence: number;
+  description: string;
+  overlay?: TechnicalElement; // Linha entre as âncoras no gráfico (só quando os candles têm posição na imagem)
+};
+
+// Formação gráfica clássica reconhecida nos pivôs de preço
+export type ChartFormation = {
+  pattern: string; // Nome exibido (ex.: 'Ombro-Cabeça-Ombro')
+  formation: string; // Chave em edwardsMageeFormations usada na validação
+  patternType: 'OCO' | 'triangulo' | 'cunha' | 'bandeira' | 'topoduplo' | 'fundoduplo';
+  action: 'compra' | 'venda' | 'neutro';
+  confidence: number;
+  status: 'formando' | 'confirmado' | 'invalidado'; // Rompimento da linha já aconteceu ou o padrão falhou
+  pivots: { index: number; price: number; type: 'high' | 'low' }[];
+  breakoutLine: [{ index: number; price: number }, { index: number; price: number }]; // Linha do pescoço ou de rompimento
+  target: number; // Objetivo pelo movimento medido
+  invalidation: number; // Preço que anula a formação
+  description: string;
+  recommendation: string;
+  elements: TechnicalElement[]; // Desenho da formação e da linha de rompimento (vazio sem posições na imagem)
 };
 
 export type ScalpingSignal = {
@@ -209,6 +384,8 @@ type AnalyzerContextType = {
   setIsAnalyzing: (analyzing: boolean) => void;
   analysisResults: AnalysisResult | null;
   setAnalysisResults: (results: AnalysisResult | null) => void;
+  panelResults: AnalysisResult[]; // Um resultado por painel quando o print tem vários gráficos
+  setPanelResults: (results: AnalysisResult[]) => void;
   selectedRegion: SelectedRegion | null;
   setSelectedRegion: (region: SelectedRegion | null) => void;
   resetAnalysis: () => void;
@@ -244,6 +421,14 @@ type AnalyzerContextType = {
   setMarketAnalysisDepth: (depth: MarketAnalysisDepth) => void;
   enableCandleDetection: boolean; // Nova propriedade para detecção de candles
   setEnableCandleDetection: (enabled: boolean) => void; // Novo setter
+  platformProfile: string; // Perfil da plataforma escolhido ('auto': reconhecer no print)
+  setPlatformProfile: (profile: string) => void;
+  candlePalette: CandlePalette | null; // Paleta salva para o perfil atual
+  setCandlePalette: (palette: CandlePalette | null) => void;
+  panoramaSeries: PanoramaSeries | null; // Série mesclada que substitui os candles do print na análise
+  setPanoramaSeries: (series: PanoramaSeries | null) => void;
+  patternStatistics: PatternStatisticsReport | null; // Estatísticas medidas no histórico enviado (persistem entre análises)
+  setPatternStatistics: (report: PatternStatisticsReport | null) => void;
 };
 
 const AnalyzerContext = createContext<AnalyzerContextType | undefined>(undefined);
@@ -252,6 +437,7 @@ export const AnalyzerProvider = ({ children }: { children: ReactNode }) => {
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null);
+  const [panelResults, setPanelResults] = useState<AnalysisResult[]>([]);
   const [selectedRegion, setSelectedRegion] = useState<SelectedRegion | null>(null);
   const [showTechnicalMarkup, setShowTechnicalMarkup] = useState(true);
   const [regionType, setRegionType] = useState<RegionType>('circle');
@@ -268,12 +454,33 @@ export const AnalyzerProvider = ({ children }: { children: ReactNode }) => {
   const [marketContextEnabled, setMarketContextEnabled] = useState(true); // New state for market context
   const [marketAnalysisDepth, setMarketAnalysisDepth] = useState<MarketAnalysisDepth>('comprehensive'); // New state for market analysis depth
   const [enableCandleDetection, setEnableCandleDetection] = useState(true); // Novo estado para detecção de candles
+  const [platformProfile, setPlatformProfile] = useState(AUTO_PROFILE_ID);
+  const [panoramaSeries, setPanoramaSeries] = useState<PanoramaSeries | null>(null);
+  const [candlePalette, setCandlePaletteState] = useState<CandlePalette | null>(() => loadStoredPalette(AUTO_PROFILE_ID));
+  const [patternStatistics, setPatternStatisticsState] = useState<PatternStatisticsReport | null>(loadStoredStatistics);
+
+  // Cada perfil de plataforma tem sua própria paleta salva
+  useEffect(() => {
+    setCandlePaletteState(loadStoredPalette(platformProfile));
+  }, [platformProfile]);
+
+  const setCandlePalette = (palette: CandlePalette | null) => {
+    setCandlePaletteState(palette);
+    storePalette(platformProfile, palette);
+  };
+
+  const setPatternStatistics = (report: PatternStatisticsReport | null) => {
+    setPatternStatisticsState(report);
+    storeStatistics(report);
+  };
 
   const resetAnalysis = () => {
     setCapturedImage(null);
     setIsAnalyzing(false);
     setAnalysisResults(null);
+    setPanelResults([]);
     setSelectedRegion(null);
+    setPanoramaSeries(null);
   };
 
   const addManualMarkup = (markup: TechnicalElement) => {
@@ -297,6 +504,8 @@ export const AnalyzerProvider = ({ children }: { children: ReactNode }) => {
         setIsAnalyzing,
         analysisResults,
         setAnalysisResults,
+        panelResults,
+        setPanelResults,
         selectedRegion,
         setSelectedRegion,
         resetAnalysis,
@@ -332,6 +541,14 @@ export const AnalyzerProvider = ({ children }: { children: ReactNode }) => {
         setMarketAnalysisDepth,
         enableCandleDetection,
         setEnableCandleDetection,
+        platformProfile,
+        setPlatformProfile,
+        candlePalette,
+        setCandlePalette,
+        panoramaSeries,
+        setPanoramaSeries,
+        patternStatistics,
+        setPatternStatistics,
       }}
     >
       {children}
@@ -143,7 +143,62 @@ export const analyzeVolatility = (candles: CandleData[]): VolatilityAnalysis =>
   };
 };
 
-// Validar se um padrão é confiável baseado no tamanho do candle e volatilidade
+// Viés e papel de cada padrão de candle: reversões pedem tendência anterior contrária,
+// continuações pedem tendência a favor; `size` é o número de candles do padrão
+const PATTERN_CONTEXT: Record<string, { bias: 'alta' | 'baixa' | 'neutro'; role: 'reversão' | 'continuação' | 'indecisão'; size: number }> = {
+  'doji': { bias: 'neutro', role: 'indecisão', size: 1 },
+  'martelo': { bias: 'alta', role: 'reversão', size: 1 },
+  'estrela cadente': { bias: 'baixa', role: 'reversão', size: 1 },
+  'pin bar bullish': { bias: 'alta', role: 'reversão', size: 1 },
+  'pin bar bearish': { bias: 'baixa', role: 'reversão', size: 1 },
+  'marubozu alta': { bias: 'alta', role: 'continuação', size: 1 },
+  'marubozu baixa': { bias: 'baixa', role: 'continuação', size: 1 },
+  'engolfo alta': { bias: 'alta', role: 'reversão', size: 2 },
+  'engolfo baixa': { bias: 'baixa', role: 'reversão', size: 2 },
+  'harami alta': { bias: 'alta', role: 'reversão', size: 2 },
+  'harami baixa': { bias: 'baixa', role: 'reversão', size: 2 },
+  'fundo pinca': { bias: 'alta', role: 'reversão', size: 2 },
+  'topo pinca': { bias: 'baixa', role: 'reversão', size: 2 },
+  'linha de perfuracao': { bias: 'alta', role: 'reversão', size: 2 },
+  'nuvem negra': { bias: 'baixa', role: 'reversão', size: 2 },
+  'inside bar': { bias: 'neutro', role: 'indecisão', size: 2 },
+  'outside bar alta': { bias: 'alta', role: 'reversão', size: 2 },
+  'outside bar baixa': { bias: 'baixa', role: 'reversão', size: 2 },
+  'estrela da manha': { bias: 'alta', role: 'reversão', size: 3 },
+  'estrela da tarde': { bias: 'baixa', role: 'reversão', size: 3 },
+  'tres soldados brancos': { bias: 'alta', role: 'reversão', size: 3 },
+  'tres corvos negros': { bias: 'baixa', role: 'reversão', size: 3 },
+  'tres de dentro alta': { bias: 'alta', role: 'reversão', size: 3 },
+  'tres de dentro baixa': { bias: 'baixa', role: 'reversão', size: 3 }
+};
+
+// Tendência das barras antes do padrão: deslocamento das últimas 8 barras contra o range médio
+const priorTrend = (candles: CandleData[]): 'alta' | 'baixa' | 'lateral' | null => {
+  const recent = candles.slice(-8);
+  if (recent.length < 4) return null;
+  const averageRange = recent.reduce((sum, c) => sum + (c.high - c.low), 0) / recent.length;
+  const change = recent[recent.length - 1].close - recent[0].close;
+  if (change > averageRange * 1.5) return 'alta';
+  if (change < -averageRange * 1.5) return 'baixa';
+  return 'lateral';
+};
+
+// Suportes e resistências: fundos e topos com duas barras menores de cada lado
+const nearbyLevel = (candles: CandleData[], price: number, type: 'support' | 'resistance'): boolean => {
+  if (candles.length < 5) return false;
+  const averageRange = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length;
+  for (let i = 2; i < candles.length - 2; i++) {
+    const neighbours = [candles[i - 2], candles[i - 1], candles[i + 1], candles[i + 2]];
+    const level = type === 'support' ? candles[i].low : candles[i].high;
+    const isPivot = type === 'support'
+      ? neighbours.every(c => c.low > level)
+      : neighbours.every(c => c.high < level);
+    if (isPivot && Math.abs(price - level) <= averageRange * 0.5) return true;
+  }
+  return false;
+};
+
+// Validar se um padrão é confiável baseado no tamanho do candle, volatilidade e contexto
 export const validatePatternReliability = (
   candle: CandleData,
   previousCandles: CandleData[],
@@ -161,9 +216,12 @@ export const validatePatternReliability = (
   const warnings: string[] = [];
   let confidence = 0.5;
   let isReliable = true;
+  // Tipos chegam como 'engolfo_alta' ou 'engolfo alta'
+  const key = patternType.toLowerCase().replace(/_/g, ' ');
+  const previous = previousCandles[previousCandles.length - 1];
   
   // Validações específicas por tipo de padrão
-  switch (patternType.toLowerCase()) {
+  switch (key) {
     case 'martelo':
     case 'hammer':
       if (metrics.isHammer && metrics.lowerWickPercent > 50) {
@@ -202,6 +260,8 @@ export const validatePatternReliability = (
       break;
       
     case 'engolfo':
+    case 'engolfo alta':
+    case 'engolfo baixa':
     case 'engulfing':
       // Para engolfo, verificar se o corpo atual é significativamente maior
       if (previousCandles.length > 0) {
@@ -215,6 +275,105 @@ export const validatePatternReliability = (
         }
       }
       break;
+      
+    case 'marubozu alta':
+    case 'marubozu baixa':
+      if (metrics.bodyPercent >= 95) {
+        confidence += 0.25;
+        reasons.push(`Marubozu sem pavios: corpo ${metrics.bodyPercent.toFixed(1)}%`);
+      } else {
+        confidence += 0.15;
+      }
+      break;
+      
+    case 'harami alta':
+    case 'harami baixa':
+    case 'inside bar':
+      // Quanto menor o candle interno diante do candle mãe, mais clara a contração
+      if (previous) {
+        const motherRange = previous.high - previous.low;
+        if (metrics.totalRange < motherRange * 0.5) {
+          confidence += 0.2;
+          reasons.push('Candle interno pequeno diante do candle mãe');
+        } else {
+          confidence += 0.1;
+        }
+      }
+      break;
+      
+    case 'fundo pinca':
+    case 'topo pinca':
+      if (previous) {
+        const gap = key === 'fundo pinca' ? Math.abs(candle.low - previous.low) : Math.abs(candle.high - previous.high);
+        const range = Math.max(metrics.totalRange, previous.high - previous.low);
+        if (range > 0 && gap <= range * 0.02) {
+          confidence += 0.2;
+          reasons.push('Extremos praticamente idênticos');
+        } else {
+          confidence += 0.1;
+        }
+      }
+      break;
+      
+    case 'linha de perfuracao':
+    case 'nuvem negra':
+    case 'outside bar alta':
+    case 'outside bar baixa':
+    case 'estrela da manha':
+    case 'estrela da tarde':
+    case 'tres soldados brancos':
+    case 'tres corvos negros':
+    case 'tres de dentro alta':
+    case 'tres de dentro baixa':
+      // O último candle é o de confirmação: corpo cheio reforça o padrão
+      if (metrics.bodyPercent > 60) {
+        confidence += 0.25;
+        reasons.push(`Candle de confirmação forte: corpo ${metrics.bodyPercent.toFixed(1)}%`);
+      } else {
+        confidence += 0.1;
+      }
+      break;
+  }
+  
+  // Contexto: tendência antes do padrão e localização em suporte/resistência
+  const context = PATTERN_CONTEXT[key];
+  if (context) {
+    const before = previousCandles.slice(0, previousCandles.length - (context.size - 1));
+    const patternCandles = [...previousCandles.slice(previousCandles.length - (context.size - 1)), candle];
+    const trend = priorTrend(before);
+    
+    if (trend && context.role === 'reversão' && context.bias !== 'neutro') {
+      const expected = context.bias === 'alta' ? 'baixa' : 'alta';
+      if (trend === expected) {
+        confidence += 0.1;
+        reasons.push(`Reversão após tendência de ${expected}`);
+      } else if (trend !== 'lateral') {
+        confidence -= 0.15;
+        warnings.push(`Sem tendência de ${expected} anterior para reverter`);
+      }
+    }
+    
+    if (trend && context.role === 'continuação' && context.bias !== 'neutro') {
+      if (trend === context.bias) {
+        confidence += 0.1;
+        reasons.push(`A favor da tendência de ${trend}`);
+      } else if (trend !== 'lateral') {
+        confidence -= 0.1;
+        warnings.push(`Contra a tendência de ${trend}`);
+      }
+    }
+    
+    const low = Math.min(...patternCandles.map(c => c.low));
+    const high = Math.max(...patternCandles.map(c => c.high));
+    const atSupport = nearbyLevel(before.slice(-40), low, 'support');
+    const atResistance = nearbyLevel(before.slice(-40), high, 'resistance');
+    if ((context.bias === 'alta' && atSupport) || (context.bias === 'baixa' && atResistance)) {
+      confidence += 0.1;
+      reasons.push(context.bias === 'alta' ? 'Formado em suporte' : 'Formado em resistência');
+    } else if (context.bias === 'neutro' && (atSupport || atResistance)) {
+      confidence += 0.05;
+      reasons.push(`Indecisão em ${atSupport ? 'suporte' : 'resistência'}`);
+    }
   }
   
   // Validações de volatilidade
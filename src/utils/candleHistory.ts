@@ -0,0 +1,168 @@
+/**
+ * Histórico de candles da análise ao vivo: cada frame da câmera mostra só as
+ * barras visíveis na tela. Os frames consecutivos são alinhados pelos candles
+ * em comum; barras que fecharam entram no fim da série e o candle em formação
+ * é atualizado no lugar, em vez de contar como um candle novo. Só frames com
+ * eixo de preço calibrado entram: sem calibração os preços de cada frame são
+ * normalizados à parte e não se comparam com os dos outros.
+ */
+
+import { CandleData, PriceCalibration } from '@/context/AnalyzerContext';
+
+export interface FrameAlignment {
+  method: 'overlap' | 'skipped' | 'reset' | 'uncalibrated'; // Alinhado pelos candles em comum, frame descartado, série reiniciada ou sem eixo de preço
+  offset: number; // Índice no histórico do primeiro candle do frame
+  matched: number; // Candles fechados em comum que conferem
+  appended: number; // Candles novos acrescentados ao fim
+  updatedForming: boolean; // Candle em formação repintado no lugar
+}
+
+export interface CandleHistory {
+  candles: CandleData[]; // Série acumulada em ordem cronológica; o último candle está em formação
+  frames: number; // Frames incorporados desde o último reinício
+  misses: number; // Frames seguidos que não se alinharam
+  lastAlignment: FrameAlignment | null;
+}
+
+// Diferença máxima (fração da faixa de preço) para dois candles serem o mesmo
+const MATCH_TOLERANCE = 0.02;
+// Fração dos candles em comum que precisa conferir para aceitar o alinhamento
+const MIN_MATCH_FRACTION = 0.7;
+const MIN_MATCHED = 3;
+const MIN_FRAME_CANDLES = 3;
+const MAX_HISTORY = 500;
+// Frames seguidos sem alinhamento até concluir que o gráfico mudou (um frame ruim só é descartado)
+const MAX_MISSES = 2;
+
+export const createCandleHistory = (): CandleHistory => ({ candles: [], frames: 0, misses: 0, lastAlignment: null });
+
+// Diferença média de OHLC entre dois candles, relativa à faixa de preço
+const candleDistance = (a: CandleData, b: CandleData, range: number): number => {
+  if (a.color && b.color && a.color !== b.color) return Infinity;
+  return (Math.abs(a.open - b.open) + Math.abs(a.high - b.high) + Math.abs(a.low - b.low) + Math.abs(a.close - b.close)) / 4 / range;
+};
+
+// Posição de uma série em relação a outra (índice na base do primeiro candle do frame, pode ser negativo)
+// que mais candles em comum confirma. `skipLast` ignora os últimos candles, ainda em formação
+export const alignCandleSeries = (
+  base: CandleData[],
+  frame: CandleData[],
+  options: { minOffset?: number; skipLast?: boolean; offsets?: number[] } = {}
+): { offset: number; matched: number; error: number } | null => {
+  const prices = [...base, ...frame].flatMap(c => [c.high, c.low]);
+  const range = Math.max(...prices) - Math.min(...prices);
+  if (!(range > 0)) return null;
+
+  const skip = options.skipLast ? 1 : 0;
+  const minOffset = options.minOffset ?? 0;
+  const candidates = options.offsets ?? Array.from({ length: base.length - minOffset }, (_, k) => minOffset + k);
+
+  let best: { offset: number; matched: number; error: number } | null = null;
+  for (const offset of candidates) {
+    const first = Math.max(0, -offset);
+    const last = Math.min(frame.length - skip, base.length - skip - offset); // Exclusivo
+    const compared = last - first;
+    if (compared < MIN_MATCHED) continue;
+
+    let matched = 0;
+    let error = 0;
+    for (let k = first; k < last; k++) {
+      const distance = candleDistance(base[offset + k], frame[k], range);
+      if (distance <= MATCH_TOLERANCE) {
+        matched++;
+        error += distance;
+      }
+    }
+    if (matched < MIN_MATCHED || matched < compared * MIN_MATCH_FRACTION) continue;
+
+    const meanError = error / matched;
+    if (!best || matched > best.matched || (matched === best.matched && meanError < best.error)) {
+      best = { offset, matched, error: meanError };
+    }
+  }
+
+  return best;
+};
+
+// Candles fora da tela mantêm os preços, mas perdem a posição em pixels (não vale no frame atual)
+export const withoutPixels = ({ position, width, height, wickTop, wickBottom, ...candle }: CandleData): CandleData => candle;
+
+// Duração de uma barra pela mediana dos intervalos entre timestamps
+const barDuration = (candles: CandleData[]): number => {
+  const steps = candles.slice(1).map((c, i) => c.timestamp - candles[i].timestamp).filter(step => step > 0).sort((a, b) => a - b);
+  return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 60000;
+};
+
+// Incorporar os candles de um frame ao histórico
+export const mergeFrameIntoHistory = (
+  history: CandleHistory,
+  frame: CandleData[],
+  priceCalibration: PriceCalibration | null
+): CandleHistory => {
+  // Frame sem gráfico legível não apaga o que já foi acumulado
+  if (frame.length < MIN_FRAME_CANDLES) return history;
+
+  // Sem eixo de preço lido o frame não se alinha a nada: fica fora do histórico, sem contar como falha
+  if (!priceCalibration) {
+    console.log('Frame sem calibração do eixo de preço: não incorporado ao histórico');
+    return { ...history, lastAlignment: { method: 'uncalibrated', offset: 0, matched: 0, appended: 0, updatedForming: false } };
+  }
+
+  const reset = (): CandleHistory => ({
+    candles: frame.slice(-MAX_HISTORY),
+    frames: 1,
+    misses: 0,
+    lastAlignment: { method: 'reset', offset: 0, matched: 0, appended: frame.length, updatedForming: false }
+  });
+  if (history.candles.length === 0) return reset();
+
+  const alignment = alignCandleSeries(history.candles, frame, { skipLast: true });
+  if (!alignment) {
+    if (history.misses + 1 < MAX_MISSES) {
+      console.log('Frame não se alinha ao histórico: descartado');
+      return {
+        ...history,
+        misses: history.misses + 1,
+        lastAlignment: { method: 'skipped', offset: 0, matched: 0, appended: 0, updatedForming: false }
+      };
+    }
+    console.log('Frames seguidos sem alinhamento (gráfico trocado ou deslocado demais): reiniciando série');
+    return reset();
+  }
+
+  const { offset, matched } = alignment;
+  const previous = history.candles;
+  const visibleEnd = offset + frame.length; // Índice após o último candle do frame no histórico
+  const bar = barDuration(previous);
+
+  // Candles em comum ficam com os preços acumulados e a posição do frame atual; o resto sai da tela
+  const candles = previous.map((candle, index) => {
+    if (index < offset || index >= visibleEnd) return withoutPixels(candle);
+    const current = frame[index - offset];
+    return { ...candle, position: current.position, width: current.width, height: current.height, wickTop: current.wickTop, wickBottom: current.wickBottom };
+  });
+
+  // O candle em formação do histórico é repintado com os valores do frame (pode ter fechado desde então)
+  const formingIndex = previous.length - 1;
+  const updatedForming = formingIndex < visibleEnd;
+  if (updatedForming) {
+    const current = frame[formingIndex - offset];
+    candles[formingIndex] = { ...current, timestamp: previous[formingIndex].timestamp };
+  }
+
+  // Barras além do fim do histórico são novas: as fechadas e a nova em formação
+  const appended = frame.slice(previous.length - offset).map((candle, k) => ({
+    ...candle,
+    timestamp: Math.max(candle.timestamp, previous[formingIndex].timestamp + bar * (k + 1))
+  }));
+  candles.push(...appended);
+
+  if (appended.length > 0) console.log(`Histórico: ${appended.length} candle(s) novo(s), ${candles.length} no total`);
+
+  return {
+    candles: candles.slice(-MAX_HISTORY),
+    frames: history.frames + 1,
+    misses: 0,
+    lastAlignment: { method: 'overlap', offset, matched, appended: appended.length, updatedForming }
+  };
+};
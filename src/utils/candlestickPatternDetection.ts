@@ -1,94 +1,93 @@
 
-import { CandleData } from "../context/AnalyzerContext";
+import { CandleData, ChartType, TechnicalElement } from "../context/AnalyzerContext";
 import { DetectedPattern } from "./types";
 import { analyzeCandleMetrics, validatePatternReliability } from "./candleAnalysis";
+import { hasRealOhlc } from "./chartTypeDetection";
 
-export const detectCandlestickPatterns = (candles: CandleData[]): DetectedPattern[] => {
-  if (candles.length < 3) return [];
+// Cada detector recebe os `size` candles que terminam na barra analisada (o último é o mais recente)
+interface CandleDetector {
+  size: number;
+  detect: (window: CandleData[]) => DetectedPattern | null;
+}
+
+// Contexto (tendência, S/R) de cada padrão: as barras anteriores a ele
+const CONTEXT_BARS = 40;
 
+// Padrões validados que terminam no candle `end` (o contexto vem das barras anteriores)
+export const detectCandlestickPatternsAt = (candles: CandleData[], end: number): DetectedPattern[] => {
   const patterns: DetectedPattern[] = [];
+  const current = candles[end];
+  const previousCandles = candles.slice(Math.max(0, end - CONTEXT_BARS), end);
   
-  // Analisar últimos 10 candles para padrões
-  const analysisWindow = Math.min(10, candles.length);
-  const recentCandles = candles.slice(-analysisWindow);
-  
-  for (let i = 1; i < recentCandles.length; i++) {
-    const current = recentCandles[i];
-    const previous = recentCandles[i - 1];
-    const previousCandles = recentCandles.slice(0, i);
-    
-    // Detectar Doji
-    const dojiPattern = detectDoji(current);
-    if (dojiPattern) {
-      const validation = validatePatternReliability(current, previousCandles, 'doji');
-      if (validation.isReliable) {
-        patterns.push({
-          ...dojiPattern,
-          confidence: validation.confidence
-        });
-      }
-    }
+  DETECTORS.forEach(({ size, detect }) => {
+    const start = end - size + 1;
+    if (start < 0) return;
+    const pattern = detect(candles.slice(start, end + 1));
+    if (!pattern) return;
     
-    // Detectar Martelo
-    const hammerPattern = detectHammer(current);
-    if (hammerPattern) {
-      const validation = validatePatternReliability(current, previousCandles, 'martelo');
-      if (validation.isReliable) {
-        patterns.push({
-          ...hammerPattern,
-          confidence: validation.confidence
-        });
-      }
-    }
-    
-    // Detectar Estrela Cadente
-    const shootingStarPattern = detectShootingStar(current);
-    if (shootingStarPattern) {
-      const validation = validatePatternReliability(current, previousCandles, 'estrela cadente');
-      if (validation.isReliable) {
-        patterns.push({
-          ...shootingStarPattern,
-          confidence: validation.confidence
-        });
-      }
-    }
-    
-    // Detectar Engolfo (precisa de 2 candles)
-    if (i > 0) {
-      const engulfingPattern = detectEngulfing(previous, current);
-      if (engulfingPattern) {
-        const validation = validatePatternReliability(current, previousCandles, 'engolfo');
-        if (validation.isReliable) {
-          patterns.push({
-            ...engulfingPattern,
-            confidence: validation.confidence
-          });
-        }
-      }
-    }
-    
-    // Detectar Pin Bar
-    const pinBarPattern = detectPinBar(current);
-    if (pinBarPattern) {
-      const validation = validatePatternReliability(current, previousCandles, 'pin bar');
-      if (validation.isReliable) {
-        patterns.push({
-          ...pinBarPattern,
-          confidence: validation.confidence
-        });
-      }
+    const validation = validatePatternReliability(current, previousCandles, pattern.type);
+    if (validation.isReliable) {
+      patterns.push({
+        ...pattern,
+        confidence: validation.confidence,
+        startIndex: start,
+        endIndex: end
+      });
     }
+  });
+  
+  return patterns;
+};
+
+// Padrões que terminam nos últimos `window` candles (por padrão, a série inteira)
+export const detectCandlestickPatterns = (
+  candles: CandleData[],
+  chartType?: ChartType,
+  window: number = candles.length
+): DetectedPattern[] => {
+  if (candles.length < 3) return [];
+  // Padrões de candle dependem de OHLC real (linha só tem fechamento, Heikin-Ashi é suavizado)
+  if (!hasRealOhlc(chartType)) return [];
+
+  const patterns: DetectedPattern[] = [];
+  for (let end = Math.max(1, candles.length - window); end < candles.length; end++) {
+    patterns.push(...detectCandlestickPatternsAt(candles, end));
   }
   
-  // Filtrar padrões duplicados e ordenar por confiança
-  return patterns
-    .filter((pattern, index, self) => 
-      index === self.findIndex(p => p.type === pattern.type)
-    )
-    .sort((a, b) => b.confidence - a.confidence)
-    .slice(0, 5); // Máximo 5 padrões mais confiáveis
+  // Todas as ocorrências, das mais confiáveis para as menos (no empate, a mais recente primeiro)
+  return patterns.sort((a, b) => b.confidence - a.confidence || (b.endIndex ?? 0) - (a.endIndex ?? 0));
 };
 
+// Destaque no gráfico: caixa em volta dos candles de cada padrão, com o nome acima
+export const candlePatternElements = (candles: CandleData[], patterns: DetectedPattern[]): TechnicalElement[] =>
+  patterns.flatMap(pattern => {
+    if (pattern.startIndex === undefined || pattern.endIndex === undefined) return [];
+    const bars = candles.slice(pattern.startIndex, pattern.endIndex + 1);
+    // Candles sem posição (panorama, fora da tela) não têm onde ser destacados
+    if (bars.length === 0 || bars.some(candle => !candle.position)) return [];
+
+    const padding = 3;
+    const left = Math.min(...bars.map(candle => candle.position!.x - (candle.width ?? 0) / 2)) - padding;
+    const right = Math.max(...bars.map(candle => candle.position!.x + (candle.width ?? 0) / 2)) + padding;
+    const top = Math.min(...bars.map(candle => candle.wickTop ?? candle.position!.y - (candle.height ?? 0) / 2)) - padding;
+    const bottom = Math.max(...bars.map(candle => candle.wickBottom ?? candle.position!.y + (candle.height ?? 0) / 2)) + padding;
+    const color = pattern.action === 'compra' ? '#22c55e' : pattern.action === 'venda' ? '#ef4444' : '#eab308';
+
+    return [
+      {
+        type: 'rectangle' as const,
+        position: { x: (left + right) / 2, y: (top + bottom) / 2 },
+        width: right - left,
+        height: bottom - top,
+        color,
+        thickness: 1,
+        dashArray: [3, 2],
+        label: pattern.type
+      },
+      { type: 'label' as const, position: { x: left, y: top - 2 }, text: pattern.type, color }
+    ];
+  });
+
 const detectDoji = (candle: CandleData): DetectedPattern | null => {
   const metrics = analyzeCandleMetrics(candle);
   
@@ -194,3 +193,262 @@ const detectPinBar = (candle: CandleData): DetectedPattern | null => {
   
   return null;
 };
+
+const detectMarubozu = (candle: CandleData): DetectedPattern | null => {
+  const metrics = analyzeCandleMetrics(candle);
+  
+  // Corpo ocupando praticamente todo o range: um lado dominou do início ao fim
+  if (metrics.bodyPercent >= 90) {
+    const bullish = candle.close > candle.open;
+    return {
+      type: bullish ? 'marubozu_alta' : 'marubozu_baixa',
+      confidence: 0.7,
+      description: `Marubozu de ${bullish ? 'Alta' : 'Baixa'} - ${bullish ? 'Compradores' : 'Vendedores'} no controle (corpo: ${metrics.bodyPercent.toFixed(1)}%)`,
+      action: bullish ? 'compra' : 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectHarami = (previous: CandleData, current: CandleData): DetectedPattern | null => {
+  const prevMetrics = analyzeCandleMetrics(previous);
+  const currMetrics = analyzeCandleMetrics(current);
+  
+  // Corpo atual pequeno e contido no corpo grande anterior
+  const contained = Math.max(current.open, current.close) <= Math.max(previous.open, previous.close) &&
+    Math.min(current.open, current.close) >= Math.min(previous.open, previous.close);
+  if (!contained || prevMetrics.bodyPercent < 50 || currMetrics.bodySize > prevMetrics.bodySize * 0.5) return null;
+  
+  if (prevMetrics.candleType === 'bearish') {
+    return {
+      type: 'harami_alta',
+      confidence: 0.65,
+      description: 'Harami de Alta - Perda de força vendedora dentro do candle anterior',
+      action: 'compra'
+    };
+  }
+  
+  if (prevMetrics.candleType === 'bullish') {
+    return {
+      type: 'harami_baixa',
+      confidence: 0.65,
+      description: 'Harami de Baixa - Perda de força compradora dentro do candle anterior',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectTweezer = (previous: CandleData, current: CandleData): DetectedPattern | null => {
+  const prevMetrics = analyzeCandleMetrics(previous);
+  const currMetrics = analyzeCandleMetrics(current);
+  const tolerance = Math.max(prevMetrics.totalRange, currMetrics.totalRange) * 0.05;
+  if (tolerance <= 0) return null;
+  
+  // Fundo Pinça: mínimas iguais, virada de vendedor para comprador
+  if (prevMetrics.candleType === 'bearish' &&
+      currMetrics.candleType === 'bullish' &&
+      Math.abs(previous.low - current.low) <= tolerance) {
+    return {
+      type: 'fundo_pinca',
+      confidence: 0.7,
+      description: 'Fundo Pinça - Mesma mínima rejeitada duas vezes',
+      action: 'compra'
+    };
+  }
+  
+  // Topo Pinça: máximas iguais, virada de comprador para vendedor
+  if (prevMetrics.candleType === 'bullish' &&
+      currMetrics.candleType === 'bearish' &&
+      Math.abs(previous.high - current.high) <= tolerance) {
+    return {
+      type: 'topo_pinca',
+      confidence: 0.7,
+      description: 'Topo Pinça - Mesma máxima rejeitada duas vezes',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectPiercingOrDarkCloud = (previous: CandleData, current: CandleData): DetectedPattern | null => {
+  const prevMetrics = analyzeCandleMetrics(previous);
+  const currMetrics = analyzeCandleMetrics(current);
+  if (prevMetrics.bodyPercent < 50) return null;
+  const midpoint = (previous.open + previous.close) / 2;
+  
+  // Linha de Perfuração: abre no fechamento de baixa (ou abaixo) e fecha acima da metade do corpo anterior
+  if (prevMetrics.candleType === 'bearish' &&
+      currMetrics.candleType === 'bullish' &&
+      current.open <= previous.close &&
+      current.close > midpoint &&
+      current.close < previous.open) {
+    return {
+      type: 'linha_de_perfuracao',
+      confidence: 0.7,
+      description: 'Linha de Perfuração - Compradores recuperam mais da metade do candle de baixa',
+      action: 'compra'
+    };
+  }
+  
+  // Nuvem Negra: abre no fechamento de alta (ou acima) e fecha abaixo da metade do corpo anterior
+  if (prevMetrics.candleType === 'bullish' &&
+      currMetrics.candleType === 'bearish' &&
+      current.open >= previous.close &&
+      current.close < midpoint &&
+      current.close > previous.open) {
+    return {
+      type: 'nuvem_negra',
+      confidence: 0.7,
+      description: 'Nuvem Negra - Vendedores devolvem mais da metade do candle de alta',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectInsideBar = (previous: CandleData, current: CandleData): DetectedPattern | null => {
+  if (current.high < previous.high && current.low > previous.low) {
+    return {
+      type: 'inside_bar',
+      confidence: 0.6,
+      description: 'Inside Bar - Contração dentro do candle anterior, aguardar rompimento da máxima ou mínima',
+      action: 'neutro'
+    };
+  }
+  
+  return null;
+};
+
+const detectOutsideBar = (previous: CandleData, current: CandleData): DetectedPattern | null => {
+  const metrics = analyzeCandleMetrics(current);
+  if (current.high <= previous.high || current.low >= previous.low || metrics.candleType === 'indecision') return null;
+  
+  const bullish = metrics.candleType === 'bullish';
+  return {
+    type: bullish ? 'outside_bar_alta' : 'outside_bar_baixa',
+    confidence: 0.65,
+    description: `Outside Bar de ${bullish ? 'Alta' : 'Baixa'} - Range anterior engolido com fechamento ${bullish ? 'comprador' : 'vendedor'}`,
+    action: bullish ? 'compra' : 'venda'
+  };
+};
+
+const detectStar = (first: CandleData, star: CandleData, third: CandleData): DetectedPattern | null => {
+  const firstMetrics = analyzeCandleMetrics(first);
+  const starMetrics = analyzeCandleMetrics(star);
+  const thirdMetrics = analyzeCandleMetrics(third);
+  if (firstMetrics.bodyPercent < 50 || starMetrics.bodySize > firstMetrics.bodySize * 0.3) return null;
+  const midpoint = (first.open + first.close) / 2;
+  
+  // Estrela da Manhã: baixa forte, candle pequeno abaixo do fechamento, alta que fecha acima da metade do primeiro
+  if (firstMetrics.candleType === 'bearish' &&
+      Math.min(star.open, star.close) < first.close &&
+      thirdMetrics.candleType === 'bullish' &&
+      third.close > midpoint) {
+    return {
+      type: 'estrela_da_manha',
+      confidence: 0.75,
+      description: 'Estrela da Manhã - Reversão de baixa para alta em três candles',
+      action: 'compra'
+    };
+  }
+  
+  // Estrela da Tarde: espelho no topo
+  if (firstMetrics.candleType === 'bullish' &&
+      Math.max(star.open, star.close) > first.close &&
+      thirdMetrics.candleType === 'bearish' &&
+      third.close < midpoint) {
+    return {
+      type: 'estrela_da_tarde',
+      confidence: 0.75,
+      description: 'Estrela da Tarde - Reversão de alta para baixa em três candles',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectThreeSoldiersOrCrows = (window: CandleData[]): DetectedPattern | null => {
+  const metrics = window.map(analyzeCandleMetrics);
+  
+  // Três corpos cheios na mesma direção, cada um abrindo dentro do corpo anterior e fechando além dele
+  const soldiers = window.every((candle, i) =>
+    metrics[i].candleType === 'bullish' &&
+    metrics[i].bodyPercent >= 50 &&
+    metrics[i].upperWickPercent < 30 &&
+    (i === 0 || (candle.close > window[i - 1].close && candle.open >= window[i - 1].open && candle.open <= window[i - 1].close))
+  );
+  if (soldiers) {
+    return {
+      type: 'tres_soldados_brancos',
+      confidence: 0.75,
+      description: 'Três Soldados Brancos - Três altas consecutivas com fechamentos progressivos',
+      action: 'compra'
+    };
+  }
+  
+  const crows = window.every((candle, i) =>
+    metrics[i].candleType === 'bearish' &&
+    metrics[i].bodyPercent >= 50 &&
+    metrics[i].lowerWickPercent < 30 &&
+    (i === 0 || (candle.close < window[i - 1].close && candle.open <= window[i - 1].open && candle.open >= window[i - 1].close))
+  );
+  if (crows) {
+    return {
+      type: 'tres_corvos_negros',
+      confidence: 0.75,
+      description: 'Três Corvos Negros - Três baixas consecutivas com fechamentos progressivos',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const detectThreeInside = (first: CandleData, second: CandleData, third: CandleData): DetectedPattern | null => {
+  // Harami confirmado: o terceiro candle fecha além da abertura do primeiro
+  const harami = detectHarami(first, second);
+  if (!harami) return null;
+  
+  if (harami.action === 'compra' && third.close > third.open && third.close > first.open) {
+    return {
+      type: 'tres_de_dentro_alta',
+      confidence: 0.75,
+      description: 'Três de Dentro de Alta - Harami de alta confirmado acima da abertura do candle mãe',
+      action: 'compra'
+    };
+  }
+  
+  if (harami.action === 'venda' && third.close < third.open && third.close < first.open) {
+    return {
+      type: 'tres_de_dentro_baixa',
+      confidence: 0.75,
+      description: 'Três de Dentro de Baixa - Harami de baixa confirmado abaixo da abertura do candle mãe',
+      action: 'venda'
+    };
+  }
+  
+  return null;
+};
+
+const DETECTORS: CandleDetector[] = [
+  { size: 1, detect: ([candle]) => detectDoji(candle) },
+  { size: 1, detect: ([candle]) => detectHammer(candle) },
+  { size: 1, detect: ([candle]) => detectShootingStar(candle) },
+  { size: 1, detect: ([candle]) => detectPinBar(candle) },
+  { size: 1, detect: ([candle]) => detectMarubozu(candle) },
+  { size: 2, detect: ([previous, current]) => detectEngulfing(previous, current) },
+  { size: 2, detect: ([previous, current]) => detectHarami(previous, current) },
+  { size: 2, detect: ([previous, current]) => detectTweezer(previous, current) },
+  { size: 2, detect: ([previous, current]) => detectPiercingOrDarkCloud(previous, current) },
+  { size: 2, detect: ([previous, current]) => detectInsideBar(previous, current) },
+  { size: 2, detect: ([previous, current]) => detectOutsideBar(previous, current) },
+  { size: 3, detect: ([first, star, third]) => detectStar(first, star, third) },
+  { size: 3, detect: window => detectThreeSoldiersOrCrows(window) },
+  { size: 3, detect: ([first, second, third]) => detectThreeInside(first, second, third) }
+];
@@ -0,0 +1,110 @@
+/**
+ * Worker que executa o pipeline de extração fora da thread principal.
+ * Fica ativo entre as tarefas: cada pedido traz um id, as respostas voltam
+ * com o mesmo id e um pedido de abort cancela a tarefa na próxima etapa.
+ * A imagem chega como buffer ou bitmap transferido e é decodificada com OffscreenCanvas.
+ */
+
+import { assessImageQuality, extractChartDataFromPixels, extractChartPanelsFromPixels } from './imageProcessing';
+import { cleanScreenCapture } from './screenCaptureCleanup';
+import { processLiveFrame } from './liveFramePipeline';
+import { ChartWorkerRequest, ChartWorkerResponse, ChartWorkerImage } from './chartAnalysisClient';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: ChartWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+// Tarefas em andamento e as canceladas pela thread principal, conferidas entre as etapas
+const active = new Set<number>();
+const cancelled = new Set<number>();
+
+class TaskCancelled extends Error {}
+
+// Ceder a vez à fila de mensagens (um abort pode ter chegado) e parar se a tarefa foi cancelada
+const checkpointFor = (id: number) => async () => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (cancelled.has(id)) throw new TaskCancelled();
+};
+
+// Obter os pixels: já decodificados pela thread principal ou a partir dos bytes do arquivo
+const decodeImage = async (image: ChartWorkerImage): Promise<{ data: Uint8ClampedArray; width: number; height: number }> => {
+  if (image.kind === 'pixels') {
+    return { data: new Uint8ClampedArray(image.buffer), width: image.width, height: image.height };
+  }
+
+  const bitmap = image.kind === 'bitmap' ? image.bitmap : await createImageBitmap(new Blob([image.buffer], { type: image.mimeType }));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Não foi possível obter contexto 2D do OffscreenCanvas.');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  return { data: imageData.data, width: imageData.width, height: imageData.height };
+};
+
+ctx.onmessage = async (event: MessageEvent<ChartWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'abort') {
+    if (active.has(request.id)) cancelled.add(request.id);
+    return;
+  }
+
+  const { id } = request;
+  const checkpoint = checkpointFor(id);
+  active.add(id);
+
+  try {
+    post({ id, type: 'progress', stage: 'loading' });
+    const { data, width, height } = await decodeImage(request.image);
+    await checkpoint();
+
+    if (request.type === 'quality') {
+      post({ id, type: 'quality', result: assessImageQuality(data, width, height) });
+      return;
+    }
+
+    if (request.type === 'cleanup') {
+      const result = cleanScreenCapture(data, width, height);
+      // Pixels corrigidos voltam transferidos, sem cópia
+      post({ id, type: 'cleanup', result }, result.pixels ? [result.pixels.data.buffer] : []);
+      return;
+    }
+
+    if (request.type === 'liveFrame') {
+      const result = await processLiveFrame(
+        { data, width, height },
+        request,
+        stage => post({ id, type: 'progress', stage }),
+        checkpoint
+      );
+      post({ id, type: 'liveFrame', result });
+      return;
+    }
+
+    if (request.type === 'extractPanels') {
+      const result = extractChartPanelsFromPixels(
+        data, width, height, request.timeframe, request.storedPalette, request.profile,
+        (stage, panel) => post({ id, type: 'progress', stage, panel })
+      );
+      post({ id, type: 'panels', result });
+      return;
+    }
+
+    const result = extractChartDataFromPixels(
+      data, width, height, request.timeframe, request.storedPalette, request.profile,
+      stage => post({ id, type: 'progress', stage }),
+      request.referenceTime
+    );
+    post({ id, type: 'extraction', result });
+  } catch (error) {
+    // A thread principal já rejeitou a tarefa cancelada: nada a responder
+    if (error instanceof TaskCancelled) return;
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    active.delete(id);
+    cancelled.delete(id);
+  }
+};
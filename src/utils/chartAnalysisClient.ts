@@ -0,0 +1,312 @@
+/**
+ * Interface da thread principal para o worker de análise: um único worker
+ * de longa duração recebe as tarefas com id, a imagem vai com buffers ou
+ * bitmaps transferíveis, o progresso volta por etapa e análises obsoletas
+ * são canceladas por mensagem de abort.
+ */
+
+import { CandlePalette, PlatformProfile, TimeframeType } from '@/context/AnalyzerContext';
+import {
+  ANALYSIS_STAGE_LABELS,
+  AnalysisStage,
+  ChartExtraction,
+  ImageQualityResult,
+  PanelExtraction,
+  assessImageQuality,
+  extractChartDataFromPixels,
+  extractChartPanelsFromPixels,
+  loadImageData,
+  stageProgress
+} from './imageProcessing';
+import { ScreenCleanupResult, cleanScreenCapture } from './screenCaptureCleanup';
+import { LiveFrameExtraction, LiveFrameSettings, processLiveFrame } from './liveFramePipeline';
+
+// Imagem enviada ao worker: bytes do arquivo (decodificados lá), pixels RGBA já lidos ou o bitmap de um frame
+export type ChartWorkerImage =
+  | { kind: 'encoded'; buffer: ArrayBuffer; mimeType: string }
+  | { kind: 'pixels'; buffer: ArrayBuffer; width: number; height: number }
+  | { kind: 'bitmap'; bitmap: ImageBitmap };
+
+// Painel em processamento num print com vários gráficos
+export type PanelPosition = { index: number; count: number };
+
+export type ChartWorkerTask =
+  | { type: 'extract'; image: ChartWorkerImage; timeframe: TimeframeType; storedPalette?: CandlePalette | null; profile?: PlatformProfile | null; referenceTime?: number }
+  | { type: 'extractPanels'; image: ChartWorkerImage; timeframe: TimeframeType; storedPalette?: CandlePalette | null; profile?: PlatformProfile | null }
+  | { type: 'quality'; image: ChartWorkerImage }
+  | { type: 'cleanup'; image: ChartWorkerImage }
+  | ({ type: 'liveFrame'; image: ChartWorkerImage } & LiveFrameSettings);
+
+export type ChartWorkerRequest =
+  | (ChartWorkerTask & { id: number })
+  | { type: 'abort'; id: number };
+
+export type ChartWorkerResponse = { id: number } & (
+  | { type: 'progress'; stage: AnalysisStage; panel?: PanelPosition }
+  | { type: 'extraction'; result: ChartExtraction }
+  | { type: 'panels'; result: PanelExtraction[] }
+  | { type: 'quality'; result: ImageQualityResult }
+  | { type: 'cleanup'; result: ScreenCleanupResult }
+  | { type: 'liveFrame'; result: LiveFrameExtraction }
+  | { type: 'error'; message: string }
+);
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  label: string;
+  progress: number; // 0-1
+  panel?: PanelPosition;
+}
+
+export interface AnalysisTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+// Quadro já desenhado num canvas (ex.: frame da câmera) ou bitmap do frame, sem passar por data URL.
+// O bitmap é transferido ao worker e não pode ser usado depois.
+export type ChartImageInput = string | ImageData | ImageBitmap;
+
+// Com vários painéis, o progresso total avança um painel por vez
+const toProgress = (stage: AnalysisStage, panel?: PanelPosition): AnalysisProgress =>
+  panel && panel.count > 1
+    ? {
+        stage,
+        label: `Painel ${panel.index + 1}/${panel.count}: ${ANALYSIS_STAGE_LABELS[stage]}`,
+        progress: (panel.index + stageProgress(stage)) / panel.count,
+        panel
+      }
+    : { stage, label: ANALYSIS_STAGE_LABELS[stage], progress: stageProgress(stage) };
+
+const abortError = () => new DOMException('Análise cancelada', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// OffscreenCanvas só é necessário quando o worker precisa decodificar a imagem ou desenhar o bitmap
+const supportsWorker = (input: ChartImageInput): boolean =>
+  typeof Worker !== 'undefined' && (input instanceof ImageData || typeof OffscreenCanvas !== 'undefined');
+
+const toWorkerImage = async (input: ChartImageInput): Promise<ChartWorkerImage> => {
+  if (input instanceof ImageData) {
+    // Cópia própria: o buffer transferido deixa de existir na thread principal
+    const buffer = input.data.slice().buffer;
+    return { kind: 'pixels', buffer, width: input.width, height: input.height };
+  }
+  if (typeof input !== 'string') return { kind: 'bitmap', bitmap: input };
+
+  const blob = await (await fetch(input)).blob();
+  return { kind: 'encoded', buffer: await blob.arrayBuffer(), mimeType: blob.type || 'image/png' };
+};
+
+const transferables = (image: ChartWorkerImage): Transferable[] =>
+  image.kind === 'bitmap' ? [image.bitmap] : [image.buffer];
+
+// Worker único, criado no primeiro uso e mantido entre as tarefas; respostas roteadas pelo id
+let sharedWorker: Worker | null = null;
+let nextTaskId = 0;
+const taskHandlers = new Map<number, (response: ChartWorkerResponse) => void>();
+
+const getWorker = (): Worker => {
+  if (sharedWorker) return sharedWorker;
+
+  const worker = new Worker(new URL('./chartAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ChartWorkerResponse>) => taskHandlers.get(event.data.id)?.(event.data);
+  // Falha fora de uma tarefa derruba o worker: as pendentes falham e o próximo pedido cria outro
+  worker.onerror = (event) => {
+    worker.terminate();
+    if (sharedWorker === worker) sharedWorker = null;
+    [...taskHandlers.entries()].forEach(([id, handler]) =>
+      handler({ id, type: 'error', message: `Falha no worker de análise: ${event.message}` })
+    );
+  };
+  sharedWorker = worker;
+  return worker;
+};
+
+// Executar uma tarefa no worker compartilhado; abortar rejeita na hora e avisa o worker para parar na próxima etapa
+const runInWorker = <T>(
+  buildTask: (image: ChartWorkerImage) => ChartWorkerTask,
+  input: ChartImageInput,
+  pick: (response: ChartWorkerResponse) => T | undefined,
+  options: AnalysisTaskOptions
+): Promise<T> => {
+  const { signal, onProgress } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const id = ++nextTaskId;
+    let worker: Worker | null = null;
+    let settled = false;
+
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      taskHandlers.delete(id);
+      signal?.removeEventListener('abort', onAbort);
+      action();
+    };
+    const onAbort = () => {
+      worker?.postMessage({ type: 'abort', id } satisfies ChartWorkerRequest);
+      finish(() => reject(abortError()));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    toWorkerImage(input).then(image => {
+      if (settled) {
+        if (image.kind === 'bitmap') image.bitmap.close();
+        return;
+      }
+
+      taskHandlers.set(id, response => {
+        if (response.type === 'progress') {
+          onProgress?.(toProgress(response.stage, response.panel));
+          return;
+        }
+        if (response.type === 'error') {
+          finish(() => reject(new Error(response.message)));
+          return;
+        }
+        const result = pick(response);
+        if (result !== undefined) finish(() => resolve(result));
+      });
+
+      worker = getWorker();
+      const request: ChartWorkerRequest = { ...buildTask(image), id };
+      worker.postMessage(request, transferables(image));
+    }).catch(error => finish(() => reject(error)));
+  });
+};
+
+// Fallback sem worker: mesma API, processamento na thread principal
+const loadPixels = async (input: ChartImageInput) => {
+  if (typeof input === 'string') return loadImageData(input);
+  if (input instanceof ImageData) return { data: input.data, width: input.width, height: input.height };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = input.width;
+  canvas.height = input.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível obter contexto 2D do canvas.');
+  }
+  ctx.drawImage(input, 0, 0);
+  input.close();
+  return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height };
+};
+
+// Extrair candles e calibrações fora da thread principal
+export const extractChartDataInWorker = async (
+  input: ChartImageInput,
+  timeframe: TimeframeType = '1m',
+  storedPalette?: CandlePalette | null,
+  profile?: PlatformProfile | null,
+  options: AnalysisTaskOptions & { referenceTime?: number } = {} // Momento da captura (padrão: agora)
+): Promise<ChartExtraction> => {
+  const { referenceTime } = options;
+  if (!supportsWorker(input)) {
+    options.onProgress?.(toProgress('loading'));
+    const { data, width, height } = await loadPixels(input);
+    if (options.signal?.aborted) throw abortError();
+    return extractChartDataFromPixels(data, width, height, timeframe, storedPalette, profile, stage => options.onProgress?.(toProgress(stage)), referenceTime);
+  }
+
+  return runInWorker(
+    image => ({ type: 'extract', image, timeframe, storedPalette, profile, referenceTime }),
+    input,
+    response => (response.type === 'extraction' ? response.result : undefined),
+    options
+  );
+};
+
+// Detectar os painéis do print e extrair cada um fora da thread principal
+export const extractChartPanelsInWorker = async (
+  input: ChartImageInput,
+  timeframe: TimeframeType = '1m',
+  storedPalette?: CandlePalette | null,
+  profile?: PlatformProfile | null,
+  options: AnalysisTaskOptions = {}
+): Promise<PanelExtraction[]> => {
+  if (!supportsWorker(input)) {
+    options.onProgress?.(toProgress('loading'));
+    const { data, width, height } = await loadPixels(input);
+    if (options.signal?.aborted) throw abortError();
+    return extractChartPanelsFromPixels(
+      data, width, height, timeframe, storedPalette, profile,
+      (stage, panel) => options.onProgress?.(toProgress(stage, panel))
+    );
+  }
+
+  return runInWorker(
+    image => ({ type: 'extractPanels', image, timeframe, storedPalette, profile }),
+    input,
+    response => (response.type === 'panels' ? response.result : undefined),
+    options
+  );
+};
+
+// Verificar a qualidade da imagem fora da thread principal
+export const checkImageQualityInWorker = async (
+  input: ChartImageInput,
+  options: AnalysisTaskOptions = {}
+): Promise<ImageQualityResult> => {
+  if (!supportsWorker(input)) {
+    const { data, width, height } = await loadPixels(input);
+    if (options.signal?.aborted) throw abortError();
+    return assessImageQuality(data, width, height);
+  }
+
+  return runInWorker(
+    image => ({ type: 'quality', image }),
+    input,
+    response => (response.type === 'quality' ? response.result : undefined),
+    options
+  );
+};
+
+// Limpar moiré, faixas e reflexo de uma foto de tela fora da thread principal
+export const cleanScreenCaptureInWorker = async (
+  input: ChartImageInput,
+  options: AnalysisTaskOptions = {}
+): Promise<ScreenCleanupResult> => {
+  if (!supportsWorker(input)) {
+    const { data, width, height } = await loadPixels(input);
+    if (options.signal?.aborted) throw abortError();
+    return cleanScreenCapture(data, width, height);
+  }
+
+  return runInWorker(
+    image => ({ type: 'cleanup', image }),
+    input,
+    response => (response.type === 'cleanup' ? response.result : undefined),
+    options
+  );
+};
+
+// Frame da análise live: gráfico, perspectiva, limpeza, melhoria e extração, tudo fora da thread principal
+export const analyzeLiveFrameInWorker = async (
+  input: ChartImageInput,
+  settings: LiveFrameSettings,
+  options: AnalysisTaskOptions = {}
+): Promise<LiveFrameExtraction> => {
+  if (!supportsWorker(input)) {
+    options.onProgress?.(toProgress('loading'));
+    const pixels = await loadPixels(input);
+    const checkpoint = async () => {
+      if (options.signal?.aborted) throw abortError();
+    };
+    await checkpoint();
+    return processLiveFrame(pixels, settings, stage => options.onProgress?.(toProgress(stage)), checkpoint);
+  }
+
+  return runInWorker(
+    image => ({ type: 'liveFrame', image, ...settings }),
+    input,
+    response => (response.type === 'liveFrame' ? response.result : undefined),
+    options
+  );
+};
@@ -0,0 +1,693 @@
+/**
+ * OCR leve e offline para rótulos de eixos de gráficos (preço e tempo).
+ *
+ * Não depende de serviços externos nem de arquivos de idioma: os glifos são
+ * reconhecidos por correlação contra modelos gerados a partir de uma fonte
+ * bitmap embutida e, quando há canvas disponível, de fontes do sistema.
+ */
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  glyphCount: number;
+}
+
+export interface RecognizedGlyph {
+  char: string;
+  confidence: number;
+  x: number;
+  width: number;
+}
+
+export interface RecognizedText {
+  text: string;
+  confidence: number;
+  glyphs: RecognizedGlyph[];
+}
+
+export const NUMERIC_ALPHABET = '0123456789.,-';
+export const TIME_ALPHABET = '0123456789:/.- ADFJMNOSabcegilnoprtuvyz';
+export const VOLUME_ALPHABET = '0123456789.,KMB';
+
+type GlyphTemplate = {
+  char: string;
+  grid: Float32Array;
+  aspect: number;
+  relTop: number;
+  relHeight: number;
+};
+
+const GRID_WIDTH = 8;
+const GRID_HEIGHT = 12;
+
+// Fonte bitmap 5x7 usada como base de modelos
+const BITMAP_FONT: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  '/': ['00001', '00010', '00010', '00100', '01000', '01000', '10000'],
+  '.': ['00000', '00000', '00000', '00000', '00000', '01100', '01100'],
+  ',': ['00000', '00000', '00000', '00000', '01100', '00100', '01000'],
+  ':': ['00000', '01100', '01100', '00000', '01100', '01100', '00000'],
+  '-': ['00000', '00000', '00000', '11111', '00000', '00000', '00000'],
+  ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000'],
+  'A': ['01110', '10001', '10001', '11111', '10001', '10001', '10001'],
+  'B': ['11110', '10001', '10001', '11110', '10001', '10001', '11110'],
+  'D': ['11110', '10001', '10001', '10001', '10001', '10001', '11110'],
+  'F': ['11111', '10000', '10000', '11110', '10000', '10000', '10000'],
+  'J': ['00111', '00010', '00010', '00010', '00010', '10010', '01100'],
+  'K': ['10001', '10010', '10100', '11000', '10100', '10010', '10001'],
+  'M': ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  'N': ['10001', '10001', '11001', '10101', '10011', '10001', '10001'],
+  'O': ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+  'S': ['01111', '10000', '10000', '01110', '00001', '00001', '11110'],
+  'a': ['00000', '00000', '01110', '00001', '01111', '10001', '01111'],
+  'b': ['10000', '10000', '10110', '11001', '10001', '10001', '11110'],
+  'c': ['00000', '00000', '01110', '10000', '10000', '10001', '01110'],
+  'e': ['00000', '00000', '01110', '10001', '11111', '10000', '01110'],
+  'g': ['00000', '01111', '10001', '10001', '01111', '00001', '01110'],
+  'i': ['00100', '00000', '01100', '00100', '00100', '00100', '01110'],
+  'l': ['01100', '00100', '00100', '00100', '00100', '00100', '01110'],
+  'n': ['00000', '00000', '10110', '11001', '10001', '10001', '10001'],
+  'o': ['00000', '00000', '01110', '10001', '10001', '10001', '01110'],
+  'p': ['00000', '00000', '11110', '10001', '11110', '10000', '10000'],
+  'r': ['00000', '00000', '10110', '11001', '10000', '10000', '10000'],
+  't': ['01000', '01000', '11100', '01000', '01000', '01001', '00110'],
+  'u': ['00000', '00000', '10001', '10001', '10001', '10011', '01101'],
+  'v': ['00000', '00000', '10001', '10001', '10001', '01010', '00100'],
+  'y': ['00000', '00000', '10001', '10001', '01111', '00001', '01110'],
+  'z': ['00000', '00000', '11111', '00010', '00100', '01000', '11111'],
+};
+
+// Caracteres pequenos são classificados por geometria, não por modelo
+const PUNCTUATION = '.,:-';
+
+const SYSTEM_FONTS = ['Arial', 'Tahoma', 'Verdana', 'Trebuchet MS', 'Roboto', 'monospace'];
+
+let templateCache: GlyphTemplate[] | null = null;
+
+const luminanceAt = (data: Uint8ClampedArray, idx: number): number =>
+  0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+
+// Reamostrar um bitmap de intensidades (0-1) para a grade normalizada, por cobertura de área
+const resampleToGrid = (
+  ink: Float32Array,
+  stride: number,
+  x0: number,
+  y0: number,
+  w: number,
+  h: number
+): Float32Array => {
+  const grid = new Float32Array(GRID_WIDTH * GRID_HEIGHT);
+  const cellW = w / GRID_WIDTH;
+  const cellH = h / GRID_HEIGHT;
+
+  for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+    const sy0 = gy * cellH;
+    const sy1 = sy0 + cellH;
+    for (let gx = 0; gx < GRID_WIDTH; gx++) {
+      const sx0 = gx * cellW;
+      const sx1 = sx0 + cellW;
+      let sum = 0;
+      let area = 0;
+
+      for (let py = Math.floor(sy0); py < Math.ceil(sy1) && py < h; py++) {
+        const oy = Math.min(sy1, py + 1) - Math.max(sy0, py);
+        if (oy <= 0) continue;
+        for (let px = Math.floor(sx0); px < Math.ceil(sx1) && px < w; px++) {
+          const ox = Math.min(sx1, px + 1) - Math.max(sx0, px);
+          if (ox <= 0) continue;
+          sum += ink[(y0 + py) * stride + (x0 + px)] * ox * oy;
+          area += ox * oy;
+        }
+      }
+
+      grid[gy * GRID_WIDTH + gx] = area > 0 ? sum / area : 0;
+    }
+  }
+
+  return grid;
+};
+
+const correlation = (a: Float32Array, b: Float32Array): number => {
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < a.length; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= a.length;
+  meanB /= b.length;
+
+  let num = 0, denA = 0, denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    num += da * db;
+    denA += da * da;
+    denB += db * db;
+  }
+
+  const den = Math.sqrt(denA * denB);
+  return den > 0 ? num / den : 0;
+};
+
+// Encontrar a caixa delimitadora da tinta dentro de um bitmap
+const inkBounds = (
+  ink: Float32Array,
+  stride: number,
+  x0: number,
+  y0: number,
+  w: number,
+  h: number,
+  threshold = 0.35
+): { x: number; y: number; width: number; height: number } | null => {
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (ink[(y0 + y) * stride + (x0 + x)] >= threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: x0 + minX, y: y0 + minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const templateFromBitmap = (char: string, rows: string[]): GlyphTemplate | null => {
+  const h = rows.length;
+  const w = rows[0].length;
+  const ink = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      ink[y * w + x] = rows[y][x] === '1' ? 1 : 0;
+    }
+  }
+
+  const bounds = inkBounds(ink, w, 0, 0, w, h);
+  if (!bounds) return null;
+
+  return {
+    char,
+    grid: resampleToGrid(ink, w, bounds.x, bounds.y, bounds.width, bounds.height),
+    aspect: bounds.width / bounds.height,
+    relTop: bounds.y / h,
+    relHeight: bounds.height / h
+  };
+};
+
+// Gerar modelos a partir de fontes do sistema quando houver canvas (navegador ou worker)
+const renderSystemFontTemplates = (chars: string[]): GlyphTemplate[] => {
+  const templates: GlyphTemplate[] = [];
+  const size = 32;
+
+  let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+  try {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      ctx = new OffscreenCanvas(size * 2, size * 2).getContext('2d');
+    } else if (typeof document !== 'undefined') {
+      const canvas = document.createElement('canvas');
+      canvas.width = size * 2;
+      canvas.height = size * 2;
+      ctx = canvas.getContext('2d');
+    }
+  } catch (e) {
+    ctx = null;
+  }
+  if (!ctx) return templates;
+
+  const stride = size * 2;
+  const ink = new Float32Array(stride * stride);
+
+  for (const font of SYSTEM_FONTS) {
+    ctx.font = `${size}px ${font}`;
+    ctx.textBaseline = 'alphabetic';
+
+    // A altura de maiúsculas/dígitos define a faixa de referência para posição vertical
+    const capTop = stride - size * 0.5 - size * 0.72;
+    const capHeight = size * 0.72;
+
+    for (const char of chars) {
+      ctx.clearRect(0, 0, stride, stride);
+      ctx.fillStyle = '#000';
+      ctx.fillText(char, size * 0.5, stride - size * 0.5);
+
+      const pixels = ctx.getImageData(0, 0, stride, stride).data;
+      for (let i = 0; i < ink.length; i++) {
+        ink[i] = pixels[i * 4 + 3] / 255;
+      }
+
+      const bounds = inkBounds(ink, stride, 0, 0, stride, stride);
+      if (!bounds) continue;
+
+      templates.push({
+        char,
+        grid: resampleToGrid(ink, stride, bounds.x, bounds.y, bounds.width, bounds.height),
+        aspect: bounds.width / bounds.height,
+        relTop: (bounds.y - capTop) / capHeight,
+        relHeight: bounds.height / capHeight
+      });
+    }
+  }
+
+  return templates;
+};
+
+const getTemplates = (): GlyphTemplate[] => {
+  if (templateCache) return templateCache;
+
+  const chars = Object.keys(BITMAP_FONT).filter(char => char !== ' ' && !PUNCTUATION.includes(char));
+  const templates: GlyphTemplate[] = [];
+
+  for (const char of chars) {
+    const template = templateFromBitmap(char, BITMAP_FONT[char]);
+    if (template) templates.push(template);
+  }
+
+  templates.push(...renderSystemFontTemplates(chars));
+  templateCache = templates;
+  return templates;
+};
+
+// Estimar a luminância de fundo dominante (moda do histograma)
+export const estimateBackgroundLuminance = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): number => {
+  const histogram = new Array(32).fill(0);
+  const step = Math.max(1, Math.floor((width * height) / 200000));
+
+  for (let p = 0; p < width * height; p += step) {
+    histogram[Math.min(31, Math.floor(luminanceAt(data, p * 4) / 8))]++;
+  }
+
+  let best = 0;
+  for (let i = 1; i < histogram.length; i++) {
+    if (histogram[i] > histogram[best]) best = i;
+  }
+
+  return best * 8 + 4;
+};
+
+// Remover do mapa corridas longas (linhas de grade, bordas, corpos de candles grandes)
+const removeLongRuns = (mask: Uint8Array, width: number, height: number, maxHorizontal: number, maxVertical: number): void => {
+  const clear = new Uint8Array(mask.length);
+
+  for (let y = 0; y < height; y++) {
+    let start = -1;
+    for (let x = 0; x <= width; x++) {
+      const on = x < width && mask[y * width + x] === 1;
+      if (on && start < 0) start = x;
+      if (!on && start >= 0) {
+        if (x - start > maxHorizontal) {
+          for (let k = start; k < x; k++) clear[y * width + k] = 1;
+        }
+        start = -1;
+      }
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let start = -1;
+    for (let y = 0; y <= height; y++) {
+      const on = y < height && mask[y * width + x] === 1;
+      if (on && start < 0) start = y;
+      if (!on && start >= 0) {
+        if (y - start > maxVertical) {
+          for (let k = start; k < y; k++) clear[k * width + x] = 1;
+        }
+        start = -1;
+      }
+    }
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    if (clear[i]) mask[i] = 0;
+  }
+};
+
+export type Component = { x1: number; y1: number; x2: number; y2: number; area: number };
+
+// Rotular componentes 8-conectados de uma máscara binária
+export const labelComponents = (mask: Uint8Array, width: number, height: number): Component[] => {
+  const labels = new Int32Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const components: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const id = components.length + 1;
+    const component: Component = { x1: width, y1: height, x2: -1, y2: -1, area: 0 };
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = id;
+
+    while (top > 0) {
+      const idx = stack[--top];
+      const cx = idx % width;
+      const cy = (idx - cx) / width;
+      component.area++;
+      if (cx < component.x1) component.x1 = cx;
+      if (cx > component.x2) component.x2 = cx;
+      if (cy < component.y1) component.y1 = cy;
+      if (cy > component.y2) component.y2 = cy;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = cy + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          if (nx < 0 || nx >= width) continue;
+          const nidx = ny * width + nx;
+          if (mask[nidx] && !labels[nidx]) {
+            labels[nidx] = id;
+            stack[top++] = nidx;
+          }
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components;
+};
+
+// Detectar blocos de texto (rótulos) em toda a imagem
+export const detectTextBoxes = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): TextBox[] => {
+  const background = estimateBackgroundLuminance(data, width, height);
+  const mask = new Uint8Array(width * height);
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+    // Texto de eixo é praticamente neutro; pixels saturados pertencem a candles e indicadores
+    if (chroma < 60 && Math.abs(luminanceAt(data, i) - background) > 45) {
+      mask[p] = 1;
+    }
+  }
+
+  removeLongRuns(mask, width, height, Math.max(40, width * 0.1), Math.max(40, height * 0.15));
+
+  const components = labelComponents(mask, width, height);
+  const cores = components.filter(c => {
+    const h = c.y2 - c.y1 + 1;
+    const w = c.x2 - c.x1 + 1;
+    return h >= 5 && h <= 40 && w <= 40 && w <= h * 2.5 && c.area <= w * h;
+  });
+  const smalls = components.filter(c => {
+    const h = c.y2 - c.y1 + 1;
+    const w = c.x2 - c.x1 + 1;
+    return h < 5 && w < 12;
+  });
+
+  // Agrupar componentes em linhas de texto por alinhamento vertical e proximidade horizontal
+  cores.sort((a, b) => a.x1 - b.x1);
+  const lines: { x1: number; y1: number; x2: number; y2: number; count: number }[] = [];
+
+  for (const core of cores) {
+    const h = core.y2 - core.y1 + 1;
+    let joined = false;
+
+    for (const line of lines) {
+      const lineHeight = line.y2 - line.y1 + 1;
+      const overlap = Math.min(line.y2, core.y2) - Math.max(line.y1, core.y1) + 1;
+      const gap = core.x1 - line.x2;
+      if (overlap >= Math.min(h, lineHeight) * 0.5 && gap <= Math.max(h, lineHeight) * 1.5 && gap >= -2) {
+        line.x2 = Math.max(line.x2, core.x2);
+        line.y1 = Math.min(line.y1, core.y1);
+        line.y2 = Math.max(line.y2, core.y2);
+        line.count++;
+        joined = true;
+        break;
+      }
+    }
+
+    if (!joined) {
+      lines.push({ x1: core.x1, y1: core.y1, x2: core.x2, y2: core.y2, count: 1 });
+    }
+  }
+
+  // Anexar pontuação (pontos, vírgulas, hífens) às linhas vizinhas
+  for (const small of smalls) {
+    const cy = (small.y1 + small.y2) / 2;
+    for (const line of lines) {
+      const lineHeight = line.y2 - line.y1 + 1;
+      const withinBand = cy >= line.y1 - lineHeight * 0.2 && cy <= line.y2 + lineHeight * 0.4;
+      const near = small.x1 <= line.x2 + lineHeight * 0.8 && small.x2 >= line.x1 - lineHeight * 0.8;
+      if (withinBand && near) {
+        line.x1 = Math.min(line.x1, small.x1);
+        line.x2 = Math.max(line.x2, small.x2);
+        line.y2 = Math.max(line.y2, Math.min(small.y2, line.y2 + Math.ceil(lineHeight * 0.4)));
+        break;
+      }
+    }
+  }
+
+  return lines.map(line => ({
+    x: line.x1,
+    y: line.y1,
+    width: line.x2 - line.x1 + 1,
+    height: line.y2 - line.y1 + 1,
+    glyphCount: line.count
+  }));
+};
+
+// Construir o mapa de intensidade de tinta (0-1) de uma caixa, usando o fundo local
+const buildInkMap = (
+  data: Uint8ClampedArray,
+  width: number,
+  box: { x: number; y: number; width: number; height: number }
+): Float32Array => {
+  const ink = new Float32Array(box.width * box.height);
+  const border: number[] = [];
+
+  for (let x = 0; x < box.width; x++) {
+    border.push(luminanceAt(data, (box.y * width + box.x + x) * 4));
+    border.push(luminanceAt(data, ((box.y + box.height - 1) * width + box.x + x) * 4));
+  }
+  for (let y = 0; y < box.height; y++) {
+    border.push(luminanceAt(data, ((box.y + y) * width + box.x) * 4));
+    border.push(luminanceAt(data, ((box.y + y) * width + box.x + box.width - 1) * 4));
+  }
+  border.sort((a, b) => a - b);
+  const background = border[Math.floor(border.length / 2)];
+
+  let maxDiff = 0;
+  for (let y = 0; y < box.height; y++) {
+    for (let x = 0; x < box.width; x++) {
+      const diff = Math.abs(luminanceAt(data, ((box.y + y) * width + box.x + x) * 4) - background);
+      ink[y * box.width + x] = diff;
+      if (diff > maxDiff) maxDiff = diff;
+    }
+  }
+
+  const scale = maxDiff > 0 ? 1 / (maxDiff * 0.8) : 0;
+  for (let i = 0; i < ink.length; i++) {
+    ink[i] = Math.min(1, ink[i] * scale);
+  }
+
+  return ink;
+};
+
+// Separar glifos por projeção de colunas, dividindo blocos largos demais (glifos encostados)
+const segmentGlyphColumns = (ink: Float32Array, w: number, h: number): { x1: number; x2: number }[] => {
+  const projection = new Float32Array(w);
+  for (let x = 0; x < w; x++) {
+    for (let y = 0; y < h; y++) {
+      if (ink[y * w + x] >= 0.35) projection[x]++;
+    }
+  }
+
+  const segments: { x1: number; x2: number }[] = [];
+  let start = -1;
+  for (let x = 0; x <= w; x++) {
+    const on = x < w && projection[x] > 0;
+    if (on && start < 0) start = x;
+    if (!on && start >= 0) {
+      segments.push({ x1: start, x2: x - 1 });
+      start = -1;
+    }
+  }
+
+  const maxGlyphWidth = Math.max(3, h * 0.85);
+  const result: { x1: number; x2: number }[] = [];
+  const split = (segment: { x1: number; x2: number }) => {
+    const segWidth = segment.x2 - segment.x1 + 1;
+    if (segWidth <= maxGlyphWidth) {
+      result.push(segment);
+      return;
+    }
+    // Cortar na coluna de menor tinta próxima ao centro esperado
+    const expected = Math.round(segment.x1 + Math.min(segWidth / 2, h * 0.6));
+    let cut = expected;
+    for (let x = Math.max(segment.x1 + 2, expected - 2); x <= Math.min(segment.x2 - 2, expected + 2); x++) {
+      if (projection[x] < projection[cut]) cut = x;
+    }
+    if (cut <= segment.x1 || cut >= segment.x2) {
+      result.push(segment);
+      return;
+    }
+    split({ x1: segment.x1, x2: cut - 1 });
+    split({ x1: cut + 1, x2: segment.x2 });
+  };
+  segments.forEach(split);
+
+  return result;
+};
+
+// Reconhecer o texto contido numa caixa, restrito a um alfabeto
+export const recognizeText = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  box: { x: number; y: number; width: number; height: number },
+  alphabet: string = NUMERIC_ALPHABET
+): RecognizedText => {
+  // Margem de 1px para o fundo local
+  const padded = {
+    x: Math.max(0, box.x - 1),
+    y: Math.max(0, box.y - 1),
+    width: Math.min(width - Math.max(0, box.x - 1), box.width + 2),
+    height: Math.min(height - Math.max(0, box.y - 1), box.height + 2)
+  };
+  const w = padded.width;
+  const h = padded.height;
+  const ink = buildInkMap(data, width, padded);
+  const columns = segmentGlyphColumns(ink, w, h);
+
+  const glyphBoxes = columns
+    .map(col => inkBounds(ink, w, col.x1, 0, col.x2 - col.x1 + 1, h))
+    .filter((b): b is { x: number; y: number; width: number; height: number } => b !== null);
+
+  if (glyphBoxes.length === 0) {
+    return { text: '', confidence: 0, glyphs: [] };
+  }
+
+  // Faixa de referência da linha (altura de dígitos/maiúsculas)
+  const maxHeight = Math.max(...glyphBoxes.map(b => b.height));
+  const tall = glyphBoxes.filter(b => b.height >= maxHeight * 0.6);
+  const tops = tall.map(b => b.y).sort((a, b) => a - b);
+  const bottoms = tall.map(b => b.y + b.height).sort((a, b) => a - b);
+  const lineTop = tops[Math.floor(tops.length / 2)];
+  const lineBottom = bottoms[Math.floor(bottoms.length / 2)];
+  const lineHeight = Math.max(1, lineBottom - lineTop);
+
+  const templates = getTemplates().filter(t => alphabet.includes(t.char));
+  const usesLetters = /[A-Za-z]/.test(alphabet);
+  const glyphs: RecognizedGlyph[] = [];
+  let previousEnd = -1;
+
+  for (const glyph of glyphBoxes) {
+    if (previousEnd >= 0 && glyph.x - previousEnd > lineHeight * 0.45 && alphabet.includes(' ')) {
+      glyphs.push({ char: ' ', confidence: 1, x: previousEnd, width: glyph.x - previousEnd });
+    }
+    previousEnd = glyph.x + glyph.width;
+
+    const center = glyph.y + glyph.height / 2;
+
+    // Glifos pequenos: pontuação classificada por geometria
+    if (glyph.height < lineHeight * 0.45) {
+      let char = '';
+      const rowInk = new Array(glyph.height).fill(0);
+      for (let y = 0; y < glyph.height; y++) {
+        for (let x = 0; x < glyph.width; x++) {
+          if (ink[(glyph.y + y) * w + glyph.x + x] >= 0.35) rowInk[y]++;
+        }
+      }
+      const hasGap = rowInk.some((count, i) => count === 0 && i > 0 && i < glyph.height - 1);
+
+      if (hasGap && glyph.height >= lineHeight * 0.3) {
+        char = ':';
+      } else if (glyph.width >= glyph.height * 1.5 && center > lineTop + lineHeight * 0.25 && center < lineBottom - lineHeight * 0.2) {
+        char = '-';
+      } else if (center >= lineBottom - lineHeight * 0.3) {
+        const descends = glyph.y + glyph.height > lineBottom + lineHeight * 0.1;
+        char = descends || glyph.height > glyph.width * 1.4 ? ',' : '.';
+      }
+
+      if (char && alphabet.includes(char)) {
+        glyphs.push({ char, confidence: 0.8, x: glyph.x, width: glyph.width });
+      }
+      continue;
+    }
+
+    // ':' alto (dois pontos separados verticalmente ocupam a altura da linha)
+    if (alphabet.includes(':') && glyph.width <= lineHeight * 0.35) {
+      // Dois blocos de tinta curtos separados por linhas vazias (no 'i' o traço é longo)
+      const runs: number[] = [];
+      let run = 0;
+      for (let y = 0; y < glyph.height; y++) {
+        let hasInk = false;
+        for (let x = 0; x < glyph.width; x++) {
+          if (ink[(glyph.y + y) * w + glyph.x + x] >= 0.35) {
+            hasInk = true;
+            break;
+          }
+        }
+        if (hasInk) {
+          run++;
+        } else if (run > 0) {
+          runs.push(run);
+          run = 0;
+        }
+      }
+      if (run > 0) runs.push(run);
+      if (runs.length === 2 && runs.every(r => r <= glyph.height * 0.45) && glyph.height < lineHeight * 0.85) {
+        glyphs.push({ char: ':', confidence: 0.75, x: glyph.x, width: glyph.width });
+        continue;
+      }
+    }
+
+    const grid = resampleToGrid(ink, w, glyph.x, glyph.y, glyph.width, glyph.height);
+    const aspect = glyph.width / glyph.height;
+    const relTop = (glyph.y - lineTop) / lineHeight;
+    const relHeight = glyph.height / lineHeight;
+
+    let bestChar = '';
+    let bestScore = -Infinity;
+    for (const template of templates) {
+      let score = correlation(grid, template.grid) - 0.25 * Math.abs(Math.log(aspect / template.aspect));
+      if (usesLetters) {
+        score -= 0.5 * Math.abs(relTop - template.relTop) + 0.4 * Math.abs(relHeight - template.relHeight);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestChar = template.char;
+      }
+    }
+
+    if (bestChar) {
+      glyphs.push({ char: bestChar, confidence: Math.max(0, Math.min(1, bestScore)), x: glyph.x, width: glyph.width });
+    }
+  }
+
+  const scored = glyphs.filter(g => g.char !== ' ');
+  const confidence = scored.length > 0
+    ? scored.reduce((sum, g) => sum + g.confidence, 0) / scored.length
+    : 0;
+
+  return {
+    text: glyphs.map(g => g.char).join('').trim(),
+    confidence,
+    glyphs: glyphs.map(g => ({ ...g, x: g.x + padded.x }))
+  };
+};
@@ -0,0 +1,231 @@
+/**
+ * Detecção de painéis em prints com vários gráficos (layouts 2×2, 3×2...).
+ * A imagem é dividida recursivamente nas linhas separadoras que cruzam toda
+ * a região; cada painel recebe sua área de plotagem, eixos e cabeçalho.
+ */
+
+import { ChartPanel } from '@/context/AnalyzerContext';
+import { TIME_ALPHABET, detectTextBoxes, recognizeText } from './chartOcr';
+import { calibratePriceAxis } from './priceAxisCalibration';
+import { readTimeAxis } from './timeAxisCalibration';
+
+type RGB = [number, number, number];
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Tamanho mínimo de um painel (px e fração da região dividida)
+const MIN_PANEL_SIZE = 120;
+const MIN_PANEL_FRACTION = 0.15;
+// Fração da linha/coluna que precisa ter uma só cor para contar como separador
+const SEPARATOR_UNIFORMITY = 0.97;
+const MAX_SEPARATOR_THICKNESS = 16;
+const MAX_PANELS = 9;
+const HEADER_ALPHABET = TIME_ALPHABET + 'BKM';
+
+const colorDistance = (a: RGB, b: RGB) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]) + Math.abs(a[2] - b[2]);
+
+const pixelAt = (data: Uint8ClampedArray, width: number, x: number, y: number): RGB => {
+  const i = (y * width + x) * 4;
+  return [data[i], data[i + 1], data[i + 2]];
+};
+
+// Cor dominante de um retângulo (moda do histograma quantizado, amostrado)
+const dominantColor = (data: Uint8ClampedArray, width: number, rect: Rect): RGB => {
+  const counts = new Map<number, { count: number; sum: RGB }>();
+  const step = Math.max(1, Math.floor(Math.sqrt((rect.width * rect.height) / 20000)));
+  for (let y = rect.y; y < rect.y + rect.height; y += step) {
+    for (let x = rect.x; x < rect.x + rect.width; x += step) {
+      const [r, g, b] = pixelAt(data, width, x, y);
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const entry = counts.get(key) || { count: 0, sum: [0, 0, 0] as RGB };
+      entry.count++;
+      entry.sum[0] += r;
+      entry.sum[1] += g;
+      entry.sum[2] += b;
+      counts.set(key, entry);
+    }
+  }
+  let best = { count: 0, sum: [0, 0, 0] as RGB };
+  counts.forEach(entry => {
+    if (entry.count > best.count) best = entry;
+  });
+  return best.sum.map(value => value / Math.max(1, best.count)) as RGB;
+};
+
+// Linha (ou coluna) de cor única ao longo de toda a região; retorna a cor, ou null
+const uniformLineColor = (data: Uint8ClampedArray, width: number, rect: Rect, position: number, vertical: boolean): RGB | null => {
+  const length = vertical ? rect.height : rect.width;
+  const samples: RGB[] = [];
+  for (let k = 0; k < length; k += 2) {
+    samples.push(vertical
+      ? pixelAt(data, width, position, rect.y + k)
+      : pixelAt(data, width, rect.x + k, position));
+  }
+  const median = [0, 1, 2].map(c => {
+    const values = samples.map(sample => sample[c]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  }) as RGB;
+  const close = samples.filter(sample => colorDistance(sample, median) <= 24).length;
+  return close >= samples.length * SEPARATOR_UNIFORMITY ? median : null;
+};
+
+// Separadores numa direção: faixas finas de cor única que diferem do fundo dos dois lados
+const findSeparators = (data: Uint8ClampedArray, width: number, rect: Rect, vertical: boolean): { start: number; end: number }[] => {
+  const origin = vertical ? rect.x : rect.y;
+  const span = vertical ? rect.width : rect.height;
+  const minSide = Math.ceil(Math.max(MIN_PANEL_SIZE, span * MIN_PANEL_FRACTION));
+
+  const runs: { start: number; end: number; colors: RGB[] }[] = [];
+  for (let position = origin + minSide; position < origin + span - minSide; position++) {
+    const color = uniformLineColor(data, width, rect, position, vertical);
+    if (!color) continue;
+    // Faixas vizinhas de cores diferentes (margem do fundo + separador) são avaliadas separadamente
+    const last = runs[runs.length - 1];
+    if (last && last.end === position && colorDistance(last.colors[last.colors.length - 1], color) <= 24) {
+      last.end++;
+      last.colors.push(color);
+    } else {
+      runs.push({ start: position, end: position + 1, colors: [color] });
+    }
+  }
+
+  return runs.filter(run => {
+    if (run.end - run.start > MAX_SEPARATOR_THICKNESS) return false;
+    // Comparar com o fundo de cada lado: uma faixa vazia do próprio fundo não separa painéis
+    const sideSize = Math.min(60, Math.floor(minSide / 2));
+    const before: Rect = vertical
+      ? { x: run.start - sideSize, y: rect.y, width: sideSize, height: rect.height }
+      : { x: rect.x, y: run.start - sideSize, width: rect.width, height: sideSize };
+    const after: Rect = vertical
+      ? { x: run.end, y: rect.y, width: sideSize, height: rect.height }
+      : { x: rect.x, y: run.end, width: rect.width, height: sideSize };
+    const backgrounds = [dominantColor(data, width, before), dominantColor(data, width, after)];
+    return run.colors.some(color => backgrounds.every(background => colorDistance(color, background) >= 15));
+  });
+};
+
+// Dividir a região nos separadores encontrados
+const splitAt = (rect: Rect, separators: { start: number; end: number }[], vertical: boolean): Rect[] => {
+  const parts: Rect[] = [];
+  let cursor = vertical ? rect.x : rect.y;
+  const limit = vertical ? rect.x + rect.width : rect.y + rect.height;
+  for (const separator of [...separators, { start: limit, end: limit }]) {
+    if (separator.start - cursor > 0) {
+      parts.push(vertical
+        ? { x: cursor, y: rect.y, width: separator.start - cursor, height: rect.height }
+        : { x: rect.x, y: cursor, width: rect.width, height: separator.start - cursor });
+    }
+    cursor = separator.end;
+  }
+  return parts;
+};
+
+const cropPixels = (data: Uint8ClampedArray, width: number, rect: Rect): Uint8ClampedArray => {
+  const crop = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * width + rect.x) * 4;
+    crop.set(data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return crop;
+};
+
+// Subpainéis de indicador/volume ficam com o gráfico: o de cima não tem eixo de tempo próprio
+const isIndicatorSubPane = (data: Uint8ClampedArray, width: number, upper: Rect, lower: Rect): boolean => {
+  if (Math.min(upper.height, lower.height) >= Math.max(upper.height, lower.height) * 0.6) return false;
+  return readTimeAxis(cropPixels(data, width, upper), upper.width, upper.height) === null;
+};
+
+// Divisão recursiva (XY-cut): colunas primeiro, depois linhas, até não haver separadores
+const splitRegion = (data: Uint8ClampedArray, width: number, rect: Rect, depth: number): Rect[] => {
+  if (depth > 4) return [rect];
+
+  const vertical = findSeparators(data, width, rect, true);
+  if (vertical.length > 0) {
+    return splitAt(rect, vertical, true).flatMap(part => splitRegion(data, width, part, depth + 1));
+  }
+
+  const horizontal = findSeparators(data, width, rect, false);
+  if (horizontal.length > 0) {
+    const parts = splitAt(rect, horizontal, false);
+    // Juntar subpainéis de indicador ao painel de cima
+    const merged: Rect[] = [];
+    for (const part of parts) {
+      const previous = merged[merged.length - 1];
+      if (previous && isIndicatorSubPane(data, width, previous, part)) {
+        merged[merged.length - 1] = { ...previous, height: part.y + part.height - previous.y };
+      } else {
+        merged.push(part);
+      }
+    }
+    if (merged.length > 1) return merged.flatMap(part => splitRegion(data, width, part, depth + 1));
+  }
+
+  return [rect];
+};
+
+// Eixos, cabeçalho e área de plotagem de um painel (lidos no recorte, devolvidos em coordenadas da imagem)
+const describePanel = (data: Uint8ClampedArray, width: number, bounds: Rect, index: number): ChartPanel => {
+  const crop = cropPixels(data, width, bounds);
+  const textBoxes = detectTextBoxes(crop, bounds.width, bounds.height);
+  const priceCalibration = calibratePriceAxis(crop, bounds.width, bounds.height, textBoxes);
+  const timeAxis = readTimeAxis(crop, bounds.width, bounds.height, textBoxes, priceCalibration?.axisBounds);
+
+  // Cabeçalho: textos na faixa superior (ativo, timeframe, OHLC), fora do eixo de preço
+  const axis = priceCalibration?.axisBounds;
+  const headerLimit = bounds.height * 0.12;
+  const headerBoxes = textBoxes
+    .filter(box => box.y + box.height <= headerLimit)
+    .filter(box => !axis || box.x + box.width <= axis.x || box.x >= axis.x + axis.width)
+    .sort((a, b) => a.x - b.x);
+  let header: ChartPanel['header'] = null;
+  if (headerBoxes.length > 0) {
+    const x1 = Math.min(...headerBoxes.map(box => box.x));
+    const y1 = Math.min(...headerBoxes.map(box => box.y));
+    const x2 = Math.max(...headerBoxes.map(box => box.x + box.width));
+    const y2 = Math.max(...headerBoxes.map(box => box.y + box.height));
+    const text = headerBoxes
+      .map(box => recognizeText(crop, bounds.width, bounds.height, box, HEADER_ALPHABET))
+      .filter(result => result.confidence >= 0.4)
+      .map(result => result.text.trim())
+      .filter(Boolean)
+      .join(' ');
+    header = { bounds: { x: bounds.x + x1, y: bounds.y + y1, width: x2 - x1, height: y2 - y1 }, text };
+  }
+
+  // Plotagem: o painel sem eixo de preço, eixo de tempo e cabeçalho
+  const plotLeft = axis && axis.x === 0 ? axis.width : 0;
+  const plotRight = axis && axis.x > 0 ? axis.x : bounds.width;
+  const plotTop = header ? header.bounds.y - bounds.y + header.bounds.height + 2 : 0;
+  const plotBottom = timeAxis ? timeAxis.row.y : bounds.height;
+
+  return {
+    index,
+    bounds,
+    plot: {
+      x: bounds.x + plotLeft,
+      y: bounds.y + plotTop,
+      width: Math.max(0, plotRight - plotLeft),
+      height: Math.max(0, plotBottom - plotTop)
+    },
+    priceAxis: axis ? { x: bounds.x + axis.x, width: axis.width } : null,
+    timeAxis: timeAxis ? { y: bounds.y + timeAxis.row.y, height: timeAxis.row.height } : null,
+    header
+  };
+};
+
+// Detectar todos os painéis de gráfico da imagem (um único painel quando não há separadores)
+export const detectChartPanels = (data: Uint8ClampedArray, width: number, height: number): ChartPanel[] => {
+  const regions = splitRegion(data, width, { x: 0, y: 0, width, height }, 0)
+    .filter(region => region.width >= MIN_PANEL_SIZE && region.height >= MIN_PANEL_SIZE * 0.75)
+    .sort((a, b) => (Math.abs(a.y - b.y) > 10 ? a.y - b.y : a.x - b.x))
+    .slice(0, MAX_PANELS);
+
+  const panels = (regions.length > 0 ? regions : [{ x: 0, y: 0, width, height }])
+    .map((bounds, index) => describePanel(data, width, bounds, index));
+
+  console.log(`Painéis de gráfico detectados: ${panels.length}`);
+  return panels;
+};
+
+// Pixels de um painel, para extrair seus candles isoladamente
+export const cropChartPanel = (data: Uint8ClampedArray, width: number, panel: ChartPanel): Uint8ClampedArray =>
+  cropPixels(data, width, panel.bounds);
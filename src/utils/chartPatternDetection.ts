@@ -1,23 +1,363 @@
+import { CandleData, ChartFormation, TechnicalElement } from "../context/AnalyzerContext";
+import { edwardsMageeFormations } from "./masterTechniques";
+import { LinePoint, Pivot, alternatingPivots, pixelMapper } from "./chartPivots";
 
-import { CandleData } from "../context/AnalyzerContext";
-
-interface ChartPattern {
+// Formação geométrica antes da validação pelos critérios de Edwards & Magee
+interface Candidate {
+  formation: keyof typeof edwardsMageeFormations;
   pattern: string;
-  confidence: number;
-  description: string;
-  recommendation: string;
-  action: 'compra' | 'venda' | 'neutro';
+  patternType: ChartFormation['patternType'];
+  bullish: boolean; // Direção esperada do rompimento
+  pivots: Pivot[];
+  breakoutLine: [LinePoint, LinePoint];
+  height: number; // Altura medida projetada a partir do rompimento
+  invalidation: number;
+  geometry: number; // 0-1, quão bem os pivôs respeitam as regras geométricas
+  drawing: LinePoint[]; // Contorno da formação
+  formedAt: number; // Barra a partir da qual um fechamento além da linha conta como rompimento
 }
 
-export const detectChartPatterns = async (candles: CandleData[], patternType: string, options: any): Promise<ChartPattern[]> => {
-  const confidence = Math.random() * 0.4 + 0.6;
-  const action = Math.random() > 0.5 ? 'compra' : 'venda';
-  
-  return [{
-    pattern: patternType,
+// Formações cujo último pivô ficou muito para trás não interessam mais
+const MAX_AGE = 60;
+const RELIABILITY_BASE = { high: 0.7, medium: 0.6, low: 0.5 };
+
+const priceOnLine = ([a, b]: [LinePoint, LinePoint], index: number): number =>
+  b.index === a.index ? a.price : a.price + ((b.price - a.price) * (index - a.index)) / (b.index - a.index);
+
+// Topo duplo (H L H) e fundo duplo (L H L): extremos no mesmo nível com um recuo relevante entre eles
+const findDoubles = (pivots: Pivot[], unit: number): Candidate[] => {
+  const candidates: Candidate[] = [];
+  for (let k = 0; k + 2 < pivots.length; k++) {
+    const [first, middle, second] = pivots.slice(k, k + 3);
+    const top = first.type === 'high';
+    const depth = top ? Math.min(first.price, second.price) - middle.price : middle.price - Math.max(first.price, second.price);
+    if (depth < 2 * unit) continue;
+
+    const difference = Math.abs(first.price - second.price);
+    const allowed = Math.max(0.6 * unit, 0.15 * depth);
+    if (difference > allowed) continue;
+
+    // Topo duplo encerra uma alta (e fundo duplo, uma baixa): o pivô anterior está além do recuo
+    const before = pivots[k - 1];
+    if (before && (top ? before.price >= middle.price : before.price <= middle.price)) continue;
+
+    const level = (first.price + second.price) / 2;
+    candidates.push({
+      formation: top ? 'double_top' : 'double_bottom',
+      pattern: top ? 'Topo Duplo' : 'Fundo Duplo',
+      patternType: top ? 'topoduplo' : 'fundoduplo',
+      bullish: !top,
+      pivots: [first, middle, second],
+      breakoutLine: [{ index: middle.index, price: middle.price }, { index: second.index, price: middle.price }],
+      height: Math.abs(level - middle.price),
+      invalidation: top ? Math.max(first.price, second.price) : Math.min(first.price, second.price),
+      geometry: 1 - difference / allowed / 2,
+      drawing: [first, middle, second],
+      formedAt: second.index
+    });
+  }
+  return candidates;
+};
+
+// Ombro-cabeça-ombro (H L H L H) e o invertido (L H L H L), com a linha do pescoço pelos dois recuos
+const findHeadAndShoulders = (pivots: Pivot[], unit: number): Candidate[] => {
+  const candidates: Candidate[] = [];
+  for (let k = 0; k + 4 < pivots.length; k++) {
+    const [leftShoulder, neck1, head, neck2, rightShoulder] = pivots.slice(k, k + 5);
+    const top = leftShoulder.type === 'high';
+    const sign = top ? 1 : -1;
+    const neckline: [LinePoint, LinePoint] = [
+      { index: neck1.index, price: neck1.price },
+      { index: neck2.index, price: neck2.price }
+    ];
+
+    const height = sign * (head.price - priceOnLine(neckline, head.index));
+    if (height < 2 * unit) continue;
+    // Cabeça acima dos dois ombros, ombros parecidos e acima do pescoço
+    const headProminence = sign * (head.price - (top ? Math.max : Math.min)(leftShoulder.price, rightShoulder.price));
+    const shoulderGap = Math.abs(leftShoulder.price - rightShoulder.price);
+    const leftAbove = sign * (leftShoulder.price - priceOnLine(neckline, leftShoulder.index));
+    const rightAbove = sign * (rightShoulder.price - priceOnLine(neckline, rightShoulder.index));
+    if (headProminence < 0.15 * height || shoulderGap > 0.35 * height) continue;
+    if (Math.min(leftAbove, rightAbove) < 0.3 * height || Math.abs(neck2.price - neck1.price) > 0.5 * height) continue;
+
+    // Ombros à distância parecida da cabeça
+    const timeRatio = (rightShoulder.index - head.index) / (head.index - leftShoulder.index);
+    if (timeRatio < 0.4 || timeRatio > 2.5) continue;
+
+    candidates.push({
+      formation: 'head_shoulders',
+      pattern: top ? 'Ombro-Cabeça-Ombro' : 'Ombro-Cabeça-Ombro Invertido',
+      patternType: 'OCO',
+      bullish: !top,
+      pivots: [leftShoulder, neck1, head, neck2, rightShoulder],
+      breakoutLine: neckline,
+      height,
+      invalidation: head.price,
+      geometry: 1 - 0.5 * (shoulderGap / (0.35 * height)) - 0.5 * Math.min(1, Math.abs(Math.log(timeRatio)) / Math.log(2.5)),
+      drawing: [leftShoulder, neck1, head, neck2, rightShoulder],
+      formedAt: rightShoulder.index
+    });
+  }
+  return candidates;
+};
+
+// Triângulos e cunhas: linhas pelos topos e pelos fundos que convergem
+const findConvergingFormations = (candles: CandleData[], pivots: Pivot[], unit: number): Candidate[] => {
+  const candidates: Candidate[] = [];
+  const tolerance = 0.6 * unit;
+
+  for (let size = 6; size >= 4; size--) {
+    for (let k = 0; k + size <= pivots.length; k++) {
+      const window = pivots.slice(k, k + size);
+      const highs = window.filter(pivot => pivot.type === 'high');
+      const lows = window.filter(pivot => pivot.type === 'low');
+      const upper: [LinePoint, LinePoint] = [highs[0], highs[highs.length - 1]];
+      const lower: [LinePoint, LinePoint] = [lows[0], lows[lows.length - 1]];
+      const start = window[0].index;
+      const end = window[window.length - 1].index;
+
+      // Todos os toques perto das linhas e nenhum candle furando a formação antes do fim
+      const residuals = [
+        ...highs.map(pivot => Math.abs(pivot.price - priceOnLine(upper, pivot.index))),
+        ...lows.map(pivot => Math.abs(pivot.price - priceOnLine(lower, pivot.index)))
+      ];
+      if (residuals.some(residual => residual > tolerance)) continue;
+      const contained = candles.slice(start, end + 1).every((candle, offset) =>
+        candle.close <= priceOnLine(upper, start + offset) + tolerance && candle.close >= priceOnLine(lower, start + offset) - tolerance
+      );
+      if (!contained) continue;
+
+      const startWidth = priceOnLine(upper, start) - priceOnLine(lower, start);
+      const endWidth = priceOnLine(upper, end) - priceOnLine(lower, end);
+      if (startWidth < 2 * unit || endWidth <= 0 || endWidth > 0.75 * startWidth) continue;
+
+      // Inclinação total de cada linha ao longo da formação
+      const upperMove = priceOnLine(upper, end) - priceOnLine(upper, start);
+      const lowerMove = priceOnLine(lower, end) - priceOnLine(lower, start);
+      const flat = 0.8 * unit;
+      let kind: { name: string; formation: Candidate['formation']; patternType: Candidate['patternType']; bullish: boolean } | null = null;
+
+      if (Math.abs(upperMove) <= flat && lowerMove > flat) {
+        kind = { name: 'Triângulo Ascendente', formation: 'triangle', patternType: 'triangulo', bullish: true };
+      } else if (upperMove < -flat && Math.abs(lowerMove) <= flat) {
+        kind = { name: 'Triângulo Descendente', formation: 'triangle', patternType: 'triangulo', bullish: false };
+      } else if (upperMove < -flat && lowerMove > flat) {
+        // Triângulo simétrico tende a continuar o movimento que o precedeu
+        const before = candles[Math.max(0, start - 10)].close;
+        const bullish = candles[start].close > before;
+        kind = { name: 'Triângulo Simétrico', formation: 'triangle', patternType: 'triangulo', bullish };
+      } else if (upperMove > flat && lowerMove > upperMove) {
+        kind = { name: 'Cunha Ascendente', formation: 'wedge', patternType: 'cunha', bullish: false };
+      } else if (lowerMove < -flat && upperMove < lowerMove) {
+        kind = { name: 'Cunha Descendente', formation: 'wedge', patternType: 'cunha', bullish: true };
+      }
+      if (!kind) continue;
+
+      const lastHigh = highs[highs.length - 1];
+      const lastLow = lows[lows.length - 1];
+      const meanResidual = residuals.reduce((sum, residual) => sum + residual, 0) / residuals.length;
+      candidates.push({
+        formation: kind.formation,
+        pattern: kind.name,
+        patternType: kind.patternType,
+        bullish: kind.bullish,
+        pivots: window,
+        breakoutLine: kind.bullish ? upper : lower,
+        height: startWidth,
+        invalidation: kind.bullish ? lastLow.price : lastHigh.price,
+        // Com dois toques por linha o ajuste é trivial: o que pesa são os toques extras
+        geometry: 0.6 * ((size - 4) / 2) + 0.4 * (1 - meanResidual / tolerance),
+        drawing: [
+          { index: start, price: priceOnLine(upper, start) },
+          { index: end, price: priceOnLine(upper, end) },
+          { index: end, price: priceOnLine(lower, end) },
+          { index: start, price: priceOnLine(lower, start) }
+        ],
+        formedAt: end
+      });
+    }
+  }
+  return candidates;
+};
+
+// Bandeira: mastro curto e forte seguido de uma consolidação estreita contra o mastro
+const findFlags = (candles: CandleData[], pivots: Pivot[], unit: number): Candidate[] => {
+  const candidates: Candidate[] = [];
+  const minimumBars = edwardsMageeFormations.flag.minimumDuration;
+
+  for (let k = 1; k < pivots.length; k++) {
+    const [base, tip] = [pivots[k - 1], pivots[k]];
+    const bullish = tip.type === 'high';
+    const sign = bullish ? 1 : -1;
+    const pole = sign * (tip.price - base.price);
+    const poleBars = tip.index - base.index;
+    if (pole < 4 * unit || poleBars > 12 || pole / poleBars < 0.5 * unit) continue;
+
+    // A bandeira vai até o preço voltar além da ponta do mastro ou 15 barras
+    let flagEnd = tip.index;
+    for (let i = tip.index + 1; i < Math.min(candles.length, tip.index + 16); i++) {
+      if (sign * (candles[i].close - tip.price) > 0) break;
+      flagEnd = i;
+    }
+    const flag = candles.slice(tip.index + 1, flagEnd + 1);
+    if (flag.length < minimumBars) continue;
+
+    // Recuo de no máximo metade do mastro; a bandeira termina no extremo do recuo
+    const extremeOffset = flag.reduce((best, c, i) => (sign * ((bullish ? c.low : c.high) - (bullish ? flag[best].low : flag[best].high)) < 0 ? i : best), 0);
+    const extremeIndex = tip.index + 1 + extremeOffset;
+    const extreme = bullish ? flag[extremeOffset].low : flag[extremeOffset].high;
+    const retracement = sign * (tip.price - extreme);
+    if (retracement > 0.5 * pole || extremeIndex - tip.index < minimumBars) continue;
+    // Borda da bandeira da ponta do mastro ao candle do extremo, inclinada contra o mastro (ou lateral)
+    const lineEnd = { index: extremeIndex, price: bullish ? candles[extremeIndex].high : candles[extremeIndex].low };
+    if (sign * (lineEnd.price - tip.price) > 0) continue;
+
+    candidates.push({
+      formation: 'flag',
+      pattern: bullish ? 'Bandeira de Alta' : 'Bandeira de Baixa',
+      patternType: 'bandeira',
+      bullish,
+      pivots: [base, tip],
+      breakoutLine: [{ index: tip.index, price: tip.price }, lineEnd],
+      height: pole,
+      invalidation: extreme,
+      geometry: 1 - retracement / (0.5 * pole),
+      drawing: [
+        { index: base.index, price: base.price },
+        { index: tip.index, price: tip.price },
+        lineEnd,
+        { index: extremeIndex, price: extreme }
+      ],
+      formedAt: extremeIndex
+    });
+  }
+  return candidates;
+};
+
+// Critérios de Edwards & Magee: duração das pernas, volume secando e rompimento confirmado com volume
+const validate = (candles: CandleData[], candidate: Candidate, toPixels: ReturnType<typeof pixelMapper>): ChartFormation | null => {
+  const criteria = edwardsMageeFormations[candidate.formation];
+  const legs = candidate.pivots.slice(1).map((pivot, k) => pivot.index - candidate.pivots[k].index);
+  if (legs.some(leg => leg < criteria.minimumDuration)) return null;
+
+  const sign = candidate.bullish ? 1 : -1;
+  let breakIndex: number | null = null;
+  let invalidated = false;
+  for (let i = candidate.formedAt + 1; i < candles.length; i++) {
+    if (sign * (candles[i].close - candidate.invalidation) < 0) {
+      invalidated = true;
+      break;
+    }
+    if (breakIndex === null && sign * (candles[i].close - priceOnLine(candidate.breakoutLine, i)) > 0) breakIndex = i;
+  }
+
+  const start = candidate.pivots[0].index;
+  const end = candidate.formedAt;
+  const formation = candles.slice(start, end + 1);
+  const notes: string[] = [];
+  let confidence = RELIABILITY_BASE[criteria.reliability] + 0.15 * Math.max(0, candidate.geometry);
+
+  // Volume só quando todos os candles da formação trazem volume
+  if (formation.length >= 4 && formation.every(c => c.volume !== undefined)) {
+    const volumes = formation.map(c => c.volume as number);
+    const half = Math.floor(volumes.length / 2);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const drying = mean(volumes.slice(half)) < mean(volumes.slice(0, half));
+    if (criteria.volumeDeclines) {
+      confidence += drying ? 0.05 : -0.05;
+      notes.push(drying ? 'volume secando na formação' : 'volume não secou na formação');
+    }
+    const breakoutVolume = breakIndex !== null ? candles[breakIndex].volume : undefined;
+    if (breakoutVolume !== undefined) {
+      const strong = breakoutVolume >= criteria.breakoutVolumeRatio * mean(volumes);
+      confidence += strong ? 0.1 : -0.05;
+      notes.push(strong ? 'rompimento com volume' : 'rompimento sem volume');
+    }
+  }
+
+  const status: ChartFormation['status'] = invalidated ? 'invalidado' : breakIndex !== null ? 'confirmado' : 'formando';
+  if (status === 'confirmado') confidence += 0.1;
+  if (status === 'invalidado') confidence *= 0.5;
+  confidence = Math.min(0.92, Math.max(0.3, confidence));
+
+  const breakoutPrice = priceOnLine(candidate.breakoutLine, breakIndex ?? candles.length - 1);
+  const target = breakoutPrice + sign * candidate.height;
+  const action: ChartFormation['action'] = invalidated ? 'neutro' : candidate.bullish ? 'compra' : 'venda';
+  const direction = candidate.bullish ? 'acima' : 'abaixo';
+  const lineName = candidate.formation === 'head_shoulders' || candidate.formation.startsWith('double') ? 'linha do pescoço' : 'linha de rompimento';
+  const color = invalidated ? '#9ca3af' : candidate.bullish ? '#22c55e' : '#ef4444';
+
+  const elements: TechnicalElement[] = toPixels
+    ? [
+        {
+          type: 'pattern',
+          patternType: candidate.patternType,
+          points: candidate.drawing.map(toPixels),
+          color,
+          thickness: 2,
+          label: candidate.pattern
+        },
+        {
+          type: 'line',
+          points: [toPixels(candidate.breakoutLine[0]), toPixels({ index: candles.length - 1, price: priceOnLine(candidate.breakoutLine, candles.length - 1) })],
+          prices: [candidate.breakoutLine[0].price, priceOnLine(candidate.breakoutLine, candles.length - 1)],
+          color,
+          thickness: 1,
+          dashArray: [6, 4],
+          label: lineName
+        }
+      ]
+    : [];
+
+  return {
+    pattern: candidate.pattern,
+    formation: candidate.formation,
+    patternType: candidate.patternType,
+    action,
     confidence,
-    description: `Padrão ${patternType} detectado`,
-    recommendation: `Considerar ${action}`,
-    action
-  }];
+    status,
+    pivots: candidate.pivots,
+    breakoutLine: candidate.breakoutLine,
+    target,
+    invalidation: candidate.invalidation,
+    description: `${candidate.pattern} ${status === 'confirmado' ? `confirmado: fechamento ${direction} da ${lineName}` : status === 'invalidado' ? 'invalidado: preço superou o extremo da formação' : `em formação: aguardando fechamento ${direction} da ${lineName}`}` +
+      `. Critério (Edwards & Magee): ${criteria.breakoutCriteria}${notes.length ? ` (${notes.join(', ')})` : ''}`,
+    recommendation: invalidated
+      ? 'Formação anulada: não operar'
+      : `${candidate.bullish ? 'Compra' : 'Venda'} no fechamento ${direction} de ${breakoutPrice.toFixed(4)}, alvo ${target.toFixed(4)}, invalidação em ${candidate.invalidation.toFixed(4)}`,
+    elements
+  };
+};
+
+export const detectChartPatterns = (candles: CandleData[]): ChartFormation[] => {
+  if (candles.length < 15) return [];
+
+  const unit = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length;
+  if (!(unit > 0)) return [];
+  const pivots = alternatingPivots(candles);
+  const toPixels = pixelMapper(candles);
+
+  const candidates = [
+    ...findHeadAndShoulders(pivots, unit),
+    ...findDoubles(pivots, unit),
+    ...findConvergingFormations(candles, pivots, unit),
+    ...findFlags(candles, pivots, unit)
+  ].filter(candidate => candidate.pivots[candidate.pivots.length - 1].index >= candles.length - MAX_AGE);
+
+  const formations = candidates
+    .map(candidate => validate(candles, candidate, toPixels))
+    .filter((formation): formation is ChartFormation => formation !== null)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  // A mesma sequência de pivôs não vira duas formações: fica a mais confiável
+  const kept: ChartFormation[] = [];
+  formations.forEach(formation => {
+    const indexes = new Set(formation.pivots.map(pivot => pivot.index));
+    const overlaps = kept.some(other => other.pivots.filter(pivot => indexes.has(pivot.index)).length >= 2);
+    if (!overlaps) kept.push(formation);
+  });
+
+  console.log(`📐 Formações gráficas: ${kept.map(f => `${f.pattern} (${f.status})`).join(', ') || 'nenhuma'}`);
+  return kept;
 };
@@ -0,0 +1,47 @@
+/**
+ * Pivôs e mapeamento preço → pixel compartilhados pelas análises que traçam
+ * linhas sobre o gráfico (formações clássicas e Fibonacci).
+ */
+
+import { CandleData, ChartFormation, Point } from "../context/AnalyzerContext";
+import { findSwingPoints } from "./confluenceAnalysis";
+
+export type Pivot = ChartFormation['pivots'][number];
+export type LinePoint = ChartFormation['breakoutLine'][number];
+
+// Pivôs alternando topo e fundo: entre dois do mesmo tipo fica o mais extremo
+export const alternatingPivots = (candles: CandleData[]): Pivot[] => {
+  const pivots: Pivot[] = [];
+  findSwingPoints(candles)
+    .sort((a, b) => a.index - b.index)
+    .forEach(point => {
+      const last = pivots[pivots.length - 1];
+      if (last && last.type === point.type) {
+        if (point.type === 'high' ? point.price > last.price : point.price < last.price) pivots[pivots.length - 1] = point;
+      } else {
+        pivots.push(point);
+      }
+    });
+  return pivots;
+};
+
+// Coordenadas na imagem a partir do índice do candle e do preço (ajuste linear pelos pavios)
+export const pixelMapper = (candles: CandleData[]): ((point: LinePoint) => Point) | null => {
+  const references = candles
+    .map((candle, index) => ({ candle, index }))
+    .filter(({ candle }) => candle.position && candle.wickTop !== undefined && candle.wickBottom !== undefined && candle.high > candle.low);
+  if (references.length < 2) return null;
+
+  const fit = (pairs: [number, number][]) => {
+    const n = pairs.length;
+    const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+    const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+    const variance = pairs.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+    const slope = variance > 0 ? pairs.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0) / variance : 0;
+    return (x: number) => meanY + slope * (x - meanX);
+  };
+  const yOf = fit(references.flatMap(({ candle }) => [[candle.high, candle.wickTop as number], [candle.low, candle.wickBottom as number]]));
+  const xOf = fit(references.map(({ candle, index }) => [index, candle.position!.x]));
+
+  return ({ index, price }) => ({ x: candles[index]?.position?.x ?? xOf(index), y: yOf(price) });
+};
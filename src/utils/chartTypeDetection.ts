@@ -0,0 +1,308 @@
+/**
+ * Classificação do tipo de gráfico (candles, barras OHLC, linha/área ou
+ * Heikin-Ashi) e extratores específicos para barras e linhas.
+ */
+
+import { CandleData, CandlePalette, ChartType } from '@/context/AnalyzerContext';
+import { labelComponents } from './chartOcr';
+import { createCandlePixelClassifier } from './paletteDetection';
+
+type Bounds = { x1: number; y1: number; x2: number; y2: number };
+
+export interface ChartTypeDetection {
+  type: ChartType;
+  confidence: number;
+  mask: Uint8Array; // Pixels com a cor das séries (1 = alta, 2 = baixa)
+  bars: Bounds[];
+  lines: Bounds[];
+}
+
+// Tipos cujos valores OHLC são reais (Heikin-Ashi é sintético, linha só tem fechamento)
+export const hasRealOhlc = (chartType?: ChartType): boolean =>
+  !chartType || chartType === 'candles' || chartType === 'ohlc_bars';
+
+// Máscara de pixels da série: 1 para cor de alta, 2 para cor de baixa
+const buildSeriesMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: CandlePalette | null | undefined,
+  background: number,
+  excludeColumns?: { x: number; width: number },
+  excludeRows?: { y: number; height: number }
+): Uint8Array => {
+  const classify = createCandlePixelClassifier(palette);
+  const mask = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    if (excludeRows && y >= excludeRows.y && y < excludeRows.y + excludeRows.height) continue;
+    for (let x = 0; x < width; x++) {
+      if (excludeColumns && x >= excludeColumns.x && x < excludeColumns.x + excludeColumns.width) continue;
+      const i = (y * width + x) * 4;
+      const pixelClass = classify(data[i], data[i + 1], data[i + 2]);
+      if (!pixelClass) {
+        // Sem paleta (gráficos de linha não têm candles para aprender cores): qualquer cor saturada
+        const saturation = Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+        if (!palette && saturation > 80) mask[y * width + x] = 1;
+        continue;
+      }
+      // Preto/branco só contam quando não são o próprio fundo
+      if (pixelClass === 'branco' && background > 200) continue;
+      if (pixelClass === 'preto' && background < 60) continue;
+      mask[y * width + x] = pixelClass === 'verde' || pixelClass === 'branco' ? 1 : 2;
+    }
+  }
+
+  return mask;
+};
+
+// Largura ocupada pela máscara em cada linha de um retângulo
+const rowSpans = (mask: Uint8Array, width: number, b: Bounds): { first: number; last: number }[] => {
+  const spans: { first: number; last: number }[] = [];
+  for (let y = b.y1; y <= b.y2; y++) {
+    let first = -1, last = -1;
+    for (let x = b.x1; x <= b.x2; x++) {
+      if (mask[y * width + x]) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    spans.push({ first, last });
+  }
+  return spans;
+};
+
+// Coluna com mais pixels da máscara (a haste de uma barra OHLC)
+const findStem = (mask: Uint8Array, width: number, b: Bounds): number => {
+  let stem = b.x1;
+  let best = -1;
+  for (let x = b.x1; x <= b.x2; x++) {
+    let count = 0;
+    for (let y = b.y1; y <= b.y2; y++) {
+      if (mask[y * width + x]) count++;
+    }
+    if (count > best) {
+      best = count;
+      stem = x;
+    }
+  }
+  return stem;
+};
+
+// Uma barra OHLC é uma haste fina com marcas laterais (abertura à esquerda, fechamento à direita)
+const isBarLike = (mask: Uint8Array, width: number, b: Bounds): boolean => {
+  const h = b.y2 - b.y1 + 1;
+  if (h < 4) return false;
+
+  const spans = rowSpans(mask, width, b).filter(span => span.first >= 0);
+  const widths = spans.map(span => span.last - span.first + 1).sort((a, c) => a - c);
+  const stemWidth = widths[Math.floor(widths.length / 2)] || 0;
+  if (stemWidth === 0 || stemWidth > 3) return false;
+
+  // Num candle de corpo pequeno, as linhas largas se estendem para os dois lados ao mesmo tempo;
+  // numa barra, as marcas de abertura e fechamento ficam em linhas diferentes
+  const stem = findStem(mask, width, b);
+  let oneSided = 0, bothSides = 0;
+  for (const span of spans) {
+    const left = span.first < stem - stemWidth;
+    const right = span.last > stem + stemWidth;
+    if (left && right) bothSides++;
+    else if (left || right) oneSided++;
+  }
+  return oneSided > 0 && oneSided >= bothSides;
+};
+
+// Classificar o tipo de gráfico pela forma dos componentes da série
+export const classifyChartType = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: {
+    palette?: CandlePalette | null;
+    background?: number;
+    excludeColumns?: { x: number; width: number };
+    excludeRows?: { y: number; height: number };
+  } = {}
+): ChartTypeDetection => {
+  const mask = buildSeriesMask(
+    data, width, height, options.palette, options.background ?? 255,
+    options.excludeColumns, options.excludeRows
+  );
+
+  const binary = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) binary[i] = mask[i] ? 1 : 0;
+
+  const bars: Bounds[] = [];
+  const lines: Bounds[] = [];
+  let candleLike = 0;
+
+  for (const component of labelComponents(binary, width, height)) {
+    const w = component.x2 - component.x1 + 1;
+    const h = component.y2 - component.y1 + 1;
+    if (component.area < 5) continue;
+
+    // Série contínua atravessando boa parte do gráfico
+    if (w > width * 0.25 && component.area < w * h * 0.5) {
+      lines.push(component);
+      continue;
+    }
+    if (w > width * 0.06 || h < 3) continue;
+
+    if (isBarLike(mask, width, component)) {
+      bars.push(component);
+    } else if (h >= w * 0.8) {
+      candleLike++;
+    }
+  }
+
+  const totalSeries = bars.length + candleLike;
+  let type: ChartType = 'candles';
+  let confidence = 0.5;
+
+  if (lines.length > 0 && totalSeries < 5) {
+    type = 'line';
+    confidence = totalSeries === 0 ? 0.8 : 0.6;
+  } else if (bars.length > candleLike) {
+    type = 'ohlc_bars';
+    confidence = bars.length / Math.max(1, totalSeries);
+  } else if (candleLike > 0) {
+    confidence = candleLike / Math.max(1, totalSeries);
+  }
+
+  console.log(`Tipo de gráfico: ${type} (barras: ${bars.length}, candles: ${candleLike}, linhas: ${lines.length})`);
+
+  return { type, confidence: parseFloat(confidence.toFixed(2)), mask, bars, lines };
+};
+
+// Extrair barras OHLC: haste = máxima/mínima, marca esquerda = abertura, marca direita = fechamento
+export const extractOhlcBars = (detection: ChartTypeDetection, width: number): CandleData[] => {
+  const { mask } = detection;
+  const candles: CandleData[] = [];
+
+  for (const bar of detection.bars) {
+    const stem = findStem(mask, width, bar);
+    const spans = rowSpans(mask, width, bar);
+
+    let openSum = 0, openCount = 0, closeSum = 0, closeCount = 0;
+    let leftmost = stem, rightmost = stem;
+    let bullishPixels = 0, bearishPixels = 0;
+
+    spans.forEach((span, row) => {
+      if (span.first < 0) return;
+      const y = bar.y1 + row;
+      if (span.first < stem - 1) {
+        openSum += y;
+        openCount++;
+        leftmost = Math.min(leftmost, span.first);
+      }
+      if (span.last > stem + 1) {
+        closeSum += y;
+        closeCount++;
+        rightmost = Math.max(rightmost, span.last);
+      }
+      for (let x = span.first; x <= span.last; x++) {
+        const value = mask[y * width + x];
+        if (value === 1) bullishPixels++;
+        else if (value === 2) bearishPixels++;
+      }
+    });
+
+    // Sem uma das marcas, usar a cor da barra para decidir o lado do corpo
+    const openY = openCount > 0 ? openSum / openCount : (bullishPixels >= bearishPixels ? bar.y2 : bar.y1);
+    const closeY = closeCount > 0 ? closeSum / closeCount : (bullishPixels >= bearishPixels ? bar.y1 : bar.y2);
+    const bodyTop = Math.min(openY, closeY);
+    const bodyBottom = Math.max(openY, closeY);
+
+    candles.push({
+      open: 0,
+      high: 0,
+      low: 0,
+      close: 0,
+      timestamp: 0,
+      color: closeY <= openY ? 'verde' : 'vermelho',
+      position: { x: stem, y: (bodyTop + bodyBottom) / 2 },
+      width: rightmost - leftmost + 1,
+      height: bodyBottom - bodyTop,
+      wickTop: bar.y1,
+      wickBottom: bar.y2,
+      extractionConfidence: openCount > 0 && closeCount > 0 ? 0.9 : 0.6
+    });
+  }
+
+  return candles;
+};
+
+// Extrair uma série só de fechamentos do traçado de um gráfico de linha/área
+export const extractLineSeries = (detection: ChartTypeDetection, width: number): CandleData[] => {
+  if (detection.lines.length === 0) return [];
+
+  // Traçado principal: a linha mais larga
+  const line = detection.lines.reduce((best, current) =>
+    current.x2 - current.x1 > best.x2 - best.x1 ? current : best
+  );
+  const { mask } = detection;
+  const step = Math.max(3, Math.round((line.x2 - line.x1 + 1) / 120));
+  const candles: CandleData[] = [];
+  let previousY: number | null = null;
+
+  for (let x = line.x1; x <= line.x2; x += step) {
+    // Em gráficos de área o preenchimento fica abaixo: usar o primeiro trecho contínuo a partir do topo
+    let top = -1, bottom = -1;
+    for (let y = line.y1; y <= line.y2; y++) {
+      if (mask[y * width + x]) {
+        if (top < 0) top = y;
+        bottom = y;
+      } else if (top >= 0) {
+        break;
+      }
+    }
+    if (top < 0) continue;
+
+    const y = (top + Math.min(bottom, top + 4)) / 2;
+    candles.push({
+      open: 0,
+      high: 0,
+      low: 0,
+      close: 0,
+      timestamp: 0,
+      color: previousY === null || y <= previousY ? 'verde' : 'vermelho',
+      position: { x, y },
+      width: 1,
+      height: 0,
+      wickTop: y,
+      wickBottom: y,
+      extractionConfidence: 0.7
+    });
+    previousY = y;
+  }
+
+  return candles;
+};
+
+// Heikin-Ashi: cada corpo abre no ponto médio do corpo anterior
+export const looksLikeHeikinAshi = (candles: CandleData[]): boolean => {
+  const sorted = [...candles]
+    .filter(candle => candle.position && candle.height !== undefined)
+    .sort((a, b) => a.position!.x - b.position!.x);
+  if (sorted.length < 8) return false;
+
+  let checked = 0;
+  let matches = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    if (previous.height! < 4) continue;
+
+    const previousMid = previous.position!.y;
+    const openY = current.color === 'verde'
+      ? current.position!.y + current.height! / 2
+      : current.position!.y - current.height! / 2;
+
+    checked++;
+    if (Math.abs(openY - previousMid) <= Math.max(2, previous.height! * 0.15)) {
+      matches++;
+    }
+  }
+
+  return checked >= 6 && matches / checked >= 0.6;
+};
@@ -1,5 +1,5 @@
 
-import { CandleData } from "../context/AnalyzerContext";
+import { CandleData, TechnicalElement } from "../context/AnalyzerContext";
 import { DetectedPattern } from "./types";
 import { analyzeCandleContext } from "./candleAnalysis";
 
@@ -10,6 +10,7 @@ export interface SupportResistanceLevel {
   confidence: number;
   touchCount: number;
   lastTouch: number;
+  source?: 'swing' | 'user'; // Pivôs dos candles ou linha/zona desenhada pelo usuário
 }
 
 export interface MarketStructureAnalysis {
@@ -37,7 +38,11 @@ export interface PriceActionAnalysis {
   } | null;
 }
 
-export const performConfluenceAnalysis = (candles: CandleData[], patterns: DetectedPattern[]) => {
+export const performConfluenceAnalysis = (
+  candles: CandleData[],
+  patterns: DetectedPattern[],
+  drawings: TechnicalElement[] = [] // Linhas e zonas desenhadas pelo usuário, com preços
+) => {
   if (candles.length < 10) {
     return {
       confluenceScore: 0,
@@ -47,8 +52,12 @@ export const performConfluenceAnalysis = (candles: CandleData[], patterns: Detec
     };
   }
 
-  // Análise de Suporte e Resistência
-  const supportResistance = identifySupportResistanceLevels(candles);
+  // Análise de Suporte e Resistência (níveis do usuário têm prioridade sobre os pivôs)
+  const supportResistance = mergeUserLevels(
+    identifySupportResistanceLevels(candles),
+    identifyUserLevels(candles, drawings),
+    levelTolerance(candles)
+  );
   
   // Análise de Estrutura de Mercado
   const marketStructure = analyzeMarketStructure(candles);
@@ -141,7 +150,8 @@ const identifySupportResistanceLevels = (candles: CandleData[]): SupportResistan
         strength,
         confidence,
         touchCount,
-        lastTouch
+        lastTouch,
+        source: 'swing'
       });
     }
   });
@@ -149,6 +159,76 @@ const identifySupportResistanceLevels = (candles: CandleData[]): SupportResistan
   return levels.sort((a, b) => b.confidence - a.confidence);
 };
 
+// Distância de preço em que um candle ainda "toca" um nível: 30% do range médio
+const levelTolerance = (candles: CandleData[]): number =>
+  (candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length) * 0.3;
+
+// Preço de um desenho na posição x: linhas de tendência são projetadas, horizontais e zonas são fixas
+const drawingPricesAt = (drawing: TechnicalElement, x: number): number[] => {
+  const prices = drawing.prices || [];
+  if (drawing.type === 'rectangle') return prices;
+  if (drawing.type !== 'line' || prices.length < 2) return prices.slice(0, 1);
+
+  const [start, end] = drawing.points;
+  if (end.x === start.x) return [prices[0]];
+  return [prices[0] + ((prices[1] - prices[0]) * (x - start.x)) / (end.x - start.x)];
+};
+
+// Níveis de suporte/resistência a partir das linhas e zonas desenhadas pelo usuário
+const identifyUserLevels = (candles: CandleData[], drawings: TechnicalElement[]): SupportResistanceLevel[] => {
+  const last = candles[candles.length - 1];
+  const tolerance = levelTolerance(candles);
+  const levels: SupportResistanceLevel[] = [];
+
+  drawings.filter(drawing => drawing.userDrawn && drawing.prices?.length).forEach(drawing => {
+    // Sem posição dos candles não há como projetar a linha de tendência: usa o fim do desenho
+    const lastX = last.position?.x ?? (drawing.type === 'line' ? drawing.points[drawing.points.length - 1].x : 0);
+    drawingPricesAt(drawing, lastX).forEach((price, k) => {
+      let touchCount = 0;
+      let lastTouch = -1;
+      candles.forEach((candle, index) => {
+        const levelPrice = candle.position ? drawingPricesAt(drawing, candle.position.x)[k] : price;
+        if (candle.low - tolerance <= levelPrice && candle.high + tolerance >= levelPrice) {
+          touchCount++;
+          lastTouch = index;
+        }
+      });
+
+      levels.push({
+        type: price <= last.close ? 'support' : 'resistance',
+        price,
+        strength: touchCount >= 3 ? 'forte' : 'moderada',
+        confidence: Math.min(95, 60 + touchCount * 8),
+        touchCount,
+        lastTouch: Math.max(0, lastTouch),
+        source: 'user'
+      });
+    });
+  });
+
+  return levels;
+};
+
+// Pivôs que coincidem com um nível do usuário reforçam esse nível em vez de aparecerem duplicados
+const mergeUserLevels = (
+  swingLevels: SupportResistanceLevel[],
+  userLevels: SupportResistanceLevel[],
+  tolerance: number
+): SupportResistanceLevel[] => {
+  if (userLevels.length === 0) return swingLevels;
+
+  const remaining = swingLevels.filter(swing => {
+    const match = userLevels.find(user => Math.abs(user.price - swing.price) <= tolerance);
+    if (!match) return true;
+    match.touchCount += swing.touchCount;
+    match.confidence = Math.min(95, match.confidence + 10);
+    match.strength = 'forte';
+    return false;
+  });
+
+  return [...userLevels, ...remaining].sort((a, b) => b.confidence - a.confidence);
+};
+
 const analyzeMarketStructure = (candles: CandleData[]): MarketStructureAnalysis => {
   const swingPoints = findSwingPoints(candles);
   
@@ -179,7 +259,8 @@ const analyzeMarketStructure = (candles: CandleData[]): MarketStructureAnalysis
   };
 };
 
-const findSwingPoints = (candles: CandleData[]) => {
+// Topos e fundos com duas barras mais baixas (ou mais altas) de cada lado
+export const findSwingPoints = (candles: CandleData[]) => {
   const swingPoints: Array<{ type: 'high' | 'low'; price: number; index: number }> = [];
   
   for (let i = 2; i < candles.length - 2; i++) {
@@ -1,6 +1,144 @@
+import { CandleData, Divergence, TechnicalElement } from "../context/AnalyzerContext";
+import { findSwingPoints } from "./confluenceAnalysis";
+import { IndicatorSeries, macd, rsi, stochastic } from "./indicators";
 
-import { CandleData } from "../context/AnalyzerContext";
+type SwingPoint = ReturnType<typeof findSwingPoints>[number];
 
-export const detectDivergences = (candles: CandleData[]) => {
-  return [];
+interface OscillatorSpec {
+  name: Divergence['indicator'];
+  values: IndicatorSeries;
+  minChange: number; // Diferença mínima entre as âncoras para não ser ruído
+  fullChange: number; // Diferença que já conta como divergência ampla
+  oversold?: number; // Zonas que reforçam divergências regulares
+  overbought?: number;
+}
+
+// Âncoras muito próximas são o mesmo movimento; muito distantes já não se relacionam
+const MIN_SPAN = 4;
+const MAX_SPAN = 40;
+// Divergência que terminou há poucas barras ainda é acionável
+const RECENT_BARS = 5;
+
+const oscillators = (candles: CandleData[]): OscillatorSpec[] => {
+  const histogram = macd(candles).histogram;
+  const histogramScale = Math.max(0, ...histogram.map(value => Math.abs(value ?? 0)));
+  return [
+    { name: 'RSI', values: rsi(candles), minChange: 1, fullChange: 15, oversold: 35, overbought: 65 },
+    { name: 'MACD', values: histogram, minChange: histogramScale * 0.05, fullChange: histogramScale * 0.5 },
+    { name: 'Estocástico', values: stochastic(candles).k, minChange: 2, fullChange: 25, oversold: 25, overbought: 75 }
+  ];
+};
+
+// Valor do oscilador no pivô: o extremo na barra do pivô e nas vizinhas
+const valueAtSwing = (values: IndicatorSeries, index: number, type: SwingPoint['type']): number | null => {
+  const window = values.slice(Math.max(0, index - 1), index + 2).filter((value): value is number => value !== null);
+  if (window.length === 0) return null;
+  return type === 'low' ? Math.min(...window) : Math.max(...window);
+};
+
+// Entre as âncoras o preço não pode furar a linha que as une (fundo abaixo ou topo acima)
+const lineHolds = (candles: CandleData[], first: SwingPoint, second: SwingPoint): boolean => {
+  const slope = (second.price - first.price) / (second.index - first.index);
+  for (let i = first.index + 1; i < second.index; i++) {
+    const line = first.price + slope * (i - first.index);
+    if (first.type === 'low' ? candles[i].low < line : candles[i].high > line) return false;
+  }
+  return true;
+};
+
+const overlayFor = (candles: CandleData[], divergence: Omit<Divergence, 'overlay'>, type: SwingPoint['type']): TechnicalElement | undefined => {
+  const [a, b] = divergence.anchors.map(index => candles[index]);
+  if (!a.position || !b.position) return undefined;
+  const yOf = (candle: CandleData) => (type === 'low' ? candle.wickBottom : candle.wickTop) ?? candle.position!.y;
+  return {
+    type: 'line',
+    points: [{ x: a.position.x, y: yOf(a) }, { x: b.position.x, y: yOf(b) }],
+    prices: [...divergence.prices],
+    color: divergence.direction === 'alta' ? '#22c55e' : '#ef4444',
+    thickness: 2,
+    dashArray: divergence.kind === 'hidden' ? [4, 3] : undefined,
+    label: `Div. ${divergence.kind === 'regular' ? 'regular' : 'oculta'} ${divergence.indicator}`
+  };
+};
+
+// Comparar dois pivôs do mesmo tipo com o oscilador nas mesmas barras
+const compareSwings = (
+  candles: CandleData[],
+  first: SwingPoint,
+  second: SwingPoint,
+  oscillator: OscillatorSpec,
+  averageRange: number
+): Divergence | null => {
+  const v1 = valueAtSwing(oscillator.values, first.index, first.type);
+  const v2 = valueAtSwing(oscillator.values, second.index, second.type);
+  if (v1 === null || v2 === null) return null;
+
+  const priceChange = second.price - first.price;
+  const indicatorChange = v2 - v1;
+  if (priceChange === 0 || Math.abs(indicatorChange) < oscillator.minChange || oscillator.fullChange <= 0) return null;
+
+  // Fundos: regular = preço faz fundo mais baixo e oscilador mais alto; oculta = o contrário (topos espelhados)
+  const priceUp = priceChange > 0;
+  const indicatorUp = indicatorChange > 0;
+  if (priceUp === indicatorUp) return null;
+  const kind: Divergence['kind'] = first.type === 'low' ? (priceUp ? 'hidden' : 'regular') : (priceUp ? 'regular' : 'hidden');
+  const direction: Divergence['direction'] = first.type === 'low' ? 'alta' : 'baixa';
+
+  // Amplitude das duas pernas, zona do oscilador e proximidade da última barra
+  const amplitude = 0.5 * Math.min(1, Math.abs(priceChange) / averageRange / 2) +
+    0.5 * Math.min(1, Math.abs(indicatorChange) / oscillator.fullChange);
+  const inZone = kind === 'regular' && (direction === 'alta'
+    ? oscillator.oversold !== undefined && Math.min(v1, v2) <= oscillator.oversold
+    : oscillator.overbought !== undefined && Math.max(v1, v2) >= oscillator.overbought);
+  const age = candles.length - 1 - second.index;
+  const confidence = Math.min(0.92, Math.max(0.3,
+    0.45 + 0.35 * amplitude + (inZone ? 0.1 : 0) + (age <= RECENT_BARS ? 0.05 : age > 20 ? -0.1 : 0)
+  ));
+  const strength: Divergence['strength'] = confidence >= 0.75 ? 'forte' : confidence >= 0.6 ? 'moderada' : 'fraca';
+
+  const pivot = first.type === 'low' ? 'fundo' : 'topo';
+  const priceMove = priceUp ? `${pivot} mais alto` : `${pivot} mais baixo`;
+  const indicatorMove = indicatorUp ? `${pivot} mais alto` : `${pivot} mais baixo`;
+  const divergence: Omit<Divergence, 'overlay'> = {
+    kind,
+    direction,
+    indicator: oscillator.name,
+    anchors: [first.index, second.index],
+    anchorCandles: [candles[first.index], candles[second.index]],
+    prices: [first.price, second.price],
+    indicatorValues: [v1, v2],
+    strength,
+    confidence,
+    description: `Divergência ${kind === 'regular' ? 'regular' : 'oculta'} de ${direction} no ${oscillator.name}: ` +
+      `preço com ${priceMove}, ${oscillator.name} com ${indicatorMove}` +
+      (kind === 'regular' ? ' (possível reversão)' : ' (continuação da tendência)')
+  };
+  return { ...divergence, overlay: overlayFor(candles, divergence, first.type) };
+};
+
+export const detectDivergences = (candles: CandleData[]): Divergence[] => {
+  if (candles.length < 20) return [];
+
+  const swings = findSwingPoints(candles);
+  const averageRange = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length || 1;
+  const specs = oscillators(candles);
+  const divergences: Divergence[] = [];
+
+  for (const type of ['low', 'high'] as const) {
+    const points = swings.filter(point => point.type === type);
+    // Pivôs consecutivos do mesmo tipo
+    for (let k = 1; k < points.length; k++) {
+      const [first, second] = [points[k - 1], points[k]];
+      const span = second.index - first.index;
+      if (span < MIN_SPAN || span > MAX_SPAN || !lineHolds(candles, first, second)) continue;
+
+      for (const oscillator of specs) {
+        const divergence = compareSwings(candles, first, second, oscillator, averageRange);
+        if (divergence) divergences.push(divergence);
+      }
+    }
+  }
+
+  // Mais recentes primeiro; na mesma âncora, a mais confiável
+  return divergences.sort((a, b) => b.anchors[1] - a.anchors[1] || b.confidence - a.confidence);
 };
@@ -0,0 +1,478 @@
+/**
+ * Leitura dos desenhos feitos pelo usuário na própria plataforma (linhas
+ * horizontais, linhas de tendência e retângulos/zonas): separa os traços
+ * coloridos que não são candles, grade nem texto, extrai retas por Hough e
+ * converte tudo em elementos técnicos com preço pela calibração do eixo.
+ */
+
+import { CandlePalette, CurrentPriceLabel, PriceCalibration, TechnicalElement } from '@/context/AnalyzerContext';
+import { TextBox } from './chartOcr';
+import { hueSaturation, isBlendWithBackground } from './paletteDetection';
+import { priceAtY } from './priceAxisCalibration';
+
+type RGB = [number, number, number];
+type Bounds = { x: number; y: number; width: number; height: number };
+
+// Traços: cor saturada e bem distante do fundo (a grade é acinzentada e de baixo contraste)
+const STROKE_BACKGROUND_DISTANCE = 60;
+const STROKE_CHROMA = 50;
+// Preenchimento translúcido de zonas: contraste baixo, mas ainda colorido
+const FILL_BACKGROUND_DISTANCE = 12;
+const FILL_CHROMA = 20;
+const MIN_LINE_LENGTH = 30;
+const LINE_INLIER_DISTANCE = 1.5;
+const MAX_LINES_PER_COMPONENT = 4;
+// Fração dos pixels do traço que as retas precisam explicar (curvas de indicadores ficam de fora)
+const MIN_EXPLAINED_FRACTION = 0.85;
+const MIN_ZONE_SIZE = 12;
+// Matiz próximo ao de um candle: desfoque e reamostragem mudam a cor, mas não o matiz
+const CANDLE_HUE_TOLERANCE = 15;
+
+export interface DrawingDetectionOptions {
+  palette?: CandlePalette | null;
+  priceCalibration?: PriceCalibration | null;
+  textBoxes?: TextBox[];
+  excludeColumns?: { x: number; width: number };
+  excludeRows?: { y: number; height: number };
+  excludeAreas?: Bounds[]; // Etiquetas de preço e outras áreas já identificadas
+  currentPriceLabel?: CurrentPriceLabel | null;
+}
+
+type Line = { x1: number; y1: number; x2: number; y2: number; thickness: number; color: RGB; horizontal: boolean; support: number };
+type Zone = { x1: number; y1: number; x2: number; y2: number; border: RGB | null; fill: RGB | null };
+
+const colorDistance = (a: RGB, b: RGB): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+const chroma = (c: RGB): number => Math.max(c[0], c[1], c[2]) - Math.min(c[0], c[1], c[2]);
+
+const toHex = (c: RGB): string => '#' + c.map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const medianColor = (colors: RGB[]): RGB => [0, 1, 2].map(k => {
+  const values = colors.map(color => color[k]).sort((a, b) => a - b);
+  return values[Math.floor(values.length / 2)];
+}) as RGB;
+
+// Cor de fundo dominante (moda do histograma quantizado)
+const estimateBackground = (data: Uint8ClampedArray, width: number, height: number): RGB => {
+  const counts = new Map<number, { count: number; sum: RGB }>();
+  const step = Math.max(1, Math.floor((width * height) / 100000));
+  for (let p = 0; p < width * height; p += step) {
+    const i = p * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const entry = counts.get(key) || { count: 0, sum: [0, 0, 0] as RGB };
+    entry.count++;
+    entry.sum[0] += data[i];
+    entry.sum[1] += data[i + 1];
+    entry.sum[2] += data[i + 2];
+    counts.set(key, entry);
+  }
+  let best = { count: 0, sum: [0, 0, 0] as RGB };
+  counts.forEach(entry => {
+    if (entry.count > best.count) best = entry;
+  });
+  return best.sum.map(value => value / Math.max(1, best.count)) as RGB;
+};
+
+// Rotular componentes 8-conectados, devolvendo o rótulo de cada pixel
+const labelMask = (mask: Uint8Array, width: number, height: number): { labels: Int32Array; count: number } => {
+  const labels = new Int32Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let count = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const id = ++count;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = id;
+    while (top > 0) {
+      const idx = stack[--top];
+      const cx = idx % width;
+      const cy = (idx - cx) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = cy + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          if (nx < 0 || nx >= width) continue;
+          const nidx = ny * width + nx;
+          if (mask[nidx] && !labels[nidx]) {
+            labels[nidx] = id;
+            stack[top++] = nidx;
+          }
+        }
+      }
+    }
+  }
+  return { labels, count };
+};
+
+// Extrair retas de um conjunto de pixels (transformada de Hough, uma reta por vez)
+const extractLines = (xs: number[], ys: number[]): { inliers: number[]; direction: [number, number]; center: [number, number] }[] => {
+  const remaining = new Set(xs.map((_, i) => i));
+  const thetas = Array.from({ length: 180 }, (_, k) => (k * Math.PI) / 180);
+  const cos = thetas.map(Math.cos);
+  const sin = thetas.map(Math.sin);
+  const maxRho = Math.ceil(Math.sqrt(Math.max(...xs) ** 2 + Math.max(...ys) ** 2)) + 1;
+  const found: { inliers: number[]; direction: [number, number]; center: [number, number] }[] = [];
+
+  while (found.length < MAX_LINES_PER_COMPONENT && remaining.size >= MIN_LINE_LENGTH) {
+    const votes = new Int32Array(180 * (2 * maxRho + 1));
+    remaining.forEach(i => {
+      for (let k = 0; k < 180; k++) {
+        votes[k * (2 * maxRho + 1) + Math.round(xs[i] * cos[k] + ys[i] * sin[k]) + maxRho]++;
+      }
+    });
+    let peak = 0;
+    for (let v = 1; v < votes.length; v++) if (votes[v] > votes[peak]) peak = v;
+    if (votes[peak] < MIN_LINE_LENGTH) break;
+
+    const k = Math.floor(peak / (2 * maxRho + 1));
+    const rho = (peak % (2 * maxRho + 1)) - maxRho;
+    const inliers = Array.from(remaining).filter(i => Math.abs(xs[i] * cos[k] + ys[i] * sin[k] - rho) <= LINE_INLIER_DISTANCE);
+
+    // Refinar a direção pelos inliers (componente principal)
+    const cx = inliers.reduce((sum, i) => sum + xs[i], 0) / inliers.length;
+    const cy = inliers.reduce((sum, i) => sum + ys[i], 0) / inliers.length;
+    let sxx = 0, syy = 0, sxy = 0;
+    for (const i of inliers) {
+      sxx += (xs[i] - cx) ** 2;
+      syy += (ys[i] - cy) ** 2;
+      sxy += (xs[i] - cx) * (ys[i] - cy);
+    }
+    const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    let direction: [number, number] = [Math.cos(angle), Math.sin(angle)];
+    if (direction[0] < 0) direction = [-direction[0], -direction[1]];
+
+    // Traço grosso ou desfocado: recolher a faixa inteira em torno da reta refinada
+    const band = Array.from(remaining).filter(i =>
+      Math.abs((xs[i] - cx) * direction[1] - (ys[i] - cy) * direction[0]) <= LINE_INLIER_DISTANCE * 2
+    );
+    const members = band.length > inliers.length ? band : inliers;
+    members.forEach(i => remaining.delete(i));
+    found.push({ inliers: members, direction, center: [cx, cy] });
+  }
+
+  return found;
+};
+
+// Distância de um ponto à reta que passa por uma linha
+const distanceToLine = (line: Line, x: number, y: number): number => {
+  const dx = line.x2 - line.x1, dy = line.y2 - line.y1;
+  return Math.abs(dy * (x - line.x1) - dx * (y - line.y1)) / Math.max(1e-9, Math.hypot(dx, dy));
+};
+
+// Juntar pedaços da mesma linha: candles por cima cortam o traço e o desfoque o duplica
+const mergeCollinearLines = (lines: Line[]): Line[] => {
+  const merged = [...lines].sort((a, b) => b.support - a.support);
+  for (let i = 0; i < merged.length; i++) {
+    for (let j = merged.length - 1; j > i; j--) {
+      const main = merged[i], piece = merged[j];
+      if (main.horizontal !== piece.horizontal || colorDistance(main.color, piece.color) > 80) continue;
+      const angle = Math.abs(
+        Math.atan2(main.y2 - main.y1, main.x2 - main.x1) - Math.atan2(piece.y2 - piece.y1, piece.x2 - piece.x1)
+      );
+      if (angle > (3 * Math.PI) / 180) continue;
+      if (distanceToLine(main, piece.x1, piece.y1) > 3 || distanceToLine(main, piece.x2, piece.y2) > 3) continue;
+
+      // A linha com mais pixels define a posição; o pedaço só estende as pontas
+      const slope = (main.y2 - main.y1) / Math.max(1e-9, main.x2 - main.x1);
+      const x1 = Math.min(main.x1, piece.x1), x2 = Math.max(main.x2, piece.x2);
+      merged[i] = {
+        ...main,
+        x1,
+        y1: main.y1 + slope * (x1 - main.x1),
+        x2,
+        y2: main.y1 + slope * (x2 - main.x1),
+        support: main.support + piece.support
+      };
+      merged.splice(j, 1);
+      j = merged.length;
+    }
+  }
+  return merged;
+};
+
+// Traço com pixels concentrados nas quatro bordas da sua caixa: retângulo só com contorno
+const asOutlineRectangle = (xs: number[], ys: number[]): { x1: number; y1: number; x2: number; y2: number } | null => {
+  const x1 = Math.min(...xs), x2 = Math.max(...xs);
+  const y1 = Math.min(...ys), y2 = Math.max(...ys);
+  if (x2 - x1 < MIN_ZONE_SIZE || y2 - y1 < MIN_ZONE_SIZE) return null;
+
+  const near = (value: number, edge: number) => Math.abs(value - edge) <= 2;
+  const top = new Set<number>(), bottom = new Set<number>(), left = new Set<number>(), right = new Set<number>();
+  let onEdges = 0;
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    let edge = false;
+    if (near(y, y1)) { top.add(x); edge = true; }
+    if (near(y, y2)) { bottom.add(x); edge = true; }
+    if (near(x, x1)) { left.add(y); edge = true; }
+    if (near(x, x2)) { right.add(y); edge = true; }
+    if (edge) onEdges++;
+  });
+
+  const horizontalCoverage = Math.min(top.size, bottom.size) / (x2 - x1 + 1);
+  const verticalCoverage = Math.min(left.size, right.size) / (y2 - y1 + 1);
+  if (horizontalCoverage < 0.7 || verticalCoverage < 0.7 || onEdges < xs.length * 0.85) return null;
+  return { x1, y1, x2, y2 };
+};
+
+// Detectar linhas horizontais, linhas de tendência e retângulos desenhados pelo usuário
+export const detectUserDrawings = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: DrawingDetectionOptions = {}
+): TechnicalElement[] => {
+  const background = options.palette?.background || estimateBackground(data, width, height);
+  const palette = options.palette;
+
+  // Área de plotagem sem eixos, textos e etiquetas
+  const axis = options.excludeColumns;
+  const plot = {
+    x0: axis && axis.x === 0 ? axis.width : 0,
+    x1: axis && axis.x > 0 ? axis.x : width,
+    y0: 0,
+    y1: options.excludeRows ? options.excludeRows.y : height
+  };
+  const excluded = new Uint8Array(width * height);
+  const exclude = ({ x, y, width: w, height: h }: Bounds, pad: number) => {
+    for (let yy = Math.max(0, y - pad); yy < Math.min(height, y + h + pad); yy++) {
+      for (let xx = Math.max(0, x - pad); xx < Math.min(width, x + w + pad); xx++) excluded[yy * width + xx] = 1;
+    }
+  };
+  (options.textBoxes || []).forEach(box => exclude(box, 2));
+  (options.excludeAreas || []).forEach(area => exclude(area, 1));
+
+  // Pixels de candle (e suas misturas com o fundo) nunca são desenho
+  const candleHues = palette
+    ? [palette.bullish, palette.bearish].map(hueSaturation).filter(({ saturation }) => saturation >= 0.2).map(({ hue }) => hue)
+    : [];
+  const isCandleColor = (color: RGB): boolean => {
+    if (!palette) return false;
+    if ([palette.bullish, palette.bearish].some(base => colorDistance(color, base) <= palette.tolerance || isBlendWithBackground(color, base, background))) {
+      return true;
+    }
+    const { hue, saturation } = hueSaturation(color);
+    return saturation >= 0.2 && candleHues.some(candleHue => Math.min(Math.abs(hue - candleHue), 360 - Math.abs(hue - candleHue)) <= CANDLE_HUE_TOLERANCE);
+  };
+
+  const strokeMask = new Uint8Array(width * height);
+  const fillMask = new Uint8Array(width * height);
+  const candleMask = new Uint8Array(width * height);
+  for (let y = plot.y0; y < plot.y1; y++) {
+    for (let x = plot.x0; x < plot.x1; x++) {
+      const p = y * width + x;
+      if (excluded[p]) continue;
+      const i = p * 4;
+      const color: RGB = [data[i], data[i + 1], data[i + 2]];
+      if (isCandleColor(color)) {
+        candleMask[p] = 1;
+        continue;
+      }
+      if (colorDistance(color, background) >= STROKE_BACKGROUND_DISTANCE && chroma(color) >= STROKE_CHROMA) strokeMask[p] = 1;
+    }
+  }
+
+  // Pixels isolados são ruído da captura (ou de um preenchimento), não traço
+  for (let y = plot.y0; y < plot.y1; y++) {
+    for (let x = plot.x0; x < plot.x1; x++) {
+      const p = y * width + x;
+      if (!strokeMask[p]) continue;
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && x + dx >= 0 && x + dx < width && y + dy >= 0 && y + dy < height && strokeMask[p + dy * width + dx]) neighbours++;
+        }
+      }
+      if (neighbours === 0) strokeMask[p] = 2;
+    }
+  }
+  for (let p = 0; p < strokeMask.length; p++) if (strokeMask[p] === 2) strokeMask[p] = 0;
+
+  // Preenchimento avaliado na média 3×3 (o ruído da captura não forma zonas), longe de candles e traços
+  for (let y = plot.y0 + 1; y < plot.y1 - 1; y++) {
+    for (let x = plot.x0 + 1; x < plot.x1 - 1; x++) {
+      const p = y * width + x;
+      if (excluded[p]) continue;
+      const mean: RGB = [0, 0, 0];
+      let touchesForeground = false;
+      for (let dy = -1; dy <= 1 && !touchesForeground; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const q = p + dy * width + dx;
+          if (candleMask[q] || strokeMask[q]) {
+            touchesForeground = true;
+            break;
+          }
+          mean[0] += data[q * 4] / 9;
+          mean[1] += data[q * 4 + 1] / 9;
+          mean[2] += data[q * 4 + 2] / 9;
+        }
+      }
+      if (!touchesForeground && colorDistance(mean, background) >= FILL_BACKGROUND_DISTANCE && chroma(mean) >= FILL_CHROMA) fillMask[p] = 1;
+    }
+  }
+
+  // Traços tracejados: dilatar 2 px para ligar os traços, mas ajustar retas só nos pixels originais
+  const dilated = new Uint8Array(width * height);
+  for (let y = plot.y0; y < plot.y1; y++) {
+    for (let x = plot.x0; x < plot.x1; x++) {
+      if (!strokeMask[y * width + x]) continue;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) dilated[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  const strokes = labelMask(dilated, width, height);
+  const members: number[][] = Array.from({ length: strokes.count + 1 }, () => []);
+  for (let p = 0; p < strokeMask.length; p++) {
+    if (strokeMask[p]) members[strokes.labels[p]].push(p);
+  }
+
+  const lines: Line[] = [];
+  const zones: Zone[] = [];
+  const colorAt = (p: number): RGB => [data[p * 4], data[p * 4 + 1], data[p * 4 + 2]];
+
+  for (const pixels of members) {
+    if (pixels.length < MIN_LINE_LENGTH) continue;
+    const xs = pixels.map(p => p % width);
+    const ys = pixels.map(p => Math.floor(p / width));
+
+    const outline = asOutlineRectangle(xs, ys);
+    if (outline) {
+      zones.push({ ...outline, border: medianColor(pixels.map(colorAt)), fill: null });
+      continue;
+    }
+
+    const found = extractLines(xs, ys);
+    const explained = found.reduce((sum, line) => sum + line.inliers.length, 0);
+    if (found.length === 0 || explained < pixels.length * MIN_EXPLAINED_FRACTION) continue;
+
+    for (const { inliers, direction, center } of found) {
+      // Linhas quase verticais marcam horários, não preços
+      if (Math.abs(direction[0]) < 0.2) continue;
+      const projections = inliers.map(i => (xs[i] - center[0]) * direction[0] + (ys[i] - center[1]) * direction[1]);
+      const tMin = Math.min(...projections);
+      const tMax = Math.max(...projections);
+      const length = tMax - tMin;
+      if (length < MIN_LINE_LENGTH) continue;
+      // Tracejado aceito; pontos esparsos alinhados por acaso, não
+      const covered = new Set(projections.map(Math.round)).size;
+      if (covered < length * 0.4) continue;
+
+      // Horizontal: a reta não sobe nem desce mais que 2 px de ponta a ponta
+      const horizontal = Math.abs(direction[1]) * length <= 2;
+      const thickness = Math.max(1, Math.round(inliers.length / covered));
+      lines.push({
+        x1: center[0] + tMin * direction[0],
+        y1: horizontal ? center[1] : center[1] + tMin * direction[1],
+        x2: center[0] + tMax * direction[0],
+        y2: horizontal ? center[1] : center[1] + tMax * direction[1],
+        thickness,
+        color: medianColor(inliers.map(i => colorAt(pixels[i]))),
+        horizontal,
+        support: inliers.length
+      });
+    }
+  }
+
+  // Zonas preenchidas (com ou sem contorno): áreas retangulares de cor uniforme
+  const fills = labelMask(fillMask, width, height);
+  const fillPixels: number[][] = Array.from({ length: fills.count + 1 }, () => []);
+  for (let p = 0; p < fillMask.length; p++) {
+    if (fillMask[p]) fillPixels[fills.labels[p]].push(p);
+  }
+  for (const pixels of fillPixels) {
+    if (pixels.length < MIN_ZONE_SIZE * MIN_ZONE_SIZE) continue;
+    let x1 = width, y1 = height, x2 = -1, y2 = -1;
+    for (const p of pixels) {
+      const x = p % width, y = Math.floor(p / width);
+      if (x < x1) x1 = x;
+      if (x > x2) x2 = x;
+      if (y < y1) y1 = y;
+      if (y > y2) y2 = y;
+    }
+    if (x2 - x1 < MIN_ZONE_SIZE || y2 - y1 < MIN_ZONE_SIZE) continue;
+    if ((x2 - x1) * (y2 - y1) > (plot.x1 - plot.x0) * (plot.y1 - plot.y0) * 0.8) continue;
+
+    // Candles por cima da zona abrem buracos no preenchimento
+    let covered = 0;
+    for (let y = y1; y <= y2; y++) {
+      for (let x = x1; x <= x2; x++) {
+        const p = y * width + x;
+        if ((fillMask[p] && fills.labels[p] === fills.labels[pixels[0]]) || candleMask[p]) covered++;
+      }
+    }
+    if (covered < (x2 - x1 + 1) * (y2 - y1 + 1) * 0.6) continue;
+
+    const fill = medianColor(pixels.map(colorAt));
+    const uniform = pixels.filter(p => colorDistance(colorAt(p), fill) <= 25).length;
+    if (uniform < pixels.length * 0.6) continue;
+
+    // Mesmo retângulo já encontrado pelo contorno: só acrescenta o preenchimento
+    const outlined = zones.find(zone =>
+      x1 >= zone.x1 - 3 && x2 <= zone.x2 + 3 && y1 >= zone.y1 - 3 && y2 <= zone.y2 + 3 &&
+      (x2 - x1) * (y2 - y1) >= (zone.x2 - zone.x1) * (zone.y2 - zone.y1) * 0.6
+    );
+    if (outlined) {
+      outlined.fill = fill;
+      continue;
+    }
+    // Candle atravessando a zona de cima a baixo a divide em duas partes
+    const neighbour = zones.find(zone =>
+      !zone.border && zone.fill && colorDistance(zone.fill, fill) <= 25 &&
+      Math.abs(zone.y1 - y1) <= 3 && Math.abs(zone.y2 - y2) <= 3 &&
+      Math.max(zone.x1, x1) - Math.min(zone.x2, x2) <= MIN_ZONE_SIZE
+    );
+    if (neighbour) {
+      neighbour.x1 = Math.min(neighbour.x1, x1);
+      neighbour.x2 = Math.max(neighbour.x2, x2);
+    } else {
+      zones.push({ x1, y1, x2, y2, border: null, fill });
+    }
+  }
+
+  // Contornos de zonas não são linhas soltas; a linha do preço atual também não é desenho
+  const label = options.currentPriceLabel;
+  const userLines = mergeCollinearLines(lines).filter(line => {
+    if (label && line.horizontal && Math.abs(line.y1 - label.y) <= 2 && colorDistance(line.color, label.color) < 60) return false;
+    return !zones.some(zone =>
+      line.x1 >= zone.x1 - 3 && line.x2 <= zone.x2 + 3 &&
+      Math.min(line.y1, line.y2) >= zone.y1 - 3 && Math.max(line.y1, line.y2) <= zone.y2 + 3
+    );
+  });
+
+  const calibration = options.priceCalibration;
+  const pricesOf = (...ys: number[]) => (calibration ? { prices: ys.map(y => priceAtY(calibration, y)) } : {});
+
+  const elements: TechnicalElement[] = [
+    ...userLines.map((line): TechnicalElement => ({
+      type: 'line',
+      points: [{ x: line.x1, y: line.y1 }, { x: line.x2, y: line.y2 }],
+      color: toHex(line.color),
+      thickness: line.thickness,
+      label: line.horizontal ? 'Linha horizontal' : 'Linha de tendência',
+      userDrawn: true,
+      ...pricesOf(line.y1, line.y2)
+    })),
+    ...zones.map((zone): TechnicalElement => ({
+      type: 'rectangle',
+      position: { x: (zone.x1 + zone.x2) / 2, y: (zone.y1 + zone.y2) / 2 },
+      width: zone.x2 - zone.x1,
+      height: zone.y2 - zone.y1,
+      color: toHex(zone.border || zone.fill!),
+      backgroundColor: zone.fill ? toHex(zone.fill) : undefined,
+      label: 'Zona',
+      userDrawn: true,
+      ...pricesOf(zone.y1, zone.y2)
+    }))
+  ];
+
+  console.log(`Desenhos do usuário: ${userLines.filter(l => l.horizontal).length} linhas horizontais, ` +
+    `${userLines.filter(l => !l.horizontal).length} linhas de tendência, ${zones.length} zonas`);
+  return elements;
+};
@@ -0,0 +1,238 @@
+/**
+ * Benchmark de precisão da extração: renderiza séries conhecidas em vários
+ * estilos e condições de captura, roda o extrator real e mede o erro de
+ * cada campo contra a série original.
+ */
+
+import { CandleData } from '@/context/AnalyzerContext';
+import { mockCandles } from './mockData';
+import { extractChartDataFromPixels } from './imageProcessing';
+import { SYNTHETIC_CHART_STYLES, SyntheticRenderOptions, createSeededRandom, renderSyntheticChart } from './syntheticChart';
+
+export interface BenchmarkCondition {
+  name: string;
+  options: SyntheticRenderOptions;
+}
+
+export const BENCHMARK_CONDITIONS: BenchmarkCondition[] = [
+  { name: 'limpo', options: {} },
+  { name: 'ruído', options: { noise: 8 } },
+  { name: 'desfoque', options: { blur: 1 } },
+  { name: 'ruído+desfoque', options: { noise: 6, blur: 1 } },
+  { name: 'sobreposições', options: { overlays: true } }
+];
+
+// Erros de preço em % da faixa visível, para comparar séries de escalas diferentes
+export interface BenchmarkCaseResult {
+  style: string;
+  condition: string;
+  expectedCount: number;
+  extractedCount: number;
+  matched: number;
+  colorErrors: number;
+  openError: number;
+  highError: number;
+  lowError: number;
+  closeError: number;
+  timestampError: number; // Erro médio em número de barras
+  calibrationFailed: boolean; // Eixo de preço não lido ou tempo fora da janela do gráfico
+}
+
+// Resumo: contagens somadas e erros pela mediana dos casos (um eixo mal lido não domina o total)
+export interface BenchmarkReport {
+  seed: number;
+  cases: BenchmarkCaseResult[];
+  summary: Omit<BenchmarkCaseResult, 'style' | 'condition' | 'calibrationFailed'> & { failedCases: number; calibrationFailed: number };
+}
+
+const BAR_DURATION_MS = 60000;
+
+// Caso com erro de preço acima disto indica eixo de preço mal lido
+const FAILED_CASE_ERROR = 10;
+// Teto do erro de preço (% da faixa): sem eixo calibrado a escala relativa não se compara à real
+const MAX_PRICE_ERROR = 100;
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Parear candles extraídos com os desenhados pela posição horizontal
+const matchCandles = (truth: CandleData[], extracted: CandleData[], tolerance: number) => {
+  const pairs: { truth: CandleData; extracted: CandleData }[] = [];
+  const used = new Set<CandleData>();
+
+  for (const expected of truth) {
+    let best: CandleData | null = null;
+    let bestDistance = tolerance;
+    for (const candidate of extracted) {
+      if (used.has(candidate) || !candidate.position) continue;
+      const distance = Math.abs(candidate.position.x - expected.position!.x);
+      if (distance <= bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    if (best) {
+      used.add(best);
+      pairs.push({ truth: expected, extracted: best });
+    }
+  }
+
+  return pairs;
+};
+
+// Rodar o benchmark completo: estilos × condições, com séries geradas a partir de `seed`
+export const runExtractionBenchmark = async (
+  options: { seed?: number; candlesPerChart?: number; styles?: string[]; conditions?: BenchmarkCondition[] } = {}
+): Promise<BenchmarkReport> => {
+  const {
+    seed = 42,
+    candlesPerChart = 40,
+    styles = Object.keys(SYNTHETIC_CHART_STYLES),
+    conditions = BENCHMARK_CONDITIONS
+  } = options;
+
+  const random = createSeededRandom(seed);
+  // Última barra às 12:00 de uma data fixa: rótulos e referência de tempo iguais em toda execução
+  const lastBar = new Date(2024, 0, 15, 12, 0).getTime();
+  const cases: BenchmarkCaseResult[] = [];
+
+  for (const styleKey of styles) {
+    const style = SYNTHETIC_CHART_STYLES[styleKey];
+    for (const condition of conditions) {
+      const series = (await mockCandles(candlesPerChart, '1m', random)).map((candle, index) => ({
+        ...candle,
+        timestamp: lastBar - (candlesPerChart - 1 - index) * BAR_DURATION_MS
+      }));
+
+      const chart = renderSyntheticChart(series, style, { ...condition.options, random });
+      // Captura "feita" durante a última barra, para a mesma referência de tempo em toda execução
+      const extraction = extractChartDataFromPixels(
+        chart.data, chart.width, chart.height, '1m', null, null, undefined, lastBar + BAR_DURATION_MS / 2
+      );
+
+      const spacing = chart.candles.length > 1 ? chart.candles[1].position!.x - chart.candles[0].position!.x : chart.width;
+      const pairs = matchCandles(chart.candles, extraction.candles, spacing / 2);
+      const range = chart.priceRange.max - chart.priceRange.min;
+      const priceFailed = extraction.priceCalibration === null;
+      const priceError = (field: 'open' | 'high' | 'low' | 'close') => priceFailed
+        ? MAX_PRICE_ERROR
+        : Math.min(MAX_PRICE_ERROR, mean(pairs.map(pair => (Math.abs(pair.extracted[field] - pair.truth[field]) / range) * 100)));
+      // Horário lido errado a ponto de sair da janela visível conta como calibração falha
+      const timestampError = mean(pairs.map(pair => Math.abs(pair.extracted.timestamp - pair.truth.timestamp) / BAR_DURATION_MS));
+      const timeFailed = timestampError > candlesPerChart;
+
+      cases.push({
+        style: style.name,
+        condition: condition.name,
+        expectedCount: chart.candles.length,
+        extractedCount: extraction.candles.length,
+        matched: pairs.length,
+        colorErrors: pairs.filter(pair => pair.extracted.color !== pair.truth.color).length,
+        openError: priceError('open'),
+        highError: priceError('high'),
+        lowError: priceError('low'),
+        closeError: priceError('close'),
+        timestampError: Math.min(candlesPerChart, timestampError),
+        calibrationFailed: priceFailed || timeFailed
+      });
+    }
+  }
+
+  const summary = {
+    expectedCount: cases.reduce((sum, result) => sum + result.expectedCount, 0),
+    extractedCount: cases.reduce((sum, result) => sum + result.extractedCount, 0),
+    matched: cases.reduce((sum, result) => sum + result.matched, 0),
+    colorErrors: cases.reduce((sum, result) => sum + result.colorErrors, 0),
+    openError: median(cases.map(result => result.openError)),
+    highError: median(cases.map(result => result.highError)),
+    lowError: median(cases.map(result => result.lowError)),
+    closeError: median(cases.map(result => result.closeError)),
+    timestampError: median(cases.map(result => result.timestampError)),
+    failedCases: cases.filter(result =>
+      result.calibrationFailed || Math.max(result.openError, result.highError, result.lowError, result.closeError) > FAILED_CASE_ERROR
+    ).length,
+    calibrationFailed: cases.filter(result => result.calibrationFailed).length
+  };
+
+  return { seed, cases, summary };
+};
+
+// Tabela de texto para o terminal
+export const formatBenchmarkReport = (report: BenchmarkReport): string => {
+  const header = ['estilo', 'condição', 'candles', 'pareados', 'cor', 'abert.%', 'máx.%', 'mín.%', 'fech.%', 'tempo(barras)', 'calibração'];
+  const rows = [
+    ...report.cases.map(result => [
+      result.style,
+      result.condition,
+      `${result.extractedCount}/${result.expectedCount}`,
+      String(result.matched),
+      String(result.colorErrors),
+      result.openError.toFixed(2),
+      result.highError.toFixed(2),
+      result.lowError.toFixed(2),
+      result.closeError.toFixed(2),
+      result.timestampError.toFixed(2),
+      result.calibrationFailed ? 'falhou' : 'ok'
+    ]),
+    [
+      'TOTAL (mediana)',
+      `${report.summary.failedCases} falhas`,
+      `${report.summary.extractedCount}/${report.summary.expectedCount}`,
+      String(report.summary.matched),
+      String(report.summary.colorErrors),
+      report.summary.openError.toFixed(2),
+      report.summary.highError.toFixed(2),
+      report.summary.lowError.toFixed(2),
+      report.summary.closeError.toFixed(2),
+      report.summary.timestampError.toFixed(2),
+      `${report.summary.calibrationFailed} falhas`
+    ]
+  ];
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+  return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)].join('\n');
+};
+
+// Comparar com uma linha de base salva; retorna as métricas que pioraram além da tolerância
+export const compareWithBaseline = (
+  report: BenchmarkReport,
+  baseline: BenchmarkReport,
+  tolerance = { priceError: 0.25, timestampError: 0.25, matchedRatio: 0.02 }
+): string[] => {
+  const regressions: string[] = [];
+  const { summary } = report;
+  const previous = baseline.summary;
+
+  for (const field of ['openError', 'highError', 'lowError', 'closeError'] as const) {
+    if (summary[field] > previous[field] + tolerance.priceError) {
+      regressions.push(`${field}: ${previous[field].toFixed(2)}% → ${summary[field].toFixed(2)}%`);
+    }
+  }
+  if (summary.timestampError > previous.timestampError + tolerance.timestampError) {
+    regressions.push(`timestampError: ${previous.timestampError.toFixed(2)} → ${summary.timestampError.toFixed(2)} barras`);
+  }
+  const ratio = summary.matched / Math.max(1, summary.expectedCount);
+  const previousRatio = previous.matched / Math.max(1, previous.expectedCount);
+  if (ratio < previousRatio - tolerance.matchedRatio) {
+    regressions.push(`candles pareados: ${(previousRatio * 100).toFixed(1)}% → ${(ratio * 100).toFixed(1)}%`);
+  }
+  if (summary.calibrationFailed > previous.calibrationFailed) {
+    regressions.push(`calibrações falhas: ${previous.calibrationFailed} → ${summary.calibrationFailed}`);
+  }
+  if (summary.failedCases > previous.failedCases) {
+    regressions.push(`casos com eixo mal lido: ${previous.failedCases} → ${summary.failedCases}`);
+  }
+  if (summary.colorErrors > previous.colorErrors) {
+    regressions.push(`cores erradas: ${previous.colorErrors} → ${summary.colorErrors}`);
+  }
+
+  return regressions;
+};
@@ -0,0 +1,161 @@
+/**
+ * Retrações e extensões de Fibonacci traçadas automaticamente sobre a perna de
+ * impulso dominante (pivôs alternados), com a confluência de cada nível com os
+ * suportes e resistências detectados. Os níveis alimentam as sugestões de
+ * entrada (retração) e de alvo (extensão).
+ */
+
+import { CandleData, FibonacciAnalysis, FibonacciLevel, TechnicalElement, TimeframeType } from "../context/AnalyzerContext";
+import { alternatingPivots, pixelMapper } from "./chartPivots";
+import { SupportResistanceLevel } from "./confluenceAnalysis";
+
+const RETRACEMENTS = [0.236, 0.382, 0.5, 0.618, 0.786];
+const EXTENSIONS = [1.272, 1.618, 2.618];
+const MIN_IMPULSE_RANGES = 3; // Perna mínima em ranges médios para merecer o traçado
+const MAX_AGE = 60; // Impulsos que terminaram há mais barras não interessam mais
+const STRENGTH_WEIGHT: Record<SupportResistanceLevel['strength'], number> = { forte: 1, moderada: 0.7, fraca: 0.4 };
+
+type Anchor = FibonacciAnalysis['impulse'][number];
+
+export interface FibonacciEntry {
+  action: 'compra' | 'venda';
+  confidence: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  riskReward: number;
+  timeframe: TimeframeType;
+  reasoning: string;
+}
+
+export const formatRatio = (ratio: number): string => `${(ratio * 100).toFixed(1).replace(/\.0$/, '')}%`;
+
+// Pernas entre pivôs consecutivos e a perna em andamento (último pivô até o extremo posterior)
+const impulseLegs = (candles: CandleData[]): [Anchor, Anchor][] => {
+  const pivots = alternatingPivots(candles);
+  const legs: [Anchor, Anchor][] = pivots.slice(1).map((pivot, k) => [
+    { index: pivots[k].index, price: pivots[k].price },
+    { index: pivot.index, price: pivot.price }
+  ]);
+
+  const last = pivots[pivots.length - 1];
+  if (last) {
+    let extreme: Anchor | null = null;
+    for (let i = last.index + 1; i < candles.length; i++) {
+      const price = last.type === 'low' ? candles[i].high : candles[i].low;
+      if (!extreme || (last.type === 'low' ? price > extreme.price : price < extreme.price)) extreme = { index: i, price };
+    }
+    if (extreme) legs.push([{ index: last.index, price: last.price }, extreme]);
+  }
+  return legs;
+};
+
+// Confluência: S/R mais próximo dentro da tolerância, pesado pela força do nível
+const confluenceWith = (price: number, supportResistance: SupportResistanceLevel[], tolerance: number) => {
+  let best: { confluence: number; nearLevel?: number } = { confluence: 0 };
+  supportResistance.forEach(level => {
+    const distance = Math.abs(level.price - price);
+    if (distance > tolerance) return;
+    const confluence = STRENGTH_WEIGHT[level.strength] * (1 - 0.5 * (distance / tolerance));
+    if (confluence > best.confluence) best = { confluence, nearLevel: level.price };
+  });
+  return best;
+};
+
+export const detectFibonacciLevels = (
+  candles: CandleData[],
+  supportResistance: SupportResistanceLevel[] = []
+): FibonacciAnalysis | null => {
+  if (candles.length < 20) return null;
+  const unit = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length;
+  if (!(unit > 0)) return null;
+
+  const lastIndex = candles.length - 1;
+  // Perna dominante: maior amplitude pesada pela proximidade do fim, sem ter sido devolvida por inteiro
+  let impulse: [Anchor, Anchor] | null = null;
+  let bestScore = 0;
+  for (const [start, end] of impulseLegs(candles)) {
+    const amplitude = Math.abs(end.price - start.price);
+    if (amplitude < MIN_IMPULSE_RANGES * unit || end.index < lastIndex - MAX_AGE) continue;
+    const up = end.price > start.price;
+    if (candles.slice(end.index + 1).some(c => (up ? c.close < start.price : c.close > start.price))) continue;
+    const score = amplitude * (0.5 + 0.5 * (end.index / lastIndex));
+    if (score > bestScore) {
+      bestScore = score;
+      impulse = [start, end];
+    }
+  }
+  if (!impulse) return null;
+
+  const [start, end] = impulse;
+  const direction: FibonacciAnalysis['direction'] = end.price > start.price ? 'alta' : 'baixa';
+  const move = end.price - start.price;
+  const tolerance = 0.5 * unit;
+
+  const levels: FibonacciLevel[] = [
+    ...RETRACEMENTS.map(ratio => ({ ratio, kind: 'retração' as const, price: end.price - ratio * move })),
+    ...EXTENSIONS.map(ratio => ({ ratio, kind: 'extensão' as const, price: start.price + ratio * move }))
+  ].map(level => ({ ...level, ...confluenceWith(level.price, supportResistance, tolerance) }));
+
+  const retracement = Math.max(0, (end.price - candles[lastIndex].close) / move);
+
+  const toPixels = pixelMapper(candles);
+  const elements: TechnicalElement[] = toPixels
+    ? [
+        {
+          type: 'line',
+          points: [toPixels(start), toPixels(end)],
+          prices: [start.price, end.price],
+          color: '#9ca3af',
+          thickness: 1,
+          dashArray: [2, 4],
+          label: `Impulso de ${direction}`
+        },
+        ...levels.map((level): TechnicalElement => ({
+          type: 'line',
+          points: [toPixels({ index: end.index, price: level.price }), toPixels({ index: lastIndex, price: level.price })],
+          prices: [level.price, level.price],
+          color: level.kind === 'retração' ? '#f59e0b' : '#8b5cf6',
+          thickness: level.confluence >= 0.5 ? 2 : 1,
+          dashArray: [6, 4],
+          label: `Fib ${formatRatio(level.ratio)} ${level.price.toFixed(4)}${level.nearLevel !== undefined ? ' + S/R' : ''}`
+        }))
+      ]
+    : [];
+
+  console.log(`🌀 Fibonacci: impulso de ${direction} ${start.price.toFixed(4)} → ${end.price.toFixed(4)}, retração atual ${formatRatio(retracement)}, ` +
+    `${levels.filter(level => level.confluence > 0).length} níveis com confluência`);
+  return { direction, impulse: [start, end], levels, retracement, elements };
+};
+
+// Entradas a favor do impulso nas retrações ainda não atingidas, alvo na extensão
+export const fibonacciEntries = (analysis: FibonacciAnalysis | null, timeframe: TimeframeType = '1m'): FibonacciEntry[] => {
+  if (!analysis) return [];
+  const [start, end] = analysis.impulse;
+  const move = end.price - start.price;
+  const sign = move > 0 ? 1 : -1;
+  const action = sign > 0 ? 'compra' : 'venda';
+  const stopLoss = start.price - sign * 0.05 * Math.abs(move);
+  const extensions = analysis.levels.filter(level => level.kind === 'extensão');
+  const target = extensions.find(level => level.ratio === 1.272) ?? extensions[0];
+  const further = extensions.find(level => level.ratio === 1.618);
+
+  return analysis.levels
+    .filter(level => level.kind === 'retração' && level.ratio >= 0.382 && level.ratio >= analysis.retracement)
+    // Zona de ouro (50%-61.8%) primeiro quando a confluência empata
+    .map(level => ({ level, score: level.confluence + (level.ratio === 0.5 || level.ratio === 0.618 ? 0.1 : 0) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 2)
+    .map(({ level }) => ({
+      action,
+      confidence: Math.min(0.85, 0.5 + 0.3 * level.confluence + (level.ratio === 0.5 || level.ratio === 0.618 ? 0.05 : 0)),
+      entryPrice: level.price,
+      stopLoss,
+      takeProfit: target.price,
+      riskReward: Math.abs(target.price - level.price) / Math.abs(level.price - stopLoss),
+      timeframe,
+      reasoning: `Retração de ${formatRatio(level.ratio)} do impulso de ${analysis.direction} (${start.price.toFixed(4)} → ${end.price.toFixed(4)})` +
+        `${level.nearLevel !== undefined ? ` em confluência com S/R em ${level.nearLevel.toFixed(4)}` : ''}; ` +
+        `alvo na extensão de ${formatRatio(target.ratio)}${further ? `, estendido a ${further.price.toFixed(4)} (161.8%)` : ''}, stop além da origem do impulso`
+    }));
+};
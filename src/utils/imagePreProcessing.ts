@@ -2,6 +2,48 @@
  * Enhanced image preprocessing utilities for better chart analysis
  */
 
+import { CleanedPixels, ScreenCleanupReport } from './screenCaptureCleanup';
+
+// Paint pixels processed off the main thread (e.g. by the screen-capture cleanup) back into a JPEG data URL
+export const pixelsToImageUrl = (pixels: CleanedPixels): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível obter contexto 2D do canvas.');
+  }
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+// Enhancement pipeline on raw RGBA pixels (in place), shared by the canvas path and the analysis worker
+export const enhanceChartPixels = (data: Uint8ClampedArray, width: number, height: number): void => {
+  // Apply contrast enhancement
+  const factor = 1.5; // Contrast enhancement factor
+  
+  for (let i = 0; i < data.length; i += 4) {
+    // Convert to grayscale with more weight on green channel (charts often use green/red)
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    
+    // Enhanced contrast
+    data[i] = enhanceChannel(r, factor);
+    data[i + 1] = enhanceChannel(g, factor);
+    data[i + 2] = enhanceChannel(b, factor);
+  }
+  
+  // Apply sharpening filter
+  applySharpening(data, width, height);
+  
+  // Apply adaptive thresholding for better line detection
+  applyAdaptiveThreshold(data, width, height);
+  
+  // Apply pattern-specific enhancements for better entry/exit point detection
+  enhanceEntryExitPoints(data, width, height);
+};
+
 // Apply advanced image enhancement techniques before analysis
 export const enhanceImageForAnalysis = async (imageUrl: string): Promise<string> => {
   return new Promise((resolve) => {
@@ -25,35 +67,9 @@ export const enhanceImageForAnalysis = async (imageUrl: string): Promise<string>
           
           // Get image data for processing
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          // Apply contrast enhancement
-          const factor = 1.5; // Contrast enhancement factor
-          
-          for (let i = 0; i < data.length; i += 4) {
-            // Convert to grayscale with more weight on green channel (charts often use green/red)
-            const r = data[i];
-            const g = data[i + 1];
-            const b = data[i + 2];
-            
-            // Enhanced contrast
-            data[i] = enhanceChannel(r, factor);
-            data[i + 1] = enhanceChannel(g, factor);
-            data[i + 2] = enhanceChannel(b, factor);
-          }
-          
-          // Apply sharpening filter
-          applySharpening(data, canvas.width, canvas.height);
-          
-          // Update canvas with processed data
+          enhanceChartPixels(imageData.data, canvas.width, canvas.height);
           ctx.putImageData(imageData, 0, 0);
           
-          // Apply adaptive thresholding for better line detection
-          applyAdaptiveThreshold(ctx, canvas);
-          
-          // Apply pattern-specific enhancements for better entry/exit point detection
-          enhanceEntryExitPoints(ctx, canvas);
-          
           // Return enhanced image
           resolve(canvas.toDataURL('image/jpeg', 0.95));
         } catch (e) {
@@ -121,16 +137,13 @@ const applySharpening = (data: Uint8ClampedArray, width: number, height: number)
 };
 
 // Apply adaptive thresholding for better chart element detection
-const applyAdaptiveThreshold = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement): void => {
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
+const applyAdaptiveThreshold = (data: Uint8ClampedArray, width: number, height: number): void => {
   const blockSize = 11; // Size of neighborhood
   const c = 2; // Constant subtracted from mean
   
-  for (let y = 0; y < canvas.height; y++) {
-    for (let x = 0; x < canvas.width; x++) {
-      const pixelIndex = (y * canvas.width + x) * 4;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixelIndex = (y * width + x) * 4;
       
       // Calculate local mean
       let sum = 0;
@@ -141,8 +154,8 @@ const applyAdaptiveThreshold = (ctx: CanvasRenderingContext2D, canvas: HTMLCanva
           const ny = y + ky;
           const nx = x + kx;
           
-          if (ny >= 0 && ny < canvas.height && nx >= 0 && nx < canvas.width) {
-            const idx = (ny * canvas.width + nx) * 4;
+          if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
+            const idx = (ny * width + nx) * 4;
             // Use luminance
             sum += 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
             count++;
@@ -167,17 +180,12 @@ const applyAdaptiveThreshold = (ctx: CanvasRenderingContext2D, canvas: HTMLCanva
       }
     }
   }
-  
-  ctx.putImageData(imageData, 0, 0);
 };
 
 // New function to enhance entry and exit points specifically
-const enhanceEntryExitPoints = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement): void => {
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
+const enhanceEntryExitPoints = (data: Uint8ClampedArray, width: number, height: number): void => {
   // Detect horizontal support/resistance lines (potential entry/exit points)
-  const horizontalLines = detectHorizontalLines(data, canvas.width, canvas.height);
+  const horizontalLines = detectHorizontalLines(data, width, height);
   
   // Enhance these areas in the image
   for (const line of horizontalLines) {
@@ -185,8 +193,8 @@ const enhanceEntryExitPoints = (ctx: CanvasRenderingContext2D, canvas: HTMLCanva
     const importance = line.importance;
     
     // Draw subtle highlight on these lines
-    for (let x = 0; x < canvas.width; x++) {
-      const pixelIndex = (y * canvas.width + x) * 4;
+    for (let x = 0; x < width; x++) {
+      const pixelIndex = (y * width + x) * 4;
       
       // Make potential entry/exit points more visible with a subtle enhancement
       // The stronger the line (higher importance), the more we enhance it
@@ -201,8 +209,6 @@ const enhanceEntryExitPoints = (ctx: CanvasRenderingContext2D, canvas: HTMLCanva
       }
     }
   }
-  
-  ctx.putImageData(imageData, 0, 0);
 };
 
 // Detect horizontal support and resistance lines
@@ -258,11 +264,13 @@ const detectHorizontalLines = (data: Uint8ClampedArray, width: number, height: n
   return horizontalLines;
 };
 
-// Detect if the image is clear enough for analysis
-export const isImageClearForAnalysis = (imageUrl: string): Promise<{
+// Detect if the image is clear enough for analysis; `cleanup` is the report of the cleanup already applied to it
+export const isImageClearForAnalysis = (imageUrl: string, cleanup: ScreenCleanupReport | null = null): Promise<{
   isClear: boolean;
   confidence: number;
   issues: string[];
+  recoverable: boolean; // Problems found can be fixed by preprocessing; false means the photo should be retaken
+  corrections: string[];
 }> => {
   return new Promise((resolve) => {
     try {
@@ -282,7 +290,9 @@ export const isImageClearForAnalysis = (imageUrl: string): Promise<{
             resolve({
               isClear: false,
               confidence: 0.3,
-              issues: ['Falha ao criar contexto para análise de clareza da imagem']
+              issues: ['Falha ao criar contexto para análise de clareza da imagem'],
+              recoverable: false,
+              corrections: []
             });
             return;
           }
@@ -336,18 +346,29 @@ export const isImageClearForAnalysis = (imageUrl: string): Promise<{
           if (!hasLowNoise) issues.push('Imagem com ruído');
           if (!isNotBlurry) issues.push('Imagem desfocada');
           if (!hasReadablePriceLevels) issues.push('Níveis de preço não identificáveis');
+          if (cleanup && !cleanup.recoverable) {
+            issues.push(`Reflexo cobrindo ${(cleanup.glareCoverage * 100).toFixed(0)}% do gráfico`);
+            confidence -= 0.3;
+          }
+          
+          // Low resolution, blur and heavy glare cannot be undone by preprocessing
+          const recoverable = hasGoodResolution && isNotBlurry && (cleanup?.recoverable ?? true);
           
           resolve({
             isClear: confidence > 0.7,
             confidence,
-            issues
+            issues,
+            recoverable,
+            corrections: cleanup?.corrections ?? []
           });
         } catch (e) {
           console.error('Error analyzing image clarity:', e);
           resolve({
             isClear: false,
             confidence: 0.3,
-            issues: ['Erro ao analisar clareza da imagem']
+            issues: ['Erro ao analisar clareza da imagem'],
+            recoverable: false,
+            corrections: []
           });
         }
       };
@@ -356,7 +377,9 @@ export const isImageClearForAnalysis = (imageUrl: string): Promise<{
         resolve({
           isClear: false,
           confidence: 0,
-          issues: ['Falha ao carregar imagem para análise de clareza']
+          issues: ['Falha ao carregar imagem para análise de clareza'],
+          recoverable: false,
+          corrections: []
         });
       };
       
@@ -366,7 +389,9 @@ export const isImageClearForAnalysis = (imageUrl: string): Promise<{
       resolve({
         isClear: false,
         confidence: 0,
-        issues: ['Erro ao iniciar análise de clareza da imagem']
+        issues: ['Erro ao iniciar análise de clareza da imagem'],
+        recoverable: false,
+        corrections: []
       });
     }
   });
@@ -2,7 +2,17 @@
  * Image processing utilities for chart analysis
  */
 
-import { SelectedRegion, CandleData, TechnicalElement, Point } from '@/context/AnalyzerContext';
+import { SelectedRegion, CandleData, TechnicalElement, Point, PriceCalibration, TimeCalibration, TimeframeType, CandlePalette, ChartType, CurrentPriceLabel, ChartPanel, PlatformProfile, PlatformProfileMatch } from '@/context/AnalyzerContext';
+import { detectTextBoxes, estimateBackgroundLuminance } from './chartOcr';
+import { calibratePriceAxis, priceAtY } from './priceAxisCalibration';
+import { readTimeAxis, calibrateTimeAxis, assignCandleTimestamps } from './timeAxisCalibration';
+import { createCandlePixelClassifier, learnCandlePalette } from './paletteDetection';
+import { detectVolumePane, assignCandleVolumes, VolumePane } from './volumePaneExtraction';
+import { classifyChartType, extractOhlcBars, extractLineSeries, looksLikeHeikinAshi } from './chartTypeDetection';
+import { removePlotArtifacts } from './plotCleanup';
+import { detectUserDrawings } from './drawingDetection';
+import { cropChartPanel, detectChartPanels } from './chartPanelDetection';
+import { detectPlatformProfile, resolveProfilePalette } from './platformProfiles';
 
 // Process the captured image to enhance chart features
 export const processImage = async (imageUrl: string): Promise<{success: boolean; data: string; error?: string}> => {
@@ -96,6 +106,7 @@ export const processImage = async (imageUrl: string): Promise<{success: boolean;
 export const detectChartRegion = async (imageUrl: string): Promise<{
   success: boolean;
   data: { x: number; y: number; width: number; height: number } | null;
+  panels?: ChartPanel[]; // Todos os painéis quando o print tem vários gráficos
   error?: string;
 }> => {
   console.log('Detectando região do gráfico em:', imageUrl);
@@ -126,6 +137,21 @@ export const detectChartRegion = async (imageUrl: string): Promise<{
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
           const data = imageData.data;
           
+          // Layout com vários gráficos: a região cobre todos os painéis e cada um é devolvido
+          const panels = detectChartPanels(data, canvas.width, canvas.height);
+          if (panels.length > 1) {
+            const x1 = Math.min(...panels.map(panel => panel.bounds.x));
+            const y1 = Math.min(...panels.map(panel => panel.bounds.y));
+            const x2 = Math.max(...panels.map(panel => panel.bounds.x + panel.bounds.width));
+            const y2 = Math.max(...panels.map(panel => panel.bounds.y + panel.bounds.height));
+            resolve({
+              success: true,
+              data: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+              panels
+            });
+            return;
+          }
+          
           // Detectar bordas para encontrar a região do gráfico usando uma versão melhorada do algoritmo
           let left = canvas.width;
           let right = 0;
@@ -180,7 +206,8 @@ export const detectChartRegion = async (imageUrl: string): Promise<{
             
             resolve({
               success: true,
-              data: { x: left, y: top, width, height }
+              data: { x: left, y: top, width, height },
+              panels
             });
           } else {
             console.log('Detecção automática falhou, usando região default');
@@ -362,8 +389,7 @@ export const processRegionForAnalysis = async (
   return processImage(croppedResult.data);
 };
 
-// Verificar se a imagem tem qualidade suficiente para análise
-export const checkImageQuality = async (imageUrl: string): Promise<{
+export interface ImageQualityResult {
   isGoodQuality: boolean;
   message: string;
   details?: {
@@ -371,193 +397,163 @@ export const checkImageQuality = async (imageUrl: string): Promise<{
     contrast: string;
     noise: string;
   }
-}> => {
-  return new Promise((resolve) => {
-    try {
-      const img = new Image();
+}
+
+// Avaliar a qualidade a partir dos pixels (sem DOM, também roda no worker)
+export const assessImageQuality = (data: Uint8ClampedArray, width: number, height: number): ImageQualityResult => {
+  // Verificar resolução
+  const hasGoodResolution = width >= 400 && height >= 300;
+  
+  // Verificar contraste
+  let minLuminance = 255;
+  let maxLuminance = 0;
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    
+    minLuminance = Math.min(minLuminance, luminance);
+    maxLuminance = Math.max(maxLuminance, luminance);
+  }
+  
+  const contrast = maxLuminance - minLuminance;
+  const hasGoodContrast = contrast > 50;
+  
+  // Verificar ruído (simplificado)
+  let noiseEstimate = 0;
+  
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
       
-      img.onload = () => {
-        try {
-          // Verificar resolução
-          const hasGoodResolution = img.width >= 400 && img.height >= 300;
-          
-          // Criar canvas para análise de pixels
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            resolve({
-              isGoodQuality: false,
-              message: 'Não foi possível analisar a qualidade da imagem.'
-            });
-            return;
-          }
-          
-          ctx.drawImage(img, 0, 0);
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          // Verificar contraste
-          let minLuminance = 255;
-          let maxLuminance = 0;
-          let totalLuminance = 0;
-          
-          for (let i = 0; i < data.length; i += 4) {
-            const r = data[i];
-            const g = data[i + 1];
-            const b = data[i + 2];
-            const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-            
-            minLuminance = Math.min(minLuminance, luminance);
-            maxLuminance = Math.max(maxLuminance, luminance);
-            totalLuminance += luminance;
-          }
-          
-          const contrast = maxLuminance - minLuminance;
-          const hasGoodContrast = contrast > 50;
-          
-          // Verificar ruído (simplificado)
-          const avgLuminance = totalLuminance / (data.length / 4);
-          let noiseEstimate = 0;
-          
-          for (let y = 1; y < canvas.height - 1; y++) {
-            for (let x = 1; x < canvas.width - 1; x++) {
-              const i = (y * canvas.width + x) * 4;
-              const r = data[i];
-              const g = data[i + 1];
-              const b = data[i + 2];
-              const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-              
-              // Comparar com pixels vizinhos
-              const iTop = ((y - 1) * canvas.width + x) * 4;
-              const iBottom = ((y + 1) * canvas.width + x) * 4;
-              const iLeft = (y * canvas.width + (x - 1)) * 4;
-              const iRight = (y * canvas.width + (x + 1)) * 4;
-              
-              const luminanceTop = 0.299 * data[iTop] + 0.587 * data[iTop + 1] + 0.114 * data[iTop + 2];
-              const luminanceBottom = 0.299 * data[iBottom] + 0.587 * data[iBottom + 1] + 0.114 * data[iBottom + 2];
-              const luminanceLeft = 0.299 * data[iLeft] + 0.587 * data[iLeft + 1] + 0.114 * data[iLeft + 2];
-              const luminanceRight = 0.299 * data[iRight] + 0.587 * data[iRight + 1] + 0.114 * data[iRight + 2];
-              
-              const diff = Math.abs(luminance - luminanceTop) + 
-                          Math.abs(luminance - luminanceBottom) +
-                          Math.abs(luminance - luminanceLeft) +
-                          Math.abs(luminance - luminanceRight);
-                          
-              noiseEstimate += diff;
-            }
-          }
-          
-          // Normalizar a estimativa de ruído
-          noiseEstimate /= (canvas.width - 2) * (canvas.height - 2);
-          const hasLowNoise = noiseEstimate < 30;
-          
-          // Determinar qualidade global
-          const isGoodQuality = hasGoodResolution && hasGoodContrast && hasLowNoise;
-          
-          // Preparar mensagem
-          let message = isGoodQuality 
-            ? 'Imagem com boa qualidade para análise.'
-            : 'A qualidade da imagem pode afetar a precisão da análise.';
-            
-          if (!hasGoodResolution) {
-            message += ' Resolução baixa.';
-          }
-          
-          if (!hasGoodContrast) {
-            message += ' Contraste insuficiente.';
-          }
-          
-          if (!hasLowNoise) {
-            message += ' Presença de ruído detectada.';
-          }
-          
-          resolve({
-            isGoodQuality,
-            message,
-            details: {
-              resolution: hasGoodResolution ? 'Boa' : 'Baixa',
-              contrast: hasGoodContrast ? 'Adequado' : 'Insuficiente',
-              noise: hasLowNoise ? 'Baixo' : 'Alto'
-            }
-          });
-        } catch (e) {
-          console.error('Erro durante análise de qualidade:', e);
-          resolve({
-            isGoodQuality: false,
-            message: 'Erro ao analisar a qualidade da imagem.'
-          });
-        }
-      };
+      // Comparar com pixels vizinhos
+      const iTop = ((y - 1) * width + x) * 4;
+      const iBottom = ((y + 1) * width + x) * 4;
+      const iLeft = (y * width + (x - 1)) * 4;
+      const iRight = (y * width + (x + 1)) * 4;
       
-      img.onerror = () => {
-        resolve({
-          isGoodQuality: false,
-          message: 'Falha ao carregar a imagem para análise de qualidade.'
-        });
-      };
+      const luminanceTop = 0.299 * data[iTop] + 0.587 * data[iTop + 1] + 0.114 * data[iTop + 2];
+      const luminanceBottom = 0.299 * data[iBottom] + 0.587 * data[iBottom + 1] + 0.114 * data[iBottom + 2];
+      const luminanceLeft = 0.299 * data[iLeft] + 0.587 * data[iLeft + 1] + 0.114 * data[iLeft + 2];
+      const luminanceRight = 0.299 * data[iRight] + 0.587 * data[iRight + 1] + 0.114 * data[iRight + 2];
       
-      img.src = imageUrl;
-    } catch (e) {
-      console.error('Erro ao iniciar análise de qualidade:', e);
-      resolve({
-        isGoodQuality: false,
-        message: 'Erro inesperado ao analisar a qualidade da imagem.'
-      });
+      const diff = Math.abs(luminance - luminanceTop) + 
+                  Math.abs(luminance - luminanceBottom) +
+                  Math.abs(luminance - luminanceLeft) +
+                  Math.abs(luminance - luminanceRight);
+                  
+      noiseEstimate += diff;
     }
-  });
+  }
+  
+  // Normalizar a estimativa de ruído
+  noiseEstimate /= (width - 2) * (height - 2);
+  const hasLowNoise = noiseEstimate < 30;
+  
+  // Determinar qualidade global
+  const isGoodQuality = hasGoodResolution && hasGoodContrast && hasLowNoise;
+  
+  // Preparar mensagem
+  let message = isGoodQuality 
+    ? 'Imagem com boa qualidade para análise.'
+    : 'A qualidade da imagem pode afetar a precisão da análise.';
+    
+  if (!hasGoodResolution) {
+    message += ' Resolução baixa.';
+  }
+  
+  if (!hasGoodContrast) {
+    message += ' Contraste insuficiente.';
+  }
+  
+  if (!hasLowNoise) {
+    message += ' Presença de ruído detectada.';
+  }
+  
+  return {
+    isGoodQuality,
+    message,
+    details: {
+      resolution: hasGoodResolution ? 'Boa' : 'Baixa',
+      contrast: hasGoodContrast ? 'Adequado' : 'Insuficiente',
+      noise: hasLowNoise ? 'Baixo' : 'Alto'
+    }
+  };
+};
+
+// Verificar se a imagem tem qualidade suficiente para análise
+export const checkImageQuality = async (imageUrl: string): Promise<ImageQualityResult> => {
+  try {
+    const { data, width, height } = await loadImageData(imageUrl);
+    return assessImageQuality(data, width, height);
+  } catch (e) {
+    console.error('Erro durante análise de qualidade:', e);
+    return {
+      isGoodQuality: false,
+      message: 'Falha ao carregar a imagem para análise de qualidade.'
+    };
+  }
 };
 
 // Estimar valores OHLC com base na posição e tamanho dos candles
-const estimateOHLCValues = (candles: CandleData[]): void => {
+const estimateOHLCValues = (candles: CandleData[], calibration?: PriceCalibration | null): void => {
   // Ordenar candles horizontalmente (presumindo que o eixo x representa o tempo)
   candles.sort((a, b) => a.position!.x - b.position!.x); // Usar ! para indicar que position não é nulo
   
-  // Encontrar o range vertical para normalização
-  let minY = Number.MAX_VALUE;
-  let maxY = Number.MIN_VALUE;
+  // Converter uma coordenada y em preço: escala calibrada ou relativa
+  let toPrice: (y: number) => number;
   
-  for (const candle of candles) {
-    const top = candle.position!.y - candle.height! / 2; // Usar !
-    const bottom = candle.position!.y + candle.height! / 2; // Usar !
+  if (calibration) {
+    // Com o eixo de preço calibrado, converter as coordenadas diretamente em preços reais
+    toPrice = (y: number) => priceAtY(calibration, y);
+  } else {
+    // Encontrar o range vertical para normalização (incluindo os pavios)
+    let minY = Number.MAX_VALUE;
+    let maxY = Number.MIN_VALUE;
+    
+    for (const candle of candles) {
+      const top = candle.wickTop ?? candle.position!.y - candle.height! / 2;
+      const bottom = candle.wickBottom ?? candle.position!.y + candle.height! / 2;
+      
+      minY = Math.min(minY, top);
+      maxY = Math.max(maxY, bottom);
+    }
     
-    minY = Math.min(minY, top);
-    maxY = Math.max(maxY, bottom);
+    const range = maxY - minY || 1;
+    
+    // Sem calibração: valor base arbitrário para os preços (escala apenas relativa)
+    const basePrice = 100;
+    const priceRange = 20;
+    
+    toPrice = (y: number) => basePrice + (1 - (y - minY) / range) * priceRange;
   }
   
-  const range = maxY - minY;
-  
-  // Valor base arbitrário para os preços
-  const basePrice = 100;
-  const priceRange = 20;
-  
   // Calcular valores OHLC para cada candle
   for (const candle of candles) {
-    const top = candle.position!.y - candle.height! / 2; // Usar !
-    const bottom = candle.position!.y + candle.height! / 2; // Usar !
+    const bodyTop = candle.position!.y - candle.height! / 2; // Usar !
+    const bodyBottom = candle.position!.y + candle.height! / 2; // Usar !
     
-    // Normalizar para o range de preço
-    const normalizedTop = 1 - (top - minY) / range;
-    const normalizedBottom = 1 - (bottom - minY) / range;
-    
-    // Converter para valores de preço
-    const highPrice = basePrice + normalizedTop * priceRange;
-    const lowPrice = basePrice + normalizedBottom * priceRange;
+    const bodyHighPrice = toPrice(bodyTop);
+    const bodyLowPrice = toPrice(bodyBottom);
     
     // Para candles verdes, o fechamento é mais alto que a abertura
     // Para candles vermelhos, a abertura é mais alta que o fechamento
     if (candle.color === 'verde') {
-      candle.open = lowPrice;
-      candle.close = highPrice;
+      candle.open = bodyLowPrice;
+      candle.close = bodyHighPrice;
     } else {
-      candle.open = highPrice;
-      candle.close = lowPrice;
+      candle.open = bodyHighPrice;
+      candle.close = bodyLowPrice;
     }
     
-    candle.high = Math.max(candle.open, candle.close);
-    candle.low = Math.min(candle.open, candle.close);
+    // Máxima e mínima vêm das pontas dos pavios
+    const wickHigh = candle.wickTop !== undefined ? toPrice(candle.wickTop) : bodyHighPrice;
+    const wickLow = candle.wickBottom !== undefined ? toPrice(candle.wickBottom) : bodyLowPrice;
+    candle.high = Math.max(candle.open, candle.close, wickHigh);
+    candle.low = Math.min(candle.open, candle.close, wickLow);
   }
 };
 
@@ -640,35 +636,31 @@ const highlightCandleColors = (data: Uint8ClampedArray, width: number, height: n
 const segmentCandlePatterns = (
   data: Uint8ClampedArray, 
   width: number, 
-  height: number
+  height: number,
+  excludeColumns?: { x: number; width: number },
+  excludeRows?: { y: number; height: number },
+  palette?: CandlePalette | null
 ): {x1: number, y1: number, x2: number, y2: number, area: number}[] => {
   // Criar um mapa de cores para identificar possíveis candles
   const colorMap = new Array(width * height).fill(0);
+  const classify = createCandlePixelClassifier(palette);
+  const classCodes = { verde: 1, vermelho: 2, preto: 3, branco: 4 };
   
-  // Identificar pixels que podem ser parte de candles (verde ou vermelho)
+  // Identificar pixels que podem ser parte de candles (paleta aprendida ou verde/vermelho/preto/branco)
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      
-      // Marcar pixels verdes - limiar mais sensível para melhor detecção
-      if (g > 1.2 * r && g > 1.2 * b && g > 70) {
-        colorMap[y * width + x] = 1; // 1 = verde
+      // Ignorar as faixas dos eixos de preço e de tempo (rótulos não são candles)
+      if (excludeColumns && x >= excludeColumns.x && x < excludeColumns.x + excludeColumns.width) {
+        continue;
       }
-      // Marcar pixels vermelhos - limiar mais sensível para melhor detecção
-      else if (r > 1.2 * g && r > 1.2 * b && r > 70) {
-        colorMap[y * width + x] = 2; // 2 = vermelho
+      if (excludeRows && y >= excludeRows.y && y < excludeRows.y + excludeRows.height) {
+        continue;
       }
-      // Também detectar candles pretos e brancos (valores extremos de luminância)
-      else {
-        const luminance = (r + g + b) / 3;
-        if (luminance < 30) { // Candles pretos/escuros
-          colorMap[y * width + x] = 3; // 3 = preto
-        } else if (luminance > 220) { // Candles brancos/claros
-          colorMap[y * width + x] = 4; // 4 = branco
-        }
+      
+      const i = (y * width + x) * 4;
+      const pixelClass = classify(data[i], data[i + 1], data[i + 2]);
+      if (pixelClass) {
+        colorMap[y * width + x] = classCodes[pixelClass];
       }
     }
   }
@@ -719,7 +711,7 @@ const segmentCandlePatterns = (
               visited.add(nidx);
             }
           }
-        }\
+        }
       }
       
       // Filtrar segmentos muito pequenos (ruído) ou muito grandes (não candles)
@@ -738,14 +730,73 @@ const segmentCandlePatterns = (
   return segments;
 };
 
+// Seguir o pavio (coluna fina) além do segmento até encontrar o fundo do gráfico
+const traceWick = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  centerX: number,
+  startY: number,
+  direction: -1 | 1,
+  background: number,
+  maxLength: number
+): number => {
+  let lastInk = startY - direction;
+  for (let step = 0, y = startY; step < maxLength && y >= 0 && y < height; step++, y += direction) {
+    let hasInk = false;
+    for (let dx = -1; dx <= 1 && !hasInk; dx++) {
+      const x = centerX + dx;
+      if (x < 0 || x >= width) continue;
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const luminance = (r + g + b) / 3;
+      const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+      hasInk = Math.abs(luminance - background) > 40 || chroma > 60;
+    }
+    if (!hasInk) break;
+    lastInk = y;
+  }
+  return lastInk;
+};
+
+// Fragmentos estreitos dentro da coluna de um candle maior são pavio: estender o pavio e descartar o fragmento
+const mergeWickFragments = (candles: CandleData[]): CandleData[] => {
+  const bySize = [...candles].sort((a, b) => b.width! * b.height! - a.width! * a.height!);
+  const kept: CandleData[] = [];
+
+  for (const candle of bySize) {
+    const host = kept.find(other =>
+      candle.width! < other.width! * 0.5 &&
+      Math.abs(candle.position!.x - other.position!.x) <= other.width! / 2
+    );
+    if (!host) {
+      kept.push(candle);
+      continue;
+    }
+
+    const fragmentTop = candle.wickTop ?? candle.position!.y - candle.height! / 2;
+    const fragmentBottom = candle.wickBottom ?? candle.position!.y + candle.height! / 2;
+    host.wickTop = Math.min(host.wickTop ?? host.position!.y - host.height! / 2, fragmentTop);
+    host.wickBottom = Math.max(host.wickBottom ?? host.position!.y + host.height! / 2, fragmentBottom);
+  }
+
+  return kept;
+};
+
 // Analisar um segmento para determinar se é um candle e suas características
 const analyzeCandleSegment = (
   segment: {x1: number, y1: number, x2: number, y2: number, area: number},
   data: Uint8ClampedArray,
   width: number,
-  height: number
-): { x: number, y: number, width: number, height: number, color: 'verde' | 'vermelho', confidence: number } | null => {
-  const { x1, y1, x2, y2, area } = segment;
+  height: number,
+  background: number = 255,
+  palette?: CandlePalette | null
+): {
+  x: number, y: number, width: number, height: number,
+  wickTop: number, wickBottom: number,
+  color: 'verde' | 'vermelho', confidence: number
+} | null => {
+  const { x1, y1, x2, y2 } = segment;
   const segWidth = x2 - x1 + 1;
   const segHeight = y2 - y1 + 1;
   
@@ -760,367 +811,419 @@ const analyzeCandleSegment = (
   }
   
   // Analisar cores dentro do segmento
-  let redCount = 0, greenCount = 0, blackCount = 0, whiteCount = 0;
+  const classifyCandlePixel = createCandlePixelClassifier(palette);
+  const classCounts = { verde: 0, vermelho: 0, preto: 0, branco: 0 };
   
   for (let y = y1; y <= y2; y++) {
     for (let x = x1; x <= x2; x++) {
       const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      
-      if (g > 1.2 * r && g > 1.2 * b && g > 70) {
-        greenCount++;
-      }
-      else if (r > 1.2 * g && r > 1.2 * b && r > 70) {
-        redCount++;
-      }
-      else {
-        const luminance = (r + g + b) / 3;
-        if (luminance < 30) {
-          blackCount++;
-        } else if (luminance > 220) {
-          whiteCount++;
-        }
-      }
+      const pixelClass = classifyCandlePixel(data[i], data[i + 1], data[i + 2]);
+      if (pixelClass) classCounts[pixelClass]++;
     }
   }
   
+  // Pixels da mesma classe que o fundo do gráfico não pertencem ao candle
+  if (background > 220) classCounts.branco = 0;
+  if (background < 30) classCounts.preto = 0;
+  
+  let redCount = classCounts.vermelho, greenCount = classCounts.verde;
+  const blackCount = classCounts.preto, whiteCount = classCounts.branco;
+  
   // Determinar a cor predominante
   const totalColorPixels = redCount + greenCount + blackCount + whiteCount;
   if (totalColorPixels < 5) {
     return null; // Não há pixels coloridos suficientes
   }
   
+  const dominantClass = (Object.keys(classCounts) as (keyof typeof classCounts)[])
+    .reduce((best, key) => classCounts[key] > classCounts[best] ? key : best, 'verde' as keyof typeof classCounts);
+  
   // Tratar candles pretos como vermelhos e brancos como verdes para simplificar
   if (blackCount > redCount) redCount += blackCount;
   if (whiteCount > greenCount) greenCount += whiteCount;
   
-  const color: 'verde' | 'vermelho' = greenCount > redCount ? 'verde' : 'vermelho';
-  
-  // Calcular confiança baseada na densidade de pixels da cor correta
-  const colorRatio = (color === 'verde' ? greenCount : redCount) / totalColorPixels;
-  const densityRatio = totalColorPixels / (segWidth * segHeight);
-  const confidence = Math.min(100, Math.round(colorRatio * densityRatio * 100));
-  
-  // Filtrar candles com baixa confiança
-  if (confidence < 20) {
-    return null;
-  }
+  let color: 'verde' | 'vermelho' = greenCount > redCount ? 'verde' : 'vermelho';
   
-  return {
-    x: x1,
-    y: y1,
-    width: segWidth,
-    height: segHeight,
-    color,
-    confidence
+  // Extensão ocupada pela cor do candle em cada linha (da primeira à última ocorrência,
+  // para que candles vazados tenham a mesma largura de corpo que os preenchidos)
+  const isCandlePixel = (x: number, y: number): boolean => {
+    const i = (y * width + x) * 4;
+    return classifyCandlePixel(data[i], data[i + 1], data[i + 2]) === dominantClass;
   };
-};
-
-// Detecção aprimorada de linhas de suporte e resistência
-const detectSupportResistanceLines = (
-  data: Uint8ClampedArray,
-  width: number,
-  height: number
-): { startX: number, startY: number, endX: number, endY: number, confidence: number }[] => {
-  // Calcular histograma horizontal de pixels escuros
-  const horizontalDensity = new Array(height).fill(0);
+  const rowWidths = new Array(segHeight).fill(0);
+  for (let y = y1; y <= y2; y++) {
+    let first = -1, last = -1;
+    for (let x = x1; x <= x2; x++) {
+      if (isCandlePixel(x, y)) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    rowWidths[y - y1] = first < 0 ? 0 : last - first + 1;
+  }
   
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      // Detectar pixels escuros (possíveis linhas)
-      if (data[i] + data[i + 1] + data[i + 2] < 150 * 3) {
-        horizontalDensity[y]++;
-      }\
+  // Separar corpo e pavio: o corpo ocupa as linhas largas, o pavio as linhas finas
+  const maxRowWidth = Math.max(...rowWidths);
+  const bodyThreshold = maxRowWidth > 2 ? Math.max(2, maxRowWidth * 0.5) : 1;
+  let bodyStart = 0, bodyEnd = -1;
+  for (let row = 0; row < segHeight; ) {
+    if (rowWidths[row] < bodyThreshold) {
+      row++;
+      continue;
+    }
+    const start = row;
+    while (row < segHeight && rowWidths[row] >= bodyThreshold) row++;
+    if (row - start > bodyEnd - bodyStart + 1) {
+      bodyStart = start;
+      bodyEnd = row - 1;
     }
   }
+  if (bodyEnd < bodyStart) {
+    return null;
+  }
   
-  // Suavizar o histograma para reduzir ruído
-  const smoothedDensity = new Array(height).fill(0);
-  const kernelSize = 5;
-  const halfKernel = Math.floor(kernelSize / 2);
+  const bodyTop = y1 + bodyStart;
+  const bodyBottom = y1 + bodyEnd;
   
-  for (let y = 0; y < height; y++) {
-    let sum = 0, count = 0;
-    
-    for (let k = -halfKernel; k <= halfKernel; k++) {
-      const idx = y + k;
-      if (idx >= 0 && idx < height) {
-        sum += horizontalDensity[idx];
-        count++;
+  // Limites horizontais do corpo e preenchimento do retângulo do corpo
+  let bodyLeft = x2, bodyRight = x1, bodyPixels = 0;
+  for (let y = bodyTop; y <= bodyBottom; y++) {
+    for (let x = x1; x <= x2; x++) {
+      if (isCandlePixel(x, y)) {
+        bodyLeft = Math.min(bodyLeft, x);
+        bodyRight = Math.max(bodyRight, x);
+        bodyPixels++;
       }
     }
-    
-    smoothedDensity[y] = sum / count;
   }
+  const bodyWidth = bodyRight - bodyLeft + 1;
+  const bodyHeight = bodyBottom - bodyTop + 1;
+  const bodyFill = bodyPixels / (bodyWidth * bodyHeight);
   
-  // Detectar picos no histograma suavizado (possíveis linhas)
-  const peakThreshold = width * 0.2; // Linha deve cobrir pelo menos 20% da largura
-  const minPeakDistance = Math.ceil(height * 0.03); // Distância mínima entre picos
+  // Corpo vazado: só o contorno tem a cor do candle
+  const isHollow = bodyWidth > 3 && bodyHeight > 3 && bodyFill < 0.6;
+  if (palette?.hollowBullish) {
+    color = isHollow ? 'verde' : 'vermelho';
+  }
+  const fillScore = isHollow ? 1 : bodyFill;
   
-  const peaks: number[] = [];
+  // Pavios: extremos do segmento, estendidos quando o pavio tem outra cor (cinza/preto)
+  const centerX = Math.round((bodyLeft + bodyRight) / 2);
+  const maxWickLength = Math.round(height * 0.4);
+  const wickTop = traceWick(data, width, height, centerX, y1 - 1, -1, background, maxWickLength);
+  const wickBottom = traceWick(data, width, height, centerX, y2 + 1, 1, background, maxWickLength);
   
-  for (let y = 2; y < height - 2; y++) {
-    if (smoothedDensity[y] > peakThreshold) {
-      // Verificar se é um máximo local
-      if (
-        smoothedDensity[y] > smoothedDensity[y - 1] &&
-        smoothedDensity[y] > smoothedDensity[y - 2] &&
-        smoothedDensity[y] > smoothedDensity[y + 1] &&
-        smoothedDensity[y] > smoothedDensity[y + 2]
-      ) {
-        // Verificar se está distante o suficiente de outros picos
-        let isFarEnough = true;
-        
-        for (const existingPeak of peaks) {
-          if (Math.abs(existingPeak - y) < minPeakDistance) {
-            isFarEnough = false;
-            break;
-          }
-        }
-        
-        if (isFarEnough) {
-          peaks.push(y);
-        }
-      }
-    }
+  // Coerência do pavio: fino e centralizado em relação ao corpo
+  let wickScore = 0.9;
+  const wickRows = rowWidths.filter((w, row) => (row < bodyStart || row > bodyEnd) && w > 0);
+  if (wickRows.length > 0) {
+    const typicalWick = wickRows.sort((a, b) => a - b)[Math.floor(wickRows.length / 2)];
+    wickScore = typicalWick <= Math.max(1, bodyWidth * 0.5) ? 1 : 0.6;
   }
   
-  // Converter picos em linhas horizontais
-  const lines: { startX: number, startY: number, endX: number, endY: number, confidence: number }[] = [];
+  // Calcular confiança baseada na cor predominante e no preenchimento do corpo
+  const colorRatio = (color === 'verde' ? greenCount : redCount) / totalColorPixels;
+  const touchesEdge = x1 === 0 || y1 === 0 || x2 === width - 1 || y2 === height - 1;
+  const confidence = Math.min(100, Math.round(
+    (colorRatio * 0.4 + fillScore * 0.4 + wickScore * 0.2) * (touchesEdge ? 0.7 : 1) * 100
+  ));
   
-  for (const y of peaks) {
-    // Calcular confiança baseada na densidade de pixels
-    const confidence = Math.min(100, Math.round((smoothedDensity[y] / width) * 100));
-    
-    lines.push({
-      startX: 0,
-      startY: y,
-      endX: width - 1,
-      endY: y,
-      confidence
-    });
+  // Filtrar candles com baixa confiança
+  if (confidence < 20) {
+    return null;
   }
   
-  return lines;
+  return {
+    x: bodyLeft,
+    y: bodyTop,
+    width: bodyWidth,
+    height: bodyHeight,
+    wickTop,
+    wickBottom,
+    color,
+    confidence
+  };
+};
+
+// Etapas da extração, na ordem em que são executadas (usadas para relatar progresso)
+export const ANALYSIS_STAGES = ['loading', 'axes', 'volume', 'cleanup', 'palette', 'chartType', 'candles', 'ohlc', 'time', 'drawings', 'done'] as const;
+export type AnalysisStage = typeof ANALYSIS_STAGES[number];
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  loading: 'Carregando imagem',
+  axes: 'Lendo eixos de preço e tempo',
+  volume: 'Procurando painel de volume',
+  cleanup: 'Removendo grade e sobreposições',
+  palette: 'Identificando cores dos candles',
+  chartType: 'Classificando tipo de gráfico',
+  candles: 'Segmentando candles',
+  ohlc: 'Estimando valores OHLC',
+  time: 'Carimbando horários e volumes',
+  drawings: 'Lendo desenhos do usuário',
+  done: 'Concluído'
 };
 
-// Gerar elementos técnicos a partir da detecção
-const generateTechnicalElementsFromDetection = (
-  candles: CandleData[],
-  lines: { startX: number, startY: number, endX: number, endY: number, confidence: number }[],
+// Fração concluída ao iniciar uma etapa
+export const stageProgress = (stage: AnalysisStage): number =>
+  ANALYSIS_STAGES.indexOf(stage) / (ANALYSIS_STAGES.length - 1);
+
+export interface ChartExtraction {
+  candles: CandleData[];
+  priceCalibration: PriceCalibration | null;
+  timeCalibration: TimeCalibration | null;
+  palette: CandlePalette | null;
+  chartType: ChartType;
+  volumePane: VolumePane | null;
+  currentPriceLabel: CurrentPriceLabel | null;
+  platformProfile: PlatformProfileMatch | null;
+  drawings: TechnicalElement[]; // Linhas e zonas desenhadas pelo usuário, com preços
+}
+
+// Extrair candles diretamente dos pixels (sem DOM, reutilizável fora do navegador)
+export const extractChartDataFromPixels = (
+  data: Uint8ClampedArray,
   width: number,
-  height: number
-): TechnicalElement[] => {
-  const technicalElements: TechnicalElement[] = [];
-  
-  // Converter linhas de suporte/resistência detectadas
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const isSupport = i % 2 === 0; // Alternar entre suporte e resistência para fins visuais
-    
-    technicalElements.push({
-      type: 'line',
-      points: [
-        { x: line.startX, y: line.startY },
-        { x: line.endX, y: line.endY }
-      ],
-      color: isSupport ? '#22c55e' : '#ef4444', // Verde para suporte, vermelho para resistência
-      thickness: line.confidence > 70 ? 2 : 1,
-      dashArray: line.confidence > 70 ? undefined : [5, 5]
-    });
-    
-    // Adicionar rótulo para linhas com alta confiança
-    if (line.confidence > 75) {
-      technicalElements.push({
-        type: 'label',
-        position: { x: 10, y: line.startY - 5 },
-        text: isSupport ? 'Suporte' : 'Resistência',
-        color: isSupport ? '#22c55e' : '#ef4444',
-        backgroundColor: '#1e293b'
+  height: number,
+  timeframe: TimeframeType = '1m',
+  storedPalette?: CandlePalette | null,
+  profile?: PlatformProfile | null, // Perfil escolhido pelo usuário; sem ele, o perfil é reconhecido no print
+  onProgress?: (stage: AnalysisStage) => void,
+  referenceTime: number = Date.now() // Momento da captura: rótulos só com horário são resolvidos em relação a ele
+): ChartExtraction => {
+  // 1. Calibrar o eixo de preço a partir dos rótulos e localizar o eixo de tempo
+  onProgress?.('axes');
+  const textBoxes = detectTextBoxes(data, width, height);
+  const priceCalibration = calibratePriceAxis(data, width, height, textBoxes, profile?.priceAxisSide);
+  const timeAxis = readTimeAxis(data, width, height, textBoxes, priceCalibration?.axisBounds);
+  const platformProfile: PlatformProfileMatch | null = profile
+    ? { profile, source: 'manual', confidence: 1 }
+    : detectPlatformProfile(data, width, height, {
+        excludeColumns: priceCalibration?.axisBounds,
+        excludeRows: timeAxis?.row,
+        axisSide: priceCalibration?.axisSide
       });
-    }
-  }
-  
-  // Detectar tendências de preço usando os candles
-  if (candles.length > 5) {
-    // Ordenar candles por posição x (tempo)
-    const sortedCandles = [...candles].sort((a, b) => a.position!.x - b.position!.x); // Usar !
-    
-    // Extrair preços de fechamento para análise de tendência
-    const prices = sortedCandles.map(c => c.close);
-    
-    // Detectar tendência linear
-    let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0;
-    const n = prices.length;
-    
-    for (let i = 0; i < n; i++) {
-      sumX += i;
-      sumY += prices[i];
-      sumXY += i * prices[i];
-      sumX2 += i * i;
-    }
-    
-    const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-    
-    // Se a inclinação for significativa, adicionar linha de tendência
-    if (Math.abs(slope) > 0.1) {
-      const isBullish = slope > 0;
-      const startCandle = sortedCandles[0];
-      const endCandle = sortedCandles[sortedCandles.length - 1];
-      const startY = startCandle.position!.y; // Usar !
-      const endY = endCandle.position!.y - (slope * (endCandle.position!.x - startCandle.position!.x)); // Usar !
-      
-      technicalElements.push({
-        type: 'line',
-        points: [
-          { x: startCandle.position!.x, y: startY }, // Usar !
-          { x: endCandle.position!.x, y: endY } // Usar !
-        ],
-        color: isBullish ? '#22c55e' : '#ef4444',
-        thickness: 2,
-        dashArray: [5, 3]
-      });
-      
-      // Adicionar rótulo indicando a tendência
-      technicalElements.push({
-        type: 'label',
-        position: { x: endCandle.position!.x - 100, y: endY - 20 }, // Usar !
-        text: isBullish ? 'Tendência de Alta' : 'Tendência de Baixa',
-        color: isBullish ? '#22c55e' : '#ef4444',
-        backgroundColor: '#1e293b'
+
+  // Painel de volume abaixo do preço: suas barras não podem ser lidas como candles
+  onProgress?.('volume');
+  const volumePane = platformProfile?.profile.volumePane === 'none'
+    ? null
+    : detectVolumePane(data, width, height, {
+        textBoxes,
+        excludeColumns: priceCalibration?.axisBounds,
+        excludeRows: timeAxis?.row
       });
-    }
-    
-    // Tentar identificar padrões de candles
-    // Verificar padrões de reversão como "Martelo" ou "Doji"
-    for (let i = 1; i < sortedCandles.length - 1; i++) {
-      const prevCandle = sortedCandles[i-1];
-      const currCandle = sortedCandles[i];
-      const nextCandle = sortedCandles[i+1];
-      
-      const candleSize = Math.abs(currCandle.close - currCandle.open);
-      const upperShadow = currCandle.high - Math.max(currCandle.open, currCandle.close);
-      const lowerShadow = Math.min(currCandle.open, currCandle.close) - currCandle.low;
-      
-      // Identificar possível martelo (sombra inferior longa)
-      if (lowerShadow > 2 * candleSize && upperShadow < 0.5 * candleSize) {
-        technicalElements.push({
-          type: 'circle',
-          center: { x: currCandle.position!.x, y: currCandle.position!.y }, // Usar !
-          radius: 15,
-          color: '#3b82f6',
-          thickness: 2
-        });
-        
-        technicalElements.push({
-          type: 'label',
-          position: { x: currCandle.position!.x - 30, y: currCandle.position!.y - 30 }, // Usar !
-          text: 'Martelo',
-          color: '#3b82f6',
-          backgroundColor: '#1e293b'
-        });
-      }
-      
-      // Identificar possível doji (abertura próxima do fechamento)
-      if (candleSize < 0.1 * (upperShadow + lowerShadow) && (upperShadow + lowerShadow) > 0) {
-        technicalElements.push({
-          type: 'circle',
-          center: { x: currCandle.position!.x, y: currCandle.position!.y }, // Usar !
-          radius: 15,
-          color: '#f59e0b',
-          thickness: 2
-        });
-        
-        technicalElements.push({
-          type: 'label',
-          position: { x: currCandle.position!.x - 20, y: currCandle.position!.y - 30 }, // Usar !
-          text: 'Doji',
-          color: '#f59e0b',
-          backgroundColor: '#1e293b'
-        });
+  const lowerRows = volumePane
+    ? {
+        y: volumePane.bounds.y,
+        height: Math.max(volumePane.baseline + 1, timeAxis ? timeAxis.row.y + timeAxis.row.height : 0) - volumePane.bounds.y
       }
-    }
-  }
+    : timeAxis?.row;
+
+  // Grade, marcas d'água e textos sobrepostos viram fundo; o OCR dos eixos continua nos pixels originais
+  onProgress?.('cleanup');
+  const { data: plotData, artifacts } = removePlotArtifacts(data, width, height, {
+    textBoxes,
+    excludeColumns: priceCalibration?.axisBounds,
+    excludeRows: lowerRows,
+    priceCalibration
+  });
   
-  return technicalElements;
-};
+  // Paleta calibrada pelo usuário prevalece; senão aprender as cores desta imagem e conferir com o perfil
+  onProgress?.('palette');
+  const palette = storedPalette?.source === 'manual'
+    ? storedPalette
+    : resolveProfilePalette(
+        learnCandlePalette(plotData, width, height, {
+          textBoxes,
+          excludeColumns: priceCalibration?.axisBounds,
+          excludeRows: lowerRows
+        }),
+        platformProfile
+      ) || storedPalette || null;
 
-export const processChartImage = async (imageUrl: string): Promise<CandleData[]> => {
-  console.log(`Iniciando processamento real da imagem: ${imageUrl}`);
+  // Opcional: Processamento para realçar candles antes da segmentação (como `enhanceEdges`)
+  // const enhancedData = enhanceEdges(data, width, height);
+  // highlightCandleColors(enhancedData, width, height);
+  // (você pode optar por usar os dados originais ou os realçados para segmentação)
 
-  try {
-    // 1. Carregar a imagem
-    const img = new Image();
-    img.src = imageUrl;
+  // 2. Identificar o tipo de gráfico antes de escolher o extrator
+  onProgress?.('chartType');
+  const background = estimateBackgroundLuminance(plotData, width, height);
+  const detection = classifyChartType(plotData, width, height, {
+    palette,
+    background,
+    excludeColumns: priceCalibration?.axisBounds,
+    excludeRows: lowerRows
+  });
+  let chartType: ChartType = detection.type;
+  const detectedCandles: CandleData[] = [];
+
+  if (chartType === 'ohlc_bars') {
+    detectedCandles.push(...extractOhlcBars(detection, width));
+  } else if (chartType === 'line') {
+    detectedCandles.push(...extractLineSeries(detection, width));
+  }
+  console.log(`Barras extraídas pelo extrator de ${chartType}: ${detectedCandles.length}`);
 
-    await new Promise<void>((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = (e) => reject(new Error(`Falha ao carregar a imagem: ${e}`));
-    });
+  // 3. Candles (ou Heikin-Ashi): segmentar e analisar cada segmento
+  onProgress?.('candles');
+  const segments = chartType === 'candles'
+    ? segmentCandlePatterns(plotData, width, height, priceCalibration?.axisBounds, lowerRows, palette)
+    : [];
+  if (chartType === 'candles') console.log(`Segmentos detectados: ${segments.length}`);
 
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Não foi possível obter contexto 2D do canvas.');
+  for (const segment of segments) {
+    const candleInfo = analyzeCandleSegment(segment, plotData, width, height, background, palette);
+    if (candleInfo) {
+      detectedCandles.push({
+        open: 0, // Será estimado por estimateOHLCValues
+        high: 0, // Será estimado por estimateOHLCValues
+        low: 0,  // Será estimado por estimateOHLCValues
+        close: 0, // Será estimado por estimateOHLCValues
+        timestamp: 0, // Será definido a partir do eixo de tempo
+        color: candleInfo.color,
+        position: { x: candleInfo.x + candleInfo.width / 2, y: candleInfo.y + candleInfo.height / 2 },
+        width: candleInfo.width,
+        height: candleInfo.height,
+        wickTop: candleInfo.wickTop,
+        wickBottom: candleInfo.wickBottom,
+        extractionConfidence: candleInfo.confidence / 100,
+      });
     }
-    ctx.drawImage(img, 0, 0);
+  }
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
+  // Pedaços de pavio separados do corpo (fotos reamostradas) se juntam ao candle da mesma coluna
+  if (chartType === 'candles') {
+    const merged = mergeWickFragments(detectedCandles);
+    detectedCandles.length = 0;
+    detectedCandles.push(...merged);
+  }
 
-    // Opcional: Processamento para realçar candles antes da segmentação (como `enhanceEdges`)
-    // const enhancedData = enhanceEdges(data, canvas.width, canvas.height);
-    // highlightCandleColors(enhancedData, canvas.width, canvas.height);
-    // (você pode optar por usar os dados originais ou os realçados para segmentação)
+  // Heikin-Ashi tem a mesma forma de candles, mas cada corpo abre no meio do anterior
+  if (chartType === 'candles' && looksLikeHeikinAshi(detectedCandles)) {
+    chartType = 'heikin_ashi';
+    console.log('Gráfico identificado como Heikin-Ashi: OHLC sintético');
+  }
 
-    // 2. Segmentar os candles
-    const segments = segmentCandlePatterns(data, canvas.width, canvas.height);
-    console.log(`Segmentos detectados: ${segments.length}`);
+  // 4. Estimar valores OHLC e ajustar posição/tamanho
+  // Note: estimateOHLCValues modifica os objetos candles in-place.
+  onProgress?.('ohlc');
+  estimateOHLCValues(detectedCandles, priceCalibration);
+  console.log('Candles com OHLC estimados:', detectedCandles);
 
-    // 3. Analisar cada segmento e converter em CandleData
-    let detectedCandles: CandleData[] = [];
-    for (const segment of segments) {
-      const candleInfo = analyzeCandleSegment(segment, data, canvas.width, canvas.height);
-      if (candleInfo) {
-        // Adicionar o timestamp. Uma forma simples é usar um intervalo fixo.
-        // Em um sistema real, o timestamp viria do próprio gráfico ou da corretora.
-        const timestamp = Date.now() - (segments.indexOf(segment) * 60 * 1000); // Exemplo: 1 minuto de intervalo
-        detectedCandles.push({
-          open: 0, // Será estimado por estimateOHLCValues
-          high: 0, // Será estimado por estimateOHLCValues
-          low: 0,  // Será estimado por estimateOHLCValues
-          close: 0, // Será estimado por estimateOHLCValues
-          timestamp,
-          color: candleInfo.color,
-          position: { x: candleInfo.x + candleInfo.width / 2, y: candleInfo.y + candleInfo.height / 2 },
-          width: candleInfo.width,
-          height: candleInfo.height,
-        });
-      }
-    }
+  // 5. Ler o eixo de tempo e carimbar cada barra com o horário real
+  onProgress?.('time');
+  const timeCalibration = calibrateTimeAxis(timeAxis, detectedCandles, { fallbackTimeframe: timeframe, referenceTime });
+  assignCandleTimestamps(detectedCandles, timeCalibration, timeframe, referenceTime);
 
-    // 4. Estimar valores OHLC e ajustar posição/tamanho
-    // As funções `estimateOHLCValues` e `generateTechnicalElementsFromDetection`
-    // já existem e podem ser usadas aqui.
-    // Note: estimateOHLCValues modifica os objetos candles in-place.
-    estimateOHLCValues(detectedCandles);
-    console.log('Candles com OHLC estimados:', detectedCandles);
+  // 6. Volume de cada candle a partir da barra alinhada no painel de volume
+  assignCandleVolumes(detectedCandles, volumePane);
 
-    // Opcional: Aqui você pode gerar TechnicalElements a partir de candles e linhas detectadas
-    // const detectedLines = detectSupportResistanceLines(data, canvas.width, canvas.height);
-    // const technicalElements = generateTechnicalElementsFromDetection(detectedCandles, detectedLines, canvas.width, canvas.height);
-    // console.log('Elementos técnicos gerados:', technicalElements);
+  // 7. Linhas e zonas desenhadas pelo usuário, lidas nos pixels originais (a limpeza apaga linhas longas)
+  onProgress?.('drawings');
+  const drawings = detectUserDrawings(data, width, height, {
+    palette,
+    priceCalibration,
+    textBoxes: artifacts.overlayText,
+    excludeColumns: priceCalibration?.axisBounds,
+    excludeRows: lowerRows,
+    excludeAreas: artifacts.priceTags.map(tag => tag.bounds),
+    currentPriceLabel: artifacts.currentPriceLabel
+  });
 
-    return detectedCandles;
+  onProgress?.('done');
+  return {
+    candles: detectedCandles,
+    priceCalibration,
+    timeCalibration,
+    palette,
+    chartType,
+    volumePane,
+    currentPriceLabel: artifacts.currentPriceLabel,
+    platformProfile,
+    drawings
+  };
+};
+
+export interface PanelExtraction {
+  panel: ChartPanel;
+  extraction: ChartExtraction; // Candles e calibrações em coordenadas do painel
+}
+
+// Extrair cada painel de um print com vários gráficos (um só painel no caso comum)
+export const extractChartPanelsFromPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  timeframe: TimeframeType = '1m',
+  storedPalette?: CandlePalette | null,
+  profile?: PlatformProfile | null,
+  onProgress?: (stage: AnalysisStage, panel: { index: number; count: number }) => void,
+  referenceTime: number = Date.now()
+): PanelExtraction[] => {
+  const panels = detectChartPanels(data, width, height);
+
+  return panels.map(panel => {
+    const { width: panelWidth, height: panelHeight } = panel.bounds;
+    const pixels = panelWidth === width && panelHeight === height ? data : cropChartPanel(data, width, panel);
+    const extraction = extractChartDataFromPixels(
+      pixels, panelWidth, panelHeight, timeframe, storedPalette, profile,
+      stage => onProgress?.(stage, { index: panel.index, count: panels.length }),
+      referenceTime
+    );
+    return { panel, extraction };
+  });
+};
+
+// Carregar uma imagem e obter seus pixels
+export const loadImageData = async (imageUrl: string): Promise<{ data: Uint8ClampedArray; width: number; height: number }> => {
+  const img = new Image();
+  img.src = imageUrl;
+
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = (e) => reject(new Error(`Falha ao carregar a imagem: ${e}`));
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível obter contexto 2D do canvas.');
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { data: imageData.data, width: canvas.width, height: canvas.height };
+};
+
+// Carregar a imagem e extrair candles e calibração de preço
+export const extractChartData = async (
+  imageUrl: string,
+  timeframe: TimeframeType = '1m',
+  storedPalette?: CandlePalette | null,
+  profile?: PlatformProfile | null,
+  onProgress?: (stage: AnalysisStage) => void
+): Promise<ChartExtraction> => {
+  console.log(`Iniciando processamento real da imagem: ${imageUrl}`);
+
+  try {
+    onProgress?.('loading');
+    const { data, width, height } = await loadImageData(imageUrl);
+    return extractChartDataFromPixels(data, width, height, timeframe, storedPalette, profile, onProgress);
 
   } catch (error) {
     console.error('Erro no processamento real da imagem:', error);
-    // Retornar um array vazio ou lidar com o erro conforme a necessidade do app
-    return [];
+    // Retornar resultado vazio ou lidar com o erro conforme a necessidade do app
+    return { candles: [], priceCalibration: null, timeCalibration: null, palette: null, chartType: 'candles', volumePane: null, currentPriceLabel: null, platformProfile: null, drawings: [] };
   }
-};
\ No newline at end of file
+};
+
+export const processChartImage = async (
+  imageUrl: string,
+  timeframe: TimeframeType = '1m'
+): Promise<CandleData[]> => {
+  const { candles } = await extractChartData(imageUrl, timeframe);
+  return candles;
+};
@@ -0,0 +1,190 @@
+/**
+ * Indicadores técnicos calculados a partir dos candles. Cada função devolve a
+ * série completa, alinhada aos candles (mesmo comprimento), com null enquanto
+ * o indicador ainda não tem barras suficientes para o período.
+ */
+
+import { CandleData } from '@/context/AnalyzerContext';
+
+export type IndicatorSeries = (number | null)[];
+
+const closes = (candles: CandleData[]) => candles.map(c => c.close);
+
+// Média simples das últimas `period` barras
+export const sma = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result: IndicatorSeries = values.map(() => null);
+  let sum = 0;
+  let count = 0; // Valores válidos consecutivos na janela
+  values.forEach((value, i) => {
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      return;
+    }
+    sum += value;
+    count++;
+    if (count > period) sum -= values[i - period] as number;
+    if (count >= period) result[i] = sum / period;
+  });
+  return result;
+};
+
+// Média exponencial iniciada pela média simples do primeiro período; `alpha` permite a suavização de Wilder
+export const ema = (values: IndicatorSeries, period: number, alpha = 2 / (period + 1)): IndicatorSeries => {
+  const result: IndicatorSeries = values.map(() => null);
+  const first = values.findIndex(value => value !== null);
+  if (first < 0 || values.length - first < period) return result;
+
+  let previous = (values.slice(first, first + period) as number[]).reduce((sum, value) => sum + value, 0) / period;
+  result[first + period - 1] = previous;
+  for (let i = first + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    previous = previous + alpha * (value - previous);
+    result[i] = previous;
+  }
+  return result;
+};
+
+// Suavização de Wilder (RSI, ATR, ADX)
+const rma = (values: IndicatorSeries, period: number) => ema(values, period, 1 / period);
+
+const stdev = (values: IndicatorSeries, period: number, mean: IndicatorSeries): IndicatorSeries =>
+  values.map((_, i) => {
+    const center = mean[i];
+    if (center === null) return null;
+    const window = values.slice(i - period + 1, i + 1) as number[];
+    return Math.sqrt(window.reduce((sum, value) => sum + (value - center) ** 2, 0) / period);
+  });
+
+const highest = (values: number[], period: number): IndicatorSeries =>
+  values.map((_, i) => (i < period - 1 ? null : Math.max(...values.slice(i - period + 1, i + 1))));
+
+const lowest = (values: number[], period: number): IndicatorSeries =>
+  values.map((_, i) => (i < period - 1 ? null : Math.min(...values.slice(i - period + 1, i + 1))));
+
+const trueRange = (candles: CandleData[]): number[] =>
+  candles.map((c, i) => (i === 0
+    ? c.high - c.low
+    : Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close))));
+
+export const rsi = (candles: CandleData[], period = 14): IndicatorSeries => {
+  const changes: IndicatorSeries = candles.map((c, i) => (i === 0 ? null : c.close - candles[i - 1].close));
+  const gains = rma(changes.map(change => (change === null ? null : Math.max(0, change))), period);
+  const losses = rma(changes.map(change => (change === null ? null : Math.max(0, -change))), period);
+  return gains.map((gain, i) => {
+    const loss = losses[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const macd = (candles: CandleData[], fast = 12, slow = 26, signalPeriod = 9) => {
+  const fastEma = ema(closes(candles), fast);
+  const slowEma = ema(closes(candles), slow);
+  const line = fastEma.map((value, i) => (value === null || slowEma[i] === null ? null : value - (slowEma[i] as number)));
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => (value === null || signal[i] === null ? null : value - (signal[i] as number)));
+  return { macd: line, signal, histogram };
+};
+
+// Estocástico lento: %K suavizado e %D como média do %K
+export const stochastic = (candles: CandleData[], period = 14, smoothK = 3, smoothD = 3) => {
+  const high = highest(candles.map(c => c.high), period);
+  const low = lowest(candles.map(c => c.low), period);
+  const raw = candles.map((c, i) => {
+    if (high[i] === null || low[i] === null) return null;
+    const range = (high[i] as number) - (low[i] as number);
+    return range > 0 ? ((c.close - (low[i] as number)) / range) * 100 : 50;
+  });
+  const k = sma(raw, smoothK);
+  return { k, d: sma(k, smoothD) };
+};
+
+export const bollingerBands = (candles: CandleData[], period = 20, deviations = 2) => {
+  const values = closes(candles);
+  const middle = sma(values, period);
+  const deviation = stdev(values, period, middle);
+  const upper = middle.map((value, i) => (value === null ? null : value + deviations * (deviation[i] as number)));
+  const lower = middle.map((value, i) => (value === null ? null : value - deviations * (deviation[i] as number)));
+  // Largura relativa à média (mede compressão) e posição do fechamento dentro das bandas
+  const bandwidth = middle.map((value, i) => (value ? ((upper[i] as number) - (lower[i] as number)) / value : null));
+  const percentB = values.map((close, i) => {
+    if (upper[i] === null || lower[i] === null) return null;
+    const width = (upper[i] as number) - (lower[i] as number);
+    return width > 0 ? (close - (lower[i] as number)) / width : 0.5;
+  });
+  return { middle, upper, lower, bandwidth, percentB };
+};
+
+// Fita de médias: uma série por período, do mais curto ao mais longo
+export const movingAverageRibbon = (candles: CandleData[], periods: number[], kind: 'ema' | 'sma') =>
+  periods.map(period => ({ period, values: (kind === 'ema' ? ema : sma)(closes(candles), period) }));
+
+export const atr = (candles: CandleData[], period = 14): IndicatorSeries => rma(trueRange(candles), period);
+
+// ADX com os indicadores direcionais +DI e -DI
+export const adx = (candles: CandleData[], period = 14) => {
+  const plusMove: IndicatorSeries = candles.map((c, i) => {
+    if (i === 0) return null;
+    const up = c.high - candles[i - 1].high;
+    const down = candles[i - 1].low - c.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusMove: IndicatorSeries = candles.map((c, i) => {
+    if (i === 0) return null;
+    const up = c.high - candles[i - 1].high;
+    const down = candles[i - 1].low - c.low;
+    return down > up && down > 0 ? down : 0;
+  });
+  const range = rma(trueRange(candles).map((value, i) => (i === 0 ? null : value)), period);
+  const plusDI = rma(plusMove, period).map((value, i) => (value === null || !range[i] ? null : (100 * value) / (range[i] as number)));
+  const minusDI = rma(minusMove, period).map((value, i) => (value === null || !range[i] ? null : (100 * value) / (range[i] as number)));
+  const dx = plusDI.map((plus, i) => {
+    const minus = minusDI[i];
+    if (plus === null || minus === null) return null;
+    return plus + minus > 0 ? (100 * Math.abs(plus - minus)) / (plus + minus) : 0;
+  });
+  return { adx: rma(dx, period), plusDI, minusDI };
+};
+
+export const cci = (candles: CandleData[], period = 20): IndicatorSeries => {
+  const typical = candles.map(c => (c.high + c.low + c.close) / 3);
+  const mean = sma(typical, period);
+  return typical.map((value, i) => {
+    const center = mean[i];
+    if (center === null) return null;
+    const deviation = typical.slice(i - period + 1, i + 1).reduce((sum, v) => sum + Math.abs(v - center), 0) / period;
+    return deviation > 0 ? (value - center) / (0.015 * deviation) : 0;
+  });
+};
+
+export const williamsR = (candles: CandleData[], period = 14): IndicatorSeries => {
+  const high = highest(candles.map(c => c.high), period);
+  const low = lowest(candles.map(c => c.low), period);
+  return candles.map((c, i) => {
+    if (high[i] === null || low[i] === null) return null;
+    const range = (high[i] as number) - (low[i] as number);
+    return range > 0 ? (((high[i] as number) - c.close) / range) * -100 : -50;
+  });
+};
+
+// On-Balance Volume: só existe quando todos os candles trazem volume
+export const obv = (candles: CandleData[]): IndicatorSeries | null => {
+  if (candles.length === 0 || candles.some(c => c.volume === undefined)) return null;
+  let total = 0;
+  return candles.map((c, i) => {
+    if (i > 0 && c.close > candles[i - 1].close) total += c.volume as number;
+    else if (i > 0 && c.close < candles[i - 1].close) total -= c.volume as number;
+    return total;
+  });
+};
+
+// Último valor calculado da série
+export const lastValue = (series: IndicatorSeries): number | null => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+};
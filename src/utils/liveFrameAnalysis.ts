@@ -0,0 +1,263 @@
+/**
+ * Pipeline da análise live para um único frame: localizar o gráfico, corrigir
+ * a perspectiva, extrair os candles, alinhar ao histórico acumulado e derivar
+ * o sinal. Usado pela câmera ao vivo e pela revisão de gravações de tela.
+ */
+
+import { AnalysisResult, CandlePalette, PlatformProfile, TimeframeType } from '@/context/AnalyzerContext';
+import { analyzeChart } from './patternDetection';
+import { AnalysisProgress, ChartImageInput, analyzeLiveFrameInWorker } from './chartAnalysisClient';
+import { CandleHistory, mergeFrameIntoHistory } from './candleHistory';
+
+type Confluences = NonNullable<AnalysisResult['confluences']>;
+type PriceActionSignals = NonNullable<AnalysisResult['priceActionSignals']>;
+
+export interface LiveAnalysisResult {
+  timestamp: number;
+  confidence: number;
+  signal: 'compra' | 'venda' | 'neutro';
+  patterns: string[];
+  trend: 'alta' | 'baixa' | 'lateral';
+  signalQuality?: string;
+  confluenceScore?: number;
+  supportResistance?: Confluences['supportResistance'];
+  criticalLevels?: Confluences['criticalLevels'];
+  priceActionSignals?: AnalysisResult['priceActionSignals'];
+  marketPhase?: string;
+  institutionalBias?: string;
+  entryRecommendations?: AnalysisResult['entryRecommendations'];
+  riskReward?: number;
+  warnings?: string[];
+  analysisHealth?: {
+    consistency: number;
+    reliability: number;
+    marketAlignment: boolean;
+  };
+}
+
+export interface LiveFrameOptions {
+  timeframe: TimeframeType;
+  platformProfile: PlatformProfile | null;
+  candlePalette: CandlePalette | null; // Paleta calibrada por toque ou aprendida para o perfil
+  scalpingStrategy: string;
+  considerVolume: boolean;
+  considerVolatility: boolean;
+  marketContextEnabled: boolean;
+  marketAnalysisDepth: string;
+  referenceTime?: number; // Momento do frame (gravações: horário em que a tela foi filmada)
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface LiveFrameAnalysis {
+  hasChart: boolean;
+  history: CandleHistory; // Histórico com o frame incorporado (inalterado sem gráfico)
+  stitched: boolean; // Falso quando o eixo de preço não foi lido: o frame é analisado sozinho
+  analysis: AnalysisResult | null;
+  result: LiveAnalysisResult | null;
+  alignedPriceAction: PriceActionSignals; // Sinais de price action na direção do sinal principal
+}
+
+const abortError = () => new DOMException('Análise cancelada', 'AbortError');
+
+// Função para calcular saúde da análise
+const calculateAnalysisHealth = (
+  patterns: AnalysisResult['patterns'],
+  priceActionSignals: PriceActionSignals,
+  confluenceScore: number
+) => {
+  // Verificar consistência entre sinais
+  const patternActions = patterns.map(p => p.action).filter(a => a !== 'neutro');
+  const uniqueActions = [...new Set(patternActions)];
+  const consistency = uniqueActions.length <= 1 ? 100 : 50;
+
+  // Calcular confiabilidade baseada em confluência e número de sinais
+  const reliability = Math.min(100,
+    (confluenceScore * 0.6) +
+    (patterns.length * 10) +
+    (priceActionSignals.length * 15)
+  );
+
+  // Verificar alinhamento com mercado
+  const marketAlignment = patterns.length > 0 && priceActionSignals.length > 0;
+
+  return {
+    consistency,
+    reliability,
+    marketAlignment
+  };
+};
+
+// Resultado no formato live, com validação do sinal por price action e confluências
+const toLiveResult = (analysisResult: AnalysisResult, timestamp: number): { result: LiveAnalysisResult; alignedPriceAction: PriceActionSignals } => {
+  let finalConfidence = 0;
+  let signalQuality = 'fraca';
+  let riskReward = 2.0;
+  let mainSignal: 'compra' | 'venda' | 'neutro' = 'neutro';
+
+  // Determinar sinal principal baseado no padrão mais forte e consistente
+  const validPatterns = analysisResult.patterns.filter(p => p.action !== 'neutro');
+
+  if (validPatterns.length > 0) {
+    // Verificar consistência entre padrões
+    const actions = validPatterns.map(p => p.action);
+    const uniqueActions = [...new Set(actions)];
+
+    if (uniqueActions.length === 1) {
+      // Sinais consistentes
+      mainSignal = uniqueActions[0] as 'compra' | 'venda';
+      finalConfidence = validPatterns.reduce((sum, p) => sum + p.confidence, 0) / validPatterns.length;
+    } else {
+      // Sinais conflitantes - usar o mais forte mas reduzir confiança
+      const strongestPattern = validPatterns.reduce((prev, current) =>
+        (current.confidence > prev.confidence) ? current : prev
+      );
+      mainSignal = strongestPattern.action as 'compra' | 'venda';
+      finalConfidence = strongestPattern.confidence * 0.7; // Penalizar conflito
+    }
+  }
+
+  // Validar com price action
+  const alignedPASignals = analysisResult.priceActionSignals?.filter(pa =>
+    (mainSignal === 'compra' && pa.direction === 'alta') ||
+    (mainSignal === 'venda' && pa.direction === 'baixa')
+  ) || [];
+
+  if (alignedPASignals.length > 0) {
+    const paConfidence = alignedPASignals.reduce((sum, pa) => sum + pa.confidence, 0) / alignedPASignals.length;
+    finalConfidence = (finalConfidence + paConfidence) / 2;
+  } else if (analysisResult.priceActionSignals?.length > 0 && mainSignal !== 'neutro') {
+    // Price action contradiz - reduzir confiança
+    finalConfidence *= 0.6;
+  }
+
+  // Determinar qualidade do sinal
+  if (finalConfidence > 0.85) {
+    signalQuality = 'excelente';
+  } else if (finalConfidence > 0.75) {
+    signalQuality = 'forte';
+  } else if (finalConfidence > 0.65) {
+    signalQuality = 'boa';
+  } else if (finalConfidence > 0.55) {
+    signalQuality = 'moderada';
+  } else {
+    signalQuality = 'fraca';
+  }
+
+  // Ajustar baseado em confluências
+  if (analysisResult.confluences) {
+    const confluenceBonus = analysisResult.confluences.confluenceScore / 100 * 0.1;
+    finalConfidence = Math.min(1, finalConfidence + confluenceBonus);
+
+    if (analysisResult.confluences.confluenceScore > 80) {
+      signalQuality = 'excelente';
+    }
+  }
+
+  // Obter melhor recomendação de entrada
+  const bestEntry = analysisResult.entryRecommendations?.find(entry =>
+    entry.action === mainSignal
+  );
+
+  if (bestEntry) {
+    riskReward = bestEntry.riskReward;
+    finalConfidence = Math.max(finalConfidence, bestEntry.confidence);
+  }
+
+  // Mapear tendência corretamente - corrigir tipo de comparação
+  let mappedTrend: 'alta' | 'baixa' | 'lateral' = 'lateral';
+
+  if (analysisResult.detailedMarketContext?.trend) {
+    const rawTrend = analysisResult.detailedMarketContext.trend;
+    if (rawTrend === 'alta') {
+      mappedTrend = 'alta';
+    } else if (rawTrend === 'baixa') {
+      mappedTrend = 'baixa';
+    }
+  }
+
+  // Calcular saúde da análise
+  const analysisHealth = calculateAnalysisHealth(
+    analysisResult.patterns,
+    analysisResult.priceActionSignals || [],
+    analysisResult.confluences?.confluenceScore || 0
+  );
+
+  return {
+    result: {
+      timestamp,
+      confidence: finalConfidence,
+      signal: mainSignal,
+      patterns: analysisResult.patterns.map(p => p.type),
+      trend: mappedTrend,
+      signalQuality,
+      confluenceScore: analysisResult.confluences?.confluenceScore || 0,
+      supportResistance: analysisResult.confluences?.supportResistance?.slice(0, 3) || [],
+      criticalLevels: analysisResult.confluences?.criticalLevels || [],
+      priceActionSignals: analysisResult.priceActionSignals?.slice(0, 2) || [],
+      marketPhase: analysisResult.detailedMarketContext?.phase || 'indefinida',
+      institutionalBias: analysisResult.detailedMarketContext?.institutionalBias || 'neutro',
+      entryRecommendations: analysisResult.entryRecommendations?.filter(entry =>
+        entry.action === mainSignal
+      ).slice(0, 2) || [],
+      riskReward,
+      analysisHealth
+    },
+    alignedPriceAction: alignedPASignals
+  };
+};
+
+// Analisar um frame sobre o histórico acumulado (lança AbortError se cancelado)
+export const analyzeLiveFrame = async (
+  frame: ChartImageInput, // Bitmap do frame (transferido ao worker) ou data URL
+  history: CandleHistory,
+  options: LiveFrameOptions
+): Promise<LiveFrameAnalysis> => {
+  const { signal, onProgress } = options;
+  const referenceTime = options.referenceTime ?? Date.now();
+
+  // Gráfico na tela, perspectiva, limpeza da captura, melhoria e extração rodam no worker
+  const { hasChart, extraction } = await analyzeLiveFrameInWorker(frame, {
+    timeframe: options.timeframe,
+    storedPalette: options.candlePalette,
+    profile: options.platformProfile,
+    referenceTime
+  }, { signal, onProgress });
+  if (!hasChart || !extraction) {
+    return { hasChart, history, stitched: false, analysis: null, result: null, alignedPriceAction: [] };
+  }
+
+  console.log('✅ Gráfico detectado e extraído no worker');
+
+  // Alinhar o frame ao histórico: barras fechadas entram no fim, o candle em formação é atualizado
+  // Sem eixo de preço calibrado a união fica desligada e só os candles do frame são analisados
+  const merged = mergeFrameIntoHistory(history, extraction.candles, extraction.priceCalibration);
+  const stitched = extraction.priceCalibration !== null;
+
+  // Analisar com todas as funcionalidades ativadas, sobre a série acumulada
+  // O frame não vira imagem na thread principal: a análise parte só dos candles
+  const analysis = await analyzeChart(typeof frame === 'string' ? frame : '', {
+    candles: stitched ? merged.candles : extraction.candles,
+    chartType: extraction.chartType,
+    drawings: extraction.drawings,
+    timeframe: options.timeframe,
+    optimizeForScalping: true,
+    scalpingStrategy: options.scalpingStrategy,
+    considerVolume: options.considerVolume,
+    considerVolatility: options.considerVolatility,
+    marketContextEnabled: options.marketContextEnabled,
+    marketAnalysisDepth: options.marketAnalysisDepth,
+    enableCandleDetection: true,
+    isLiveAnalysis: true,
+    useConfluences: true,
+    enablePriceAction: true,
+    enableMarketContext: true
+  });
+
+  if (signal?.aborted) throw abortError();
+
+  const { result, alignedPriceAction } = toLiveResult(analysis, referenceTime);
+  console.log(`✅ Análise completa - Sinal: ${result.signal} (${Math.round(result.confidence * 100)}%)`);
+
+  return { hasChart, history: merged, stitched, analysis, result, alignedPriceAction };
+};
@@ -0,0 +1,79 @@
+/**
+ * Etapas pesadas de cada frame da análise live, executadas no worker:
+ * localizar o gráfico, corrigir a perspectiva, limpar a captura da tela,
+ * melhorar a imagem e extrair os candles. A thread principal só envia o
+ * bitmap do frame e recebe a extração.
+ */
+
+import { CandlePalette, PlatformProfile, TimeframeType } from '@/context/AnalyzerContext';
+import { AnalysisStage, ChartExtraction, extractChartDataFromPixels } from './imageProcessing';
+import { detectChartQuadrilateral, warpPerspective } from './perspectiveCorrection';
+import { cleanScreenCapture } from './screenCaptureCleanup';
+import { enhanceChartPixels } from './imagePreProcessing';
+
+export interface LiveFrameExtraction {
+  hasChart: boolean;
+  extraction: ChartExtraction | null; // null quando não há gráfico no frame
+}
+
+export interface LiveFrameSettings {
+  timeframe: TimeframeType;
+  storedPalette?: CandlePalette | null;
+  profile?: PlatformProfile | null;
+  referenceTime?: number;
+}
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Confiança mínima para retificar sem ajuste manual (no modo live não há editor de cantos)
+const MIN_PERSPECTIVE_CONFIDENCE = 0.6;
+
+// Há gráfico quando pelo menos 10% dos pixels têm cor (velas, linhas e indicadores coloridos)
+export const hasChartColors = (data: Uint8ClampedArray): boolean => {
+  let colorVariations = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (Math.abs(r - g) > 30 || Math.abs(g - b) > 30) {
+      colorVariations++;
+    }
+  }
+  return colorVariations > (data.length / 4) * 0.1;
+};
+
+// Pipeline de um frame; `checkpoint` entre as etapas permite cancelar um frame obsoleto
+export const processLiveFrame = async (
+  frame: Pixels,
+  settings: LiveFrameSettings,
+  onStage: (stage: AnalysisStage) => void,
+  checkpoint: () => Promise<void>
+): Promise<LiveFrameExtraction> => {
+  if (!hasChartColors(frame.data)) {
+    console.log('📊 Nenhum gráfico detectado na tela');
+    return { hasChart: false, extraction: null };
+  }
+  await checkpoint();
+
+  // Corrigir a perspectiva da tela filmada em ângulo
+  const detection = detectChartQuadrilateral(frame.data, frame.width, frame.height);
+  const rectified = detection && detection.confidence >= MIN_PERSPECTIVE_CONFIDENCE && detection.needsCorrection
+    ? warpPerspective(frame.data, frame.width, frame.height, detection.corners)
+    : frame;
+  await checkpoint();
+
+  // Limpar moiré, faixas e reflexo na cópia reduzida (só quando detectados)
+  const { report, pixels: cleaned } = cleanScreenCapture(rectified.data, rectified.width, rectified.height);
+  if (cleaned) console.log('Limpeza da captura de tela:', report.corrections.join('; '));
+  const image = cleaned ?? rectified;
+  await checkpoint();
+
+  enhanceChartPixels(image.data, image.width, image.height);
+  await checkpoint();
+
+  const extraction = extractChartDataFromPixels(
+    image.data, image.width, image.height, settings.timeframe, settings.storedPalette, settings.profile,
+    onStage, settings.referenceTime
+  );
+  return { hasChart: true, extraction };
+};
@@ -1,5 +1,7 @@
-import { CandleData } from '../context/AnalyzerContext';
+import { CandleData, ChartType, TimeframeType } from '../context/AnalyzerContext';
 import { detectCandlestickPatterns } from './candlestickPatternDetection';
+import { ema, lastValue, macd, stochastic } from './indicators';
+import { resampleCandles } from './timeframeResampling';
 
 // Técnicas dos Mestres da Análise Técnica
 // Baseado em Bulkowski, Edwards & Magee, Elder, Murphy
@@ -14,11 +16,13 @@ export interface BulkowskiPattern {
 }
 
 export interface EdwardsMageeFormation {
-  type: 'head_shoulders' | 'triangle' | 'rectangle' | 'flag' | 'pennant' | 'cup_handle';
+  type: 'head_shoulders' | 'triangle' | 'rectangle' | 'flag' | 'pennant' | 'cup_handle' | 'double_top' | 'double_bottom' | 'wedge';
   reliability: 'high' | 'medium' | 'low';
-  minimumDuration: number; // Em períodos
+  minimumDuration: number; // Em períodos, entre pivôs consecutivos da formação
   volumePattern: string;
   breakoutCriteria: string;
+  volumeDeclines: boolean; // Volume deve secar durante a formação
+  breakoutVolumeRatio: number; // Volume do candle de rompimento em relação à média da formação
 }
 
 export interface ElderTripleScreen {
@@ -26,6 +30,11 @@ export interface ElderTripleScreen {
   mediumTermOscillator: 'buy' | 'sell' | 'neutral';
   shortTermEntry: 'long' | 'short' | 'wait';
   confidence: number;
+  timeframes?: { tide: TimeframeType; wave: TimeframeType; ripple: TimeframeType }; // Primeira, segunda e terceira tela (ausente quando desativadas)
+  unavailable: { tide?: string; wave?: string }; // Telas que não votaram, com o motivo mostrado ao usuário
+  entryStop?: number; // Ordem stop de entrada, arrastada até a máxima/mínima da última barra
+  protectiveStop?: number;
+  reasons: string[];
 }
 
 export interface MurphyTechnical {
@@ -38,6 +47,7 @@ export interface MurphyTechnical {
     level: number;
     strength: 'strong' | 'moderate' | 'weak';
     type: 'support' | 'resistance';
+    touches: number;
   }[];
   volumeAnalysis: {
     trend: 'confirming' | 'diverging' | 'neutral';
@@ -48,13 +58,21 @@ export interface MurphyTechnical {
 // Padrões do Bulkowski com estatísticas reais
 export const bulkowskiPatterns: Record<string, BulkowskiPattern> = {
   'Pin Bar': {
-    name: 'Pin Bar (Hammer/Shooting Star)',
+    name: 'Pin Bar de Alta (Hammer)',
     reliability: 0.74,
     breakoutDirection: 'up',
     averageMove: 8.2,
     failureRate: 0.26,
     volumeImportance: 'important'
   },
+  'Pin Bar de Baixa': {
+    name: 'Pin Bar de Baixa (Shooting Star)',
+    reliability: 0.69,
+    breakoutDirection: 'down',
+    averageMove: -7.6,
+    failureRate: 0.31,
+    volumeImportance: 'important'
+  },
   'Engolfo de Alta': {
     name: 'Bullish Engulfing',
     reliability: 0.68,
@@ -81,6 +99,16 @@ export const bulkowskiPatterns: Record<string, BulkowskiPattern> = {
   }
 };
 
+// Tipos do detector de candles (DetectedPattern.type) → entrada da tabela do Bulkowski
+export const BULKOWSKI_KEYS: Record<string, string> = {
+  martelo: 'Pin Bar',
+  estrela_cadente: 'Pin Bar de Baixa',
+  pin_bar_bullish: 'Pin Bar',
+  pin_bar_bearish: 'Pin Bar de Baixa',
+  engolfo_alta: 'Engolfo de Alta',
+  engolfo_baixa: 'Engolfo de Baixa'
+};
+
 // Formações Edwards & Magee
 export const edwardsMageeFormations: Record<string, EdwardsMageeFormation> = {
   'head_shoulders': {
@@ -88,75 +116,316 @@ export const edwardsMageeFormations: Record<string, EdwardsMageeFormation> = {
     reliability: 'high',
     minimumDuration: 3,
     volumePattern: 'Diminui no ombro direito, aumenta no rompimento',
-    breakoutCriteria: 'Fechamento abaixo da linha do pescoço com volume'
+    breakoutCriteria: 'Fechamento abaixo da linha do pescoço com volume',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.2
   },
   'triangle': {
     type: 'triangle',
     reliability: 'medium',
     minimumDuration: 2,
     volumePattern: 'Diminui durante formação, explode no breakout',
-    breakoutCriteria: 'Fechamento fora da linha de tendência com volume 50% acima da média'
+    breakoutCriteria: 'Fechamento fora da linha de tendência com volume 50% acima da média',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.5
+  },
+  'double_top': {
+    type: 'double_top',
+    reliability: 'medium',
+    minimumDuration: 5,
+    volumePattern: 'Menor no segundo topo que no primeiro',
+    breakoutCriteria: 'Fechamento abaixo do fundo entre os topos',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.2
+  },
+  'double_bottom': {
+    type: 'double_bottom',
+    reliability: 'medium',
+    minimumDuration: 5,
+    volumePattern: 'Menor no segundo fundo, aumenta na subida',
+    breakoutCriteria: 'Fechamento acima do topo entre os fundos com volume',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.5
+  },
+  'wedge': {
+    type: 'wedge',
+    reliability: 'medium',
+    minimumDuration: 3,
+    volumePattern: 'Diminui conforme as linhas convergem',
+    breakoutCriteria: 'Fechamento fora da cunha, contra a inclinação',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.2
+  },
+  'flag': {
+    type: 'flag',
+    reliability: 'high',
+    minimumDuration: 3,
+    volumePattern: 'Alto no mastro, seca na bandeira',
+    breakoutCriteria: 'Fechamento além da bandeira na direção do mastro',
+    volumeDeclines: true,
+    breakoutVolumeRatio: 1.2
   }
 };
 
-// Sistema Triple Screen do Elder
-export const analyzeTripleScreen = (timeframe: string): ElderTripleScreen => {
-  // Simula análise baseada no sistema do Elder
-  const longTermTrends = ['up', 'down', 'sideways'] as const;
-  const oscillators = ['buy', 'sell', 'neutral'] as const;
-  const entries = ['long', 'short', 'wait'] as const;
-  
-  const longTerm = longTermTrends[Math.floor(Math.random() * 3)];
-  const oscillator = oscillators[Math.floor(Math.random() * 3)];
-  
-  let entry: 'long' | 'short' | 'wait' = 'wait';
-  let confidence = 0.5;
-  
-  if (longTerm === 'up' && oscillator === 'buy') {
-    entry = 'long';
-    confidence = 0.85;
-  } else if (longTerm === 'down' && oscillator === 'sell') {
-    entry = 'short';
-    confidence = 0.82;
+// Telas do Elder: cada uma em um timeframe maior que o anterior. Acima do 4h não há
+// dois timeframes maiores que o app reconheça, então o diário e o semanal ficam sem telas
+const ELDER_TIMEFRAMES: Partial<Record<TimeframeType, [TimeframeType, TimeframeType]>> = {
+  '1m': ['5m', '15m'],
+  '5m': ['15m', '1h'],
+  '15m': ['1h', '4h'],
+  '30m': ['1h', '4h'],
+  '1h': ['4h', '1d'],
+  '4h': ['1d', '1w']
+};
+
+// Barras reamostradas mínimas para cada tela votar: MACD (26 + 9) na maré, Estocástico 14 na onda
+const MIN_TIDE_BARS = 35;
+const MIN_WAVE_BARS = 14;
+
+type Vote = 1 | -1 | 0;
+
+const sign = (value: number, threshold = 0): Vote => (value > threshold ? 1 : value < -threshold ? -1 : 0);
+
+// Inclinação da série entre os dois últimos valores calculados
+const lastSlope = (series: (number | null)[]): number | null => {
+  const values = series.filter((value): value is number => value !== null);
+  return values.length >= 2 ? values[values.length - 1] - values[values.length - 2] : null;
+};
+
+// Primeira tela: inclinação da EMA e do histograma MACD no timeframe maior (chamada com MIN_TIDE_BARS ou mais)
+const tideVotes = (candles: CandleData[]): { votes: Vote[]; reasons: string[] } => {
+  const votes: Vote[] = [];
+  const reasons: string[] = [];
+  const averageRange = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length;
+
+  const emaSlope = lastSlope(ema(candles.map(c => c.close), 13));
+  if (emaSlope !== null) {
+    const vote = sign(emaSlope, averageRange * 0.05);
+    votes.push(vote);
+    reasons.push(`EMA 13 ${vote === 1 ? 'subindo' : vote === -1 ? 'caindo' : 'lateral'}`);
   }
-  
+  const histogramSlope = lastSlope(macd(candles).histogram);
+  if (histogramSlope !== null) {
+    votes.push(sign(histogramSlope));
+    reasons.push(`Histograma MACD ${histogramSlope > 0 ? 'subindo' : 'caindo'}`);
+  }
+  return { votes, reasons };
+};
+
+// Segunda tela: Force Index de 2 períodos e Estocástico contra a maré (recuo dentro da tendência),
+// chamada com MIN_WAVE_BARS ou mais
+const waveVotes = (candles: CandleData[]): { votes: Vote[]; reasons: string[] } => {
+  const votes: Vote[] = [];
+  const reasons: string[] = [];
+
+  if (candles.length >= 3 && candles.every(c => c.volume !== undefined)) {
+    const force = candles.map((c, i) => (i === 0 ? null : (c.close - candles[i - 1].close) * (c.volume as number)));
+    const forceIndex = lastValue(ema(force, 2));
+    if (forceIndex !== null) {
+      // Force Index negativo é oportunidade de compra; positivo, de venda
+      votes.push(sign(-forceIndex));
+      reasons.push(`Force Index (2) ${forceIndex < 0 ? 'negativo' : forceIndex > 0 ? 'positivo' : 'neutro'}`);
+    }
+  }
+
+  const k = lastValue(stochastic(candles, 14).k);
+  if (k !== null) {
+    votes.push(k < 30 ? 1 : k > 70 ? -1 : 0);
+    reasons.push(`Estocástico ${k.toFixed(0)}${k < 30 ? ' (sobrevendido)' : k > 70 ? ' (sobrecomprado)' : ''}`);
+  }
+
+  return { votes, reasons };
+};
+
+// Concordância das leituras com a direção: 1 quando todas apontam para ela
+const agreement = (votes: Vote[], direction: Vote) =>
+  votes.length === 0 || direction === 0 ? 0 : votes.filter(vote => vote === direction).length / votes.length;
+
+// Tela sem barras reamostradas suficientes fica fora da votação, com o motivo
+const screenVotes = (
+  candles: CandleData[],
+  name: string,
+  timeframe: TimeframeType,
+  minBars: number,
+  vote: (candles: CandleData[]) => { votes: Vote[]; reasons: string[] }
+): { votes: Vote[]; reasons: string[]; unavailable?: string } => {
+  if (candles.length >= minBars) return vote(candles);
+  const unavailable = `${name} (${timeframe}) indisponível: ${candles.length} de ${minBars} barras necessárias`;
+  return { votes: [], reasons: [unavailable], unavailable };
+};
+
+// Sistema Triple Screen do Elder sobre os candles reamostrados para os dois timeframes maiores
+export const analyzeTripleScreen = (candles: CandleData[], timeframe: TimeframeType): ElderTripleScreen => {
+  const screens = ELDER_TIMEFRAMES[timeframe];
+  if (!screens) {
+    const unavailable = `Sem timeframes maiores que ${timeframe} para as telas do Elder`;
+    return {
+      longTermTrend: 'sideways',
+      mediumTermOscillator: 'neutral',
+      shortTermEntry: 'wait',
+      confidence: 0,
+      unavailable: { tide: unavailable, wave: unavailable },
+      reasons: [unavailable]
+    };
+  }
+  const [wave, tide] = screens;
+  const timeframes = { tide, wave, ripple: timeframe };
+
+  const tideScreen = screenVotes(resampleCandles(candles, timeframe, tide), 'Primeira tela', tide, MIN_TIDE_BARS, tideVotes);
+  const waveScreen = screenVotes(resampleCandles(candles, timeframe, wave), 'Segunda tela', wave, MIN_WAVE_BARS, waveVotes);
+  const reasons = [...tideScreen.reasons, ...waveScreen.reasons];
+
+  // Maré só tem direção quando nenhum filtro de tendência discorda
+  const tideDirection: Vote = tideScreen.votes.length > 0 && tideScreen.votes.every(vote => vote === 1) ? 1
+    : tideScreen.votes.length > 0 && tideScreen.votes.every(vote => vote === -1) ? -1 : 0;
+  const longTermTrend = tideDirection === 1 ? 'up' : tideDirection === -1 ? 'down' : 'sideways';
+
+  const waveSum = waveScreen.votes.reduce<number>((sum, vote) => sum + vote, 0);
+  const mediumTermOscillator = waveSum > 0 ? 'buy' : waveSum < 0 ? 'sell' : 'neutral';
+
+  // Terceira tela: ordem stop móvel na máxima (compra) ou mínima (venda) da última barra
+  const last = candles[candles.length - 1];
+  const previous = candles[candles.length - 2];
+  let shortTermEntry: ElderTripleScreen['shortTermEntry'] = 'wait';
+  let entryStop: number | undefined;
+  let protectiveStop: number | undefined;
+  let rippleScore = 0;
+
+  if (last && previous && tideDirection !== 0 && waveSum * tideDirection > 0) {
+    shortTermEntry = tideDirection === 1 ? 'long' : 'short';
+    entryStop = tideDirection === 1 ? last.high : last.low;
+    protectiveStop = tideDirection === 1 ? Math.min(last.low, previous.low) : Math.max(last.high, previous.high);
+    // Barra que já rompeu a anterior no sentido da maré confirma a virada da onda
+    const triggered = tideDirection === 1 ? last.high > previous.high : last.low < previous.low;
+    rippleScore = triggered ? 1 : 0.5;
+    reasons.push(`${tideDirection === 1 ? 'Compra' : 'Venda'} stop em ${entryStop.toFixed(4)}, proteção em ${protectiveStop.toFixed(4)}` +
+      (triggered ? ' (a última barra já rompeu a anterior)' : ''));
+  } else {
+    reasons.push(tideDirection === 0 ? 'Maré sem direção: fora do mercado' : 'Onda ainda não recuou contra a maré');
+  }
+
+  const score = (agreement(tideScreen.votes, tideDirection) + agreement(waveScreen.votes, tideDirection) + rippleScore) / 3;
+  const confidence = shortTermEntry === 'wait' ? 0.3 + 0.3 * score : Math.min(0.95, 0.5 + 0.45 * score);
+
   return {
-    longTermTrend: longTerm,
-    mediumTermOscillator: oscillator,
-    shortTermEntry: entry,
-    confidence
+    longTermTrend,
+    mediumTermOscillator,
+    shortTermEntry,
+    confidence,
+    timeframes,
+    unavailable: { tide: tideScreen.unavailable, wave: waveScreen.unavailable },
+    entryStop,
+    protectiveStop,
+    reasons
   };
 };
 
-// Análise técnica do Murphy
-export const murphyTechnicalAnalysis = (): MurphyTechnical => {
+type TrendDirection = MurphyTechnical['trendAnalysis']['primary'];
+
+// Topos e fundos com `width` barras menores de cada lado: quanto maior a largura, maior a escala do movimento
+const swingsAtScale = (candles: CandleData[], width: number) => {
+  const highs: number[] = [];
+  const lows: number[] = [];
+  for (let i = width; i < candles.length - width; i++) {
+    const neighbours = [...candles.slice(i - width, i), ...candles.slice(i + 1, i + width + 1)];
+    if (neighbours.every(c => c.high < candles[i].high)) highs.push(candles[i].high);
+    if (neighbours.every(c => c.low > candles[i].low)) lows.push(candles[i].low);
+  }
+  return { highs, lows };
+};
+
+// Dow/Murphy: topos e fundos ascendentes = alta; descendentes = baixa; o resto é lateral
+// (diferenças menores que um quarto do range médio contam como mesmo nível)
+const trendAtScale = (candles: CandleData[], width: number): TrendDirection => {
+  const { highs, lows } = swingsAtScale(candles, width);
+  if (highs.length < 2 || lows.length < 2) return 'neutral';
+  const tolerance = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length * 0.25;
+  const compare = (values: number[]) => {
+    const change = values[values.length - 1] - values[values.length - 2];
+    return change > tolerance ? 1 : change < -tolerance ? -1 : 0;
+  };
+  const highStep = compare(highs);
+  const lowStep = compare(lows);
+  if (highStep === 1 && lowStep === 1) return 'bullish';
+  if (highStep === -1 && lowStep === -1) return 'bearish';
+  return 'neutral';
+};
+
+// Suporte e resistência: pivôs agrupados quando estão a menos de meio range médio um do outro
+const clusterLevels = (candles: CandleData[]): MurphyTechnical['supportResistance'] => {
+  const averageRange = candles.reduce((sum, c) => sum + (c.high - c.low), 0) / candles.length;
+  const { highs, lows } = swingsAtScale(candles, 2);
+  const touches = [...highs, ...lows].sort((a, b) => a - b);
+  const clusters: number[][] = [];
+  touches.forEach(price => {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && price - cluster[cluster.length - 1] <= averageRange * 0.5) cluster.push(price);
+    else clusters.push([price]);
+  });
+
+  const lastClose = candles[candles.length - 1].close;
+  return clusters
+    .filter(cluster => cluster.length >= 2)
+    .map(cluster => {
+      const level = cluster.reduce((sum, price) => sum + price, 0) / cluster.length;
+      const strength: 'strong' | 'moderate' | 'weak' = cluster.length >= 4 ? 'strong' : cluster.length === 3 ? 'moderate' : 'weak';
+      const type: 'support' | 'resistance' = level <= lastClose ? 'support' : 'resistance';
+      return { level, strength, type, touches: cluster.length };
+    })
+    .sort((a, b) => b.touches - a.touches || Math.abs(a.level - lastClose) - Math.abs(b.level - lastClose))
+    .slice(0, 6);
+};
+
+// Volume acompanha a tendência quando é maior nas barras a favor dela
+const volumeVersusTrend = (candles: CandleData[], primary: TrendDirection): MurphyTechnical['volumeAnalysis'] => {
+  const recent = candles.slice(-20);
+  if (recent.length < 5 || recent.some(c => c.volume === undefined)) return { trend: 'neutral', significance: 'low' };
+
+  const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+  const upVolume = mean(recent.filter(c => c.close > c.open).map(c => c.volume as number));
+  const downVolume = mean(recent.filter(c => c.close < c.open).map(c => c.volume as number));
+  if (upVolume === 0 || downVolume === 0 || primary === 'neutral') return { trend: 'neutral', significance: 'low' };
+
+  const ratio = primary === 'bullish' ? upVolume / downVolume : downVolume / upVolume;
+  const trend = ratio > 1.1 ? 'confirming' : ratio < 1 / 1.1 ? 'diverging' : 'neutral';
+  const spread = Math.max(ratio, 1 / ratio);
+  return { trend, significance: spread >= 1.5 ? 'high' : spread >= 1.15 ? 'medium' : 'low' };
+};
+
+// Análise técnica do Murphy a partir dos candles: tendência em três escalas, S/R por toques e volume
+export const murphyTechnicalAnalysis = (candles: CandleData[]): MurphyTechnical => {
+  if (candles.length < 5) {
+    return {
+      trendAnalysis: { primary: 'neutral', secondary: 'neutral', minor: 'neutral' },
+      supportResistance: [],
+      volumeAnalysis: { trend: 'neutral', significance: 'low' }
+    };
+  }
+
+  // Escala primária cresce com a série para ainda encontrar ao menos dois topos e dois fundos
+  const primaryWidth = Math.max(5, Math.min(10, Math.floor(candles.length / 12)));
+  const primary = trendAtScale(candles, primaryWidth);
   return {
     trendAnalysis: {
-      primary: 'bullish',
-      secondary: 'neutral',
-      minor: 'bullish'
+      primary,
+      secondary: trendAtScale(candles, Math.max(3, Math.floor(primaryWidth / 2))),
+      minor: trendAtScale(candles, 2)
     },
-    supportResistance: [
-      { level: 125.50, strength: 'strong', type: 'support' },
-      { level: 128.75, strength: 'moderate', type: 'resistance' }
-    ],
-    volumeAnalysis: {
-      trend: 'confirming',
-      significance: 'high'
-    }
+    supportResistance: clusterLevels(candles),
+    volumeAnalysis: volumeVersusTrend(candles, primary)
   };
 };
 
 // Função para integrar todas as análises
-export const getMasterAnalysis = (timeframe: string, patternType: string, candles: CandleData[]) => {
+export const getMasterAnalysis = (timeframe: TimeframeType, patternType: string, candles: CandleData[], chartType?: ChartType) => {
   // Detectar padrões de candlestick usando os candles reais
-  const detectedCandlePatterns = detectCandlestickPatterns(candles);
+  const detectedCandlePatterns = detectCandlestickPatterns(candles, chartType);
   
   // Priorizar o primeiro padrão detectado ou fallback para o tipo de padrão fornecido
   const primaryPattern = detectedCandlePatterns.length > 0 ? detectedCandlePatterns[0].type : patternType;
-  const bulkowski = bulkowskiPatterns[primaryPattern];
-  const tripleScreen = analyzeTripleScreen(timeframe);
-  const murphy = murphyTechnicalAnalysis();
+  const bulkowski = bulkowskiPatterns[BULKOWSKI_KEYS[primaryPattern] ?? primaryPattern];
+  const tripleScreen = analyzeTripleScreen(candles, timeframe);
+  const murphy = murphyTechnicalAnalysis(candles);
   
   return {
     bulkowski,
@@ -189,17 +458,25 @@ const generateMasterRecommendation = (
   // Elder Triple Screen
   recommendation += `🎯 Elder (Triple Screen): Tendência de longo prazo ${tripleScreen.longTermTrend}, `;
   recommendation += `oscilador ${tripleScreen.mediumTermOscillator}, entrada recomendada: ${tripleScreen.shortTermEntry}. `;
+  if (tripleScreen.entryStop !== undefined && tripleScreen.protectiveStop !== undefined) {
+    recommendation += `Ordem stop em ${tripleScreen.entryStop.toFixed(4)} com proteção em ${tripleScreen.protectiveStop.toFixed(4)}. `;
+  }
+  const unavailableScreens = [...new Set([tripleScreen.unavailable.tide, tripleScreen.unavailable.wave].filter(Boolean))];
+  if (unavailableScreens.length > 0) {
+    recommendation += `${unavailableScreens.join('; ')}. `;
+  }
   recommendation += `Confiança: ${elderConfidence.toFixed(0)}%.\n\n`;
   
   // Murphy
-  recommendation += `📈 Murphy: Tendência primária ${murphy.trendAnalysis.primary}, `;
+  recommendation += `📈 Murphy: Tendência primária ${murphy.trendAnalysis.primary}, secundária ${murphy.trendAnalysis.secondary}, menor ${murphy.trendAnalysis.minor}, `;
   recommendation += `volume ${murphy.volumeAnalysis.trend} a tendência. `;
   recommendation += `${murphy.supportResistance.length} níveis de S/R identificados.\n\n`;
   
   // Síntese
-  if (tripleScreen.shortTermEntry === 'long' && bulkowski.breakoutDirection === 'up') {
+  // Consenso exige que a tendência primária do Murphy não aponte contra a entrada
+  if (tripleScreen.shortTermEntry === 'long' && bulkowski.breakoutDirection === 'up' && murphy.trendAnalysis.primary !== 'bearish') {
     recommendation += `✅ CONSENSO DOS MESTRES: Sinal de COMPRA confirmado por múltiplas metodologias.`;
-  } else if (tripleScreen.shortTermEntry === 'short' && bulkowski.breakoutDirection === 'down') {
+  } else if (tripleScreen.shortTermEntry === 'short' && bulkowski.breakoutDirection === 'down' && murphy.trendAnalysis.primary !== 'bullish') {
     recommendation += `✅ CONSENSO DOS MESTRES: Sinal de VENDA confirmado por múltiplas metodologias.`;
   } else {
     recommendation += `⚠️ DIVERGÊNCIA: Metodologias apresentam sinais conflitantes. Aguardar maior clareza.`;
@@ -0,0 +1,89 @@
+/**
+ * Visão combinada de prints com vários gráficos: resume a direção de cada
+ * painel e aponta concordância ou conflito entre eles, dando prioridade ao
+ * maior timeframe quando os painéis divergem.
+ */
+
+import { AnalysisResult, TimeframeType } from '@/context/AnalyzerContext';
+import { TIMEFRAME_DURATIONS } from './timeAxisCalibration';
+
+export type PanelDirection = 'alta' | 'baixa' | 'neutro';
+
+export interface PanelVerdict {
+  index: number;
+  label: string; // Cabeçalho lido no painel, ou "Painel N"
+  timeframe: TimeframeType | null;
+  direction: PanelDirection;
+  confidence: number; // 0-1
+}
+
+export interface PanelConsensus {
+  verdicts: PanelVerdict[];
+  status: 'concordância' | 'conflito' | 'neutro';
+  direction: PanelDirection; // Direção com maior peso (confiança somada)
+  agreement: number; // 0-1, fração do peso direcional do lado vencedor
+  higherTimeframeDirection: PanelDirection | null;
+  summary: string;
+}
+
+// Direção de um painel: ação do padrão principal, senão a fase do mercado
+const panelDirection = (result: AnalysisResult): { direction: PanelDirection; confidence: number } => {
+  const pattern = result.patterns[0];
+  if (pattern?.action === 'compra') return { direction: 'alta', confidence: pattern.confidence };
+  if (pattern?.action === 'venda') return { direction: 'baixa', confidence: pattern.confidence };
+
+  const phase = result.marketContext?.phase;
+  if (phase === 'tendência_alta') return { direction: 'alta', confidence: 0.5 };
+  if (phase === 'tendência_baixa') return { direction: 'baixa', confidence: 0.5 };
+  return { direction: 'neutro', confidence: pattern?.confidence ?? 0 };
+};
+
+export const combinePanelResults = (results: AnalysisResult[]): PanelConsensus => {
+  const verdicts: PanelVerdict[] = results.map((result, i) => {
+    const index = result.panel?.index ?? i;
+    return {
+      index,
+      label: result.panel?.header?.text || `Painel ${index + 1}`,
+      timeframe: result.timeCalibration?.timeframe || result.marketContext?.dominantTimeframe || null,
+      ...panelDirection(result)
+    };
+  });
+
+  const weightOf = (direction: PanelDirection) => verdicts
+    .filter(verdict => verdict.direction === direction)
+    .reduce((sum, verdict) => sum + Math.max(0.1, verdict.confidence), 0);
+  const bullish = weightOf('alta');
+  const bearish = weightOf('baixa');
+  const directional = bullish + bearish;
+
+  // Painel de maior timeframe conhecido com direção definida
+  const higher = verdicts
+    .filter(verdict => verdict.timeframe && verdict.direction !== 'neutro')
+    .sort((a, b) => TIMEFRAME_DURATIONS[b.timeframe!] - TIMEFRAME_DURATIONS[a.timeframe!])[0];
+  const higherTimeframeDirection = higher ? higher.direction : null;
+
+  const status: PanelConsensus['status'] = directional === 0
+    ? 'neutro'
+    : bullish > 0 && bearish > 0 ? 'conflito' : 'concordância';
+  let direction: PanelDirection = directional === 0 ? 'neutro' : bullish >= bearish ? 'alta' : 'baixa';
+  // Em conflito equilibrado, o maior timeframe decide
+  if (status === 'conflito' && higherTimeframeDirection && Math.abs(bullish - bearish) < directional * 0.2) {
+    direction = higherTimeframeDirection;
+  }
+  const agreement = directional === 0 ? 0 : Math.max(bullish, bearish) / directional;
+
+  const describe = (verdict: PanelVerdict) => `${verdict.label}${verdict.timeframe ? ` (${verdict.timeframe})` : ''}`;
+  let summary: string;
+  if (status === 'neutro') {
+    summary = `Nenhum dos ${verdicts.length} painéis tem direção definida.`;
+  } else if (status === 'concordância') {
+    const neutral = verdicts.filter(verdict => verdict.direction === 'neutro').length;
+    summary = `Painéis concordam: ${direction}` + (neutral > 0 ? ` (${neutral} neutro${neutral > 1 ? 's' : ''}).` : '.');
+  } else {
+    const against = verdicts.filter(verdict => verdict.direction !== 'neutro' && verdict.direction !== direction);
+    summary = `Conflito entre painéis: ${direction} predomina, contra ${against.map(describe).join(', ')}.` +
+      (higher ? ` Maior timeframe: ${describe(higher)} em ${higher.direction}.` : '');
+  }
+
+  return { verdicts, status, direction, agreement, higherTimeframeDirection, summary };
+};
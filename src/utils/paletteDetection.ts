@@ -0,0 +1,355 @@
+/**
+ * Detecção do esquema de cores do gráfico: agrupa as cores dominantes que não
+ * pertencem ao fundo, identifica quais formam candles e atribui os papéis de
+ * alta e baixa. Também permite a calibração manual (um toque em cada candle)
+ * e guarda a paleta por perfil de plataforma.
+ */
+
+import { CandlePalette, Point } from '@/context/AnalyzerContext';
+import { labelComponents, TextBox } from './chartOcr';
+
+type RGB = [number, number, number];
+
+type ColorCluster = {
+  color: RGB;
+  count: number;
+  candleLikeComponents: number;
+};
+
+export type CandlePixelClass = 'verde' | 'vermelho' | 'preto' | 'branco';
+
+const DEFAULT_TOLERANCE = 48;
+const STORAGE_PREFIX = 'chart-palette:';
+
+const colorDistance = (a: RGB, b: RGB): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+// Cor de borda antisserrilhada: mistura de uma cor de candle com o fundo
+export const isBlendWithBackground = (color: RGB, base: RGB, background: RGB): boolean => {
+  const axis = [0, 1, 2].map(k => background[k] - base[k]);
+  const lengthSq = axis.reduce((sum, v) => sum + v * v, 0);
+  if (lengthSq === 0) return false;
+
+  const t = [0, 1, 2].reduce((sum, k) => sum + (color[k] - base[k]) * axis[k], 0) / lengthSq;
+  if (t < 0.1 || t > 0.9) return false;
+
+  const projected = [0, 1, 2].map(k => base[k] + t * axis[k]) as RGB;
+  return colorDistance(color, projected) < 20;
+};
+
+const luminance = (c: RGB): number => 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2];
+
+// Matiz (0-360) e saturação (0-1) de uma cor
+export const hueSaturation = (c: RGB): { hue: number; saturation: number } => {
+  const [r, g, b] = c.map(v => v / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (delta === 0) return { hue: 0, saturation: 0 };
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return { hue: (hue * 60 + 360) % 360, saturation: delta / max };
+};
+
+// Classificador de pixels de candle: usa a paleta quando disponível, senão os limiares verde/vermelho
+export const createCandlePixelClassifier = (
+  palette?: CandlePalette | null
+): ((r: number, g: number, b: number) => CandlePixelClass | null) => {
+  if (!palette) {
+    return (r, g, b) => {
+      if (g > 1.2 * r && g > 1.2 * b && g > 70) return 'verde';
+      if (r > 1.2 * g && r > 1.2 * b && r > 70) return 'vermelho';
+      const lum = (r + g + b) / 3;
+      if (lum < 30) return 'preto';
+      if (lum > 220) return 'branco';
+      return null;
+    };
+  }
+
+  const { bullish, bearish, tolerance } = palette;
+  return (r, g, b) => {
+    const pixel: RGB = [r, g, b];
+    const toBull = colorDistance(pixel, bullish);
+    const toBear = colorDistance(pixel, bearish);
+    if (Math.min(toBull, toBear) > tolerance) return null;
+    // Paleta monocromática: a cor é decidida depois pelo preenchimento do corpo
+    if (palette.hollowBullish) return 'vermelho';
+    return toBull <= toBear ? 'verde' : 'vermelho';
+  };
+};
+
+// Contar componentes com formato de candle (altos e estreitos) para uma cor
+const countCandleLikeComponents = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  color: RGB,
+  tolerance: number,
+  excluded: Uint8Array
+): number => {
+  const mask = new Uint8Array(width * height);
+  for (let p = 0; p < mask.length; p++) {
+    if (excluded[p]) continue;
+    const i = p * 4;
+    if (colorDistance([data[i], data[i + 1], data[i + 2]], color) <= tolerance) {
+      mask[p] = 1;
+    }
+  }
+
+  const maxCandleWidth = Math.max(3, width * 0.06);
+  return labelComponents(mask, width, height).filter(c => {
+    const w = c.x2 - c.x1 + 1;
+    const h = c.y2 - c.y1 + 1;
+    return h >= 3 && w <= maxCandleWidth && h <= height * 0.9 && h >= w * 0.8;
+  }).length;
+};
+
+// Atribuir alta/baixa: matiz quando houver cor, luminância nos temas preto/branco
+const assignRoles = (a: RGB, b: RGB, background: RGB): { bullish: RGB; bearish: RGB; certainty: number } => {
+  const isBearishHue = (c: RGB) => {
+    const { hue, saturation } = hueSaturation(c);
+    return saturation > 0.3 && (hue < 50 || hue > 320); // vermelho, laranja, magenta
+  };
+  const isBullishHue = (c: RGB) => {
+    const { hue, saturation } = hueSaturation(c);
+    return saturation > 0.3 && hue >= 70 && hue <= 260; // verde, ciano, azul
+  };
+
+  if (isBullishHue(a) && isBearishHue(b)) return { bullish: a, bearish: b, certainty: 0.9 };
+  if (isBullishHue(b) && isBearishHue(a)) return { bullish: b, bearish: a, certainty: 0.9 };
+  if (isBearishHue(b) && !isBearishHue(a)) return { bullish: a, bearish: b, certainty: 0.7 };
+  if (isBearishHue(a) && !isBearishHue(b)) return { bullish: b, bearish: a, certainty: 0.7 };
+
+  // Temas preto/branco: o candle de alta é normalmente o mais claro
+  const bullishIsLighter = luminance(a) > luminance(b);
+  const certainty = luminance(background) < 128 ? 0.55 : 0.5;
+  return bullishIsLighter
+    ? { bullish: a, bearish: b, certainty }
+    : { bullish: b, bearish: a, certainty };
+};
+
+// Aprender a paleta de candles a partir das cores dominantes da imagem
+export const learnCandlePalette = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: {
+    textBoxes?: TextBox[];
+    excludeColumns?: { x: number; width: number };
+    excludeRows?: { y: number; height: number };
+  } = {}
+): CandlePalette | null => {
+  // Áreas ignoradas: eixos e blocos de texto
+  const excluded = new Uint8Array(width * height);
+  const markExcluded = (x0: number, y0: number, w: number, h: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(height, y0 + h); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(width, x0 + w); x++) {
+        excluded[y * width + x] = 1;
+      }
+    }
+  };
+  if (options.excludeColumns) markExcluded(options.excludeColumns.x, 0, options.excludeColumns.width, height);
+  if (options.excludeRows) markExcluded(0, options.excludeRows.y, width, options.excludeRows.height);
+  for (const box of options.textBoxes || []) markExcluded(box.x - 1, box.y - 1, box.width + 2, box.height + 2);
+
+  // Histograma de cores quantizadas (4 bits por canal), amostrando 1 a cada 2 pixels por eixo
+  const counts = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let sampled = 0;
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      const p = y * width + x;
+      if (excluded[p]) continue;
+      const i = p * 4;
+      const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+      const bin = counts.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+      bin.count++;
+      bin.r += data[i];
+      bin.g += data[i + 1];
+      bin.b += data[i + 2];
+      counts.set(key, bin);
+      sampled++;
+    }
+  }
+  if (sampled === 0) return null;
+
+  const bins = Array.from(counts.values())
+    .map(bin => ({ count: bin.count, color: [bin.r / bin.count, bin.g / bin.count, bin.b / bin.count] as RGB }))
+    .sort((a, b) => b.count - a.count);
+
+  const background = bins[0].color;
+
+  // Agrupar cores próximas, ignorando o fundo e cores raras (antisserrilhado)
+  const clusters: ColorCluster[] = [];
+  for (const bin of bins.slice(1)) {
+    if (bin.count < sampled * 0.0005) break;
+    if (colorDistance(bin.color, background) < DEFAULT_TOLERANCE) continue;
+
+    const existing = clusters.find(c => colorDistance(c.color, bin.color) < 40);
+    if (existing) {
+      const total = existing.count + bin.count;
+      existing.color = existing.color.map((v, k) => (v * existing.count + bin.color[k] * bin.count) / total) as RGB;
+      existing.count = total;
+    } else if (clusters.length < 8) {
+      clusters.push({ color: bin.color, count: bin.count, candleLikeComponents: 0 });
+    }
+  }
+
+  // Manter as cores que realmente formam candles
+  const evaluated = clusters
+    .sort((a, b) => b.count - a.count)
+    .filter((cluster, i, sorted) =>
+      !sorted.slice(0, i).some(base => isBlendWithBackground(cluster.color, base.color, background))
+    )
+    .slice(0, 6)
+    .map(cluster => ({
+      ...cluster,
+      candleLikeComponents: countCandleLikeComponents(data, width, height, cluster.color, DEFAULT_TOLERANCE / 1.5, excluded)
+    }))
+    .filter(cluster => cluster.candleLikeComponents >= 3)
+    .sort((a, b) => b.candleLikeComponents - a.candleLikeComponents);
+
+  if (evaluated.length === 0) {
+    console.log('Paleta de candles não identificada, usando limiares verde/vermelho');
+    return null;
+  }
+
+  const [first, second] = evaluated;
+
+  // Uma única cor de candle: tema monocromático, alta identificada pelo corpo vazado
+  if (!second || second.candleLikeComponents < first.candleLikeComponents * 0.15) {
+    const color = first.color.map(Math.round) as RGB;
+    return {
+      bullish: color,
+      bearish: color,
+      background: background.map(Math.round) as RGB,
+      tolerance: DEFAULT_TOLERANCE,
+      hollowBullish: true,
+      source: 'auto',
+      confidence: parseFloat((Math.min(1, first.candleLikeComponents / 10) * 0.4).toFixed(2))
+    };
+  }
+
+  const roles = assignRoles(first.color, second.color, background);
+  const separation = colorDistance(first.color, second.color);
+  const tolerance = Math.max(24, Math.min(DEFAULT_TOLERANCE, separation / 2));
+  const support = Math.min(1, Math.min(first.candleLikeComponents, second.candleLikeComponents) / 8);
+
+  const palette: CandlePalette = {
+    bullish: roles.bullish.map(Math.round) as RGB,
+    bearish: roles.bearish.map(Math.round) as RGB,
+    background: background.map(Math.round) as RGB,
+    tolerance,
+    source: 'auto',
+    confidence: parseFloat((roles.certainty * support).toFixed(2))
+  };
+
+  console.log(`Paleta aprendida: alta rgb(${palette.bullish.join(',')}), baixa rgb(${palette.bearish.join(',')}), confiança ${(palette.confidence * 100).toFixed(0)}%`);
+
+  return palette;
+};
+
+// Cor representativa ao redor de um toque; em candles vazados, procura a borda mais próxima
+const sampleCandleColor = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  point: Point,
+  background: RGB
+): RGB | null => {
+  const cx = Math.round(point.x);
+  const cy = Math.round(point.y);
+
+  for (let radius = 2; radius <= 12; radius += 2) {
+    const samples: RGB[] = [];
+    for (let y = cy - radius; y <= cy + radius; y++) {
+      for (let x = cx - radius; x <= cx + radius; x++) {
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        const i = (y * width + x) * 4;
+        const color: RGB = [data[i], data[i + 1], data[i + 2]];
+        if (colorDistance(color, background) >= DEFAULT_TOLERANCE) samples.push(color);
+      }
+    }
+    if (samples.length >= 3) {
+      // Mediana por canal para descartar antisserrilhado
+      return [0, 1, 2].map(k => {
+        const channel = samples.map(s => s[k]).sort((a, b) => a - b);
+        return channel[Math.floor(channel.length / 2)];
+      }) as RGB;
+    }
+  }
+
+  return null;
+};
+
+// Calibração manual: o usuário toca um candle de alta e um de baixa
+export const createManualPalette = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  bullishPoint: Point,
+  bearishPoint: Point
+): CandlePalette | null => {
+  // Fundo: cor mais frequente nas bordas da imagem
+  const border = new Map<number, { count: number; color: RGB }>();
+  const addBorder = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const entry = border.get(key) || { count: 0, color: [data[i], data[i + 1], data[i + 2]] as RGB };
+    entry.count++;
+    border.set(key, entry);
+  };
+  for (let x = 0; x < width; x += 2) {
+    addBorder(x, 0);
+    addBorder(x, height - 1);
+  }
+  for (let y = 0; y < height; y += 2) {
+    addBorder(0, y);
+    addBorder(width - 1, y);
+  }
+  const background = Array.from(border.values()).sort((a, b) => b.count - a.count)[0]?.color || [255, 255, 255];
+
+  const bullish = sampleCandleColor(data, width, height, bullishPoint, background);
+  const bearish = sampleCandleColor(data, width, height, bearishPoint, background);
+  if (!bullish || !bearish) return null;
+
+  const separation = colorDistance(bullish, bearish);
+  const sameColor = separation < 24;
+
+  return {
+    bullish,
+    bearish,
+    background,
+    tolerance: sameColor ? DEFAULT_TOLERANCE : Math.max(24, Math.min(DEFAULT_TOLERANCE, separation / 2)),
+    hollowBullish: sameColor || undefined,
+    source: 'manual',
+    confidence: 1
+  };
+};
+
+// Persistência por perfil de plataforma
+export const loadStoredPalette = (profileId: string): CandlePalette | null => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_PREFIX + profileId) : null;
+    return raw ? JSON.parse(raw) as CandlePalette : null;
+  } catch (e) {
+    console.error('Erro ao carregar paleta salva:', e);
+    return null;
+  }
+};
+
+export const storePalette = (profileId: string, palette: CandlePalette | null): void => {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (palette) {
+      localStorage.setItem(STORAGE_PREFIX + profileId, JSON.stringify(palette));
+    } else {
+      localStorage.removeItem(STORAGE_PREFIX + profileId);
+    }
+  } catch (e) {
+    console.error('Erro ao salvar paleta:', e);
+  }
+};
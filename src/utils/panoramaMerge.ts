@@ -0,0 +1,135 @@
+/**
+ * Modo panorama: vários prints do mesmo gráfico, rolados para a esquerda,
+ * viram uma única série longa. Cada print é registrado contra a série já
+ * montada pelos horários do eixo de tempo (quando legíveis) ou pelos candles
+ * em comum, sempre conferindo os preços calibrados da sobreposição.
+ */
+
+import { CandleData, ChartType } from '@/context/AnalyzerContext';
+import { ChartExtraction } from './imageProcessing';
+import { alignCandleSeries, withoutPixels } from './candleHistory';
+
+export interface PanoramaSeam {
+  frame: number; // Print incorporado nesta junção
+  joinedTo: number; // Print de onde vieram os candles da sobreposição
+  method: 'timestamp' | 'overlap'; // Registrado pelos horários do eixo ou só pelos candles
+  overlapStart: number; // Índice na série mesclada (inclusivo)
+  overlapEnd: number; // Índice na série mesclada (exclusivo)
+  matched: number; // Candles da sobreposição que conferem nos dois prints
+  priceError: number; // Diferença média de preço na sobreposição, em fração da faixa
+}
+
+export interface PanoramaResult {
+  candles: CandleData[];
+  sources: number[]; // Print de origem de cada candle
+  seams: PanoramaSeam[];
+  baseFrame: number; // Print cujas posições em pixels são mantidas (os demais ficam só com preços)
+  unmatched: number[]; // Prints sem sobreposição suficiente com os outros
+  chartType: ChartType;
+}
+
+const MIN_FRAME_CANDLES = 5;
+
+// Horários vindos do eixo de tempo (e não só do timeframe e do momento da captura)
+const hasAxisTimestamps = (extraction: ChartExtraction): boolean =>
+  (extraction.timeCalibration?.labels.filter(label => label.inlier && label.timestamp !== null).length || 0) >= 2;
+
+const barDuration = (extraction: ChartExtraction): number => extraction.timeCalibration?.barDurationMs || 60000;
+
+// Deslocamentos sugeridos pelos horários: candles com o mesmo horário são o mesmo candle
+const timestampOffsets = (merged: CandleData[], frame: CandleData[], bar: number): number[] => {
+  const offsets = new Set<number>();
+  merged.forEach((candle, index) => {
+    const k = Math.round((candle.timestamp - frame[0].timestamp) / bar);
+    if (k >= 0 && k < frame.length && Math.abs(frame[k].timestamp - candle.timestamp) < bar / 2) offsets.add(index - k);
+  });
+  return Array.from(offsets);
+};
+
+// Juntar os prints numa série única, do print com mais candles para os vizinhos
+export const mergePanoramaFrames = (extractions: ChartExtraction[]): PanoramaResult => {
+  // Sem eixo de preço calibrado os preços de prints diferentes não são comparáveis
+  const usable = extractions
+    .map((extraction, index) => ({ extraction, index }))
+    .filter(({ extraction }) => extraction.priceCalibration && extraction.candles.length >= MIN_FRAME_CANDLES);
+  const unusable = extractions.map((_, index) => index).filter(index => !usable.some(frame => frame.index === index));
+
+  if (usable.length === 0) {
+    return { candles: [], sources: [], seams: [], baseFrame: 0, unmatched: unusable, chartType: extractions[0]?.chartType || 'candles' };
+  }
+
+  const base = usable.reduce((best, frame) => (frame.extraction.candles.length > best.extraction.candles.length ? frame : best));
+  let merged = [...base.extraction.candles];
+  let sources = merged.map(() => base.index);
+  const seams: PanoramaSeam[] = [];
+  const pending = usable.filter(frame => frame !== base);
+  const axisTimes = new Set(hasAxisTimestamps(base.extraction) ? [base.index] : []);
+
+  while (pending.length > 0) {
+    // Registrar o print que mais candles confirma contra a série montada até aqui
+    let best: { frame: typeof pending[number]; offset: number; matched: number; error: number; method: PanoramaSeam['method'] } | null = null;
+    for (const frame of pending) {
+      const candles = frame.extraction.candles;
+      const minOffset = -(candles.length - 1);
+      let alignment = null;
+      let method: PanoramaSeam['method'] = 'overlap';
+
+      // Os dois lados com horários do eixo: testar só os deslocamentos que os horários indicam
+      if (hasAxisTimestamps(frame.extraction) && sources.some(source => axisTimes.has(source))) {
+        const offsets = timestampOffsets(merged, candles, barDuration(frame.extraction));
+        alignment = offsets.length > 0 ? alignCandleSeries(merged, candles, { offsets }) : null;
+        if (alignment) method = 'timestamp';
+      }
+      alignment = alignment || alignCandleSeries(merged, candles, { minOffset });
+
+      if (alignment && (!best || alignment.matched > best.matched)) best = { frame, ...alignment, method };
+    }
+    if (!best) break;
+
+    const { frame, offset, matched, error, method } = best;
+    const candles = frame.extraction.candles;
+    const bar = barDuration(frame.extraction);
+    pending.splice(pending.indexOf(frame), 1);
+    if (hasAxisTimestamps(frame.extraction)) axisTimes.add(frame.index);
+
+    // Candles antes do início da série são mais antigos; depois do fim, mais recentes
+    const older = candles.slice(0, Math.max(0, -offset));
+    const newer = candles.slice(Math.max(0, merged.length - offset));
+    const overlapSources = sources.slice(Math.max(0, offset), Math.min(merged.length, offset + candles.length));
+
+    // Horários contínuos: os candles novos seguem a série em passos de uma barra
+    const firstTime = merged[0].timestamp;
+    const lastTime = merged[merged.length - 1].timestamp;
+    const restampedOlder = older.map((candle, k) => ({ ...candle, timestamp: firstTime - bar * (older.length - k) }));
+    const restampedNewer = newer.map((candle, k) => ({ ...candle, timestamp: lastTime + bar * (k + 1) }));
+
+    merged = [...restampedOlder, ...merged, ...restampedNewer];
+    sources = [...older.map(() => frame.index), ...sources, ...newer.map(() => frame.index)];
+
+    const overlapStart = Math.max(0, offset) + older.length;
+    seams.push({
+      frame: frame.index,
+      joinedTo: overlapSources.length > 0 ? overlapSources[Math.floor(overlapSources.length / 2)] : base.index,
+      method,
+      overlapStart,
+      overlapEnd: overlapStart + (candles.length - older.length - newer.length),
+      matched,
+      priceError: error
+    });
+    console.log(`Panorama: print ${frame.index + 1} registrado (${method}), ${matched} candles em comum, ` +
+      `+${older.length} antigos, +${newer.length} recentes`);
+  }
+
+  const unmatched = [...unusable, ...pending.map(frame => frame.index)].sort((a, b) => a - b);
+  if (unmatched.length > 0) console.log(`Panorama: ${unmatched.length} print(s) sem sobreposição suficiente`);
+
+  return {
+    // Posições em pixels só fazem sentido no print de base
+    candles: merged.map((candle, index) => (sources[index] === base.index ? candle : withoutPixels(candle))),
+    sources,
+    seams,
+    baseFrame: base.index,
+    unmatched,
+    chartType: base.extraction.chartType
+  };
+};
@@ -1,5 +1,5 @@
 
-import { PatternResult, AnalysisResult, VolumeData, VolatilityData, TechnicalIndicator, ScalpingSignal, CandleData } from "../context/AnalyzerContext";
+import { PatternResult, AnalysisResult, VolumeData, VolatilityData, TechnicalIndicator, ScalpingSignal, CandleData, ChartType, TechnicalElement } from "../context/AnalyzerContext";
 import { mockCandles as generateMockCandles } from "./mockData";
 import { analyzeVolume } from "./volumeAnalysis";
 import { analyzeVolatility } from "./volatilityAnalysis";
@@ -8,6 +8,7 @@ import { performConfluenceAnalysis } from "./confluenceAnalysis";
 import { detectDivergences } from "./divergenceAnalysis";
 import { detectChartPatterns } from "./chartPatternDetection";
 import { detectCandlestickPatterns } from "./candlestickPatternDetection";
+import { detectFibonacciLevels, fibonacciEntries } from "./fibonacciAnalysis";
 import { detectTechnicalIndicators } from "./technicalIndicatorAnalysis";
 import { DetectedPattern } from "./types";
 import { 
@@ -30,6 +31,9 @@ interface AnalysisOptions {
   useConfluences?: boolean;
   enablePriceAction?: boolean;
   enableMarketContext?: boolean;
+  candles?: CandleData[]; // Candles já extraídos da imagem (ex.: pelo worker de análise)
+  chartType?: ChartType;
+  drawings?: TechnicalElement[]; // Linhas e zonas desenhadas pelo usuário, lidas do print
 }
 
 // Export missing functions that ControlPanel.tsx expects
@@ -89,9 +93,12 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
   const numCandles = options.optimizeForScalping ? 60 : 120;
   const timeframe = options.timeframe || '1m';
   
-  const candles = await generateMockCandles(numCandles, timeframe);
+  // Candles extraídos da imagem têm prioridade; poucos candles não sustentam a análise
+  const candles = options.candles && options.candles.length >= 10
+    ? options.candles
+    : await generateMockCandles(numCandles, timeframe);
   
-  console.log(`📊 Gerados ${candles.length} candles para análise`);
+  console.log(`📊 ${options.candles && candles === options.candles ? 'Extraídos' : 'Gerados'} ${candles.length} candles para análise`);
   
   // NOVO: Análise avançada de condições de mercado
   const advancedConditions = analyzeAdvancedMarketConditions(candles);
@@ -113,7 +120,7 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
   // CORRIGIDO: Detectar padrões reais de candlestick em vez de simulados
   let candlePatterns: DetectedPattern[] = [];
   if (options.enableCandleDetection !== false) {
-    candlePatterns = detectCandlestickPatterns(candles);
+    candlePatterns = detectCandlestickPatterns(candles, candles === options.candles ? options.chartType : undefined);
     console.log(`🕯️ Padrões de candlestick detectados: ${candlePatterns.length}`);
     
     // Log detalhado dos padrões para debug
@@ -137,6 +144,18 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
     action: pattern.action
   }));
   
+  // Formações gráficas clássicas (pivôs + critérios de Edwards & Magee)
+  const chartPatterns = detectChartPatterns(candles);
+  chartPatterns.forEach(formation => patterns.push({
+    type: formation.pattern,
+    confidence: formation.confidence * confidenceReduction,
+    description: formation.description,
+    recommendation: formation.recommendation,
+    action: formation.action,
+    stopLoss: formation.invalidation.toFixed(4),
+    takeProfit: formation.target.toFixed(4)
+  }));
+  
   console.log(`📋 Convertidos ${patterns.length} padrões para formato final`);
   
   // Adicionar warnings específicos se as condições são ruins
@@ -171,6 +190,18 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
     timeframe: options.timeframe || '1m',
     description: signal.description,
   }));
+  // Divergências regulares que acabaram de se formar também são entradas (reversão)
+  const lastIndex = candles.length - 1;
+  divergences
+    .filter(divergence => divergence.kind === 'regular' && lastIndex - divergence.anchors[1] <= 5)
+    .forEach(divergence => scalpingSignals.push({
+      type: 'entrada',
+      action: divergence.direction === 'alta' ? 'compra' : 'venda',
+      price: divergence.anchorCandles[1].close.toFixed(4),
+      confidence: divergence.confidence * confidenceReduction,
+      timeframe: options.timeframe || '1m',
+      description: divergence.description,
+    }));
   console.log(`⚡️ Scalping Signals: ${scalpingSignals.length} signals detected`);
   
   // Market context
@@ -178,9 +209,12 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
   console.log(`🌎 Market Context: Phase - ${marketContextAnalysis.phase}, Sentiment - ${marketContextAnalysis.sentiment}`);
   
   // Confluence analysis
-  const confluenceAnalysis = performConfluenceAnalysis(candles, candlePatterns);
+  const confluenceAnalysis = performConfluenceAnalysis(candles, candlePatterns, options.drawings);
   console.log(`🤝 Confluence Score: ${confluenceAnalysis.confluenceScore}`);
   
+  // Fibonacci da perna de impulso dominante, pontuado contra os S/R da confluência
+  const fibonacci = detectFibonacciLevels(candles, confluenceAnalysis.supportResistance);
+  
   // NOVO: Criar contexto de mercado aprimorado
   const enhancedMarketContext: EnhancedMarketContext = {
     phase: 'lateral',
@@ -200,10 +234,18 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
     patterns,
     timestamp: Date.now(),
     imageUrl: imageData,
-    technicalElements: [],
+    technicalElements: [
+      ...(options.drawings || []),
+      ...chartPatterns.flatMap(formation => formation.elements),
+      ...divergences.flatMap(divergence => (divergence.overlay ? [divergence.overlay] : [])),
+      ...(fibonacci?.elements || [])
+    ],
     candles: candles,
     scalpingSignals: scalpingSignals,
     technicalIndicators: technicalIndicators,
+    divergences,
+    chartPatterns,
+    fibonacci: fibonacci || undefined,
     volumeData: volumeData,
     volatilityData: volatilityAnalysis,
     marketContext: enhancedMarketContext,
@@ -233,7 +275,10 @@ export const analyzeChart = async (imageData: string, options: AnalysisOptions =
       timeOfDay: 'horário_comercial',
       trend: 'lateral'
     },
-    entryRecommendations: []
+    entryRecommendations: fibonacciEntries(fibonacci, timeframe).map(entry => ({
+      ...entry,
+      confidence: entry.confidence * confidenceReduction
+    }))
   };
   
   console.log('📋 Resultado final da análise:', {
@@ -0,0 +1,200 @@
+/**
+ * Estatísticas de padrões medidas em um histórico OHLC do próprio instrumento:
+ * cada ocorrência de padrão de candle é acompanhada pelas barras seguintes até
+ * atingir o alvo (um range médio a favor) ou o stop (extremo do padrão).
+ * Complementa os números de livro do Bulkowski com dados do timeframe operado.
+ */
+
+import { CandleData, PatternStatistics, PatternStatisticsReport, TimeframeType } from '@/context/AnalyzerContext';
+import { detectCandlestickPatternsAt } from './candlestickPatternDetection';
+import { parsePriceLabel } from './priceAxisCalibration';
+import { TIMEFRAME_DURATIONS } from './timeAxisCalibration';
+
+const STORAGE_KEY = 'pattern-statistics';
+const DEFAULT_HORIZON = 10;
+const RANGE_PERIOD = 14; // Barras do range médio que define o alvo
+const YIELD_EVERY = 500; // Barras entre pausas para a interface respirar
+
+type Outcome = { hit: boolean; failure: boolean; move: number; barsToTarget: number | null };
+
+// Colunas reconhecidas no cabeçalho (inglês, português e abreviações de exportação)
+const HEADER_PATTERNS: Record<'time' | 'date' | 'open' | 'high' | 'low' | 'close' | 'volume', RegExp> = {
+  date: /^(<?date>?|data|dia)$/,
+  time: /^(<?time>?|hora|horário|timestamp|datetime|time \(utc\))$/,
+  open: /^(<?open>?|abertura|o)$/,
+  high: /^(<?high>?|máxima|maxima|h)$/,
+  low: /^(<?low>?|mínima|minima|l)$/,
+  close: /^(<?close>?|fechamento|c|último|ultimo)$/,
+  volume: /^(<?(tick)?vol(ume)?>?|v|tickvol)$/
+};
+
+const parseTime = (text: string): number => {
+  const value = text.trim();
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    return number < 1e11 ? number * 1000 : number; // Segundos ou milissegundos Unix
+  }
+  // MetaTrader exporta 2024.01.02 00:00; planilhas brasileiras, 02/01/2024 (dia primeiro)
+  const normalized = value
+    .replace(/^(\d{4})\.(\d{2})\.(\d{2})/, '$1-$2-$3')
+    .replace(/^(\d{2})\/(\d{2})\/(\d{4})/, '$3-$2-$1')
+    .replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T');
+  return Date.parse(normalized);
+};
+
+// CSV de OHLC exportado pela plataforma (MetaTrader, TradingView ou planilha)
+export const parseOhlcCsv = (text: string, timeframe: TimeframeType): CandleData[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) throw new Error('Arquivo sem linhas de dados.');
+
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best, ',');
+  const rows = lines.map(line => line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, '')));
+  // Fora do CSV com vírgula, números como 1.234,56 indicam vírgula decimal e ponto de milhar
+  const decimalSeparator = separator !== ',' && rows.slice(1).some(row => row.some(cell => /^-?[\d.]*\d,\d+$/.test(cell))) ? ',' : '.';
+  const toNumber = (cell: string) => parsePriceLabel(cell, decimalSeparator)?.value ?? NaN;
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const hasHeader = header.some(cell => HEADER_PATTERNS.close.test(cell) || HEADER_PATTERNS.open.test(cell));
+  const columnOf = (key: keyof typeof HEADER_PATTERNS) => header.findIndex(cell => HEADER_PATTERNS[key].test(cell));
+
+  let columns: { time: number[]; open: number; high: number; low: number; close: number; volume: number };
+  if (hasHeader) {
+    columns = {
+      time: [columnOf('date'), columnOf('time')].filter(index => index >= 0),
+      open: columnOf('open'),
+      high: columnOf('high'),
+      low: columnOf('low'),
+      close: columnOf('close'),
+      volume: columnOf('volume')
+    };
+    if ([columns.open, columns.high, columns.low, columns.close].some(index => index < 0)) {
+      throw new Error('Cabeçalho sem as colunas de abertura, máxima, mínima e fechamento.');
+    }
+  } else {
+    // Sem cabeçalho: data e hora separadas quando a segunda coluna é um horário
+    const splitTime = rows[0].length >= 6 && rows[0][1].includes(':');
+    const first = splitTime ? 2 : 1;
+    columns = {
+      time: splitTime ? [0, 1] : [0],
+      open: first,
+      high: first + 1,
+      low: first + 2,
+      close: first + 3,
+      volume: rows[0].length > first + 4 ? first + 4 : -1
+    };
+  }
+
+  const duration = TIMEFRAME_DURATIONS[timeframe];
+  const candles = rows.slice(hasHeader ? 1 : 0).flatMap((row, index) => {
+    const [open, high, low, close] = [columns.open, columns.high, columns.low, columns.close].map(column => toNumber(row[column] ?? ''));
+    if (![open, high, low, close].every(Number.isFinite) || high < low) return [];
+    const time = columns.time.length ? parseTime(columns.time.map(column => row[column]).join(' ')) : NaN;
+    const volume = columns.volume >= 0 ? toNumber(row[columns.volume] ?? '') : NaN;
+    return [{
+      open,
+      high,
+      low,
+      close,
+      // Sem horário legível a ordem do arquivo define o tempo
+      timestamp: Number.isFinite(time) ? time : index * duration,
+      volume: Number.isFinite(volume) ? volume : undefined
+    }];
+  });
+
+  if (candles.length < 2) throw new Error('Nenhuma linha OHLC válida encontrada.');
+  // Algumas exportações vêm do mais recente para o mais antigo
+  return candles[0].timestamp > candles[candles.length - 1].timestamp ? candles.reverse() : candles;
+};
+
+// Acompanhar a ocorrência por `horizon` barras: alvo de um range médio a favor, stop no extremo do padrão
+const followPattern = (candles: CandleData[], start: number, end: number, direction: 1 | -1, horizon: number): Outcome => {
+  const entry = candles[end].close;
+  const recent = candles.slice(Math.max(0, end - RANGE_PERIOD + 1), end + 1);
+  const averageRange = recent.reduce((sum, c) => sum + (c.high - c.low), 0) / recent.length;
+  const target = entry + direction * averageRange;
+  const patternCandles = candles.slice(start, end + 1);
+  const stop = direction === 1 ? Math.min(...patternCandles.map(c => c.low)) : Math.max(...patternCandles.map(c => c.high));
+  const move = (direction * (candles[end + horizon].close - entry) / entry) * 100;
+
+  for (let bars = 1; bars <= horizon; bars++) {
+    const candle = candles[end + bars];
+    // Stop e alvo no mesmo candle conta como falha: sem dados intrabarra, a hipótese conservadora
+    if (direction === 1 ? candle.low <= stop : candle.high >= stop) return { hit: false, failure: true, move, barsToTarget: null };
+    if (direction === 1 ? candle.high >= target : candle.low <= target) return { hit: true, failure: false, move, barsToTarget: bars };
+  }
+  return { hit: false, failure: false, move, barsToTarget: null };
+};
+
+export const measurePatternStatistics = async (
+  candles: CandleData[],
+  options: { instrument: string; timeframe: TimeframeType; horizon?: number; onProgress?: (fraction: number) => void }
+): Promise<PatternStatisticsReport> => {
+  const horizon = options.horizon ?? DEFAULT_HORIZON;
+  const outcomes = new Map<string, { action: PatternStatistics['action']; results: Outcome[] }>();
+  const lastEnd = candles.length - 1 - horizon;
+
+  for (let end = 1; end <= lastEnd; end++) {
+    detectCandlestickPatternsAt(candles, end).forEach(pattern => {
+      // Padrões neutros (doji, inside bar) não apontam direção para medir
+      if (pattern.action === 'neutro') return;
+      const direction = pattern.action === 'compra' ? 1 : -1;
+      const entry = outcomes.get(pattern.type) ?? { action: pattern.action, results: [] };
+      entry.results.push(followPattern(candles, pattern.startIndex ?? end, end, direction, horizon));
+      outcomes.set(pattern.type, entry);
+    });
+
+    if (end % YIELD_EVERY === 0) {
+      options.onProgress?.(end / lastEnd);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  options.onProgress?.(1);
+
+  const patterns: PatternStatistics[] = [...outcomes.entries()].map(([pattern, { action, results }]) => {
+    const hits = results.filter(result => result.hit);
+    return {
+      pattern,
+      action,
+      occurrences: results.length,
+      hitRate: hits.length / results.length,
+      failureRate: results.filter(result => result.failure).length / results.length,
+      averageMove: results.reduce((sum, result) => sum + result.move, 0) / results.length,
+      averageBarsToTarget: hits.length ? hits.reduce((sum, result) => sum + (result.barsToTarget as number), 0) / hits.length : null
+    };
+  }).sort((a, b) => b.occurrences - a.occurrences);
+
+  console.log(`📚 Estatísticas de ${patterns.length} padrões em ${candles.length} candles de ${options.instrument}`);
+  return {
+    instrument: options.instrument,
+    timeframe: options.timeframe,
+    candles: candles.length,
+    from: candles[0]?.timestamp ?? 0,
+    to: candles[candles.length - 1]?.timestamp ?? 0,
+    horizon,
+    patterns
+  };
+};
+
+export const loadStoredStatistics = (): PatternStatisticsReport | null => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) as PatternStatisticsReport : null;
+  } catch (e) {
+    console.error('Erro ao carregar estatísticas salvas:', e);
+    return null;
+  }
+};
+
+export const storeStatistics = (report: PatternStatisticsReport | null): void => {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (report) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error('Erro ao salvar estatísticas:', e);
+  }
+};
@@ -0,0 +1,290 @@
+/**
+ * Correção de perspectiva (keystone) para fotos de monitores: detecta o
+ * quadrilátero da tela/gráfico e retifica a imagem com uma homografia.
+ */
+
+import { Point } from '@/context/AnalyzerContext';
+import { loadImageData } from './imageProcessing';
+
+// Cantos na ordem: superior esquerdo, superior direito, inferior direito, inferior esquerdo
+export type Quad = [Point, Point, Point, Point];
+
+export interface QuadDetection {
+  corners: Quad;
+  confidence: number; // 0-1
+  needsCorrection: boolean; // false quando o quadrilátero já coincide com a imagem inteira
+}
+
+const ANALYSIS_SIZE = 320;
+
+// Cantos padrão (recuados 10%) para o usuário arrastar quando a detecção falha
+export const defaultQuad = (width: number, height: number): Quad => [
+  { x: width * 0.1, y: height * 0.1 },
+  { x: width * 0.9, y: height * 0.1 },
+  { x: width * 0.9, y: height * 0.9 },
+  { x: width * 0.1, y: height * 0.9 }
+];
+
+// Limiar de Otsu sobre o histograma de luminância
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0, weightBackground = 0;
+  let bestVariance = -1, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (quad: Quad): number => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i], b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+const isConvex = (quad: Quad): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i], b = quad[(i + 1) % 4], c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return sign !== 0;
+};
+
+// Detectar o quadrilátero da tela: região conexa que contém o centro da foto
+export const detectChartQuadrilateral = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): QuadDetection | null => {
+  // Trabalhar numa versão reduzida (média por bloco) para ganhar velocidade
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+  const sw = Math.max(1, Math.round(width * scale));
+  const sh = Math.max(1, Math.round(height * scale));
+  const gray = new Uint8Array(sw * sh);
+
+  for (let sy = 0; sy < sh; sy++) {
+    const y0 = Math.floor(sy / scale), y1 = Math.min(height, Math.floor((sy + 1) / scale));
+    for (let sx = 0; sx < sw; sx++) {
+      const x0 = Math.floor(sx / scale), x1 = Math.min(width, Math.floor((sx + 1) / scale));
+      let sum = 0, count = 0;
+      for (let y = y0; y < Math.max(y1, y0 + 1); y++) {
+        for (let x = x0; x < Math.max(x1, x0 + 1); x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          count++;
+        }
+      }
+      gray[sy * sw + sx] = Math.round(sum / count);
+    }
+  }
+
+  // A classe (clara ou escura) que domina o centro é o fundo da tela
+  const threshold = otsuThreshold(gray);
+  let brightCenter = 0, centerCount = 0;
+  for (let sy = Math.floor(sh * 0.4); sy < Math.ceil(sh * 0.6); sy++) {
+    for (let sx = Math.floor(sw * 0.4); sx < Math.ceil(sw * 0.6); sx++) {
+      if (gray[sy * sw + sx] > threshold) brightCenter++;
+      centerCount++;
+    }
+  }
+  const screenIsBright = brightCenter * 2 >= centerCount;
+  const inScreen = (p: number) => (gray[p] > threshold) === screenIsBright;
+
+  // Componente conexo a partir do centro (preenchimento por pilha)
+  const visited = new Uint8Array(sw * sh);
+  let seed = -1;
+  for (let r = 0; r < Math.max(sw, sh) / 4 && seed < 0; r++) {
+    for (let dy = -r; dy <= r && seed < 0; dy++) {
+      for (let dx = -r; dx <= r && seed < 0; dx++) {
+        const sx = Math.floor(sw / 2) + dx, sy = Math.floor(sh / 2) + dy;
+        if (sx >= 0 && sx < sw && sy >= 0 && sy < sh && inScreen(sy * sw + sx)) seed = sy * sw + sx;
+      }
+    }
+  }
+  if (seed < 0) return null;
+
+  const tl = { x: sw, y: sh, score: Infinity };
+  const br = { x: 0, y: 0, score: -Infinity };
+  const tr = { x: 0, y: 0, score: -Infinity };
+  const bl = { x: 0, y: 0, score: Infinity };
+  let area = 0;
+  const stack = [seed];
+  visited[seed] = 1;
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % sw, y = Math.floor(p / sw);
+    area++;
+
+    if (x + y < tl.score) Object.assign(tl, { x, y, score: x + y });
+    if (x + y > br.score) Object.assign(br, { x, y, score: x + y });
+    if (x - y > tr.score) Object.assign(tr, { x, y, score: x - y });
+    if (x - y < bl.score) Object.assign(bl, { x, y, score: x - y });
+
+    const neighbors = [x > 0 ? p - 1 : -1, x < sw - 1 ? p + 1 : -1, y > 0 ? p - sw : -1, y < sh - 1 ? p + sw : -1];
+    for (const n of neighbors) {
+      if (n >= 0 && !visited[n] && inScreen(n)) {
+        visited[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+
+  // Voltar à resolução original; os blocos da borda misturam tela e moldura,
+  // então cada canto recua um bloco para dentro (exceto quando encosta na borda da foto)
+  const toFull = (c: { x: number; y: number }, insetX: number, insetY: number): Point => {
+    const x = c.x === 0 ? 0 : c.x === sw - 1 ? sw : c.x + 0.5 + insetX;
+    const y = c.y === 0 ? 0 : c.y === sh - 1 ? sh : c.y + 0.5 + insetY;
+    return {
+      x: Math.min(width, Math.max(0, x / scale)),
+      y: Math.min(height, Math.max(0, y / scale))
+    };
+  };
+  const corners: Quad = [toFull(tl, 1, 1), toFull(tr, -1, 1), toFull(br, -1, -1), toFull(bl, 1, -1)];
+
+  const smallQuad: Quad = [
+    { x: tl.x, y: tl.y }, { x: tr.x + 1, y: tr.y }, { x: br.x + 1, y: br.y + 1 }, { x: bl.x, y: bl.y + 1 }
+  ];
+  const coverage = quadArea(smallQuad) / (sw * sh);
+  if (!isConvex(corners) || coverage < 0.15) {
+    console.log('Quadrilátero da tela não identificado');
+    return null;
+  }
+
+  // Candles e textos são da outra classe, então o preenchimento não chega a 100%
+  const fill = Math.min(1, area / Math.max(1, quadArea(smallQuad)));
+  const confidence = parseFloat(Math.min(1, fill / 0.85).toFixed(2));
+
+  // Cantos a menos de 1,5% dos cantos da imagem: a foto já está retificada
+  const tolerance = Math.max(width, height) * 0.015;
+  const imageCorners: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const needsCorrection = corners.some((corner, i) =>
+    Math.hypot(corner.x - imageCorners[i].x, corner.y - imageCorners[i].y) > tolerance
+  );
+
+  console.log(`Quadrilátero da tela: confiança ${Math.round(confidence * 100)}%, ${needsCorrection ? 'correção necessária' : 'sem distorção'}`);
+
+  return { corners, confidence, needsCorrection };
+};
+
+// Homografia que leva o retângulo de saída (u,v) ao quadrilátero de origem (x,y)
+export const computeHomography = (from: Quad, to: Quad): number[] => {
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Eliminação de Gauss com pivotamento parcial
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    if (Math.abs(matrix[col][col]) < 1e-12) {
+      throw new Error('Quadrilátero degenerado: não é possível calcular a homografia.');
+    }
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+
+  const h = matrix.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+};
+
+// Retificar o quadrilátero num retângulo (amostragem bilinear)
+export const warpPerspective = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  corners: Quad
+): { data: Uint8ClampedArray; width: number; height: number } => {
+  const [tl, tr, br, bl] = corners;
+  const outWidth = Math.max(1, Math.round(Math.max(Math.hypot(tr.x - tl.x, tr.y - tl.y), Math.hypot(br.x - bl.x, br.y - bl.y))));
+  const outHeight = Math.max(1, Math.round(Math.max(Math.hypot(bl.x - tl.x, bl.y - tl.y), Math.hypot(br.x - tr.x, br.y - tr.y))));
+
+  const target: Quad = [{ x: 0, y: 0 }, { x: outWidth, y: 0 }, { x: outWidth, y: outHeight }, { x: 0, y: outHeight }];
+  const h = computeHomography(target, corners);
+  const output = new Uint8ClampedArray(outWidth * outHeight * 4);
+
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      // Amostrar no centro do pixel de saída
+      const cu = u + 0.5, cv = v + 0.5;
+      const w = h[6] * cu + h[7] * cv + h[8];
+      const sx = Math.min(width - 1, Math.max(0, (h[0] * cu + h[1] * cv + h[2]) / w - 0.5));
+      const sy = Math.min(height - 1, Math.max(0, (h[3] * cu + h[4] * cv + h[5]) / w - 0.5));
+
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const o = (v * outWidth + u) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+        output[o + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+
+  return { data: output, width: outWidth, height: outHeight };
+};
+
+// Detectar o quadrilátero numa imagem carregada por URL
+export const detectPerspective = async (imageUrl: string): Promise<{
+  detection: QuadDetection | null;
+  imageSize: { width: number; height: number };
+}> => {
+  const { data, width, height } = await loadImageData(imageUrl);
+  return { detection: detectChartQuadrilateral(data, width, height), imageSize: { width, height } };
+};
+
+// Retificar a imagem usando os cantos informados (detectados ou arrastados pelo usuário)
+export const correctPerspective = async (imageUrl: string, corners: Quad): Promise<string> => {
+  const { data, width, height } = await loadImageData(imageUrl);
+  const warped = warpPerspective(data, width, height, corners);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = warped.width;
+  canvas.height = warped.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível obter contexto 2D do canvas.');
+  }
+  ctx.putImageData(new ImageData(warped.data, warped.width, warped.height), 0, 0);
+
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
@@ -0,0 +1,208 @@
+/**
+ * Perfis de plataforma: cada plataforma coloca eixos, painel de volume e
+ * cores em lugares previsíveis. O perfil é reconhecido pelas cores do print
+ * (fundo, candles e grade) ou escolhido pelo usuário, e orienta a extração.
+ */
+
+import { CandlePalette, PlatformProfile, PlatformProfileMatch } from '@/context/AnalyzerContext';
+
+type RGB = [number, number, number];
+
+// Valor do seletor quando o perfil deve ser reconhecido no print
+export const AUTO_PROFILE_ID = 'auto';
+
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    id: 'tradingviewLight',
+    name: 'TradingView (claro)',
+    priceAxisSide: 'right',
+    volumePane: 'overlay',
+    palette: { background: [255, 255, 255], bullish: [8, 153, 129], bearish: [242, 54, 69], grid: [240, 243, 250] },
+    candleStyle: 'filled'
+  },
+  {
+    id: 'tradingviewDark',
+    name: 'TradingView (escuro)',
+    priceAxisSide: 'right',
+    volumePane: 'overlay',
+    palette: { background: [19, 23, 34], bullish: [38, 166, 154], bearish: [239, 83, 80], grid: [42, 46, 57] },
+    candleStyle: 'filled'
+  },
+  {
+    id: 'metatrader',
+    name: 'MetaTrader',
+    priceAxisSide: 'right',
+    volumePane: 'none',
+    palette: { background: [0, 0, 0], bullish: [0, 200, 0], bearish: [220, 0, 0], grid: [50, 50, 50] },
+    candleStyle: 'filled'
+  },
+  {
+    id: 'binance',
+    name: 'Binance',
+    priceAxisSide: 'right',
+    volumePane: 'separate',
+    palette: { background: [22, 26, 30], bullish: [14, 203, 129], bearish: [246, 70, 93], grid: null },
+    candleStyle: 'filled'
+  },
+  {
+    id: 'iqOption',
+    name: 'IQ Option',
+    priceAxisSide: 'right',
+    volumePane: 'none',
+    palette: { background: [30, 34, 45], bullish: [43, 196, 115], bearish: [230, 70, 70], grid: [45, 50, 63] },
+    candleStyle: 'filled'
+  }
+];
+
+// Distância máxima (RGB) para um pixel contar como cor de candle do perfil
+const CANDLE_COLOR_RADIUS = 35;
+// Fração dos pixels que não são fundo esperada para cada cor de candle
+const EXPECTED_CANDLE_FRACTION = 0.04;
+const EXPECTED_GRID_FRACTION = 0.01;
+// Pixels a esta distância do fundo não são ruído da captura
+const FOREGROUND_DISTANCE = 30;
+const MIN_MATCH_CONFIDENCE = 0.65;
+
+const colorDistance = (a: RGB, b: RGB): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+export const getPlatformProfile = (id: string): PlatformProfile | null =>
+  PLATFORM_PROFILES.find(profile => profile.id === id) || null;
+
+// Reconhecer a plataforma pelas cores da área de plotagem e pelo lado do eixo de preço
+export const detectPlatformProfile = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: {
+    excludeColumns?: { x: number; width: number };
+    excludeRows?: { y: number; height: number };
+    axisSide?: 'left' | 'right';
+  } = {}
+): PlatformProfileMatch | null => {
+  const isExcluded = (x: number, y: number) =>
+    (options.excludeColumns && x >= options.excludeColumns.x && x < options.excludeColumns.x + options.excludeColumns.width) ||
+    (options.excludeRows && y >= options.excludeRows.y && y < options.excludeRows.y + options.excludeRows.height);
+
+  // Fundo: cor mais frequente (histograma de 4 bits por canal), amostrando 1 a cada 2 pixels por eixo
+  const bins = new Map<number, { count: number; sum: RGB }>();
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (isExcluded(x, y)) continue;
+      const i = (y * width + x) * 4;
+      const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+      const bin = bins.get(key) || { count: 0, sum: [0, 0, 0] as RGB };
+      bin.count++;
+      bin.sum[0] += data[i];
+      bin.sum[1] += data[i + 1];
+      bin.sum[2] += data[i + 2];
+      bins.set(key, bin);
+    }
+  }
+  let mode = { count: 0, sum: [0, 0, 0] as RGB };
+  bins.forEach(bin => {
+    if (bin.count > mode.count) mode = bin;
+  });
+  if (mode.count === 0) return null;
+
+  // Com ruído o fundo se espalha por bins vizinhos: refinar pela média dos pixels próximos da moda
+  const modeColor = mode.sum.map(value => value / mode.count) as RGB;
+  const near = { count: 0, sum: [0, 0, 0] as RGB };
+  bins.forEach(bin => {
+    const color = bin.sum.map(value => value / bin.count) as RGB;
+    if (colorDistance(color, modeColor) > 24) return;
+    near.count += bin.count;
+    near.sum = near.sum.map((value, c) => value + bin.sum[c]) as RGB;
+  });
+  const background = near.sum.map(value => value / near.count) as RGB;
+
+  // Pixels próximos das cores de candle e da grade de cada perfil
+  const counts = PLATFORM_PROFILES.map(() => ({ bullish: 0, bearish: 0, grid: 0 }));
+  const gridRadius = PLATFORM_PROFILES.map(profile =>
+    profile.palette.grid ? Math.min(20, colorDistance(profile.palette.grid, profile.palette.background) / 2) : 0
+  );
+  let sampled = 0;
+  let foreground = 0;
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (isExcluded(x, y)) continue;
+      const i = (y * width + x) * 4;
+      const pixel: RGB = [data[i], data[i + 1], data[i + 2]];
+      sampled++;
+      const isForeground = colorDistance(pixel, background) >= FOREGROUND_DISTANCE;
+      if (isForeground) foreground++;
+      PLATFORM_PROFILES.forEach((profile, k) => {
+        const { bullish, bearish, grid } = profile.palette;
+        if (isForeground && colorDistance(pixel, bullish) <= CANDLE_COLOR_RADIUS) counts[k].bullish++;
+        if (isForeground && colorDistance(pixel, bearish) <= CANDLE_COLOR_RADIUS) counts[k].bearish++;
+        if (grid && colorDistance(pixel, grid) <= gridRadius[k]) counts[k].grid++;
+      });
+    }
+  }
+  if (foreground === 0) return null;
+
+  const scored = PLATFORM_PROFILES.map((profile, k) => {
+    const backgroundScore = Math.max(0, 1 - colorDistance(background, profile.palette.background) / 40);
+    const colorScore = (
+      Math.min(1, counts[k].bullish / foreground / EXPECTED_CANDLE_FRACTION) +
+      Math.min(1, counts[k].bearish / foreground / EXPECTED_CANDLE_FRACTION)
+    ) / 2;
+    // Grade e eixo só desempatam: podem estar ocultos ou fora do recorte
+    const gridScore = profile.palette.grid ? Math.min(1, counts[k].grid / sampled / EXPECTED_GRID_FRACTION) : 0.5;
+    const axisScore = options.axisSide ? (options.axisSide === profile.priceAxisSide ? 1 : 0) : 0.5;
+    const confidence = backgroundScore * 0.35 + colorScore * 0.45 + gridScore * 0.1 + axisScore * 0.1;
+    return { profile, confidence, backgroundScore, colorScore };
+  }).sort((a, b) => b.confidence - a.confidence);
+
+  const best = scored[0];
+  if (best.confidence < MIN_MATCH_CONFIDENCE || best.backgroundScore === 0 || best.colorScore < 0.5) {
+    console.log('Nenhum perfil de plataforma reconhecido, usando extração genérica');
+    return null;
+  }
+
+  console.log(`Perfil de plataforma reconhecido: ${best.profile.name} (${(best.confidence * 100).toFixed(0)}%)`);
+  return { profile: best.profile, source: 'auto', confidence: parseFloat(best.confidence.toFixed(2)) };
+};
+
+// Paleta de candles padrão do perfil
+export const paletteFromProfile = (match: PlatformProfileMatch): CandlePalette => {
+  const { bullish, bearish, background } = match.profile.palette;
+  return {
+    bullish,
+    bearish,
+    background,
+    tolerance: Math.max(24, Math.min(48, colorDistance(bullish, bearish) / 2)),
+    hollowBullish: match.profile.candleStyle === 'hollow' || undefined,
+    source: 'auto',
+    confidence: match.confidence
+  };
+};
+
+// Cor aprendida compatível com a do perfil: próxima dela ou misturada ao fundo (desfoque, candles finos)
+const followsProfileColor = (learned: RGB, expected: RGB, background: RGB): boolean => {
+  if (colorDistance(learned, expected) < 60) return true;
+  const axis = [0, 1, 2].map(c => background[c] - expected[c]);
+  const lengthSq = axis.reduce((sum, value) => sum + value * value, 0);
+  if (lengthSq === 0) return false;
+  const t = [0, 1, 2].reduce((sum, c) => sum + (learned[c] - expected[c]) * axis[c], 0) / lengthSq;
+  if (t < 0 || t > 0.9) return false;
+  const projected = [0, 1, 2].map(c => expected[c] + t * axis[c]) as RGB;
+  return colorDistance(learned, projected) < 20;
+};
+
+// Paleta aprendida que confirma as cores do perfil fica (tons reais do print); se diverge, vence a mais confiável
+export const resolveProfilePalette = (
+  learned: CandlePalette | null,
+  match: PlatformProfileMatch | null
+): CandlePalette | null => {
+  if (!match) return learned;
+  const fromProfile = paletteFromProfile(match);
+  if (!learned) return fromProfile;
+
+  const agrees = followsProfileColor(learned.bullish, fromProfile.bullish, fromProfile.background) &&
+    followsProfileColor(learned.bearish, fromProfile.bearish, fromProfile.background);
+  if (agrees || learned.confidence > match.confidence) return learned;
+
+  console.log(`Paleta aprendida diverge do perfil ${match.profile.name}, usando as cores do perfil`);
+  return fromProfile;
+};
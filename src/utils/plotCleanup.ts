@@ -0,0 +1,592 @@
+/**
+ * Limpeza da área de plotagem antes da segmentação: remove linhas de grade
+ * (e a linha tracejada do preço atual), marcas d'água de baixo contraste,
+ * textos sobrepostos e etiquetas de preço que as máscaras de cor confundem
+ * com candles. A etiqueta do preço atual é registrada para uso separado.
+ */
+
+import { CurrentPriceLabel, PriceCalibration } from '@/context/AnalyzerContext';
+import { NUMERIC_ALPHABET, TIME_ALPHABET, TextBox, labelComponents, recognizeText } from './chartOcr';
+import { parsePriceLabel, priceAtY } from './priceAxisCalibration';
+
+type RGB = [number, number, number];
+type Bounds = { x: number; y: number; width: number; height: number };
+
+export interface PlotLine {
+  position: number; // y (horizontal) ou x (vertical) da primeira linha de pixels
+  thickness: number;
+  color: RGB;
+  periodic: boolean; // Recuperada pelo espaçamento da grade, não pela cobertura
+}
+
+export interface PriceTag {
+  bounds: Bounds;
+  color: RGB;
+  inAxis: boolean;
+}
+
+export interface PlotArtifacts {
+  horizontalLines: PlotLine[];
+  verticalLines: PlotLine[];
+  gridPeriod: { horizontal: number | null; vertical: number | null };
+  watermarks: Bounds[];
+  overlayText: TextBox[];
+  priceTags: PriceTag[];
+  currentPriceLabel: CurrentPriceLabel | null;
+  removedPixels: number;
+}
+
+// Cobertura mínima (fração da largura/altura da plotagem) para uma linha de grade
+const STRONG_LINE_COVERAGE = 0.45;
+const WEAK_LINE_COVERAGE = 0.15;
+// A linha precisa ser bem mais densa que as linhas vizinhas (candles cruzam várias linhas seguidas)
+const LINE_THINNESS_RATIO = 2.5;
+const BACKGROUND_DISTANCE = 24;
+const LINE_COLOR_TOLERANCE = 40;
+const TAG_TEXT_CONTRAST = 120;
+const OVERLAY_ALPHABET = Array.from(new Set((TIME_ALPHABET + NUMERIC_ALPHABET + 'BKM').split(''))).join('');
+
+const colorDistance = (a: RGB, data: Uint8ClampedArray, i: number): number =>
+  Math.abs(a[0] - data[i]) + Math.abs(a[1] - data[i + 1]) + Math.abs(a[2] - data[i + 2]);
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Cor de fundo dominante (moda do histograma RGB quantizado)
+const estimateBackgroundColor = (data: Uint8ClampedArray, width: number, height: number): RGB => {
+  const counts = new Map<number, { count: number; sum: RGB }>();
+  const step = Math.max(1, Math.floor((width * height) / 100000));
+  for (let p = 0; p < width * height; p += step) {
+    const i = p * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const entry = counts.get(key) || { count: 0, sum: [0, 0, 0] as RGB };
+    entry.count++;
+    entry.sum[0] += data[i];
+    entry.sum[1] += data[i + 1];
+    entry.sum[2] += data[i + 2];
+    counts.set(key, entry);
+  }
+  let best = { count: 0, sum: [0, 0, 0] as RGB };
+  counts.forEach(entry => {
+    if (entry.count > best.count) best = entry;
+  });
+  return best.sum.map(value => Math.round(value / Math.max(1, best.count))) as RGB;
+};
+
+// Média móvel ao longo de uma direção: atenua ruído sem alargar linhas paralelas a ela
+const smoothAlong = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  horizontal: boolean,
+  radius: number
+): Uint8ClampedArray => {
+  const result = new Uint8ClampedArray(data.length);
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const sums = [0, 0, 0];
+
+  for (let line = 0; line < lines; line++) {
+    const index = (k: number) => (horizontal ? line * width + k : k * width + line) * 4;
+    for (let k = 0; k < length; k++) {
+      sums[0] = sums[1] = sums[2] = 0;
+      let count = 0;
+      for (let offset = Math.max(0, k - radius); offset <= Math.min(length - 1, k + radius); offset++) {
+        const i = index(offset);
+        sums[0] += data[i];
+        sums[1] += data[i + 1];
+        sums[2] += data[i + 2];
+        count++;
+      }
+      const target = index(k);
+      result[target] = sums[0] / count;
+      result[target + 1] = sums[1] / count;
+      result[target + 2] = sums[2] / count;
+      result[target + 3] = 255;
+    }
+  }
+
+  return result;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Linhas de grade numa direção: linhas finas e longas de cor única, completadas pela periodicidade
+const detectLines = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  plot: { x0: number; y0: number; x1: number; y1: number },
+  background: RGB,
+  horizontal: boolean
+): { lines: PlotLine[]; period: number | null } => {
+  const start = horizontal ? plot.y0 : plot.x0;
+  const end = horizontal ? plot.y1 : plot.x1;
+  const spanStart = horizontal ? plot.x0 : plot.y0;
+  const spanEnd = horizontal ? plot.x1 : plot.y1;
+  const span = spanEnd - spanStart;
+  if (end - start < 8 || span < 20) return { lines: [], period: null };
+
+  // Suavizar ao longo da linha: o ruído cai e linhas tracejadas ficam contínuas
+  const smoothed = smoothAlong(data, width, height, horizontal, 3);
+  const indexAt = (position: number, k: number) => (horizontal ? position * width + k : k * width + position) * 4;
+
+  // Por linha: cor mediana dos pixels fora do fundo e fração da linha próxima dela
+  const coverage = new Float32Array(end - start);
+  const lineColor: (RGB | null)[] = new Array(end - start).fill(null);
+  const coverageOf = (position: number, color: RGB): number => {
+    let count = 0;
+    for (let k = spanStart; k < spanEnd; k++) {
+      const i = indexAt(position, k);
+      if (colorDistance(background, smoothed, i) >= BACKGROUND_DISTANCE && colorDistance(color, smoothed, i) <= LINE_COLOR_TOLERANCE) count++;
+    }
+    return count / span;
+  };
+
+  for (let position = start; position < end; position++) {
+    const channels: number[][] = [[], [], []];
+    for (let k = spanStart; k < spanEnd; k++) {
+      const i = indexAt(position, k);
+      if (colorDistance(background, smoothed, i) < BACKGROUND_DISTANCE) continue;
+      channels[0].push(smoothed[i]);
+      channels[1].push(smoothed[i + 1]);
+      channels[2].push(smoothed[i + 2]);
+    }
+    if (channels[0].length < span * WEAK_LINE_COVERAGE) continue;
+    const color = channels.map(median) as RGB;
+    lineColor[position - start] = color;
+    coverage[position - start] = coverageOf(position, color);
+  }
+
+  const isThin = (position: number): boolean => {
+    const color = lineColor[position - start];
+    if (!color) return false;
+    const neighbors = [position - 3, position + 3].filter(p => p >= start && p < end);
+    const neighborCoverage = Math.max(0, ...neighbors.map(p => coverageOf(p, color)));
+    return coverage[position - start] >= neighborCoverage * LINE_THINNESS_RATIO;
+  };
+
+  const strong: number[] = [];
+  const weak: number[] = [];
+  for (let position = start; position < end; position++) {
+    const value = coverage[position - start];
+    if (value < WEAK_LINE_COVERAGE || !isThin(position)) continue;
+    (value >= STRONG_LINE_COVERAGE ? strong : weak).push(position);
+  }
+
+  // Período da grade: mediana dos intervalos entre linhas fortes, se forem múltiplos dela
+  let period: number | null = null;
+  const firstRows = strong.filter((position, i) => i === 0 || position - strong[i - 1] > 2);
+  if (firstRows.length >= 3) {
+    const gaps = firstRows.slice(1).map((position, i) => position - firstRows[i]).sort((a, b) => a - b);
+    const candidate = gaps[Math.floor(gaps.length / 2)];
+    const regular = gaps.filter(gap => {
+      const multiple = Math.round(gap / candidate);
+      return multiple >= 1 && Math.abs(gap - multiple * candidate) <= 2;
+    }).length;
+    if (candidate >= 8 && regular >= gaps.length * 0.6) period = candidate;
+  }
+
+  const accepted = new Set(strong);
+  const periodicRows = new Set<number>();
+  if (period !== null) {
+    for (const position of weak) {
+      const fits = firstRows.some(anchor => {
+        const offset = Math.abs(position - anchor) % period!;
+        return offset <= 1 || period! - offset <= 1;
+      });
+      if (fits) {
+        accepted.add(position);
+        periodicRows.add(position);
+      }
+    }
+  }
+
+  // Agrupar linhas de pixels consecutivas numa mesma linha de grade
+  const sorted = Array.from(accepted).sort((a, b) => a - b);
+  const lines: PlotLine[] = [];
+  for (const position of sorted) {
+    const last = lines[lines.length - 1];
+    if (last && position === last.position + last.thickness) {
+      last.thickness++;
+      continue;
+    }
+    // Cor para apagar: mediana dos pixels originais (tracejados não misturados com o fundo)
+    const channels: number[][] = [[], [], []];
+    for (let k = spanStart; k < spanEnd; k++) {
+      const i = indexAt(position, k);
+      if (colorDistance(background, data, i) < BACKGROUND_DISTANCE) continue;
+      channels[0].push(data[i]);
+      channels[1].push(data[i + 1]);
+      channels[2].push(data[i + 2]);
+    }
+    lines.push({
+      position,
+      thickness: 1,
+      color: channels[0].length > 0 ? channels.map(median) as RGB : lineColor[position - start]!,
+      periodic: periodicRows.has(position)
+    });
+  }
+
+  return { lines, period };
+};
+
+// Apagar uma linha, preservando pixels onde uma estrutura perpendicular (pavio, corpo) a atravessa
+const eraseLine = (
+  data: Uint8ClampedArray,
+  width: number,
+  plot: { x0: number; y0: number; x1: number; y1: number },
+  background: RGB,
+  line: PlotLine,
+  horizontal: boolean
+): number => {
+  let removed = 0;
+  const before = line.position - 2;
+  const after = line.position + line.thickness + 1;
+  const spanStart = horizontal ? plot.x0 : plot.y0;
+  const spanEnd = horizontal ? plot.x1 : plot.y1;
+  const limit = horizontal ? plot.y1 : plot.x1;
+  const offAt = (position: number, k: number) => {
+    if (position < (horizontal ? plot.y0 : plot.x0) || position >= limit) return false;
+    const i = (horizontal ? position * width + k : k * width + position) * 4;
+    return colorDistance(background, data, i) >= BACKGROUND_DISTANCE;
+  };
+
+  for (let k = spanStart; k < spanEnd; k++) {
+    if (offAt(before, k) && offAt(after, k)) continue;
+    for (let t = 0; t < line.thickness; t++) {
+      const position = line.position + t;
+      const i = (horizontal ? position * width + k : k * width + position) * 4;
+      if (colorDistance(line.color, data, i) > 60) continue;
+      data[i] = background[0];
+      data[i + 1] = background[1];
+      data[i + 2] = background[2];
+      removed++;
+    }
+  }
+
+  return removed;
+};
+
+// Marcas d'água: regiões grandes de baixo contraste longe de qualquer traço de alto contraste
+const removeWatermarks = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  plot: { x0: number; y0: number; x1: number; y1: number },
+  background: RGB
+): { bounds: Bounds[]; removed: number } => {
+  const backgroundLuminance = luminance(background[0], background[1], background[2]);
+  const strong = new Uint8Array(width * height);
+  const faint = new Uint8Array(width * height);
+  // Contraste fraco medido na imagem suavizada 3×3, senão o ruído do sensor vira "marca d'água"
+  const smoothed = smoothAlong(smoothAlong(data, width, height, true, 1), width, height, false, 1);
+
+  for (let y = plot.y0; y < plot.y1; y++) {
+    for (let x = plot.x0; x < plot.x1; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      const diff = Math.abs(luminance(data[i], data[i + 1], data[i + 2]) - backgroundLuminance);
+      const chroma = Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+      if (diff > 45 || chroma > 60) {
+        strong[p] = 1;
+        continue;
+      }
+      const smoothDiff = Math.abs(luminance(smoothed[i], smoothed[i + 1], smoothed[i + 2]) - backgroundLuminance);
+      const smoothChroma = Math.max(smoothed[i], smoothed[i + 1], smoothed[i + 2]) - Math.min(smoothed[i], smoothed[i + 1], smoothed[i + 2]);
+      if (smoothDiff >= 6 && smoothDiff <= 30 && smoothChroma < 30) faint[p] = 1;
+    }
+  }
+
+  // Descartar a franja de anti-aliasing em volta de candles e textos (2px)
+  for (let y = plot.y0; y < plot.y1; y++) {
+    for (let x = plot.x0; x < plot.x1; x++) {
+      if (!faint[y * width + x]) continue;
+      let nearStrong = false;
+      for (let dy = -2; dy <= 2 && !nearStrong; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && strong[ny * width + nx]) {
+            nearStrong = true;
+            break;
+          }
+        }
+      }
+      if (nearStrong) faint[y * width + x] = 0;
+    }
+  }
+
+  const plotWidth = plot.x1 - plot.x0;
+  const plotHeight = plot.y1 - plot.y0;
+  const bounds: Bounds[] = [];
+  let removed = 0;
+
+  for (const component of labelComponents(faint, width, height)) {
+    const w = component.x2 - component.x1 + 1;
+    const h = component.y2 - component.y1 + 1;
+    // Letras grandes e centrais; ruído e gradientes cobrem a plotagem inteira
+    if (h < Math.max(12, plotHeight * 0.03) || component.area < 60 || component.area < w * h * 0.15) continue;
+    if (w > plotWidth * 0.6 || h > plotHeight * 0.6) continue;
+
+    bounds.push({ x: component.x1, y: component.y1, width: w, height: h });
+    for (let y = component.y1; y <= component.y2; y++) {
+      for (let x = component.x1; x <= component.x2; x++) {
+        const p = y * width + x;
+        if (!faint[p]) continue;
+        data[p * 4] = background[0];
+        data[p * 4 + 1] = background[1];
+        data[p * 4 + 2] = background[2];
+        removed++;
+      }
+    }
+  }
+
+  return { bounds: mergeBounds(bounds), removed };
+};
+
+// Juntar caixas sobrepostas ou vizinhas (letras de uma mesma marca d'água)
+const mergeBounds = (boxes: Bounds[]): Bounds[] => {
+  const merged = boxes.map(box => ({ ...box }));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        const a = merged[i], b = merged[j];
+        const gap = Math.max(a.height, b.height) * 0.5;
+        if (a.x - gap > b.x + b.width || b.x - gap > a.x + a.width || a.y - gap > b.y + b.height || b.y - gap > a.y + a.height) continue;
+        const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+        merged[i] = {
+          x,
+          y,
+          width: Math.max(a.x + a.width, b.x + b.width) - x,
+          height: Math.max(a.y + a.height, b.y + b.height) - y
+        };
+        merged.splice(j, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return merged;
+};
+
+// Etiquetas: retângulos de cor sólida com texto dentro (corpos de candles são maciços)
+const detectPriceTags = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  background: RGB,
+  searchRows: { y0: number; y1: number },
+  axisColumns?: { x: number; width: number }
+): PriceTag[] => {
+  const fill = new Uint8Array(width * height);
+  for (let y = searchRows.y0; y < searchRows.y1; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const chroma = Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+      if (chroma > 40 && colorDistance(background, data, i) >= 60) fill[y * width + x] = 1;
+    }
+  }
+
+  const tags: PriceTag[] = [];
+  for (const component of labelComponents(fill, width, height)) {
+    const w = component.x2 - component.x1 + 1;
+    const h = component.y2 - component.y1 + 1;
+    if (h < 8 || h > 48 || w < h * 1.5 || w > 220) continue;
+
+    // Cor da etiqueta: mediana do preenchimento (o texto desfocado não a puxa)
+    const channels: number[][] = [[], [], []];
+    for (let y = component.y1; y <= component.y2; y++) {
+      for (let x = component.x1; x <= component.x2; x++) {
+        if (!fill[y * width + x]) continue;
+        const i = (y * width + x) * 4;
+        channels[0].push(data[i]);
+        channels[1].push(data[i + 1]);
+        channels[2].push(data[i + 2]);
+      }
+    }
+    const color = channels.map(median) as RGB;
+
+    // Contorno quase todo preenchido e interior com texto em contraste com a cor da etiqueta
+    let ring = 0, ringFilled = 0, inside = 0, ink = 0;
+    for (let y = component.y1; y <= component.y2; y++) {
+      for (let x = component.x1; x <= component.x2; x++) {
+        if (y === component.y1 || y === component.y2 || x === component.x1 || x === component.x2) {
+          ring++;
+          if (fill[y * width + x]) ringFilled++;
+        } else {
+          inside++;
+          if (colorDistance(color, data, (y * width + x) * 4) >= TAG_TEXT_CONTRAST) ink++;
+        }
+      }
+    }
+    const inkRatio = ink / Math.max(1, inside);
+    if (ringFilled < ring * 0.6 || inkRatio < 0.05 || inkRatio > 0.5) continue;
+
+    const inAxis = axisColumns
+      ? component.x2 >= axisColumns.x && component.x1 < axisColumns.x + axisColumns.width
+      : component.x2 >= width * 0.85;
+    tags.push({
+      bounds: { x: component.x1, y: component.y1, width: w, height: h },
+      color,
+      inAxis
+    });
+  }
+
+  return tags;
+};
+
+// Ler a etiqueta do preço atual: a que continua numa linha horizontal da mesma cor, senão a maior no eixo
+const readCurrentPriceLabel = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tags: PriceTag[],
+  horizontalLines: PlotLine[],
+  calibration?: PriceCalibration | null
+): CurrentPriceLabel | null => {
+  const axisTags = tags.filter(tag => tag.inAxis);
+  if (axisTags.length === 0) return null;
+
+  const centerOf = (tag: PriceTag) => tag.bounds.y + tag.bounds.height / 2;
+  const withLine = axisTags.find(tag => horizontalLines.some(line =>
+    Math.abs(line.position + line.thickness / 2 - centerOf(tag)) <= Math.max(3, tag.bounds.height * 0.3) &&
+    Math.abs(line.color[0] - tag.color[0]) + Math.abs(line.color[1] - tag.color[1]) + Math.abs(line.color[2] - tag.color[2]) < 90
+  ));
+  const tag = withLine || axisTags.reduce((best, current) =>
+    current.bounds.width * current.bounds.height > best.bounds.width * best.bounds.height ? current : best
+  );
+
+  // OCR só sobre o texto: a margem de 1px do reconhecedor cai no preenchimento da etiqueta
+  const { x, y: top, width: w, height: h } = tag.bounds;
+  let x1 = Infinity, y1 = Infinity, x2 = -1, y2 = -1;
+  for (let yy = top + 1; yy < top + h - 1; yy++) {
+    for (let xx = x + 1; xx < x + w - 1; xx++) {
+      if (colorDistance(tag.color, data, (yy * width + xx) * 4) < TAG_TEXT_CONTRAST) continue;
+      x1 = Math.min(x1, xx);
+      y1 = Math.min(y1, yy);
+      x2 = Math.max(x2, xx);
+      y2 = Math.max(y2, yy);
+    }
+  }
+  if (x2 < 0) return null;
+  const textBounds = {
+    x: Math.max(x + 1, x1 - 1),
+    y: Math.max(top + 1, y1 - 1),
+    width: Math.min(x + w - 1, x2 + 2) - Math.max(x + 1, x1 - 1),
+    height: Math.min(top + h - 1, y2 + 2) - Math.max(top + 1, y1 - 1)
+  };
+  const { text, confidence } = recognizeText(data, width, height, textBounds, NUMERIC_ALPHABET);
+  const parsed = confidence >= 0.4 ? parsePriceLabel(text, calibration?.decimalSeparator || '.') : null;
+  const y = centerOf(tag);
+
+  return {
+    bounds: tag.bounds,
+    y,
+    text,
+    value: parsed ? parsed.value : null,
+    axisValue: calibration ? priceAtY(calibration, y) : null,
+    color: tag.color,
+    hasPriceLine: !!withLine
+  };
+};
+
+// Limpar a área de plotagem; devolve uma cópia dos pixels (os originais seguem para o OCR)
+export const removePlotArtifacts = (
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: {
+    textBoxes?: TextBox[];
+    excludeColumns?: { x: number; width: number };
+    excludeRows?: { y: number; height: number };
+    priceCalibration?: PriceCalibration | null;
+  } = {}
+): { data: Uint8ClampedArray; artifacts: PlotArtifacts } => {
+  const data = new Uint8ClampedArray(source);
+  const background = estimateBackgroundColor(source, width, height);
+
+  // Área de plotagem: fora do eixo de preço e das faixas inferiores (volume, eixo de tempo)
+  const axis = options.excludeColumns;
+  const plot = {
+    x0: axis && axis.x === 0 ? axis.width : 0,
+    x1: axis && axis.x > 0 ? axis.x : width,
+    y0: 0,
+    y1: options.excludeRows ? options.excludeRows.y : height
+  };
+
+  // 1. Etiquetas (lidas antes de qualquer alteração)
+  const priceTags = detectPriceTags(source, width, height, background, { y0: plot.y0, y1: plot.y1 }, axis);
+
+  // 2. Linhas de grade e linha do preço atual
+  const horizontal = detectLines(source, width, height, plot, background, true);
+  const vertical = detectLines(source, width, height, plot, background, false);
+  let removedPixels = 0;
+  horizontal.lines.forEach(line => { removedPixels += eraseLine(data, width, plot, background, line, true); });
+  vertical.lines.forEach(line => { removedPixels += eraseLine(data, width, plot, background, line, false); });
+
+  // 3. Marcas d'água
+  const watermarks = removeWatermarks(data, width, height, plot, background);
+  removedPixels += watermarks.removed;
+
+  // 4. Textos sobrepostos (legendas OHLC, nome do ativo, valores de indicadores)
+  const overlayText = (options.textBoxes || []).filter(box =>
+    box.glyphCount >= 3 &&
+    box.x >= plot.x0 && box.x + box.width <= plot.x1 &&
+    box.y >= plot.y0 && box.y + box.height <= plot.y1 &&
+    recognizeText(source, width, height, box, OVERLAY_ALPHABET).confidence >= 0.5
+  );
+  for (const box of overlayText) {
+    for (let y = Math.max(0, box.y - 1); y <= Math.min(height - 1, box.y + box.height); y++) {
+      for (let x = Math.max(0, box.x - 1); x <= Math.min(width - 1, box.x + box.width); x++) {
+        const i = (y * width + x) * 4;
+        const chroma = Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+        if (chroma >= 60 || colorDistance(background, data, i) < BACKGROUND_DISTANCE) continue;
+        data[i] = background[0];
+        data[i + 1] = background[1];
+        data[i + 2] = background[2];
+        removedPixels++;
+      }
+    }
+  }
+
+  // 5. Etiquetas dentro da plotagem viram fundo; as do eixo já ficam fora da segmentação
+  for (const tag of priceTags) {
+    if (tag.inAxis) continue;
+    const { x, y, width: w, height: h } = tag.bounds;
+    for (let yy = y; yy < y + h; yy++) {
+      for (let xx = x; xx < x + w; xx++) {
+        const i = (yy * width + xx) * 4;
+        data[i] = background[0];
+        data[i + 1] = background[1];
+        data[i + 2] = background[2];
+        removedPixels++;
+      }
+    }
+  }
+
+  const currentPriceLabel = readCurrentPriceLabel(source, width, height, priceTags, horizontal.lines, options.priceCalibration);
+
+  console.log(
+    `Limpeza da plotagem: ${horizontal.lines.length} linhas horizontais, ${vertical.lines.length} verticais, ` +
+    `${watermarks.bounds.length} marcas d'água, ${overlayText.length} textos, ${priceTags.length} etiquetas` +
+    (currentPriceLabel ? `, preço atual "${currentPriceLabel.text}"` : '')
+  );
+
+  return {
+    data,
+    artifacts: {
+      horizontalLines: horizontal.lines,
+      verticalLines: vertical.lines,
+      gridPeriod: { horizontal: horizontal.period, vertical: vertical.period },
+      watermarks: watermarks.bounds,
+      overlayText,
+      priceTags,
+      currentPriceLabel,
+      removedPixels
+    }
+  };
+};
@@ -0,0 +1,340 @@
+/**
+ * Calibração do eixo de preço: localiza a escala vertical do gráfico, lê os
+ * rótulos com o OCR offline e ajusta a transformação pixel → preço.
+ */
+
+import { PriceCalibration } from '@/context/AnalyzerContext';
+import { detectTextBoxes, recognizeText, NUMERIC_ALPHABET, TextBox } from './chartOcr';
+
+// Abaixo disso a coluna de "rótulos" provavelmente não é um eixo de preço
+const MIN_AXIS_CONFIDENCE = 0.4;
+// Com dois rótulos qualquer par mal lido vira uma reta perfeita
+const MIN_INLIERS = 3;
+// Faixa de preço implícita no eixo, em múltiplos do valor típico dos rótulos
+const MAX_IMPLIED_RANGE = 3;
+
+type AxisLabel = {
+  y: number;
+  text: string;
+  ocrConfidence: number;
+};
+
+type LineFit = {
+  slope: number;
+  intercept: number;
+  inliers: boolean[];
+  rmsPixels: number;
+};
+
+// Interpretar um rótulo de preço segundo o separador decimal informado
+export const parsePriceLabel = (
+  text: string,
+  decimalSeparator: '.' | ','
+): { value: number; decimals: number } | null => {
+  const cleaned = text.replace(/[^0-9.,-]/g, '');
+  if (!/[0-9]/.test(cleaned)) return null;
+
+  const negative = cleaned.startsWith('-');
+  const body = cleaned.replace(/-/g, '');
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+
+  const decimalParts = body.split(decimalSeparator);
+  if (decimalParts.length > 2) return null;
+
+  const [integerPart, fractionPart = ''] = decimalParts;
+  if (fractionPart.includes(thousandsSeparator)) return null;
+
+  // Separadores de milhar só são válidos em grupos de 3 dígitos
+  const groups = integerPart.split(thousandsSeparator);
+  if (groups.length > 1) {
+    if (groups[0].length === 0 || groups[0].length > 3) return null;
+    if (groups.slice(1).some(group => group.length !== 3)) return null;
+  }
+
+  const digits = groups.join('');
+  if (digits.length === 0 && fractionPart.length === 0) return null;
+
+  const value = parseFloat(`${digits || '0'}.${fractionPart || '0'}`);
+  if (!isFinite(value)) return null;
+
+  return {
+    value: negative ? -value : value,
+    decimals: fractionPart.length
+  };
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Ajuste robusto (RANSAC sobre pares) de preço = slope * y + intercept
+const fitPriceLine = (points: { y: number; value: number }[]): LineFit | null => {
+  if (points.length < MIN_INLIERS) return null;
+
+  const sortedY = points.map(p => p.y).sort((a, b) => a - b);
+  const gaps = sortedY.slice(1).map((y, i) => y - sortedY[i]).filter(gap => gap > 2);
+  const tolerance = Math.max(2, median(gaps) * 0.25);
+
+  let best: { inliers: boolean[]; count: number; error: number } | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dy = points[j].y - points[i].y;
+      if (Math.abs(dy) < 3) continue;
+
+      const slope = (points[j].value - points[i].value) / dy;
+      // Preço cresce para cima: y menor => preço maior
+      if (!(slope < 0)) continue;
+      const intercept = points[i].value - slope * points[i].y;
+
+      let count = 0;
+      let error = 0;
+      const inliers = points.map(p => {
+        const predictedY = (p.value - intercept) / slope;
+        const residual = Math.abs(predictedY - p.y);
+        const isInlier = residual <= tolerance;
+        if (isInlier) {
+          count++;
+          error += residual;
+        }
+        return isInlier;
+      });
+
+      if (!best || count > best.count || (count === best.count && error < best.error)) {
+        best = { inliers, count, error };
+      }
+    }
+  }
+
+  if (!best || best.count < MIN_INLIERS) return null;
+
+  // Mínimos quadrados apenas com os inliers
+  const inlierPoints = points.filter((_, i) => best!.inliers[i]);
+  const n = inlierPoints.length;
+  const meanY = inlierPoints.reduce((sum, p) => sum + p.y, 0) / n;
+  const meanV = inlierPoints.reduce((sum, p) => sum + p.value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of inlierPoints) {
+    covariance += (p.y - meanY) * (p.value - meanV);
+    variance += (p.y - meanY) * (p.y - meanY);
+  }
+  if (variance === 0) return null;
+
+  const slope = covariance / variance;
+  if (slope >= 0) return null;
+  const intercept = meanV - slope * meanY;
+
+  const rmsPixels = Math.sqrt(
+    inlierPoints.reduce((sum, p) => {
+      const residual = (p.value - intercept) / slope - p.y;
+      return sum + residual * residual;
+    }, 0) / n
+  );
+
+  return { slope, intercept, inliers: best.inliers, rmsPixels };
+};
+
+// Escolher a coluna de rótulos empilhados mais consistente de um lado do gráfico
+const findLabelColumn = (boxes: TextBox[], side: 'left' | 'right', width: number): TextBox[] => {
+  const candidates = boxes.filter(box => {
+    if (box.width > width * 0.3) return false;
+    return side === 'right'
+      ? box.x > width * 0.6
+      : box.x + box.width < width * 0.4;
+  });
+
+  let bestColumn: TextBox[] = [];
+  for (const seed of candidates) {
+    const column = candidates.filter(box => {
+      const overlap = Math.min(seed.x + seed.width, box.x + box.width) - Math.max(seed.x, box.x);
+      return overlap >= Math.min(seed.width, box.width) * 0.3;
+    });
+    if (column.length > bestColumn.length) {
+      bestColumn = column;
+    }
+  }
+
+  // Um rótulo por linha: se dois blocos dividem a mesma faixa vertical, manter o mais longo
+  const sorted = [...bestColumn].sort((a, b) => a.y - b.y);
+  const unique: TextBox[] = [];
+  for (const box of sorted) {
+    const last = unique[unique.length - 1];
+    if (last && box.y < last.y + last.height) {
+      if (box.glyphCount > last.glyphCount) unique[unique.length - 1] = box;
+    } else {
+      unique.push(box);
+    }
+  }
+
+  return unique;
+};
+
+// Quão regular é o espaçamento entre valores consecutivos (escalas usam passos constantes)
+const spacingRegularity = (values: number[]): number => {
+  if (values.length < 3) return 0.5;
+  const sorted = [...values].sort((a, b) => a - b);
+  const steps = sorted.slice(1).map((v, i) => v - sorted[i]);
+  const typical = median(steps);
+  if (typical <= 0) return 0;
+  const regular = steps.filter(step => Math.abs(step - typical) <= typical * 0.02).length;
+  return regular / steps.length;
+};
+
+// Rótulos da escala ficam numa grade de passo constante (rótulos não lidos deixam buracos);
+// tolera um rótulo fora da grade, a etiqueta do preço atual que fica sobre o eixo
+const consistentSteps = (values: number[]): boolean => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const steps = sorted.slice(1).map((v, i) => v - sorted[i]).filter(step => step > 0);
+  const required = Math.max(MIN_INLIERS, sorted.length - 1);
+  return steps.some(step => sorted.some(origin => sorted.filter(value => {
+    const offset = (value - origin) / step;
+    return Math.abs(offset - Math.round(offset)) <= 0.05;
+  }).length >= required));
+};
+
+const calibrateFromLabels = (
+  labels: AxisLabel[],
+  decimalSeparator: '.' | ','
+): Omit<PriceCalibration, 'axisSide' | 'axisBounds'> | null => {
+  const parsed = labels
+    .map(label => ({ label, parsed: parsePriceLabel(label.text, decimalSeparator) }))
+    .filter((entry): entry is { label: AxisLabel; parsed: { value: number; decimals: number } } => entry.parsed !== null);
+
+  const fit = fitPriceLine(parsed.map(entry => ({ y: entry.label.y, value: entry.parsed.value })));
+  if (!fit) return null;
+
+  const inlierEntries = parsed.filter((_, i) => fit.inliers[i]);
+  const inlierCount = inlierEntries.length;
+  const inlierValues = inlierEntries.map(entry => entry.parsed.value);
+
+  // Faixa implícita entre o rótulo mais alto e o mais baixo da coluna: dígitos mal lidos
+  // produzem retas milhares de vezes mais íngremes que a escala real
+  const labelYs = labels.map(label => label.y);
+  const impliedHigh = fit.slope * Math.min(...labelYs) + fit.intercept;
+  const impliedLow = fit.slope * Math.max(...labelYs) + fit.intercept;
+  const typicalValue = median(parsed.map(entry => Math.abs(entry.parsed.value)));
+  if (impliedHigh - impliedLow > MAX_IMPLIED_RANGE * typicalValue) return null;
+  if (inlierValues.every(value => value > 0) && impliedLow < -0.05 * (impliedHigh - impliedLow)) return null;
+  if (!consistentSteps(inlierValues)) return null;
+
+  const ys = inlierEntries.map(entry => entry.label.y).sort((a, b) => a - b);
+  const spacing = median(ys.slice(1).map((y, i) => y - ys[i])) || 1;
+
+  const inlierRatio = inlierCount / labels.length;
+  const fitQuality = Math.max(0, 1 - (fit.rmsPixels / spacing) * 4);
+  const ocrQuality = inlierEntries.reduce((sum, entry) => sum + entry.label.ocrConfidence, 0) / inlierCount;
+  const regularity = spacingRegularity(inlierValues);
+  const countFactor = Math.min(1, inlierCount / 4);
+
+  const confidence = countFactor * (
+    inlierRatio * 0.3 +
+    fitQuality * 0.3 +
+    ocrQuality * 0.2 +
+    regularity * 0.2
+  );
+
+  return {
+    slope: fit.slope,
+    intercept: fit.intercept,
+    confidence: parseFloat(Math.max(0, Math.min(1, confidence)).toFixed(2)),
+    decimalSeparator,
+    decimals: Math.max(0, ...inlierEntries.map(entry => entry.parsed.decimals)),
+    labels: parsed.map((entry, i) => ({
+      y: entry.label.y,
+      value: entry.parsed.value,
+      text: entry.label.text,
+      inlier: fit.inliers[i]
+    }))
+  };
+};
+
+// Localizar o eixo de preço e calibrar a escala vertical do gráfico
+export const calibratePriceAxis = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  textBoxes?: TextBox[],
+  preferredSide?: 'left' | 'right' // Lado indicado pelo perfil da plataforma
+): PriceCalibration | null => {
+  const boxes = textBoxes || detectTextBoxes(data, width, height);
+  let best: PriceCalibration | null = null;
+
+  const sides = preferredSide === 'left' ? ['left', 'right'] as const : ['right', 'left'] as const;
+  for (const side of sides) {
+    const column = findLabelColumn(boxes, side, width);
+    if (column.length < 3) continue;
+
+    const labels: AxisLabel[] = column
+      .map(box => {
+        const recognized = recognizeText(data, width, height, box, NUMERIC_ALPHABET);
+        return {
+          y: box.y + box.height / 2,
+          text: recognized.text,
+          ocrConfidence: recognized.confidence
+        };
+      })
+      .filter(label => /[0-9]/.test(label.text));
+
+    if (labels.length < MIN_INLIERS) continue;
+
+    // Testar os dois formatos (1,234.56 e 1.234,56) e ficar com o mais coerente; sem nenhuma
+    // vírgula no eixo o ponto é decimal (1.265 como 1265 encaixa rótulos que perderam o ponto)
+    const separators = labels.some(label => label.text.includes(',')) ? ['.', ','] as const : ['.'] as const;
+    for (const decimalSeparator of separators) {
+      const calibration = calibrateFromLabels(labels, decimalSeparator);
+      if (!calibration) continue;
+
+      const axisLeft = Math.max(0, Math.min(...column.map(box => box.x)) - 2);
+      const axisRight = Math.min(width, Math.max(...column.map(box => box.x + box.width)) + 2);
+      const candidate: PriceCalibration = {
+        ...calibration,
+        axisSide: side,
+        axisBounds: side === 'right'
+          ? { x: axisLeft, width: width - axisLeft }
+          : { x: 0, width: axisRight }
+      };
+
+      const candidateInliers = candidate.labels.filter(label => label.inlier).length;
+      const bestInliers = best ? best.labels.filter(label => label.inlier).length : 0;
+      // O outro lado só substitui o lado do perfil com mais rótulos coerentes
+      const sameSide = !best || !preferredSide || best.axisSide === side;
+      if (!best ||
+          candidateInliers > bestInliers ||
+          (sameSide && candidateInliers === bestInliers && candidate.confidence > best.confidence)) {
+        best = candidate;
+      }
+    }
+  }
+
+  // Colunas de candles finos podem ser lidas como "1": calibração fraca demais é descartada
+  if (best && best.confidence < MIN_AXIS_CONFIDENCE) {
+    console.log(`Eixo de preço descartado: confiança ${(best.confidence * 100).toFixed(0)}%`);
+    best = null;
+  }
+
+  if (best) {
+    console.log(`Eixo de preço calibrado (${best.axisSide}): confiança ${(best.confidence * 100).toFixed(0)}%, ${best.labels.length} rótulos`);
+  } else {
+    console.log('Eixo de preço não encontrado, usando escala relativa');
+  }
+
+  return best;
+};
+
+// Converter uma coordenada y da imagem em preço
+export const priceAtY = (calibration: PriceCalibration, y: number): number => {
+  return calibration.slope * y + calibration.intercept;
+};
+
+// Converter um preço em coordenada y da imagem
+export const yAtPrice = (calibration: PriceCalibration, price: number): number => {
+  return (price - calibration.intercept) / calibration.slope;
+};
+
+// Arredondar um preço para a precisão exibida no eixo
+export const roundToAxisPrecision = (calibration: PriceCalibration, price: number): number => {
+  return parseFloat(price.toFixed(Math.min(8, calibration.decimals + 1)));
+};
@@ -0,0 +1,463 @@
+/**
+ * Screen-capture cleanup for phone photos of LCDs: refresh banding, moiré and
+ * glare. Runs in the chart-analysis worker on a downscaled copy of the image;
+ * the costly moiré pass only runs when a probe on a few tiles finds peaks.
+ */
+
+// Result of the screen-capture cleanup: what was found and what was corrected
+export type ScreenCleanupReport = {
+  moireStrength: number; // 0-1, share of spectral energy in isolated off-axis peaks
+  moireSuppressed: boolean;
+  bandingStrength: number; // Std deviation of the background brightness across rows/columns (0-255 levels)
+  bandingFlattened: boolean;
+  glareCoverage: number; // 0-1, fraction of the image covered by specular glare
+  glareInpainted: boolean;
+  corrections: string[];
+  recoverable: boolean; // false when the capture lost too much information and must be retaken
+};
+
+export type CleanedPixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Corrected pixels (working-copy size) only when something was corrected; otherwise keep the original
+export type ScreenCleanupResult = { report: ScreenCleanupReport; pixels: CleanedPixels | null };
+
+const MOIRE_TILE = 256;
+const MOIRE_PROBE_TILES = 6;
+const MOIRE_PEAK_RATIO = 8;
+const BANDING_MIN_STRENGTH = 3;
+const GLARE_MAX_RECOVERABLE = 0.08;
+const CLEANUP_MAX_SIDE = 1280; // Longer side of the working copy
+
+// In-place iterative radix-2 FFT (inverse when `inverse` is true, unnormalized)
+const fft1d = (re: Float64Array, im: Float64Array, inverse: boolean): void => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1, curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// 2D FFT of a square tile (rows, then columns)
+const fft2d = (re: Float64Array, im: Float64Array, size: number, inverse: boolean): void => {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < size; line++) {
+      for (let k = 0; k < size; k++) {
+        const idx = pass === 0 ? line * size + k : k * size + line;
+        rowRe[k] = re[idx];
+        rowIm[k] = im[idx];
+      }
+      fft1d(rowRe, rowIm, inverse);
+      for (let k = 0; k < size; k++) {
+        const idx = pass === 0 ? line * size + k : k * size + line;
+        re[idx] = rowRe[k];
+        im[idx] = rowIm[k];
+      }
+    }
+  }
+
+  if (inverse) {
+    const norm = size * size;
+    for (let i = 0; i < re.length; i++) {
+      re[i] /= norm;
+      im[i] /= norm;
+    }
+  }
+};
+
+// Notch isolated off-axis spectral peaks in one tile; returns the removed and total energy
+const notchMoirePeaks = (re: Float64Array, im: Float64Array, size: number): { removed: number; total: number } => {
+  const magnitude = new Float64Array(size * size);
+  for (let i = 0; i < magnitude.length; i++) magnitude[i] = Math.hypot(re[i], im[i]);
+
+  // Summed-area table for the local mean around each frequency bin
+  const sat = new Float64Array((size + 1) * (size + 1));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      sat[(y + 1) * (size + 1) + x + 1] = magnitude[y * size + x] +
+        sat[y * (size + 1) + x + 1] + sat[(y + 1) * (size + 1) + x] - sat[y * (size + 1) + x];
+    }
+  }
+  const localMean = (x: number, y: number, radius: number) => {
+    const x0 = Math.max(0, x - radius), y0 = Math.max(0, y - radius);
+    const x1 = Math.min(size, x + radius + 1), y1 = Math.min(size, y + radius + 1);
+    const sum = sat[y1 * (size + 1) + x1] - sat[y0 * (size + 1) + x1] - sat[y1 * (size + 1) + x0] + sat[y0 * (size + 1) + x0];
+    return sum / ((x1 - x0) * (y1 - y0));
+  };
+
+  let total = 0;
+  let removed = 0;
+  const minRadius = size * 0.1;
+  const notched = new Uint8Array(size * size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Signed frequencies; chart lines and candle spacing live on the axes, so those are kept
+      const fx = x < size / 2 ? x : x - size;
+      const fy = y < size / 2 ? y : y - size;
+      const energy = magnitude[y * size + x] ** 2;
+      if (fx !== 0 || fy !== 0) total += energy;
+      if (Math.abs(fx) <= 2 || Math.abs(fy) <= 2 || Math.hypot(fx, fy) < minRadius) continue;
+
+      const value = magnitude[y * size + x];
+      const mean = localMean(x, y, 4);
+      if (value <= mean * MOIRE_PEAK_RATIO || notched[y * size + x]) continue;
+
+      // Attenuate a small disc around the peak down to the surrounding level
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          if (dx * dx + dy * dy > 4) continue;
+          const nx = (x + dx + size) % size, ny = (y + dy + size) % size;
+          const idx = ny * size + nx;
+          if (notched[idx] || magnitude[idx] <= mean) continue;
+          const scale = mean / magnitude[idx];
+          removed += magnitude[idx] ** 2 - mean ** 2;
+          re[idx] *= scale;
+          im[idx] *= scale;
+          notched[idx] = 1;
+        }
+      }
+    }
+  }
+
+  return { removed, total };
+};
+
+// Frequency-domain moiré suppression on luminance, using overlapping sqrt-Hann tiles
+const suppressMoire = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const size = MOIRE_TILE;
+  const step = size / 2;
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+
+  const luminance = new Float64Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    luminance[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+
+  const filtered = new Float64Array(width * height);
+  const weights = new Float64Array(width * height);
+  let removedEnergy = 0;
+  let totalEnergy = 0;
+
+  for (let ty = -step; ty < height; ty += step) {
+    for (let tx = -step; tx < width; tx += step) {
+      const re = new Float64Array(size * size);
+      const im = new Float64Array(size * size);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const sx = Math.min(width - 1, Math.max(0, tx + x));
+          const sy = Math.min(height - 1, Math.max(0, ty + y));
+          re[y * size + x] = luminance[sy * width + sx] * window[x] * window[y];
+        }
+      }
+
+      fft2d(re, im, size, false);
+      const { removed, total } = notchMoirePeaks(re, im, size);
+      removedEnergy += removed;
+      totalEnergy += total;
+      if (removed > 0) fft2d(re, im, size, true);
+
+      for (let y = 0; y < size; y++) {
+        const iy = ty + y;
+        if (iy < 0 || iy >= height) continue;
+        for (let x = 0; x < size; x++) {
+          const ix = tx + x;
+          if (ix < 0 || ix >= width) continue;
+          const w = window[x] * window[y];
+          const value = removed > 0 ? re[y * size + x] : luminance[iy * width + ix] * w;
+          filtered[iy * width + ix] += value * w;
+          weights[iy * width + ix] += w * w;
+        }
+      }
+    }
+  }
+
+  const strength = totalEnergy > 0 ? removedEnergy / totalEnergy : 0;
+  if (removedEnergy === 0) return 0;
+
+  // Apply the luminance correction equally to all channels so chroma is preserved
+  for (let p = 0; p < width * height; p++) {
+    if (weights[p] === 0) continue;
+    const delta = filtered[p] / weights[p] - luminance[p];
+    for (let c = 0; c < 3; c++) {
+      data[p * 4 + c] = Math.max(0, Math.min(255, data[p * 4 + c] + delta));
+    }
+  }
+
+  return strength;
+};
+
+// Area-averaged copy with the longer side capped; the full-resolution photo is never processed
+const downscalePixels = (data: Uint8ClampedArray, width: number, height: number): CleanedPixels => {
+  const scale = Math.max(width, height) / CLEANUP_MAX_SIDE;
+  if (scale <= 1) return { data: data.slice(), width, height };
+
+  const outWidth = Math.round(width / scale);
+  const outHeight = Math.round(height / scale);
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let y = 0; y < outHeight; y++) {
+    const y0 = Math.floor(y * scale), y1 = Math.max(y0 + 1, Math.min(height, Math.floor((y + 1) * scale)));
+    for (let x = 0; x < outWidth; x++) {
+      const x0 = Math.floor(x * scale), x1 = Math.max(x0 + 1, Math.min(width, Math.floor((x + 1) * scale)));
+      const sums = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          for (let c = 0; c < 4; c++) sums[c] += data[(sy * width + sx) * 4 + c];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      for (let c = 0; c < 4; c++) out[(y * outWidth + x) * 4 + c] = sums[c] / count;
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+};
+
+// Cheap moiré check: notch a few tiles spread over the image without writing anything back
+const probeMoire = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const size = MOIRE_TILE;
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+
+  const columns = MOIRE_PROBE_TILES / 2;
+  let removedEnergy = 0;
+  let totalEnergy = 0;
+  for (let tile = 0; tile < MOIRE_PROBE_TILES; tile++) {
+    const tx = Math.round(((tile % columns) + 0.5) * (width / columns) - size / 2);
+    const ty = Math.round((Math.floor(tile / columns) + 0.5) * (height / 2) - size / 2);
+    const re = new Float64Array(size * size);
+    const im = new Float64Array(size * size);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const p = Math.min(height - 1, Math.max(0, ty + y)) * width + Math.min(width - 1, Math.max(0, tx + x));
+        const lum = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+        re[y * size + x] = lum * window[x] * window[y];
+      }
+    }
+    fft2d(re, im, size, false);
+    const { removed, total } = notchMoirePeaks(re, im, size);
+    removedEnergy += removed;
+    totalEnergy += total;
+  }
+
+  return totalEnergy > 0 ? removedEnergy / totalEnergy : 0;
+};
+
+// Dominant luminance of the image (the chart background)
+const dominantLuminance = (data: Uint8ClampedArray): number => {
+  const histogram = new Array(64).fill(0);
+  for (let i = 0; i < data.length; i += 16) {
+    const lum = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    histogram[Math.min(63, Math.floor(lum / 4))]++;
+  }
+  return histogram.indexOf(Math.max(...histogram)) * 4 + 2;
+};
+
+// Flatten rolling refresh bands: background brightness drifting row by row (or column by column)
+const flattenBanding = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const background = dominantLuminance(data);
+
+  const profile = (alongRows: boolean): number[] => {
+    const lines = alongRows ? height : width;
+    const length = alongRows ? width : height;
+    const result: number[] = [];
+    for (let line = 0; line < lines; line++) {
+      const samples: number[] = [];
+      for (let k = 0; k < length; k += 2) {
+        const p = alongRows ? line * width + k : k * width + line;
+        const lum = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+        if (Math.abs(lum - background) < 40) samples.push(lum);
+      }
+      samples.sort((a, b) => a - b);
+      result.push(samples.length > length / 8 ? samples[Math.floor(samples.length / 2)] : background);
+    }
+    return result;
+  };
+
+  const spread = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  };
+
+  const rows = profile(true);
+  const columns = profile(false);
+  const rowSpread = spread(rows);
+  const columnSpread = spread(columns);
+  const strength = Math.max(rowSpread, columnSpread);
+  if (strength < BANDING_MIN_STRENGTH) return strength;
+
+  // Additive offset per line towards the typical level (works for dark and light themes alike)
+  const alongRows = rowSpread >= columnSpread;
+  const levels = alongRows ? rows : columns;
+  const target = [...levels].sort((a, b) => a - b)[Math.floor(levels.length / 2)];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = target - levels[alongRows ? y : x];
+      const i = (y * width + x) * 4;
+      data[i] = Math.max(0, Math.min(255, data[i] + offset));
+      data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + offset));
+      data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + offset));
+    }
+  }
+
+  return strength;
+};
+
+// Inpaint specular glare: large, bright, desaturated blobs well above the screen background
+const inpaintGlare = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const background = dominantLuminance(data);
+  // On white themes glare clips to the background colour itself and costs nothing
+  if (background > 215) return 0;
+
+  const threshold = Math.max(background + 60, 200);
+  const candidate = new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    const r = data[p * 4], g = data[p * 4 + 1], b = data[p * 4 + 2];
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+    if (lum > threshold && saturation < 40) candidate[p] = 1;
+  }
+
+  // Keep blob-like regions; text and thin lines are too small or too sparse
+  const mask = new Uint8Array(width * height);
+  const visited = new Uint8Array(width * height);
+  const minArea = width * height * 0.001;
+  for (let start = 0; start < width * height; start++) {
+    if (!candidate[start] || visited[start]) continue;
+    const pixels: number[] = [];
+    let x1 = width, y1 = height, x2 = 0, y2 = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      pixels.push(p);
+      const x = p % width, y = Math.floor(p / width);
+      x1 = Math.min(x1, x); x2 = Math.max(x2, x);
+      y1 = Math.min(y1, y); y2 = Math.max(y2, y);
+      const neighbors = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+      for (const n of neighbors) {
+        if (n >= 0 && candidate[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    const boxArea = (x2 - x1 + 1) * (y2 - y1 + 1);
+    if (pixels.length >= minArea && Math.min(x2 - x1, y2 - y1) >= 6 && pixels.length / boxArea > 0.3) {
+      for (const p of pixels) mask[p] = 1;
+    }
+  }
+
+  // Grow the mask by 2px to cover the glare halo
+  for (let pass = 0; pass < 2; pass++) {
+    const grown = new Uint8Array(mask);
+    for (let p = 0; p < width * height; p++) {
+      if (mask[p]) continue;
+      const x = p % width, y = Math.floor(p / width);
+      if ((x > 0 && mask[p - 1]) || (x < width - 1 && mask[p + 1]) || (y > 0 && mask[p - width]) || (y < height - 1 && mask[p + width])) {
+        grown[p] = 1;
+      }
+    }
+    mask.set(grown);
+  }
+
+  let covered = 0;
+  for (let p = 0; p < mask.length; p++) covered += mask[p];
+  if (covered === 0) return 0;
+
+  // Onion-peel inpainting: fill from the border inwards with the mean of known neighbours
+  let remaining = covered;
+  while (remaining > 0) {
+    const filled: number[] = [];
+    for (let p = 0; p < width * height; p++) {
+      if (!mask[p]) continue;
+      const x = p % width, y = Math.floor(p / width);
+      const sums = [0, 0, 0];
+      let known = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n]) continue;
+          for (let c = 0; c < 3; c++) sums[c] += data[n * 4 + c];
+          known++;
+        }
+      }
+      if (known === 0) continue;
+      for (let c = 0; c < 3; c++) data[p * 4 + c] = sums[c] / known;
+      filled.push(p);
+    }
+    if (filled.length === 0) break;
+    for (const p of filled) mask[p] = 0;
+    remaining -= filled.length;
+  }
+
+  return covered / (width * height);
+};
+
+// Clean a screen capture once: banding, moiré (only when the probe finds peaks) and glare on a downscaled copy
+export const cleanScreenCapture = (data: Uint8ClampedArray, width: number, height: number): ScreenCleanupResult => {
+  const pixels = downscalePixels(data, width, height);
+  const corrections: string[] = [];
+
+  const bandingStrength = flattenBanding(pixels.data, pixels.width, pixels.height);
+  const bandingFlattened = bandingStrength >= BANDING_MIN_STRENGTH;
+  if (bandingFlattened) corrections.push('Faixas de atualização da tela niveladas');
+
+  const moireStrength = probeMoire(pixels.data, pixels.width, pixels.height) > 0
+    ? suppressMoire(pixels.data, pixels.width, pixels.height)
+    : 0;
+  const moireSuppressed = moireStrength > 0;
+  if (moireSuppressed) corrections.push(`Padrão moiré suprimido (${(moireStrength * 100).toFixed(1)}% da energia)`);
+
+  const glareCoverage = inpaintGlare(pixels.data, pixels.width, pixels.height);
+  const glareInpainted = glareCoverage > 0;
+  if (glareInpainted) corrections.push(`Reflexo removido (${(glareCoverage * 100).toFixed(1)}% da imagem)`);
+
+  // Large glare patches hide candles entirely; inpainting cannot bring them back
+  const recoverable = glareCoverage <= GLARE_MAX_RECOVERABLE;
+
+  return {
+    report: {
+      moireStrength: parseFloat(moireStrength.toFixed(3)),
+      moireSuppressed,
+      bandingStrength: parseFloat(bandingStrength.toFixed(1)),
+      bandingFlattened,
+      glareCoverage: parseFloat(glareCoverage.toFixed(3)),
+      glareInpainted,
+      corrections,
+      recoverable
+    },
+    pixels: corrections.length > 0 ? pixels : null
+  };
+};
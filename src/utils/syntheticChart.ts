@@ -0,0 +1,404 @@
+/**
+ * Renderizador sintético de gráficos de candles: desenha uma série OHLC
+ * conhecida num buffer RGBA, com eixos rotulados na fonte de cada plataforma
+ * (rasterizada por OffscreenCanvas, com antialiasing), linhas de grade,
+ * sobreposições da plataforma, ruído e desfoque, para medir a precisão da
+ * extração. Os rótulos não usam os modelos do OCR, então a leitura dos eixos
+ * é medida como num print real.
+ */
+
+import { CandleData } from '@/context/AnalyzerContext';
+
+type RGB = [number, number, number];
+
+export interface SyntheticChartStyle {
+  name: string;
+  background: RGB;
+  grid: RGB | null;
+  text: RGB;
+  font: string; // Família CSS dos rótulos dos eixos, como a plataforma usa
+  fontSize: number; // Tamanho da fonte em px CSS (multiplicado por fontScale)
+  bullish: RGB;
+  bearish: RGB;
+  wick: 'body' | RGB; // Pavio na cor do corpo ou numa cor fixa
+}
+
+export interface SyntheticRenderOptions {
+  width?: number;
+  height?: number;
+  candleWidth?: number;
+  candleSpacing?: number;
+  fontScale?: number; // Densidade de pixels da captura (2 = tela retina/celular)
+  timeLabelEvery?: number; // Rótulo de horário a cada N candles
+  noise?: number; // Desvio padrão do ruído por canal (0-255)
+  blur?: number; // Raio do desfoque de caixa em pixels
+  overlays?: boolean; // Marca d'água, legenda e linha/etiqueta do preço atual
+  drawings?: boolean; // Linha horizontal, linha de tendência e zona retangular desenhadas pelo "usuário"
+  random?: () => number;
+}
+
+export interface SyntheticDrawing {
+  kind: 'horizontal' | 'trendline' | 'rectangle';
+  points: { x: number; y: number }[]; // Extremos da linha ou cantos opostos do retângulo
+  prices: number[];
+  color: RGB;
+}
+
+export interface SyntheticChart {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  candles: CandleData[]; // Série desenhada, com posição e tamanho em pixels
+  plot: { x: number; y: number; width: number; height: number };
+  priceRange: { min: number; max: number };
+  currentPrice: number; // Fechamento do último candle (valor da etiqueta, quando desenhada)
+  drawings: SyntheticDrawing[];
+}
+
+// Estilos aproximados das plataformas mais usadas
+export const SYNTHETIC_CHART_STYLES: Record<string, SyntheticChartStyle> = {
+  tradingviewLight: {
+    name: 'TradingView (claro)',
+    background: [255, 255, 255],
+    grid: [240, 243, 250],
+    text: [19, 23, 34],
+    font: '"Trebuchet MS", Roboto, sans-serif',
+    fontSize: 12,
+    bullish: [8, 153, 129],
+    bearish: [242, 54, 69],
+    wick: 'body'
+  },
+  tradingviewDark: {
+    name: 'TradingView (escuro)',
+    background: [19, 23, 34],
+    grid: [42, 46, 57],
+    text: [178, 181, 190],
+    font: '"Trebuchet MS", Roboto, sans-serif',
+    fontSize: 12,
+    bullish: [38, 166, 154],
+    bearish: [239, 83, 80],
+    wick: 'body'
+  },
+  metatrader: {
+    name: 'MetaTrader',
+    background: [0, 0, 0],
+    grid: [50, 50, 50],
+    text: [220, 220, 220],
+    font: 'Tahoma, sans-serif',
+    fontSize: 11,
+    bullish: [0, 200, 0],
+    bearish: [220, 0, 0],
+    wick: [0, 200, 0]
+  },
+  binance: {
+    name: 'Binance',
+    background: [22, 26, 30],
+    grid: null,
+    text: [132, 142, 156],
+    font: 'Arial, sans-serif',
+    fontSize: 12,
+    bullish: [14, 203, 129],
+    bearish: [246, 70, 93],
+    wick: 'body'
+  },
+  iqOption: {
+    name: 'IQ Option',
+    background: [30, 34, 45],
+    grid: [45, 50, 63],
+    text: [200, 200, 210],
+    font: 'Roboto, sans-serif',
+    fontSize: 12,
+    bullish: [43, 196, 115],
+    bearish: [230, 70, 70],
+    wick: [140, 140, 150]
+  }
+};
+
+// Gerador pseudoaleatório determinístico (mulberry32) para séries reproduzíveis
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Passo "redondo" (1, 2 ou 5 × 10^n) para ter cerca de `targetTicks` rótulos
+const niceStep = (range: number, targetTicks: number): number => {
+  const rough = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  const factor = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return factor * magnitude;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+// Desfoque de caixa separável (horizontal e depois vertical)
+const boxBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number): void => {
+  const source = new Float32Array(data.length);
+  for (let pass = 0; pass < 2; pass++) {
+    source.set(data);
+    const lines = pass === 0 ? height : width;
+    const length = pass === 0 ? width : height;
+    for (let line = 0; line < lines; line++) {
+      for (let k = 0; k < length; k++) {
+        const sums = [0, 0, 0];
+        let count = 0;
+        for (let offset = -radius; offset <= radius; offset++) {
+          const position = Math.min(length - 1, Math.max(0, k + offset));
+          const p = pass === 0 ? line * width + position : position * width + line;
+          for (let c = 0; c < 3; c++) sums[c] += source[p * 4 + c];
+          count++;
+        }
+        const target = pass === 0 ? line * width + k : k * width + line;
+        for (let c = 0; c < 3; c++) data[target * 4 + c] = sums[c] / count;
+      }
+    }
+  }
+};
+
+// Renderizar uma série OHLC conhecida como um gráfico de candles
+export const renderSyntheticChart = (
+  series: CandleData[],
+  style: SyntheticChartStyle,
+  options: SyntheticRenderOptions = {}
+): SyntheticChart => {
+  const {
+    width = 800,
+    height = 480,
+    candleWidth = 9,
+    candleSpacing = 15,
+    fontScale = 2,
+    timeLabelEvery = 6,
+    noise = 0,
+    blur = 0,
+    overlays = false,
+    drawings = false,
+    random = Math.random
+  } = options;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    data[p * 4] = style.background[0];
+    data[p * 4 + 1] = style.background[1];
+    data[p * 4 + 2] = style.background[2];
+    data[p * 4 + 3] = 255;
+  }
+
+  const setPixel = (x: number, y: number, color: RGB) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    const i = (Math.round(y) * width + Math.round(x)) * 4;
+    data[i] = color[0];
+    data[i + 1] = color[1];
+    data[i + 2] = color[2];
+  };
+
+  if (typeof OffscreenCanvas === 'undefined') {
+    throw new Error('O renderizador sintético precisa de OffscreenCanvas para desenhar os rótulos.');
+  }
+  const fontSize = style.fontSize * fontScale;
+  const fontFor = (size: number) => `${size}px ${style.font}`;
+  const measure = new OffscreenCanvas(1, 1).getContext('2d');
+  const textWidth = (text: string, size = fontSize) => {
+    if (!measure) return 0;
+    measure.font = fontFor(size);
+    return Math.ceil(measure.measureText(text).width);
+  };
+
+  // Compor o texto rasterizado sobre o buffer usando a cobertura (alfa) de cada pixel; y é o centro vertical
+  const glyphHeight = fontSize;
+  const drawText = (text: string, x0: number, yCenter: number, color: RGB = style.text, size = fontSize) => {
+    const boxWidth = textWidth(text, size) + 2;
+    const boxHeight = Math.ceil(size * 1.5);
+    const context = new OffscreenCanvas(boxWidth, boxHeight).getContext('2d');
+    if (!context) return;
+    context.font = fontFor(size);
+    context.textBaseline = 'middle';
+    context.fillStyle = '#000';
+    context.fillText(text, 1, boxHeight / 2);
+
+    const ink = context.getImageData(0, 0, boxWidth, boxHeight).data;
+    const left = Math.round(x0) - 1;
+    const top = Math.round(yCenter - boxHeight / 2);
+    for (let y = 0; y < boxHeight; y++) {
+      for (let x = 0; x < boxWidth; x++) {
+        const alpha = ink[(y * boxWidth + x) * 4 + 3] / 255;
+        const px = left + x, py = top + y;
+        if (alpha === 0 || px < 0 || py < 0 || px >= width || py >= height) continue;
+        const i = (py * width + px) * 4;
+        for (let c = 0; c < 3; c++) data[i + c] = data[i + c] * (1 - alpha) + color[c] * alpha;
+      }
+    }
+  };
+
+  // Área de plotagem: eixo de preço à direita, eixo de tempo embaixo
+  const axisWidth = textWidth('00000.00') + 10;
+  const plot = { x: 10, y: 20, width: width - axisWidth - 20, height: height - glyphHeight - 50 };
+
+  const visible = series.slice(-Math.floor(plot.width / candleSpacing));
+  const highest = Math.max(...visible.map(candle => candle.high));
+  const lowest = Math.min(...visible.map(candle => candle.low));
+  const padding = (highest - lowest) * 0.05 || highest * 0.001;
+  const priceRange = { min: lowest - padding, max: highest + padding };
+  const yAt = (price: number) =>
+    plot.y + ((priceRange.max - price) / (priceRange.max - priceRange.min)) * plot.height;
+
+  // Rótulos e linhas de grade do eixo de preço
+  const step = niceStep(priceRange.max - priceRange.min, 7);
+  const decimals = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+  for (let value = Math.ceil(priceRange.min / step) * step; value <= priceRange.max; value += step) {
+    const y = Math.round(yAt(value));
+    if (y - glyphHeight / 2 < 0 || y + glyphHeight / 2 >= plot.y + plot.height) continue;
+    if (style.grid) {
+      for (let x = plot.x; x < plot.x + plot.width; x++) setPixel(x, y, style.grid);
+    }
+    drawText(value.toFixed(decimals), plot.x + plot.width + 10, y);
+  }
+
+  // Candles, rótulos de horário e linhas de grade verticais
+  const rendered: CandleData[] = [];
+  const firstX = plot.x + plot.width - visible.length * candleSpacing + candleSpacing / 2;
+  visible.forEach((candle, index) => {
+    const x = Math.round(firstX + index * candleSpacing);
+
+    if (index % timeLabelEvery === 0) {
+      if (style.grid) {
+        for (let y = plot.y; y < plot.y + plot.height; y++) setPixel(x, y, style.grid);
+      }
+      const label = formatTime(candle.timestamp);
+      drawText(label, Math.round(x - textWidth(label) / 2), plot.y + plot.height + 20 + glyphHeight / 2);
+    }
+  });
+
+  // Marca d'água do ativo: letras grandes quase na cor do fundo, atrás dos candles
+  if (overlays) {
+    const symbol = 'BNB/AUD';
+    const size = fontSize * 6;
+    const faint = style.background.map((value, c) => Math.round(value + (style.text[c] - value) * 0.1)) as RGB;
+    drawText(
+      symbol,
+      Math.round(plot.x + (plot.width - textWidth(symbol, size)) / 2),
+      Math.round(plot.y + plot.height / 2),
+      faint,
+      size
+    );
+  }
+
+  visible.forEach((candle, index) => {
+    const x = Math.round(firstX + index * candleSpacing);
+    const bullish = candle.close >= candle.open;
+    const bodyColor = bullish ? style.bullish : style.bearish;
+    const wickColor = style.wick === 'body' ? bodyColor : style.wick;
+
+    const wickTop = Math.round(yAt(candle.high));
+    const wickBottom = Math.round(yAt(candle.low));
+    for (let y = wickTop; y <= wickBottom; y++) setPixel(x, y, wickColor);
+
+    const bodyTop = Math.round(yAt(Math.max(candle.open, candle.close)));
+    const bodyBottom = Math.max(bodyTop, Math.round(yAt(Math.min(candle.open, candle.close))));
+    const half = Math.floor(candleWidth / 2);
+    for (let y = bodyTop; y <= bodyBottom; y++) {
+      for (let dx = -half; dx <= half; dx++) setPixel(x + dx, y, bodyColor);
+    }
+
+    rendered.push({
+      ...candle,
+      color: bullish ? 'verde' : 'vermelho',
+      position: { x, y: (bodyTop + bodyBottom) / 2 },
+      width: half * 2 + 1,
+      height: bodyBottom - bodyTop,
+      wickTop,
+      wickBottom
+    });
+  });
+
+  // Desenhos do usuário por cima dos candles, nas cores padrão das ferramentas de desenho
+  const drawn: SyntheticDrawing[] = [];
+  if (drawings && visible.length > 0) {
+    const range = priceRange.max - priceRange.min;
+    const priceAt = (y: number) => priceRange.max - ((y - plot.y) / plot.height) * range;
+
+    // Linha horizontal em toda a largura
+    const levelY = Math.round(yAt(priceRange.min + range * 0.7));
+    const blue: RGB = [41, 98, 255];
+    for (let x = plot.x; x < plot.x + plot.width; x++) setPixel(x, levelY, blue);
+    drawn.push({ kind: 'horizontal', points: [{ x: plot.x, y: levelY }, { x: plot.x + plot.width - 1, y: levelY }], prices: [priceAt(levelY), priceAt(levelY)], color: blue });
+
+    // Linha de tendência de 2 px ligando o primeiro quarto ao fim do gráfico
+    const orange: RGB = [255, 152, 0];
+    const start = { x: Math.round(plot.x + plot.width * 0.25), y: Math.round(yAt(priceRange.min + range * 0.15)) };
+    const end = { x: plot.x + plot.width - 10, y: Math.round(yAt(priceRange.min + range * 0.45)) };
+    for (let x = start.x; x <= end.x; x++) {
+      const y = start.y + ((end.y - start.y) * (x - start.x)) / (end.x - start.x);
+      setPixel(x, y, orange);
+      setPixel(x, y + 1, orange);
+    }
+    drawn.push({ kind: 'trendline', points: [start, end], prices: [priceAt(start.y), priceAt(end.y)], color: orange });
+
+    // Zona retangular: borda sólida e preenchimento translúcido (20%)
+    const purple: RGB = [156, 39, 176];
+    const zone = {
+      x1: Math.round(plot.x + plot.width * 0.1),
+      x2: Math.round(plot.x + plot.width * 0.45),
+      y1: Math.round(yAt(priceRange.min + range * 0.95)),
+      y2: Math.round(yAt(priceRange.min + range * 0.82))
+    };
+    for (let y = zone.y1; y <= zone.y2; y++) {
+      for (let x = zone.x1; x <= zone.x2; x++) {
+        const border = y === zone.y1 || y === zone.y2 || x === zone.x1 || x === zone.x2;
+        if (border) {
+          setPixel(x, y, purple);
+          continue;
+        }
+        const i = (y * width + x) * 4;
+        setPixel(x, y, [0, 1, 2].map(c => Math.round(data[i + c] * 0.8 + purple[c] * 0.2)) as RGB);
+      }
+    }
+    drawn.push({
+      kind: 'rectangle',
+      points: [{ x: zone.x1, y: zone.y1 }, { x: zone.x2, y: zone.y2 }],
+      prices: [priceAt(zone.y1), priceAt(zone.y2)],
+      color: purple
+    });
+  }
+
+  const last = visible[visible.length - 1];
+  if (overlays && last) {
+    // Legenda no canto superior esquerdo, como a linha OHLC das plataformas
+    drawText(`O ${last.open.toFixed(decimals + 1)}`, plot.x + 4, plot.y + 2 + glyphHeight / 2);
+
+    // Linha tracejada do preço atual e etiqueta colorida no eixo
+    const lastColor = last.close >= last.open ? style.bullish : style.bearish;
+    const y = Math.round(yAt(last.close));
+    for (let x = plot.x; x < plot.x + plot.width; x++) {
+      if (Math.floor((x - plot.x) / 4) % 2 === 0) setPixel(x, y, lastColor);
+    }
+    const label = last.close.toFixed(decimals + 1);
+    const tag = { x: plot.x + plot.width + 4, y: y - Math.round(glyphHeight / 2) - 4, width: textWidth(label) + 12, height: glyphHeight + 8 };
+    for (let ty = tag.y; ty < tag.y + tag.height; ty++) {
+      for (let tx = tag.x; tx < tag.x + tag.width; tx++) setPixel(tx, ty, lastColor);
+    }
+    drawText(label, tag.x + 6, y, [255, 255, 255]);
+  }
+
+  if (blur > 0) boxBlur(data, width, height, blur);
+
+  if (noise > 0) {
+    for (let i = 0; i < data.length; i += 4) {
+      // Box-Muller: ruído gaussiano independente por canal
+      for (let c = 0; c < 3; c++) {
+        const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        data[i + c] = data[i + c] + gaussian * noise;
+      }
+    }
+  }
+
+  return { data, width, height, candles: rendered, plot, priceRange, currentPrice: last ? last.close : 0, drawings: drawn };
+};
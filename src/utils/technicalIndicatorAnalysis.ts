@@ -1,12 +1,314 @@
-
 import { CandleData, TechnicalIndicator } from "../context/AnalyzerContext";
+import {
+  IndicatorSeries,
+  adx,
+  atr,
+  bollingerBands,
+  cci,
+  lastValue,
+  macd,
+  movingAverageRibbon,
+  obv,
+  rsi,
+  stochastic,
+  williamsR
+} from "./indicators";
 
-export const detectTechnicalIndicators = (candles: CandleData[]): TechnicalIndicator[] => {
-  return [{
+type Signal = TechnicalIndicator['signal'];
+type Strength = TechnicalIndicator['strength'];
+
+const EMA_RIBBON = [5, 8, 13, 21, 34];
+const SMA_RIBBON = [10, 20, 50];
+// Barras em que um cruzamento ainda conta como recente
+const CROSS_LOOKBACK = 3;
+
+const format = (value: number, digits = 2) => value.toFixed(digits);
+
+// Cruzamento de `a` sobre `b` nas últimas barras
+const recentCross = (a: IndicatorSeries, b: IndicatorSeries): 'up' | 'down' | null => {
+  for (let i = a.length - 1; i >= Math.max(1, a.length - CROSS_LOOKBACK); i--) {
+    const [a0, b0, a1, b1] = [a[i - 1], b[i - 1], a[i], b[i]];
+    if (a0 === null || b0 === null || a1 === null || b1 === null) return null;
+    if (a0 <= b0 && a1 > b1) return 'up';
+    if (a0 >= b0 && a1 < b1) return 'down';
+  }
+  return null;
+};
+
+// Inclinação normalizada das últimas barras (regressão linear sobre o valor médio absoluto)
+const slope = (series: IndicatorSeries, bars: number): number | null => {
+  const window = series.slice(-bars).filter((value): value is number => value !== null);
+  if (window.length < 3) return null;
+  const n = window.length;
+  const meanX = (n - 1) / 2;
+  const meanY = window.reduce((sum, value) => sum + value, 0) / n;
+  const covariance = window.reduce((sum, value, i) => sum + (i - meanX) * (value - meanY), 0);
+  const variance = window.reduce((sum, _, i) => sum + (i - meanX) ** 2, 0);
+  const scale = window.reduce((sum, value) => sum + Math.abs(value), 0) / n || 1;
+  return covariance / variance / scale;
+};
+
+// Osciladores de sobrecompra/sobrevenda: extremos indicam reversão, o meio só o viés
+const oscillatorSignal = (value: number, low: number, high: number, extreme: number): { signal: Signal; strength: Strength } => {
+  if (value >= high) return { signal: 'baixa', strength: value >= high + extreme ? 'forte' : 'moderada' };
+  if (value <= low) return { signal: 'alta', strength: value <= low - extreme ? 'forte' : 'moderada' };
+  return { signal: 'neutro', strength: 'fraca' };
+};
+
+const rsiIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const values = rsi(candles);
+  const value = lastValue(values);
+  if (value === null) return null;
+  const { signal, strength } = oscillatorSignal(value, 30, 70, 10);
+  return {
     name: 'RSI',
-    value: '65',
+    value: format(value, 1),
+    signal,
+    strength,
+    description: value >= 70 ? `RSI(14) sobrecomprado em ${format(value, 1)}: risco de correção`
+      : value <= 30 ? `RSI(14) sobrevendido em ${format(value, 1)}: possível repique`
+      : `RSI(14) em ${format(value, 1)}, ${value >= 50 ? 'acima' : 'abaixo'} da linha de 50`,
+    series: { rsi: values }
+  };
+};
+
+const macdIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const lines = macd(candles);
+  const line = lastValue(lines.macd);
+  const histogram = lastValue(lines.histogram);
+  if (line === null || histogram === null) return null;
+
+  const cross = recentCross(lines.macd, lines.signal);
+  const signal: Signal = histogram > 0 ? 'alta' : histogram < 0 ? 'baixa' : 'neutro';
+  // Cruzamento recente do mesmo lado do zero que a direção é o sinal clássico mais forte
+  const strength: Strength = cross && (cross === 'up' ? line < 0 : line > 0) ? 'forte'
+    : cross ? 'moderada'
+    : 'fraca';
+  return {
+    name: 'MACD',
+    value: `${format(line, 4)} / hist ${format(histogram, 4)}`,
+    signal,
+    strength,
+    description: cross
+      ? `MACD cruzou ${cross === 'up' ? 'acima' : 'abaixo'} da linha de sinal ${line < 0 ? 'abaixo' : 'acima'} do zero`
+      : `Histograma ${histogram > 0 ? 'positivo' : 'negativo'}, sem cruzamento recente`,
+    series: { macd: lines.macd, signal: lines.signal, histogram: lines.histogram }
+  };
+};
+
+const stochasticIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const { k, d } = stochastic(candles);
+  const kValue = lastValue(k);
+  const dValue = lastValue(d);
+  if (kValue === null || dValue === null) return null;
+
+  const cross = recentCross(k, d);
+  let signal: Signal = 'neutro';
+  let strength: Strength = 'fraca';
+  if (cross === 'up' && Math.min(kValue, dValue) < 30) {
+    signal = 'alta';
+    strength = 'forte';
+  } else if (cross === 'down' && Math.max(kValue, dValue) > 70) {
+    signal = 'baixa';
+    strength = 'forte';
+  } else {
+    ({ signal, strength } = oscillatorSignal(kValue, 20, 80, 10));
+    if (signal === 'neutro' && cross) signal = cross === 'up' ? 'alta' : 'baixa';
+  }
+  return {
+    name: 'Estocástico',
+    value: `%K ${format(kValue, 1)} / %D ${format(dValue, 1)}`,
+    signal,
+    strength,
+    description: cross
+      ? `%K cruzou ${cross === 'up' ? 'acima' : 'abaixo'} do %D em ${format(kValue, 1)}`
+      : `%K em ${format(kValue, 1)}${kValue >= 80 ? ' (sobrecomprado)' : kValue <= 20 ? ' (sobrevendido)' : ''}`,
+    series: { k, d }
+  };
+};
+
+const bollingerIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const bands = bollingerBands(candles);
+  const percentB = lastValue(bands.percentB);
+  const bandwidth = lastValue(bands.bandwidth);
+  if (percentB === null || bandwidth === null) return null;
+
+  // Compressão: largura atual entre as menores do trecho recente antecede expansão de volatilidade
+  const recentWidths = bands.bandwidth.slice(-50).filter((value): value is number => value !== null);
+  const squeeze = recentWidths.length >= 10 && bandwidth <= Math.min(...recentWidths) * 1.1;
+
+  let signal: Signal = 'neutro';
+  let strength: Strength = 'fraca';
+  let description: string;
+  if (percentB > 1) {
+    signal = 'baixa';
+    strength = percentB > 1.1 ? 'forte' : 'moderada';
+    description = 'Fechamento acima da banda superior: preço esticado';
+  } else if (percentB < 0) {
+    signal = 'alta';
+    strength = percentB < -0.1 ? 'forte' : 'moderada';
+    description = 'Fechamento abaixo da banda inferior: preço esticado para baixo';
+  } else if (squeeze) {
+    description = 'Bandas comprimidas: rompimento de volatilidade provável';
+  } else {
+    signal = percentB > 0.5 ? 'alta' : percentB < 0.5 ? 'baixa' : 'neutro';
+    description = `Preço na metade ${percentB > 0.5 ? 'superior' : 'inferior'} das bandas`;
+  }
+  return {
+    name: 'Bandas de Bollinger',
+    value: `%B ${format(percentB)} / largura ${format(bandwidth * 100)}%`,
+    signal,
+    strength,
+    description,
+    series: { middle: bands.middle, upper: bands.upper, lower: bands.lower, bandwidth: bands.bandwidth, percentB: bands.percentB }
+  };
+};
+
+// Fita alinhada (curtas acima das longas) indica tendência; o preço acima de todas a confirma
+const ribbonIndicator = (candles: CandleData[], kind: 'ema' | 'sma'): TechnicalIndicator | null => {
+  const ribbon = movingAverageRibbon(candles, kind === 'ema' ? EMA_RIBBON : SMA_RIBBON, kind)
+    .map(line => ({ ...line, last: lastValue(line.values) }))
+    .filter((line): line is typeof line & { last: number } => line.last !== null);
+  if (ribbon.length < 2) return null;
+
+  const close = candles[candles.length - 1].close;
+  const pairs = ribbon.slice(1).map((line, i) => ribbon[i].last - line.last);
+  const bullish = pairs.every(gap => gap > 0);
+  const bearish = pairs.every(gap => gap < 0);
+  const aboveAll = ribbon.every(line => close > line.last);
+  const belowAll = ribbon.every(line => close < line.last);
+
+  const signal: Signal = bullish ? 'alta' : bearish ? 'baixa' : 'neutro';
+  const strength: Strength = (bullish && aboveAll) || (bearish && belowAll) ? 'forte'
+    : bullish || bearish ? 'moderada'
+    : 'fraca';
+  const label = kind === 'ema' ? 'EMA' : 'SMA';
+  return {
+    name: `Fita de ${label}s`,
+    value: ribbon.map(line => `${label}${line.period} ${format(line.last, 4)}`).join(' / '),
+    signal,
+    strength,
+    description: bullish ? `${label}s alinhadas em alta${aboveAll ? ', preço acima de todas' : ''}`
+      : bearish ? `${label}s alinhadas em baixa${belowAll ? ', preço abaixo de todas' : ''}`
+      : `${label}s entrelaçadas: sem tendência definida`,
+    series: Object.fromEntries(ribbon.map(line => [`${kind}${line.period}`, line.values]))
+  };
+};
+
+// ATR mede volatilidade, não direção
+const atrIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const values = atr(candles);
+  const value = lastValue(values);
+  if (value === null) return null;
+
+  const recent = values.slice(-20).filter((v): v is number => v !== null);
+  const average = recent.reduce((sum, v) => sum + v, 0) / recent.length;
+  const ratio = average > 0 ? value / average : 1;
+  const percent = (value / candles[candles.length - 1].close) * 100;
+  return {
+    name: 'ATR',
+    value: `${format(value, 4)} (${format(percent)}%)`,
     signal: 'neutro',
-    strength: 'moderada',
-    description: 'RSI em nível neutro'
-  }];
+    strength: ratio > 1.3 ? 'forte' : ratio > 1 ? 'moderada' : 'fraca',
+    description: ratio > 1.3 ? 'Volatilidade em expansão: stops mais largos'
+      : ratio < 0.8 ? 'Volatilidade em contração'
+      : 'Volatilidade estável',
+    series: { atr: values }
+  };
+};
+
+const adxIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const lines = adx(candles);
+  const value = lastValue(lines.adx);
+  const plus = lastValue(lines.plusDI);
+  const minus = lastValue(lines.minusDI);
+  if (value === null || plus === null || minus === null) return null;
+
+  // Abaixo de 20 não há tendência para seguir; a direção vem do DI dominante
+  const signal: Signal = value < 20 ? 'neutro' : plus > minus ? 'alta' : 'baixa';
+  return {
+    name: 'ADX',
+    value: `${format(value, 1)} (+DI ${format(plus, 1)} / -DI ${format(minus, 1)})`,
+    signal,
+    strength: value > 40 ? 'forte' : value > 25 ? 'moderada' : 'fraca',
+    description: value < 20 ? 'Mercado sem tendência (ADX abaixo de 20)'
+      : `Tendência de ${plus > minus ? 'alta' : 'baixa'} ${value > 40 ? 'forte' : value > 25 ? 'estabelecida' : 'incipiente'}`,
+    series: { adx: lines.adx, plusDI: lines.plusDI, minusDI: lines.minusDI }
+  };
+};
+
+// CCI acima de +100 ou abaixo de -100 marca impulso; além de ±200 o movimento está esticado
+const cciIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const values = cci(candles);
+  const value = lastValue(values);
+  if (value === null) return null;
+  const signal: Signal = value > 100 ? 'alta' : value < -100 ? 'baixa' : 'neutro';
+  return {
+    name: 'CCI',
+    value: format(value, 1),
+    signal,
+    strength: Math.abs(value) > 200 ? 'forte' : Math.abs(value) > 100 ? 'moderada' : 'fraca',
+    description: Math.abs(value) > 200 ? `CCI extremo (${format(value, 0)}): impulso esticado, atenção à exaustão`
+      : Math.abs(value) > 100 ? `Impulso de ${value > 0 ? 'alta' : 'baixa'} (CCI ${format(value, 0)})`
+      : 'CCI dentro da faixa normal',
+    series: { cci: values }
+  };
+};
+
+const williamsIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const values = williamsR(candles);
+  const value = lastValue(values);
+  if (value === null) return null;
+  const { signal, strength } = oscillatorSignal(value, -80, -20, 10);
+  return {
+    name: 'Williams %R',
+    value: format(value, 1),
+    signal,
+    strength,
+    description: value >= -20 ? 'Fechamento perto da máxima do período (sobrecomprado)'
+      : value <= -80 ? 'Fechamento perto da mínima do período (sobrevendido)'
+      : 'Fechamento no meio da faixa do período',
+    series: { williamsR: values }
+  };
+};
+
+// OBV confirma o preço quando ambos sobem ou descem juntos; direções opostas indicam divergência
+const obvIndicator = (candles: CandleData[]): TechnicalIndicator | null => {
+  const values = obv(candles);
+  if (!values || candles.length < 10) return null;
+  const volumeSlope = slope(values, 20);
+  const priceSlope = slope(candles.map(c => c.close), 20);
+  if (volumeSlope === null || priceSlope === null) return null;
+
+  const volumeDirection = Math.sign(volumeSlope);
+  const priceDirection = Math.sign(priceSlope);
+  const diverging = volumeDirection !== 0 && priceDirection !== 0 && volumeDirection !== priceDirection;
+  return {
+    name: 'OBV',
+    value: format(lastValue(values) as number, 0),
+    signal: volumeDirection > 0 ? 'alta' : volumeDirection < 0 ? 'baixa' : 'neutro',
+    strength: diverging ? 'forte' : volumeDirection === priceDirection && volumeDirection !== 0 ? 'moderada' : 'fraca',
+    description: diverging
+      ? `Divergência: volume ${volumeDirection > 0 ? 'acumulando' : 'distribuindo'} contra o preço`
+      : `Volume ${volumeDirection > 0 ? 'acumulando' : volumeDirection < 0 ? 'distribuindo' : 'estável'}${volumeDirection === priceDirection && volumeDirection !== 0 ? ', confirmando o preço' : ''}`,
+    series: { obv: values }
+  };
+};
+
+export const detectTechnicalIndicators = (candles: CandleData[]): TechnicalIndicator[] => {
+  if (candles.length < 2) return [];
+
+  return [
+    rsiIndicator(candles),
+    macdIndicator(candles),
+    stochasticIndicator(candles),
+    bollingerIndicator(candles),
+    ribbonIndicator(candles, 'ema'),
+    ribbonIndicator(candles, 'sma'),
+    atrIndicator(candles),
+    adxIndicator(candles),
+    cciIndicator(candles),
+    williamsIndicator(candles),
+    obvIndicator(candles)
+  ].filter((indicator): indicator is TechnicalIndicator => indicator !== null);
 };
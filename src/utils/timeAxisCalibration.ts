@@ -0,0 +1,391 @@
+/**
+ * Calibração do eixo de tempo: localiza a linha de rótulos abaixo do painel de
+ * preço, lê horários/datas com o OCR offline e carimba cada barra com o seu
+ * horário real, inferindo o timeframe pelo espaçamento entre rótulos.
+ */
+
+import { CandleData, TimeCalibration, TimeframeType } from '@/context/AnalyzerContext';
+import { detectTextBoxes, recognizeText, TIME_ALPHABET, TextBox } from './chartOcr';
+
+export const TIMEFRAME_DURATIONS: Record<TimeframeType, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+// Campos presentes em um rótulo do eixo de tempo (os ausentes vêm do contexto)
+export interface ParsedTimeLabel {
+  year?: number;
+  month?: number; // 0-11
+  day?: number;
+  hours?: number;
+  minutes?: number;
+}
+
+// Abreviações em inglês e português
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, fev: 1, mar: 2, apr: 3, abr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, ago: 7, sep: 8, set: 8, oct: 9, out: 9, nov: 10, dec: 11, dez: 11
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const assignField = (target: ParsedTimeLabel, field: keyof ParsedTimeLabel, value: number): boolean => {
+  if (target[field] !== undefined) return false;
+  target[field] = value;
+  return true;
+};
+
+// Interpretar um rótulo do eixo de tempo ("14:30", "12 Mar", "2024.03.12", "Mar", "2024"...)
+export const parseTimeLabel = (text: string): ParsedTimeLabel | null => {
+  const normalized = text
+    .trim()
+    .replace(/\s*([:/.-])\s*/g, '$1')
+    .replace(/\s+/g, ' ');
+  if (!normalized) return null;
+
+  const result: ParsedTimeLabel = {};
+
+  for (const token of normalized.split(' ')) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = token.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/))) {
+      const hours = parseInt(match[1], 10);
+      const minutes = parseInt(match[2], 10);
+      if (hours > 23 || minutes > 59) return null;
+      if (!assignField(result, 'hours', hours) || !assignField(result, 'minutes', minutes)) return null;
+    } else if ((match = token.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})$/))) {
+      if (!assignField(result, 'year', parseInt(match[1], 10)) ||
+          !assignField(result, 'month', parseInt(match[2], 10) - 1) ||
+          !assignField(result, 'day', parseInt(match[3], 10))) return null;
+    } else if ((match = token.match(/^(\d{1,2})[./-](\d{1,2})(?:[./-](\d{2}|\d{4}))?$/))) {
+      // Dia primeiro por padrão; inverter quando o segundo campo só pode ser dia
+      let day = parseInt(match[1], 10);
+      let month = parseInt(match[2], 10);
+      if (month > 12 && day <= 12) {
+        [day, month] = [month, day];
+      }
+      if (!assignField(result, 'day', day) || !assignField(result, 'month', month - 1)) return null;
+      if (match[3]) {
+        const year = parseInt(match[3], 10);
+        if (!assignField(result, 'year', match[3].length === 2 ? 2000 + year : year)) return null;
+      }
+    } else if (/^[A-Za-z0-9]{3,}$/.test(token) && /[A-Za-z]/.test(token)) {
+      // Confusões comuns do OCR entre dígitos e letras em nomes de mês
+      const name = token.toLowerCase().replace(/0/g, 'o').replace(/1/g, 'l').replace(/5/g, 's').slice(0, 3);
+      if (!(name in MONTHS) || !assignField(result, 'month', MONTHS[name])) return null;
+    } else if (/^\d{4}$/.test(token)) {
+      const year = parseInt(token, 10);
+      if (year < 1970 || year > 2100 || !assignField(result, 'year', year)) return null;
+    } else if (/^\d{1,2}$/.test(token)) {
+      const day = parseInt(token, 10);
+      if (day < 1 || day > 31 || !assignField(result, 'day', day)) return null;
+    } else {
+      return null;
+    }
+  }
+
+  if (result.month !== undefined && (result.month < 0 || result.month > 11)) return null;
+  if (result.day !== undefined && (result.day < 1 || result.day > 31)) return null;
+
+  return Object.keys(result).length > 0 ? result : null;
+};
+
+// Completar os campos ausentes a partir de um horário de referência posterior
+const resolveLabelTime = (label: ParsedTimeLabel, context: number, allowEqual: boolean): number => {
+  const ref = new Date(context);
+  const hasDate = label.year !== undefined || label.month !== undefined || label.day !== undefined;
+
+  const year = label.year ?? ref.getFullYear();
+  const month = label.month ?? (label.year !== undefined ? 0 : ref.getMonth());
+  const day = label.day ?? (label.month !== undefined || label.year !== undefined ? 1 : ref.getDate());
+  const hours = label.hours ?? (hasDate ? 0 : ref.getHours());
+  const minutes = label.minutes ?? (hasDate ? 0 : ref.getMinutes());
+
+  const resolved = new Date(year, month, day, hours, minutes, 0, 0);
+
+  // O rótulo deve ficar antes da referência: recuar a menor unidade ausente
+  for (let step = 0; step < 3; step++) {
+    const time = resolved.getTime();
+    if (time < context || (allowEqual && time === context)) break;
+
+    if (label.day === undefined && label.month === undefined && label.year === undefined) {
+      resolved.setDate(resolved.getDate() - 1);
+    } else if (label.month === undefined && label.year === undefined) {
+      resolved.setMonth(resolved.getMonth() - 1);
+    } else if (label.year === undefined) {
+      resolved.setFullYear(resolved.getFullYear() - 1);
+    } else {
+      break;
+    }
+  }
+
+  return resolved.getTime();
+};
+
+// Encontrar a linha de rótulos do eixo de tempo na parte inferior do gráfico
+export const detectTimeAxisRow = (
+  boxes: TextBox[],
+  width: number,
+  height: number,
+  excludeColumns?: { x: number; width: number }
+): { y: number; height: number; boxes: TextBox[] } | null => {
+  const candidates = boxes.filter(box => {
+    if (box.y + box.height / 2 < height * 0.6) return false;
+    if (excludeColumns) {
+      const center = box.x + box.width / 2;
+      if (center >= excludeColumns.x && center < excludeColumns.x + excludeColumns.width) return false;
+    }
+    return true;
+  });
+
+  let bestRow: TextBox[] = [];
+  for (const seed of candidates) {
+    const row = candidates.filter(box => {
+      const overlap = Math.min(seed.y + seed.height, box.y + box.height) - Math.max(seed.y, box.y);
+      return overlap >= Math.min(seed.height, box.height) * 0.5;
+    });
+    // Preferir a linha com mais rótulos; em empate, a mais baixa
+    if (row.length > bestRow.length ||
+        (row.length === bestRow.length && row.length > 0 && seed.y > bestRow[0].y)) {
+      bestRow = row;
+    }
+  }
+
+  if (bestRow.length < 2) return null;
+
+  const xs = bestRow.map(box => box.x);
+  const spread = Math.max(...bestRow.map(box => box.x + box.width)) - Math.min(...xs);
+  if (spread < width * 0.25) return null;
+
+  const top = Math.max(0, Math.min(...bestRow.map(box => box.y)) - 2);
+  const bottom = Math.min(height, Math.max(...bestRow.map(box => box.y + box.height)) + 2);
+
+  return {
+    y: top,
+    height: bottom - top,
+    boxes: [...bestRow].sort((a, b) => a.x - b.x)
+  };
+};
+
+// Índice de barra para cada posição x, a partir do passo médio entre candles
+const buildBarIndexer = (candles: CandleData[]): ((x: number) => number) | null => {
+  const xs = candles
+    .map(candle => candle.position?.x)
+    .filter((x): x is number => x !== undefined)
+    .sort((a, b) => a - b);
+  if (xs.length < 2) return null;
+
+  const step = median(xs.slice(1).map((x, i) => x - xs[i]).filter(dx => dx > 1));
+  if (!step) return null;
+
+  const origin = xs[0];
+  return (x: number) => Math.round((x - origin) / step);
+};
+
+// Ajustar a duração por barra ao timeframe padrão mais próximo
+const snapToTimeframe = (durationMs: number): { timeframe: TimeframeType; error: number } => {
+  let best: TimeframeType = '1m';
+  let bestError = Infinity;
+  for (const [timeframe, duration] of Object.entries(TIMEFRAME_DURATIONS) as [TimeframeType, number][]) {
+    const error = Math.abs(Math.log(durationMs / duration));
+    if (error < bestError) {
+      bestError = error;
+      best = timeframe;
+    }
+  }
+  return { timeframe: best, error: bestError };
+};
+
+// Rótulos lidos do eixo de tempo (antes de associá-los às barras)
+export interface TimeAxisReading {
+  row: { y: number; height: number };
+  labels: { x: number; text: string; ocrConfidence: number; parsed: ParsedTimeLabel | null }[];
+}
+
+// Localizar e ler o eixo de tempo; exige ao menos dois rótulos interpretáveis
+export const readTimeAxis = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  textBoxes?: TextBox[],
+  excludeColumns?: { x: number; width: number }
+): TimeAxisReading | null => {
+  const boxes = textBoxes || detectTextBoxes(data, width, height);
+  const row = detectTimeAxisRow(boxes, width, height, excludeColumns);
+  if (!row) return null;
+
+  const labels = row.boxes.map(box => {
+    const ocr = recognizeText(data, width, height, box, TIME_ALPHABET);
+    return {
+      x: box.x + box.width / 2,
+      text: ocr.text,
+      ocrConfidence: ocr.confidence,
+      parsed: parseTimeLabel(ocr.text)
+    };
+  });
+
+  // Sem rótulos legíveis a linha é outra coisa (candles vazados, legendas...)
+  if (labels.filter(label => label.parsed).length < 2) return null;
+
+  return { row: { y: row.y, height: row.height }, labels };
+};
+
+// Associar os rótulos às barras e inferir o timeframe pelo espaçamento entre eles
+export const calibrateTimeAxis = (
+  reading: TimeAxisReading | null,
+  candles: CandleData[],
+  options: {
+    fallbackTimeframe?: TimeframeType;
+    referenceTime?: number;
+  } = {}
+): TimeCalibration | null => {
+  const barIndexAt = buildBarIndexer(candles);
+  if (!reading || !barIndexAt) {
+    console.log('Eixo de tempo não encontrado, usando o timeframe selecionado');
+    return null;
+  }
+
+  const referenceTime = options.referenceTime ?? Date.now();
+  const row = reading.row;
+
+  const recognized = reading.labels.map(label => ({
+    ...label,
+    barIndex: barIndexAt(label.x)
+  }));
+
+  // Resolver os horários da direita para a esquerda: o rótulo mais recente ancora no horário atual
+  const timestamps: (number | null)[] = recognized.map(() => null);
+  let context = referenceTime;
+  let first = true;
+  for (let i = recognized.length - 1; i >= 0; i--) {
+    const parsed = recognized[i].parsed;
+    if (!parsed) continue;
+    timestamps[i] = resolveLabelTime(parsed, context, first);
+    context = timestamps[i]!;
+    first = false;
+  }
+
+  // Votar na duração por barra entre pares consecutivos de rótulos
+  const resolvedIdx = recognized.map((_, i) => i).filter(i => timestamps[i] !== null);
+  const votes: { timeframe: TimeframeType; pair: [number, number] }[] = [];
+  for (let k = 1; k < resolvedIdx.length; k++) {
+    const a = resolvedIdx[k - 1];
+    const b = resolvedIdx[k];
+    const bars = recognized[b].barIndex - recognized[a].barIndex;
+    const elapsed = timestamps[b]! - timestamps[a]!;
+    if (bars <= 0 || elapsed <= 0) continue;
+
+    const snapped = snapToTimeframe(elapsed / bars);
+    // Tolerar ~25% de erro (barras perdidas na segmentação, arredondamentos)
+    if (snapped.error < 0.25) {
+      votes.push({ timeframe: snapped.timeframe, pair: [a, b] });
+    }
+  }
+
+  const tally = new Map<TimeframeType, number>();
+  for (const vote of votes) {
+    tally.set(vote.timeframe, (tally.get(vote.timeframe) || 0) + 1);
+  }
+  let inferred: TimeframeType | null = null;
+  let inferredVotes = 0;
+  for (const [candidate, count] of tally) {
+    if (count > inferredVotes) {
+      inferred = candidate;
+      inferredVotes = count;
+    }
+  }
+
+  const pairCount = Math.max(1, resolvedIdx.length - 1);
+  if (inferred && inferredVotes / pairCount < 0.5) {
+    inferred = null;
+  }
+
+  // Rótulos coerentes com o timeframe vencedor
+  const inlier = recognized.map(() => false);
+  for (const vote of votes) {
+    if (vote.timeframe === inferred) {
+      inlier[vote.pair[0]] = true;
+      inlier[vote.pair[1]] = true;
+    }
+  }
+  if (!inferred) {
+    resolvedIdx.forEach(i => { inlier[i] = true; });
+  }
+
+  const timeframe: TimeframeType | null = inferred;
+  const fallback = options.fallbackTimeframe || '1m';
+  const parsedRatio = resolvedIdx.length / recognized.length;
+  const ocrQuality = recognized.reduce((sum, label) => sum + label.ocrConfidence, 0) / recognized.length;
+  const agreement = timeframe ? inferredVotes / pairCount : 0;
+  const confidence = Math.min(1, resolvedIdx.length / 3) * (
+    parsedRatio * 0.3 +
+    ocrQuality * 0.3 +
+    agreement * 0.4
+  );
+
+  const calibration: TimeCalibration = {
+    timeframe,
+    barDurationMs: TIMEFRAME_DURATIONS[timeframe || fallback],
+    confidence: parseFloat(Math.max(0, Math.min(1, confidence)).toFixed(2)),
+    axisBounds: { y: row.y, height: row.height },
+    labels: recognized.map((label, i) => ({
+      x: label.x,
+      barIndex: label.barIndex,
+      text: label.text,
+      timestamp: timestamps[i],
+      inlier: inlier[i]
+    }))
+  };
+
+  console.log(`Eixo de tempo: ${resolvedIdx.length}/${recognized.length} rótulos lidos, timeframe ${timeframe || `não inferido (usando ${fallback})`}`);
+
+  return calibration;
+};
+
+// Carimbar cada candle com o horário real (modifica os candles in-place)
+export const assignCandleTimestamps = (
+  candles: CandleData[],
+  calibration: TimeCalibration | null,
+  fallbackTimeframe: TimeframeType = '1m',
+  referenceTime: number = Date.now()
+): void => {
+  if (candles.length === 0) return;
+
+  const barDuration = calibration?.barDurationMs || TIMEFRAME_DURATIONS[fallbackTimeframe];
+  const barIndexAt = buildBarIndexer(candles);
+  const anchors = (calibration?.labels || []).filter(label => label.inlier && label.timestamp !== null);
+
+  if (!barIndexAt || anchors.length === 0) {
+    // Sem rótulos: a última barra é a atual, alinhada ao início do período
+    const lastOpen = Math.floor(referenceTime / barDuration) * barDuration;
+    const sorted = [...candles].sort((a, b) => (a.position?.x ?? 0) - (b.position?.x ?? 0));
+    const lastIndex = barIndexAt ? barIndexAt(sorted[sorted.length - 1].position?.x ?? 0) : sorted.length - 1;
+    sorted.forEach((candle, i) => {
+      const index = barIndexAt ? barIndexAt(candle.position?.x ?? 0) : i;
+      candle.timestamp = lastOpen - (lastIndex - index) * barDuration;
+    });
+    return;
+  }
+
+  // Usar o rótulo mais próximo como âncora: lacunas de sessão ficam restritas entre rótulos
+  for (const candle of candles) {
+    const index = barIndexAt(candle.position?.x ?? 0);
+    let anchor = anchors[0];
+    for (const label of anchors) {
+      if (Math.abs(label.barIndex - index) < Math.abs(anchor.barIndex - index)) {
+        anchor = label;
+      }
+    }
+    candle.timestamp = anchor.timestamp! + (index - anchor.barIndex) * barDuration;
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * Reamostragem de candles para timeframes maiores: agrupa as barras pelo
+ * horário real quando os timestamps são crescentes e, sem eles, em blocos de
+ * tamanho fixo alinhados ao último candle (o bloco atual termina na última barra).
+ * Os grupos por horário seguem o UTC; as semanas começam na segunda-feira.
+ */
+
+import { CandleData, TimeframeType } from '@/context/AnalyzerContext';
+import { TIMEFRAME_DURATIONS } from './timeAxisCalibration';
+
+// A época Unix caiu numa quinta-feira: a primeira segunda-feira 00:00 UTC é 4 dias depois
+const WEEK_ORIGIN = 4 * TIMEFRAME_DURATIONS['1d'];
+
+const mergeBucket = (bucket: CandleData[], timestamp: number): CandleData => ({
+  open: bucket[0].open,
+  high: Math.max(...bucket.map(c => c.high)),
+  low: Math.min(...bucket.map(c => c.low)),
+  close: bucket[bucket.length - 1].close,
+  timestamp,
+  // Volume só quando todas as barras do grupo trazem volume
+  volume: bucket.every(c => c.volume !== undefined)
+    ? bucket.reduce((sum, c) => sum + (c.volume as number), 0)
+    : undefined
+});
+
+export const resampleCandles = (candles: CandleData[], from: TimeframeType, to: TimeframeType): CandleData[] => {
+  const duration = TIMEFRAME_DURATIONS[to];
+  const factor = Math.round(duration / TIMEFRAME_DURATIONS[from]);
+  if (factor <= 1 || candles.length === 0) return candles;
+
+  const stamped = candles.every((c, i) => c.timestamp > 0 && (i === 0 || c.timestamp > candles[i - 1].timestamp));
+  const offset = (factor - (candles.length % factor)) % factor;
+  const origin = to === '1w' ? WEEK_ORIGIN : 0;
+  const bucketOf = (candle: CandleData, index: number) =>
+    stamped ? Math.floor((candle.timestamp - origin) / duration) : Math.floor((index + offset) / factor);
+
+  const result: CandleData[] = [];
+  let bucket: CandleData[] = [];
+  let current = bucketOf(candles[0], 0);
+  const flush = () => {
+    if (bucket.length > 0) result.push(mergeBucket(bucket, stamped ? origin + current * duration : bucket[0].timestamp));
+  };
+
+  candles.forEach((candle, index) => {
+    const key = bucketOf(candle, index);
+    if (key !== current) {
+      flush();
+      bucket = [];
+      current = key;
+    }
+    bucket.push(candle);
+  });
+  flush();
+  return result;
+};
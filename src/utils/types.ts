@@ -7,6 +7,8 @@ export interface DetectedPattern {
   action: 'compra' | 'venda' | 'neutro';
   confidence: number;
   description: string;
+  startIndex?: number; // Primeiro e último candle do padrão na série analisada
+  endIndex?: number;
   coordinates?: {
     x: number;
     y: number;
@@ -0,0 +1,118 @@
+/**
+ * Gravações de tela de uma sessão: o vídeo é decodificado localmente por um
+ * elemento <video> e os frames são amostrados no fechamento de cada candle,
+ * quando a barra já está completa na tela.
+ */
+
+import { TimeframeType } from '@/context/AnalyzerContext';
+import { TIMEFRAME_DURATIONS } from './timeAxisCalibration';
+
+export interface VideoSample {
+  videoTime: number; // Posição no vídeo, em segundos
+  wallTime: number; // Horário correspondente da sessão gravada (ms)
+}
+
+// Quanto antes do fechamento amostrar: a barra está completa, mas a próxima ainda não abriu
+const CLOSE_LEAD_MS = 1000;
+// Sessões longas amostram um fechamento a cada N candles para não passar deste total
+const MAX_SAMPLES = 240;
+// Tempo máximo para o navegador posicionar o vídeo e exibir o frame
+const SEEK_TIMEOUT_MS = 10000;
+
+const abortError = () => new DOMException('Análise cancelada', 'AbortError');
+
+// Abrir o arquivo num <video> fora da tela e aguardar os metadados (duração e dimensões)
+export const loadVideoFile = (file: File): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => {
+      if (!Number.isFinite(video.duration) || video.videoWidth === 0) {
+        reject(new Error('Vídeo sem duração ou dimensões legíveis'));
+        return;
+      }
+      resolve(video);
+    };
+    video.onerror = () => reject(new Error('Formato de vídeo não suportado pelo navegador'));
+    video.src = URL.createObjectURL(file);
+  });
+
+export const releaseVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Instantes de fechamento de candle ao longo da gravação
+export const candleCloseSamples = (
+  durationSeconds: number,
+  recordingStart: number, // Horário do primeiro frame (ms)
+  timeframe: TimeframeType
+): VideoSample[] => {
+  const bar = TIMEFRAME_DURATIONS[timeframe];
+  const end = recordingStart + durationSeconds * 1000;
+  const closes: number[] = [];
+  for (let close = Math.ceil((recordingStart + CLOSE_LEAD_MS) / bar) * bar; close <= end; close += bar) {
+    closes.push(close - CLOSE_LEAD_MS);
+  }
+
+  const stride = Math.max(1, Math.ceil(closes.length / MAX_SAMPLES));
+  const sampled = closes.filter((_, index) => index % stride === 0);
+
+  // O último frame mostra o estado final da sessão, mesmo no meio de um candle
+  const lastFrame = Math.max(recordingStart, end - 100);
+  if (sampled.length === 0 || lastFrame - sampled[sampled.length - 1] > bar / 2) sampled.push(lastFrame);
+
+  return sampled.map(wallTime => ({ videoTime: (wallTime - recordingStart) / 1000, wallTime }));
+};
+
+// Posicionar o vídeo e copiar o frame exibido como bitmap (transferível ao worker).
+// Rejeita com AbortError se cancelado e com erro se o vídeo falhar ou não terminar a busca a tempo
+export const grabVideoFrame = (
+  video: HTMLVideoElement,
+  time: number,
+  options: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<ImageBitmap> => {
+  const { signal, timeoutMs = SEEK_TIMEOUT_MS } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    let settled = false;
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      action();
+    };
+    const onSeeked = () => {
+      createImageBitmap(video).then(
+        bitmap => {
+          // Cancelado enquanto o bitmap era criado: ninguém vai usá-lo
+          if (settled) bitmap.close();
+          else finish(() => resolve(bitmap));
+        },
+        error => finish(() => reject(error))
+      );
+    };
+    const onError = () => finish(() => reject(new Error('Erro ao decodificar o vídeo')));
+    const onAbort = () => finish(() => reject(abortError()));
+    const timer = setTimeout(
+      () => finish(() => reject(new Error(`O vídeo não chegou a ${time.toFixed(1)}s em ${timeoutMs / 1000}s`))),
+      timeoutMs
+    );
+
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort);
+    video.currentTime = Math.min(Math.max(0, time), video.duration);
+  });
+};
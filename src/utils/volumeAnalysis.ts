@@ -1,17 +1,72 @@
 
 import { CandleData, VolumeData } from "../context/AnalyzerContext";
 
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
 export const analyzeVolume = (candles: CandleData[]): VolumeData => {
-  // Mock volume analysis since CandleData doesn't have volume property
-  const mockVolume = Math.floor(Math.random() * 1000) + 500;
-  
+  // Apenas candles com volume lido do gráfico entram na análise
+  const withVolume = candles.filter(candle => candle.volume !== undefined && candle.volume >= 0);
+
+  if (withVolume.length < 3) {
+    return {
+      value: withVolume.length > 0 ? withVolume[withVolume.length - 1].volume! : 0,
+      trend: 'neutral',
+      abnormal: false,
+      significance: 'low',
+      relativeToAverage: 1,
+      distribution: 'neutral',
+      divergence: false
+    };
+  }
+
+  const window = withVolume.slice(-20);
+  const volumes = window.map(candle => candle.volume!);
+  const current = volumes[volumes.length - 1];
+  const previous = volumes.slice(0, -1);
+
+  // Volume atual comparado à média das barras anteriores
+  const mean = average(previous);
+  const stdDev = Math.sqrt(average(previous.map(volume => (volume - mean) ** 2)));
+  const relativeToAverage = mean > 0 ? current / mean : 1;
+
+  // Tendência: média das últimas barras contra a das barras anteriores
+  const half = Math.max(1, Math.floor(volumes.length / 2));
+  const recentAverage = average(volumes.slice(-half));
+  const olderAverage = average(volumes.slice(0, volumes.length - half));
+  const volumeChange = olderAverage > 0 ? recentAverage / olderAverage : 1;
+  const trend: VolumeData['trend'] = volumeChange > 1.1 ? 'increasing' : volumeChange < 0.9 ? 'decreasing' : 'neutral';
+
+  // Pico anormal: muito acima da média e da dispersão recente
+  const abnormal = relativeToAverage >= 2 || (stdDev > 0 && current > mean + 2 * stdDev);
+
+  const significance: VolumeData['significance'] =
+    relativeToAverage >= 1.5 ? 'high' : relativeToAverage >= 1.1 ? 'medium' : 'low';
+
+  // Acumulação/distribuição: volume negociado em candles de alta contra candles de baixa
+  let upVolume = 0;
+  let downVolume = 0;
+  for (const candle of window) {
+    if (candle.close > candle.open) upVolume += candle.volume!;
+    else if (candle.close < candle.open) downVolume += candle.volume!;
+  }
+  const distribution: VolumeData['distribution'] =
+    upVolume > downVolume * 1.2 ? 'accumulation' : downVolume > upVolume * 1.2 ? 'distribution' : 'neutral';
+
+  // Divergência: preço avança numa direção enquanto o volume seca
+  const firstClose = window[0].close;
+  const lastClose = window[window.length - 1].close;
+  const averageRange = average(window.map(candle => candle.high - candle.low));
+  const priceTrending = Math.abs(lastClose - firstClose) > averageRange * 2;
+  const divergence = priceTrending && trend === 'decreasing';
+
   return {
-    value: mockVolume,
-    trend: 'increasing',
-    abnormal: Math.random() > 0.7,
-    significance: 'medium',
-    relativeToAverage: parseFloat((Math.random() * (2.5 - 0.5) + 0.5).toFixed(2)),
-    distribution: 'neutral',
-    divergence: Math.random() > 0.6
+    value: current,
+    trend,
+    abnormal,
+    significance,
+    relativeToAverage: parseFloat(relativeToAverage.toFixed(2)),
+    distribution,
+    divergence
   };
 };
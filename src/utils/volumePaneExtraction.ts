@@ -0,0 +1,220 @@
+/**
+ * Leitura do painel de volume (histograma abaixo do gráfico de preço):
+ * localiza a linha de base comum das barras, mede cada barra e associa
+ * o volume ao candle correspondente pela posição horizontal.
+ */
+
+import { CandleData } from '@/context/AnalyzerContext';
+import { TextBox, VOLUME_ALPHABET, estimateBackgroundLuminance, recognizeText } from './chartOcr';
+
+export interface VolumeBar {
+  x: number; // Centro da barra
+  width: number;
+  height: number; // Altura em pixels a partir da linha de base
+  volume: number;
+}
+
+export interface VolumePane {
+  bounds: { y: number; height: number };
+  baseline: number; // y onde as barras começam
+  bars: VolumeBar[];
+  unitsPerPixel: number | null; // Volume por pixel quando o eixo do painel foi lido
+}
+
+// Barras precisam de ao menos esta altura (em pixels) para não confundir com linhas de grade
+const MIN_BAR_RUN = 3;
+const MIN_BARS = 8;
+
+// Interpretar rótulos de volume como "1.2M", "850K", "2,5B" ou "12000"
+export const parseVolumeLabel = (text: string): number | null => {
+  const match = text.trim().match(/^([0-9]+(?:[.,][0-9]+)?)([KMB])?$/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(',', '.'));
+  if (!isFinite(value)) return null;
+
+  const multiplier = match[2] === 'K' ? 1e3 : match[2] === 'M' ? 1e6 : match[2] === 'B' ? 1e9 : 1;
+  return value * multiplier;
+};
+
+// Pixels que não são fundo (barras de volume costumam ser semitransparentes, então o limiar é baixo)
+const buildInkMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  excludeColumns?: { x: number; width: number }
+): Uint8Array => {
+  const background = estimateBackgroundLuminance(data, width, height);
+  const mask = new Uint8Array(width * height);
+
+  for (let p = 0; p < width * height; p++) {
+    const x = p % width;
+    if (excludeColumns && x >= excludeColumns.x && x < excludeColumns.x + excludeColumns.width) continue;
+    const i = p * 4;
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+    if (Math.abs(luminance - background) > 25 || saturation > 40) mask[p] = 1;
+  }
+
+  return mask;
+};
+
+// Ler a escala do painel a partir dos rótulos do eixo dentro dele
+const calibrateVolumeScale = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  textBoxes: TextBox[],
+  pane: { y: number; height: number },
+  baseline: number
+): number | null => {
+  const scales: number[] = [];
+
+  for (const box of textBoxes) {
+    const center = box.y + box.height / 2;
+    if (center < pane.y || center > baseline - MIN_BAR_RUN) continue;
+
+    const { text, confidence } = recognizeText(data, width, height, box, VOLUME_ALPHABET);
+    if (confidence < 0.5) continue;
+
+    const value = parseVolumeLabel(text);
+    if (value !== null && value > 0) {
+      scales.push(value / (baseline - center));
+    }
+  }
+
+  if (scales.length === 0) return null;
+  scales.sort((a, b) => a - b);
+  return scales[Math.floor(scales.length / 2)];
+};
+
+// Localizar o painel de volume: barras verticais com a base alinhada numa mesma linha
+export const detectVolumePane = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: {
+    textBoxes?: TextBox[];
+    excludeColumns?: { x: number; width: number };
+    excludeRows?: { y: number; height: number };
+  } = {}
+): VolumePane | null => {
+  const mask = buildInkMask(data, width, height, options.excludeColumns);
+  const searchEnd = options.excludeRows ? options.excludeRows.y : height;
+  const searchStart = Math.floor(height * 0.5);
+  const isInk = (x: number, y: number) => y >= 0 && y < searchEnd && mask[y * width + x] === 1;
+
+  // 1. Linha de base: a linha onde mais colunas terminam um trecho vertical de tinta
+  let baseline = -1;
+  let bestCount = 0;
+  let bestSpread = 0;
+  for (let y = searchStart; y < searchEnd; y++) {
+    let count = 0;
+    let first = -1, last = -1;
+    for (let x = 0; x < width; x++) {
+      if (!isInk(x, y) || isInk(x, y + 1)) continue;
+      let run = 1;
+      while (run < MIN_BAR_RUN && isInk(x, y - run)) run++;
+      if (run < MIN_BAR_RUN) continue;
+      count++;
+      if (first < 0) first = x;
+      last = x;
+    }
+    if (count > bestCount) {
+      bestCount = count;
+      baseline = y;
+      bestSpread = last - first + 1;
+    }
+  }
+
+  if (baseline < 0 || bestCount < 8 || bestSpread < width * 0.4) return null;
+
+  // 2. Agrupar colunas adjacentes que terminam na linha de base em barras
+  const columnTops = new Array(width).fill(-1);
+  for (let x = 0; x < width; x++) {
+    if (!isInk(x, baseline) || isInk(x, baseline + 1)) continue;
+    let top = baseline;
+    while (isInk(x, top - 1)) top--;
+    if (baseline - top + 1 >= MIN_BAR_RUN) columnTops[x] = top;
+  }
+
+  const rawBars: { x1: number; x2: number; top: number }[] = [];
+  for (let x = 0; x < width; x++) {
+    if (columnTops[x] < 0) continue;
+    const x1 = x;
+    let top = columnTops[x];
+    while (x + 1 < width && columnTops[x + 1] >= 0) {
+      x++;
+      top = Math.min(top, columnTops[x]);
+    }
+    rawBars.push({ x1, x2: x, top });
+  }
+
+  if (rawBars.length < MIN_BARS) return null;
+
+  // 3. O painel vai do topo da barra mais alta até a linha de base; um painel maior que 40% da imagem não é volume
+  const paneTop = Math.max(0, Math.min(...rawBars.map(bar => bar.top)) - 2);
+  if (baseline - paneTop > height * 0.4) return null;
+
+  // Dentro do painel quase toda a tinta pertence a barras ancoradas na base
+  // (candles cujas bases coincidem por acaso convivem com outros que não terminam ali)
+  let inkColumns = 0;
+  let anchoredColumns = 0;
+  for (let x = 0; x < width; x++) {
+    let hasInk = false;
+    for (let y = paneTop; y <= baseline && !hasInk; y++) hasInk = isInk(x, y);
+    if (!hasInk) continue;
+    inkColumns++;
+    if (columnTops[x] >= 0) anchoredColumns++;
+  }
+  if (anchoredColumns < inkColumns * 0.6) return null;
+
+  const bounds = { y: paneTop, height: baseline - paneTop + 1 };
+  const unitsPerPixel = calibrateVolumeScale(data, width, height, options.textBoxes || [], bounds, baseline);
+
+  // Sem escala, o volume é relativo: a barra mais alta vale 100
+  const maxHeight = Math.max(...rawBars.map(bar => baseline - bar.top + 1));
+  const bars: VolumeBar[] = rawBars.map(bar => {
+    const barHeight = baseline - bar.top + 1;
+    return {
+      x: (bar.x1 + bar.x2) / 2,
+      width: bar.x2 - bar.x1 + 1,
+      height: barHeight,
+      volume: unitsPerPixel !== null
+        ? Math.round(barHeight * unitsPerPixel)
+        : parseFloat(((barHeight / maxHeight) * 100).toFixed(2))
+    };
+  });
+
+  console.log(`Painel de volume: ${bars.length} barras, base em y=${baseline}, ${unitsPerPixel !== null ? 'escala lida do eixo' : 'volume relativo'}`);
+
+  return { bounds, baseline, bars, unitsPerPixel };
+};
+
+// Associar cada barra de volume ao candle mais próximo na horizontal
+export const assignCandleVolumes = (candles: CandleData[], pane: VolumePane | null): void => {
+  if (!pane || pane.bars.length === 0) return;
+
+  const positioned = candles.filter(candle => candle.position);
+  const xs = positioned.map(candle => candle.position!.x).sort((a, b) => a - b);
+  const gaps = xs.slice(1).map((x, i) => x - xs[i]).sort((a, b) => a - b);
+  const spacing = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : Infinity;
+
+  for (const candle of positioned) {
+    let nearest: VolumeBar | null = null;
+    let nearestDistance = Infinity;
+    for (const bar of pane.bars) {
+      const distance = Math.abs(bar.x - candle.position!.x);
+      if (distance < nearestDistance) {
+        nearest = bar;
+        nearestDistance = distance;
+      }
+    }
+
+    const tolerance = Math.max(candle.width || 0, Math.min(spacing / 2, nearest?.width || 0), 2);
+    if (nearest && nearestDistance <= tolerance) {
+      candle.volume = nearest.volume;
+    }
+  }
+};